@@ -71,4 +71,15 @@ export const PANCAKESWAP_FACTORY_ABI = [
 		stateMutability: 'nonpayable',
 		type: 'function',
 	},
+	{
+		anonymous: false,
+		inputs: [
+			{ indexed: true, internalType: 'address', name: 'token0', type: 'address' },
+			{ indexed: true, internalType: 'address', name: 'token1', type: 'address' },
+			{ indexed: false, internalType: 'address', name: 'pair', type: 'address' },
+			{ indexed: false, internalType: 'uint256', name: '', type: 'uint256' },
+		],
+		name: 'PairCreated',
+		type: 'event',
+	},
 ] as const;
@@ -69,4 +69,24 @@ export const PANCAKESWAP_PAIR_ABI = [
 		stateMutability: 'view',
 		type: 'function',
 	},
+	{
+		anonymous: false,
+		inputs: [
+			{ indexed: false, internalType: 'uint112', name: 'reserve0', type: 'uint112' },
+			{ indexed: false, internalType: 'uint112', name: 'reserve1', type: 'uint112' },
+		],
+		name: 'Sync',
+		type: 'event',
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{ indexed: true, internalType: 'address', name: 'sender', type: 'address' },
+			{ indexed: false, internalType: 'uint256', name: 'amount0', type: 'uint256' },
+			{ indexed: false, internalType: 'uint256', name: 'amount1', type: 'uint256' },
+			{ indexed: true, internalType: 'address', name: 'to', type: 'address' },
+		],
+		name: 'Burn',
+		type: 'event',
+	},
 ] as const;
@@ -84,4 +84,22 @@ export const PANCAKESWAP_ROUTER_ABI = [
 		stateMutability: 'nonpayable',
 		type: 'function',
 	},
+	{
+		inputs: [
+			{ internalType: 'address', name: 'token', type: 'address' },
+			{ internalType: 'uint256', name: 'amountTokenDesired', type: 'uint256' },
+			{ internalType: 'uint256', name: 'amountTokenMin', type: 'uint256' },
+			{ internalType: 'uint256', name: 'amountETHMin', type: 'uint256' },
+			{ internalType: 'address', name: 'to', type: 'address' },
+			{ internalType: 'uint256', name: 'deadline', type: 'uint256' },
+		],
+		name: 'addLiquidityETH',
+		outputs: [
+			{ internalType: 'uint256', name: 'amountToken', type: 'uint256' },
+			{ internalType: 'uint256', name: 'amountETH', type: 'uint256' },
+			{ internalType: 'uint256', name: 'liquidity', type: 'uint256' },
+		],
+		stateMutability: 'payable',
+		type: 'function',
+	},
 ] as const;
@@ -0,0 +1,153 @@
+import TelegramBot from 'node-telegram-bot-api';
+import { runBacktest, buildBacktestCsv, formatBacktestSummary } from '../../core/backtest';
+import { getUserOrders } from '../../core/order';
+import { getProvider } from '../../core/wallet';
+import { User } from '../../database/models';
+import { BACKTEST_DEFAULT_BLOCKS, BACKTEST_MAX_BLOCKS } from '../../config/constants';
+import { logger } from '../../utils/logger';
+
+/**
+ * Bot instance for backtest handler
+ */
+let botInstance: TelegramBot;
+
+/**
+ * Only one backtest runs at a time (they are RPC heavy)
+ */
+let backtestRunning = false;
+
+/**
+ * Set bot instance (to avoid circular dependency)
+ */
+export function setBotInstance(bot: TelegramBot): void {
+	botInstance = bot;
+}
+
+/**
+ * Get bot instance
+ */
+function getBot(): TelegramBot {
+	if (!botInstance) {
+		throw new Error('Bot instance not initialized in backtest handler');
+	}
+	return botInstance;
+}
+
+/**
+ * Parse /backtest arguments into a block range
+ * - no arguments: last BACKTEST_DEFAULT_BLOCKS blocks
+ * - one number: last N blocks
+ * - two numbers: explicit fromBlock and toBlock
+ */
+function parseRange(args: string, latestBlock: number): { fromBlock: number; toBlock: number } | { error: string } {
+	const parts = args.trim().split(/\s+/).filter(Boolean);
+
+	if (parts.some((part) => !/^\d+$/.test(part)) || parts.length > 2) {
+		return { error: 'Usage: /backtest [blocks] or /backtest &lt;fromBlock&gt; &lt;toBlock&gt;' };
+	}
+
+	let fromBlock: number;
+	let toBlock: number;
+
+	if (parts.length === 2) {
+		fromBlock = parseInt(parts[0]);
+		toBlock = Math.min(parseInt(parts[1]), latestBlock);
+	} else {
+		const blocks = parts.length === 1 ? parseInt(parts[0]) : BACKTEST_DEFAULT_BLOCKS;
+		toBlock = latestBlock;
+		fromBlock = latestBlock - blocks + 1;
+	}
+
+	if (fromBlock > toBlock || fromBlock < 1) {
+		return { error: 'Invalid block range' };
+	}
+
+	if (toBlock - fromBlock + 1 > BACKTEST_MAX_BLOCKS) {
+		return { error: `Range too large (max ${BACKTEST_MAX_BLOCKS} blocks)` };
+	}
+
+	return { fromBlock, toBlock };
+}
+
+/**
+ * Handle /backtest command
+ * Replays the block range against all of the user's orders and sends a summary plus a CSV
+ */
+export async function handleBacktestCommand(chatId: string, args: string): Promise<void> {
+	let started = false;
+
+	try {
+		const user = await User.findOne({ chatId });
+		if (!user) {
+			await getBot().sendMessage(chatId, '❌ User not found. Please use /start first.');
+			return;
+		}
+
+		if (backtestRunning) {
+			await getBot().sendMessage(chatId, '⏳ A backtest is already running. Please try again when it finishes.');
+			return;
+		}
+
+		backtestRunning = true;
+		started = true;
+
+		const orders = await getUserOrders(user._id.toString());
+		if (orders.length === 0) {
+			await getBot().sendMessage(chatId, '❌ You have no orders to backtest. Create one in 📊 Orders first.');
+			return;
+		}
+
+		const latestBlock = await getProvider().getBlockNumber();
+		const range = parseRange(args, latestBlock);
+		if ('error' in range) {
+			await getBot().sendMessage(chatId, `❌ ${range.error}`, { parse_mode: 'HTML' });
+			return;
+		}
+
+		const progress = await getBot().sendMessage(
+			chatId,
+			`🧪 <b>Backtest Started</b>\n\n` +
+			`<b>Blocks:</b> ${range.fromBlock} → ${range.toBlock}\n` +
+			`<b>Orders:</b> ${orders.length}\n\n` +
+			`<i>Searching for migrations...</i>`,
+			{ parse_mode: 'HTML' }
+		);
+
+		// Update the progress message at most every 5 seconds
+		let lastUpdate = 0;
+		const result = await runBacktest(orders, range.fromBlock, range.toBlock, async (processed, total) => {
+			if (Date.now() - lastUpdate < 5000 && processed < total) return;
+			lastUpdate = Date.now();
+
+			try {
+				await getBot().editMessageText(
+					`🧪 <b>Backtest Running</b>\n\n` +
+					`<b>Blocks:</b> ${range.fromBlock} → ${range.toBlock}\n` +
+					`<b>Orders:</b> ${orders.length}\n\n` +
+					`Replayed ${processed}/${total} migrations...`,
+					{ chat_id: chatId, message_id: progress.message_id, parse_mode: 'HTML' }
+				);
+			} catch (error: any) {
+				logger.debug(`Failed to update backtest progress: ${error.message}`);
+			}
+		});
+
+		await getBot().sendMessage(chatId, formatBacktestSummary(result), { parse_mode: 'HTML' });
+
+		if (result.trades.length > 0) {
+			await getBot().sendDocument(
+				chatId,
+				Buffer.from(buildBacktestCsv(result)),
+				{ caption: `🧪 Backtest trades, blocks ${result.fromBlock}-${result.toBlock}` },
+				{ filename: `backtest_${result.fromBlock}_${result.toBlock}.csv`, contentType: 'text/csv' }
+			);
+		}
+	} catch (error: any) {
+		logger.error('Failed to run backtest:', error.message);
+		await getBot().sendMessage(chatId, `❌ Backtest failed: ${error.message}`);
+	} finally {
+		if (started) {
+			backtestRunning = false;
+		}
+	}
+}
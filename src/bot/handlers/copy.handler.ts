@@ -0,0 +1,484 @@
+import TelegramBot from 'node-telegram-bot-api';
+import { User, WatchedWallet } from '../../database/models';
+import {
+	createWatchedWallet,
+	getOrderWatchedWallets,
+	updateWatchedWallet,
+	removeWatchedWallet,
+} from '../../core/order/copy.manager';
+import { getOrderById } from '../../core/order/order.manager';
+import { copyTradeService } from '../../services/copy.trader';
+import { isValidAddress } from '../../utils/validation';
+import { escapeHtml, formatAddress, formatCopySizing, formatTimeAgo } from '../../utils/formatter';
+import { logger } from '../../utils/logger';
+import { CopySizingMode, MIN_TRADE_AMOUNT } from '../../config/constants';
+
+/**
+ * Bot instance for copy trading handler
+ */
+let botInstance: TelegramBot;
+
+/**
+ * Set bot instance (to avoid circular dependency)
+ */
+export function setBotInstance(bot: TelegramBot): void {
+	botInstance = bot;
+}
+
+/**
+ * Get bot instance
+ */
+function getBot(): TelegramBot {
+	if (!botInstance) {
+		throw new Error('Bot instance not initialized in copy handler');
+	}
+	return botInstance;
+}
+
+/**
+ * Watched wallet flow: address -> label -> sizing mode -> size -> max per token
+ * (or a single label step when renaming)
+ */
+interface CopyState {
+	step: 'address' | 'label' | 'sizing_mode' | 'size' | 'max' | 'rename';
+	orderId: string;
+	watchedWalletId?: string;
+	data: {
+		address?: string;
+		label?: string;
+		sizingMode?: CopySizingMode;
+		sizeValue?: number;
+	};
+}
+
+const copyStates = new Map<string, CopyState>();
+
+const MAX_LABEL_LENGTH = 32;
+
+/**
+ * Edit the given message, or send a new one
+ */
+async function sendOrEdit(
+	chatId: string,
+	text: string,
+	keyboard: TelegramBot.InlineKeyboardMarkup,
+	messageId?: number
+): Promise<void> {
+	if (messageId) {
+		try {
+			await getBot().editMessageText(text, {
+				chat_id: chatId,
+				message_id: messageId,
+				parse_mode: 'HTML',
+				reply_markup: keyboard,
+			});
+			return;
+		} catch (error: any) {
+			if (error.message?.includes('message is not modified')) return;
+			// Photo messages etc. can't be edited into text - fall through and send
+		}
+	}
+
+	await getBot().sendMessage(chatId, text, { parse_mode: 'HTML', reply_markup: keyboard });
+}
+
+/**
+ * Show watched wallets of an order
+ */
+export async function showWatchedWallets(chatId: string, orderId: string, messageId?: number): Promise<void> {
+	try {
+		copyStates.delete(chatId);
+
+		const user = await User.findOne({ chatId });
+		if (!user) {
+			await getBot().sendMessage(chatId, '❌ User not found.');
+			return;
+		}
+
+		const order = await getOrderById(orderId, user._id.toString());
+		if (!order) {
+			await getBot().sendMessage(chatId, '❌ Order not found.');
+			return;
+		}
+
+		const watchedWallets = await getOrderWatchedWallets(orderId, user._id.toString());
+
+		let text = `👀 <b>Copy Trading: ${order.name}</b>\n\n`;
+		text += `Copy the PancakeSwap V2 buys of watched wallets and mirror their sells. `;
+		text += `Copies use this order's wallet, gas, slippage and TP/SL levels.\n\n`;
+
+		if (watchedWallets.length === 0) {
+			text += '📭 No watched wallets yet.';
+		} else {
+			watchedWallets.forEach((watchedWallet, idx) => {
+				text += `${watchedWallet.isActive ? '🟢' : '⏸'} <b>#${idx + 1} ${escapeHtml(watchedWallet.label)}</b>\n`;
+				text += `   <code>${watchedWallet.address}</code>\n`;
+				text += `   ${formatCopySizing(watchedWallet)}\n`;
+				text += `   Sells: ${watchedWallet.mirrorSells ? 'mirrored' : 'ignored'} | Copied: ${watchedWallet.buysCopied} buys, ${watchedWallet.sellsCopied} sells`;
+				text += watchedWallet.lastCopiedAt ? ` (last ${formatTimeAgo(watchedWallet.lastCopiedAt)})\n` : '\n';
+			});
+		}
+
+		if (!order.isActive && watchedWallets.some((watchedWallet) => watchedWallet.isActive)) {
+			text += `\n⚠️ <i>TP/SL only runs while the order is active.</i>`;
+		}
+
+		const keyboard: TelegramBot.InlineKeyboardMarkup = { inline_keyboard: [] };
+
+		watchedWallets.forEach((watchedWallet, idx) => {
+			keyboard.inline_keyboard.push([
+				{
+					text: `${watchedWallet.isActive ? '⏸' : '▶️'} #${idx + 1}`,
+					callback_data: `copy_toggle_${watchedWallet._id}`,
+				},
+				{
+					text: watchedWallet.mirrorSells ? '🔁 Sells: ON' : '🔁 Sells: OFF',
+					callback_data: `copy_sells_${watchedWallet._id}`,
+				},
+				{ text: '✏️', callback_data: `copy_label_${watchedWallet._id}` },
+				{ text: '🗑', callback_data: `copy_remove_${watchedWallet._id}` },
+			]);
+		});
+
+		keyboard.inline_keyboard.push(
+			[{ text: '➕ Watch Wallet', callback_data: `copy_new_${orderId}` }],
+			[
+				{ text: '🔄 Refresh', callback_data: `order_copy_${orderId}` },
+				{ text: '🔙 Back to Order', callback_data: `order_view_${orderId}` },
+			]
+		);
+
+		await sendOrEdit(chatId, text, keyboard, messageId);
+	} catch (error: any) {
+		logger.error('Failed to show watched wallets:', error.message);
+		await getBot().sendMessage(chatId, '❌ Failed to load watched wallets.');
+	}
+}
+
+/**
+ * Start watching a new wallet
+ */
+export async function handleCopyCreate(chatId: string, orderId: string, messageId?: number): Promise<void> {
+	copyStates.set(chatId, { step: 'address', orderId, data: {} });
+
+	await sendOrEdit(
+		chatId,
+		'👀 <b>Watch Wallet</b>\n\nEnter the wallet address to copy:\n\n<i>Example: 0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb</i>',
+		{ inline_keyboard: [[{ text: '❌ Cancel', callback_data: `order_copy_${orderId}` }]] },
+		messageId
+	);
+}
+
+/**
+ * Handle sizing mode selection
+ */
+export async function handleCopySizingMode(
+	chatId: string,
+	sizingMode: CopySizingMode,
+	messageId?: number
+): Promise<void> {
+	const state = copyStates.get(chatId);
+	if (!state || state.step !== 'sizing_mode') {
+		await getBot().sendMessage(chatId, '❌ Copy trading session expired. Please start again.');
+		return;
+	}
+
+	state.data.sizingMode = sizingMode;
+	state.step = 'size';
+	copyStates.set(chatId, state);
+
+	const text = sizingMode === CopySizingMode.PROPORTIONAL
+		? `📐 <b>Proportional Size</b>\n\nEnter the percentage of their BNB to spend on each copy (1-1000):\n\n<i>Example: 25 (they buy with 1 BNB, we buy with 0.25 BNB)</i>`
+		: `💰 <b>Fixed Size</b>\n\nEnter the BNB amount to spend on each copy:\n\n<i>Example: 0.05</i>`;
+
+	await sendOrEdit(
+		chatId,
+		text,
+		{ inline_keyboard: [[{ text: '❌ Cancel', callback_data: `order_copy_${state.orderId}` }]] },
+		messageId
+	);
+}
+
+/**
+ * Pause or resume copying a watched wallet
+ */
+export async function handleCopyToggle(chatId: string, watchedWalletId: string, messageId?: number): Promise<void> {
+	await updateAndShow(chatId, watchedWalletId, messageId, (watchedWallet) => ({ isActive: !watchedWallet.isActive }));
+}
+
+/**
+ * Switch mirroring of a watched wallet's sells
+ */
+export async function handleCopySellsToggle(chatId: string, watchedWalletId: string, messageId?: number): Promise<void> {
+	await updateAndShow(chatId, watchedWalletId, messageId, (watchedWallet) => ({ mirrorSells: !watchedWallet.mirrorSells }));
+}
+
+/**
+ * Ask for a new label of a watched wallet
+ */
+export async function handleCopyRename(chatId: string, watchedWalletId: string, messageId?: number): Promise<void> {
+	try {
+		const user = await User.findOne({ chatId });
+		const watchedWallet = user ? await findWatchedWallet(user._id.toString(), watchedWalletId) : null;
+		if (!watchedWallet) {
+			await getBot().sendMessage(chatId, '❌ Watched wallet not found.');
+			return;
+		}
+
+		const orderId = watchedWallet.orderId.toString();
+		copyStates.set(chatId, { step: 'rename', orderId, watchedWalletId, data: {} });
+
+		await sendOrEdit(
+			chatId,
+			`✏️ <b>Rename Watched Wallet</b>\n\n` +
+			`<b>Current:</b> ${escapeHtml(watchedWallet.label)}\n` +
+			`<code>${watchedWallet.address}</code>\n\n` +
+			`Enter the new label (max ${MAX_LABEL_LENGTH} characters):`,
+			{ inline_keyboard: [[{ text: '❌ Cancel', callback_data: `order_copy_${orderId}` }]] },
+			messageId
+		);
+	} catch (error: any) {
+		logger.error('Failed to start watched wallet rename:', error.message);
+		await getBot().sendMessage(chatId, '❌ Failed to rename watched wallet.');
+	}
+}
+
+/**
+ * Stop watching a wallet
+ */
+export async function handleCopyRemove(chatId: string, watchedWalletId: string, messageId?: number): Promise<void> {
+	try {
+		const user = await User.findOne({ chatId });
+		if (!user) {
+			await getBot().sendMessage(chatId, '❌ User not found.');
+			return;
+		}
+
+		const result = await removeWatchedWallet(watchedWalletId, user._id.toString());
+		if (!result.success || !result.watchedWallet) {
+			await getBot().sendMessage(chatId, `❌ ${result.error}`);
+			return;
+		}
+
+		copyTradeService.invalidate();
+		await showWatchedWallets(chatId, result.watchedWallet.orderId.toString(), messageId);
+	} catch (error: any) {
+		logger.error('Failed to remove watched wallet:', error.message);
+		await getBot().sendMessage(chatId, '❌ Failed to remove watched wallet.');
+	}
+}
+
+/**
+ * Apply an update to a watched wallet and re-render its order's list
+ */
+async function updateAndShow(
+	chatId: string,
+	watchedWalletId: string,
+	messageId: number | undefined,
+	getUpdates: (watchedWallet: { isActive: boolean; mirrorSells: boolean }) => { isActive?: boolean; mirrorSells?: boolean }
+): Promise<void> {
+	try {
+		const user = await User.findOne({ chatId });
+		const watchedWallet = user ? await findWatchedWallet(user._id.toString(), watchedWalletId) : null;
+		if (!user || !watchedWallet) {
+			await getBot().sendMessage(chatId, '❌ Watched wallet not found.');
+			return;
+		}
+
+		const result = await updateWatchedWallet(watchedWalletId, user._id.toString(), getUpdates(watchedWallet));
+		if (!result.success) {
+			await getBot().sendMessage(chatId, `❌ ${result.error}`);
+			return;
+		}
+
+		copyTradeService.invalidate();
+		await showWatchedWallets(chatId, watchedWallet.orderId.toString(), messageId);
+	} catch (error: any) {
+		logger.error('Failed to update watched wallet:', error.message);
+		await getBot().sendMessage(chatId, '❌ Failed to update watched wallet.');
+	}
+}
+
+/**
+ * Find a watched wallet of the user
+ */
+function findWatchedWallet(userId: string, watchedWalletId: string) {
+	return WatchedWallet.findOne({ _id: watchedWalletId, userId });
+}
+
+/**
+ * Handle text input for the copy trading flow
+ * @returns True if the message was handled
+ */
+export async function handleCopyTextMessage(msg: any): Promise<boolean> {
+	const chatId = msg.chat.id.toString();
+	const text = msg.text?.trim();
+
+	if (!text) return false;
+
+	const state = copyStates.get(chatId);
+	if (!state) return false;
+
+	const cancelKeyboard: TelegramBot.InlineKeyboardMarkup = {
+		inline_keyboard: [[{ text: '❌ Cancel', callback_data: `order_copy_${state.orderId}` }]],
+	};
+
+	try {
+		if (state.step === 'address') {
+			if (!isValidAddress(text)) {
+				await getBot().sendMessage(chatId, '❌ Invalid wallet address. Please enter a valid BSC address.');
+				return true;
+			}
+
+			state.data.address = text.toLowerCase();
+			state.step = 'label';
+			copyStates.set(chatId, state);
+
+			await getBot().sendMessage(
+				chatId,
+				`✅ Address: <code>${state.data.address}</code>\n\n` +
+				`Enter a label for this wallet (max ${MAX_LABEL_LENGTH} characters), or <b>-</b> to use the short address:`,
+				{ parse_mode: 'HTML', reply_markup: cancelKeyboard }
+			);
+			return true;
+		}
+
+		if (state.step === 'label' || state.step === 'rename') {
+			const label = text === '-' && state.step === 'label' ? formatAddress(state.data.address!) : text;
+			if (label.length > MAX_LABEL_LENGTH) {
+				await getBot().sendMessage(chatId, `❌ Label too long (max ${MAX_LABEL_LENGTH} characters).`);
+				return true;
+			}
+
+			if (state.step === 'rename') {
+				const user = await User.findOne({ chatId });
+				copyStates.delete(chatId);
+
+				const result = user
+					? await updateWatchedWallet(state.watchedWalletId!, user._id.toString(), { label })
+					: { success: false, error: 'User not found' };
+				if (!result.success) {
+					await getBot().sendMessage(chatId, `❌ Failed to rename: ${result.error}`);
+					return true;
+				}
+
+				copyTradeService.invalidate();
+				await showWatchedWallets(chatId, state.orderId);
+				return true;
+			}
+
+			state.data.label = label;
+			state.step = 'sizing_mode';
+			copyStates.set(chatId, state);
+
+			await getBot().sendMessage(chatId, `✅ Label: ${escapeHtml(label)}\n\nSize each copied buy:`, {
+				parse_mode: 'HTML',
+				reply_markup: {
+					inline_keyboard: [
+						[{ text: '💰 Fixed BNB amount', callback_data: `copy_sizing_${CopySizingMode.FIXED}` }],
+						[{ text: '📐 Percentage of their buy', callback_data: `copy_sizing_${CopySizingMode.PROPORTIONAL}` }],
+						...cancelKeyboard.inline_keyboard,
+					],
+				},
+			});
+			return true;
+		}
+
+		if (state.step === 'sizing_mode') {
+			await getBot().sendMessage(chatId, '👆 Please choose a sizing mode with the buttons above.');
+			return true;
+		}
+
+		if (state.step === 'size') {
+			const value = parseFloat(text.replace('%', ''));
+			const proportional = state.data.sizingMode === CopySizingMode.PROPORTIONAL;
+
+			if (isNaN(value) || value <= 0 || (proportional && value > 1000)) {
+				await getBot().sendMessage(chatId, proportional
+					? '❌ Invalid percentage. Must be between 1 and 1000.'
+					: '❌ Invalid amount. Please enter a positive number.');
+				return true;
+			}
+
+			if (!proportional && value < MIN_TRADE_AMOUNT) {
+				await getBot().sendMessage(chatId, `❌ Minimum amount is ${MIN_TRADE_AMOUNT} BNB.`);
+				return true;
+			}
+
+			state.data.sizeValue = value;
+			state.step = 'max';
+			copyStates.set(chatId, state);
+
+			await getBot().sendMessage(
+				chatId,
+				`✅ Size: ${proportional ? `${value}% of their BNB` : `${value} BNB per buy`}\n\n` +
+				`Enter the maximum BNB to spend on one token across all copied buys (0 = no cap):\n\n` +
+				`<i>Example: 0.2</i>`,
+				{ parse_mode: 'HTML', reply_markup: cancelKeyboard }
+			);
+			return true;
+		}
+
+		if (state.step === 'max') {
+			const maxPerToken = parseFloat(text);
+			if (isNaN(maxPerToken) || maxPerToken < 0) {
+				await getBot().sendMessage(chatId, '❌ Invalid amount. Please enter 0 or a positive number.');
+				return true;
+			}
+
+			const user = await User.findOne({ chatId });
+			if (!user) {
+				await getBot().sendMessage(chatId, '❌ User not found.');
+				copyStates.delete(chatId);
+				return true;
+			}
+
+			const result = await createWatchedWallet(user._id.toString(), state.orderId, {
+				address: state.data.address!,
+				label: state.data.label!,
+				sizingMode: state.data.sizingMode!,
+				sizeValue: state.data.sizeValue!,
+				maxPerToken,
+			});
+
+			copyStates.delete(chatId);
+
+			if (!result.success || !result.watchedWallet) {
+				await getBot().sendMessage(chatId, `❌ Failed to watch wallet: ${result.error}`);
+				return true;
+			}
+
+			copyTradeService.invalidate();
+
+			const watchedWallet = result.watchedWallet;
+			let reply = `✅ <b>Wallet Watched</b>\n\n`;
+			reply += `<b>Label:</b> ${escapeHtml(watchedWallet.label)}\n`;
+			reply += `<code>${watchedWallet.address}</code>\n\n`;
+			reply += `<b>Sizing:</b> ${formatCopySizing(watchedWallet)}\n`;
+			reply += `<b>Sells:</b> mirrored\n\n`;
+			reply += `<i>Copying starts with their next swap. Requires the scanner to be enabled.</i>`;
+
+			await getBot().sendMessage(chatId, reply, {
+				parse_mode: 'HTML',
+				reply_markup: {
+					inline_keyboard: [[{ text: '👀 View Watched Wallets', callback_data: `order_copy_${state.orderId}` }]],
+				},
+			});
+			return true;
+		}
+	} catch (error: any) {
+		logger.error('Error handling copy trading input:', error.message);
+		await getBot().sendMessage(chatId, '❌ An error occurred. Please try again.');
+		copyStates.delete(chatId);
+		return true;
+	}
+
+	return false;
+}
+
+/**
+ * Clear copy trading flow state
+ */
+export function clearCopyState(chatId: string): void {
+	copyStates.delete(chatId);
+}
@@ -0,0 +1,443 @@
+import TelegramBot from 'node-telegram-bot-api';
+import { User } from '../../database/models';
+import { createLimitOrder, getOrderLimitOrders, cancelLimitOrder, calculateMarketCapUsd } from '../../core/order/limit.manager';
+import { getOrderById } from '../../core/order/order.manager';
+import { getTokenMetadata } from '../../core/token/token.service';
+import { priceService } from '../../core/price/price.service';
+import { isValidAddress, validateBnbAmount } from '../../utils/validation';
+import { formatDate, formatLimitTrigger, formatWithCommas } from '../../utils/formatter';
+import { logger } from '../../utils/logger';
+import {
+	LimitOrderStatus,
+	LimitTriggerType,
+	LIMIT_ORDER_DEFAULT_EXPIRY_HOURS,
+	LIMIT_ORDER_MAX_EXPIRY_HOURS,
+} from '../../config/constants';
+
+/**
+ * Bot instance for limit order handler
+ */
+let botInstance: TelegramBot;
+
+/**
+ * Set bot instance (to avoid circular dependency)
+ */
+export function setBotInstance(bot: TelegramBot): void {
+	botInstance = bot;
+}
+
+/**
+ * Get bot instance
+ */
+function getBot(): TelegramBot {
+	if (!botInstance) {
+		throw new Error('Bot instance not initialized in limit handler');
+	}
+	return botInstance;
+}
+
+/**
+ * Limit buy creation flow: token -> amount -> trigger type -> trigger value -> expiry
+ */
+interface LimitState {
+	step: 'token' | 'amount' | 'trigger_type' | 'trigger_value' | 'expiry';
+	orderId: string;
+	data: {
+		tokenAddress?: string;
+		tokenSymbol?: string;
+		totalSupply?: string;
+		decimals?: number;
+		currentPrice?: number | null;
+		bnbAmount?: number;
+		triggerType?: LimitTriggerType;
+		triggerValue?: number;
+	};
+}
+
+const limitStates = new Map<string, LimitState>();
+
+const STATUS_EMOJI: Record<string, string> = {
+	[LimitOrderStatus.PENDING]: '⏳',
+	[LimitOrderStatus.TRIGGERED]: '🎯',
+	[LimitOrderStatus.FILLED]: '✅',
+	[LimitOrderStatus.FAILED]: '❌',
+	[LimitOrderStatus.EXPIRED]: '⌛',
+	[LimitOrderStatus.CANCELLED]: '🚫',
+};
+
+/**
+ * Edit the given message, or send a new one
+ */
+async function sendOrEdit(
+	chatId: string,
+	text: string,
+	keyboard: TelegramBot.InlineKeyboardMarkup,
+	messageId?: number
+): Promise<void> {
+	if (messageId) {
+		try {
+			await getBot().editMessageText(text, {
+				chat_id: chatId,
+				message_id: messageId,
+				parse_mode: 'HTML',
+				reply_markup: keyboard,
+			});
+			return;
+		} catch (error: any) {
+			if (error.message?.includes('message is not modified')) return;
+			// Photo messages etc. can't be edited into text - fall through and send
+		}
+	}
+
+	await getBot().sendMessage(chatId, text, { parse_mode: 'HTML', reply_markup: keyboard });
+}
+
+/**
+ * Show limit buys of an order
+ */
+export async function showLimitOrders(chatId: string, orderId: string, messageId?: number): Promise<void> {
+	try {
+		limitStates.delete(chatId);
+
+		const user = await User.findOne({ chatId });
+		if (!user) {
+			await getBot().sendMessage(chatId, '❌ User not found.');
+			return;
+		}
+
+		const order = await getOrderById(orderId, user._id.toString());
+		if (!order) {
+			await getBot().sendMessage(chatId, '❌ Order not found.');
+			return;
+		}
+
+		const limitOrders = await getOrderLimitOrders(orderId, user._id.toString());
+		const pending = limitOrders.filter((limitOrder) => limitOrder.status === LimitOrderStatus.PENDING);
+
+		let text = `🎯 <b>Limit Buys: ${order.name}</b>\n\n`;
+		text += `Buy a token automatically when its price or market cap falls to your target. `;
+		text += `Fills use this order's wallet, gas, slippage and TP/SL levels.\n\n`;
+
+		if (limitOrders.length === 0) {
+			text += '📭 No limit buys yet.';
+		} else {
+			limitOrders.forEach((limitOrder, idx) => {
+				text += `${STATUS_EMOJI[limitOrder.status] || '•'} <b>#${idx + 1} ${limitOrder.tokenSymbol}</b> — ${limitOrder.bnbAmount} BNB\n`;
+				text += `   ${formatLimitTrigger(limitOrder)}\n`;
+				if (limitOrder.status === LimitOrderStatus.PENDING) {
+					text += `   Expires: ${formatDate(limitOrder.expiresAt)}\n`;
+				} else if (limitOrder.status === LimitOrderStatus.FAILED && limitOrder.errorMessage) {
+					text += `   Error: ${limitOrder.errorMessage}\n`;
+				} else if (limitOrder.txHash) {
+					text += `   TX: <code>${limitOrder.txHash}</code>\n`;
+				}
+			});
+		}
+
+		if (!order.isActive && pending.length > 0) {
+			text += `\n⚠️ <i>TP/SL only runs while the order is active.</i>`;
+		}
+
+		const keyboard: TelegramBot.InlineKeyboardMarkup = { inline_keyboard: [] };
+
+		limitOrders.forEach((limitOrder, idx) => {
+			if (limitOrder.status === LimitOrderStatus.PENDING) {
+				keyboard.inline_keyboard.push([
+					{ text: `🚫 Cancel #${idx + 1} ${limitOrder.tokenSymbol}`, callback_data: `limit_cancel_${limitOrder._id}` },
+				]);
+			}
+		});
+
+		keyboard.inline_keyboard.push(
+			[{ text: '➕ New Limit Buy', callback_data: `limit_new_${orderId}` }],
+			[
+				{ text: '🔄 Refresh', callback_data: `order_limits_${orderId}` },
+				{ text: '🔙 Back to Order', callback_data: `order_view_${orderId}` },
+			]
+		);
+
+		await sendOrEdit(chatId, text, keyboard, messageId);
+	} catch (error: any) {
+		logger.error('Failed to show limit orders:', error.message);
+		await getBot().sendMessage(chatId, '❌ Failed to load limit buys.');
+	}
+}
+
+/**
+ * Start creating a limit buy
+ */
+export async function handleLimitCreate(chatId: string, orderId: string, messageId?: number): Promise<void> {
+	limitStates.set(chatId, { step: 'token', orderId, data: {} });
+
+	await sendOrEdit(
+		chatId,
+		'🎯 <b>New Limit Buy</b>\n\nEnter the token contract address:\n\n<i>Example: 0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb</i>',
+		{ inline_keyboard: [[{ text: '❌ Cancel', callback_data: `order_limits_${orderId}` }]] },
+		messageId
+	);
+}
+
+/**
+ * Handle trigger type selection
+ */
+export async function handleLimitTriggerType(
+	chatId: string,
+	triggerType: LimitTriggerType,
+	messageId?: number
+): Promise<void> {
+	const state = limitStates.get(chatId);
+	if (!state || state.step !== 'trigger_type') {
+		await getBot().sendMessage(chatId, '❌ Limit buy session expired. Please start again.');
+		return;
+	}
+
+	state.data.triggerType = triggerType;
+	state.step = 'trigger_value';
+	limitStates.set(chatId, state);
+
+	let text: string;
+	if (triggerType === LimitTriggerType.MARKET_CAP) {
+		text = `🏦 <b>Market Cap Trigger</b>\n\nEnter the market cap in USD to buy at (or below):\n\n`;
+		const marketCap = await getCurrentMarketCap(state);
+		if (marketCap !== null) {
+			text += `Current market cap: $${formatWithCommas(Math.round(marketCap))}\n\n`;
+		}
+		text += `<i>Example: 50000</i>`;
+	} else {
+		text = `💲 <b>Price Trigger</b>\n\nEnter the token price in BNB to buy at (or below):\n\n`;
+		if (state.data.currentPrice) {
+			text += `Current price: ${state.data.currentPrice.toFixed(10)} BNB\n\n`;
+		}
+		text += `<i>Example: 0.0000012</i>`;
+	}
+
+	await sendOrEdit(
+		chatId,
+		text,
+		{ inline_keyboard: [[{ text: '❌ Cancel', callback_data: `order_limits_${state.orderId}` }]] },
+		messageId
+	);
+}
+
+/**
+ * Cancel a pending limit buy
+ */
+export async function handleLimitCancel(chatId: string, limitOrderId: string, messageId?: number): Promise<void> {
+	try {
+		const user = await User.findOne({ chatId });
+		if (!user) {
+			await getBot().sendMessage(chatId, '❌ User not found.');
+			return;
+		}
+
+		const result = await cancelLimitOrder(limitOrderId, user._id.toString());
+		if (!result.success || !result.limitOrder) {
+			await getBot().sendMessage(chatId, `❌ ${result.error}`);
+			return;
+		}
+
+		await showLimitOrders(chatId, result.limitOrder.orderId.toString(), messageId);
+	} catch (error: any) {
+		logger.error('Failed to cancel limit order:', error.message);
+		await getBot().sendMessage(chatId, '❌ Failed to cancel limit buy.');
+	}
+}
+
+/**
+ * Current market cap of the token being configured (null if unavailable)
+ */
+async function getCurrentMarketCap(state: LimitState): Promise<number | null> {
+	if (!state.data.currentPrice || !state.data.totalSupply) return null;
+
+	try {
+		const bnbPriceUsd = (await priceService.getBnbUsd()).price;
+		return calculateMarketCapUsd(
+			state.data.currentPrice,
+			state.data.totalSupply,
+			state.data.decimals ?? 18,
+			bnbPriceUsd
+		);
+	} catch (error: any) {
+		logger.debug(`Failed to calculate market cap: ${error.message}`);
+		return null;
+	}
+}
+
+/**
+ * Handle text input for the limit buy flow
+ * @returns True if the message was handled
+ */
+export async function handleLimitTextMessage(msg: any): Promise<boolean> {
+	const chatId = msg.chat.id.toString();
+	const text = msg.text?.trim();
+
+	if (!text) return false;
+
+	const state = limitStates.get(chatId);
+	if (!state) return false;
+
+	const cancelKeyboard: TelegramBot.InlineKeyboardMarkup = {
+		inline_keyboard: [[{ text: '❌ Cancel', callback_data: `order_limits_${state.orderId}` }]],
+	};
+
+	try {
+		if (state.step === 'token') {
+			if (!isValidAddress(text)) {
+				await getBot().sendMessage(chatId, '❌ Invalid token address. Please enter a valid BSC address.');
+				return true;
+			}
+
+			const metadata = await getTokenMetadata(text);
+			if (!metadata) {
+				await getBot().sendMessage(chatId, '❌ Failed to load token. Please check the address.');
+				return true;
+			}
+
+			const user = await User.findOne({ chatId });
+			const order = user ? await getOrderById(state.orderId, user._id.toString()) : null;
+			if (!order) {
+				await getBot().sendMessage(chatId, '❌ Order not found.');
+				limitStates.delete(chatId);
+				return true;
+			}
+
+			const quote = await priceService.getPrice(text);
+			const currentPrice = quote ? quote.priceInBnb : null;
+
+			state.data = {
+				tokenAddress: text.toLowerCase(),
+				tokenSymbol: metadata.symbol,
+				totalSupply: metadata.totalSupply,
+				decimals: metadata.decimals,
+				currentPrice,
+			};
+			state.step = 'amount';
+			limitStates.set(chatId, state);
+
+			let reply = `✅ <b>${metadata.name} (${metadata.symbol})</b>\n\n`;
+			reply += currentPrice
+				? `Current price: ${currentPrice.toFixed(10)} BNB\n\n`
+				: `⚠️ No PancakeSwap V2 pair yet - the limit buy waits until one exists.\n\n`;
+			reply += `Enter the amount of BNB to buy with:\n\n<i>Order default: ${order.tradingAmount} BNB</i>`;
+
+			await getBot().sendMessage(chatId, reply, { parse_mode: 'HTML', reply_markup: cancelKeyboard });
+			return true;
+		}
+
+		if (state.step === 'amount') {
+			const amount = parseFloat(text);
+			const validation = validateBnbAmount(amount);
+			if (!validation.valid) {
+				await getBot().sendMessage(chatId, `❌ ${validation.error}`);
+				return true;
+			}
+
+			state.data.bnbAmount = amount;
+			state.step = 'trigger_type';
+			limitStates.set(chatId, state);
+
+			await getBot().sendMessage(chatId, `✅ Amount: ${amount} BNB\n\nBuy when:`, {
+				parse_mode: 'HTML',
+				reply_markup: {
+					inline_keyboard: [
+						[
+							{ text: '💲 Price drops to (BNB)', callback_data: `limit_trigger_${LimitTriggerType.PRICE}` },
+						],
+						[
+							{ text: '🏦 Market cap falls below (USD)', callback_data: `limit_trigger_${LimitTriggerType.MARKET_CAP}` },
+						],
+						...cancelKeyboard.inline_keyboard,
+					],
+				},
+			});
+			return true;
+		}
+
+		if (state.step === 'trigger_type') {
+			await getBot().sendMessage(chatId, '👆 Please choose a trigger type with the buttons above.');
+			return true;
+		}
+
+		if (state.step === 'trigger_value') {
+			const value = parseFloat(text.replace(/[$,]/g, ''));
+			if (isNaN(value) || value <= 0) {
+				await getBot().sendMessage(chatId, '❌ Invalid value. Please enter a positive number.');
+				return true;
+			}
+
+			state.data.triggerValue = value;
+			state.step = 'expiry';
+			limitStates.set(chatId, state);
+
+			await getBot().sendMessage(
+				chatId,
+				`✅ Trigger: ${formatLimitTrigger({ triggerType: state.data.triggerType!, triggerValue: value })}\n\n` +
+				`Enter the expiry in hours (1-${LIMIT_ORDER_MAX_EXPIRY_HOURS}):\n\n` +
+				`<i>Example: ${LIMIT_ORDER_DEFAULT_EXPIRY_HOURS}</i>`,
+				{ parse_mode: 'HTML', reply_markup: cancelKeyboard }
+			);
+			return true;
+		}
+
+		if (state.step === 'expiry') {
+			const hours = parseFloat(text);
+			if (isNaN(hours) || hours < 1 || hours > LIMIT_ORDER_MAX_EXPIRY_HOURS) {
+				await getBot().sendMessage(chatId, `❌ Invalid expiry. Must be between 1 and ${LIMIT_ORDER_MAX_EXPIRY_HOURS} hours.`);
+				return true;
+			}
+
+			const user = await User.findOne({ chatId });
+			if (!user) {
+				await getBot().sendMessage(chatId, '❌ User not found.');
+				limitStates.delete(chatId);
+				return true;
+			}
+
+			const result = await createLimitOrder(user._id.toString(), state.orderId, {
+				tokenAddress: state.data.tokenAddress!,
+				bnbAmount: state.data.bnbAmount!,
+				triggerType: state.data.triggerType!,
+				triggerValue: state.data.triggerValue!,
+				expiresInHours: hours,
+			});
+
+			limitStates.delete(chatId);
+
+			if (!result.success || !result.limitOrder) {
+				await getBot().sendMessage(chatId, `❌ Failed to create limit buy: ${result.error}`);
+				return true;
+			}
+
+			const limitOrder = result.limitOrder;
+			let reply = `✅ <b>Limit Buy Created</b>\n\n`;
+			reply += `<b>Token:</b> ${limitOrder.tokenSymbol}\n`;
+			reply += `<code>${limitOrder.tokenAddress}</code>\n\n`;
+			reply += `<b>Amount:</b> ${limitOrder.bnbAmount} BNB\n`;
+			reply += `<b>Trigger:</b> ${formatLimitTrigger(limitOrder)}\n`;
+			reply += `<b>Expires:</b> ${formatDate(limitOrder.expiresAt)}\n\n`;
+			reply += `<i>If the target is already reached, the buy executes on the next check.</i>`;
+
+			await getBot().sendMessage(chatId, reply, {
+				parse_mode: 'HTML',
+				reply_markup: {
+					inline_keyboard: [[{ text: '🎯 View Limit Buys', callback_data: `order_limits_${state.orderId}` }]],
+				},
+			});
+			return true;
+		}
+	} catch (error: any) {
+		logger.error('Error handling limit buy input:', error.message);
+		await getBot().sendMessage(chatId, '❌ An error occurred. Please try again.');
+		limitStates.delete(chatId);
+		return true;
+	}
+
+	return false;
+}
+
+/**
+ * Clear limit buy flow state
+ */
+export function clearLimitState(chatId: string): void {
+	limitStates.delete(chatId);
+}
@@ -1,6 +1,7 @@
 import TelegramBot from 'node-telegram-bot-api';
 import { logger } from '../../utils/logger';
 import { User } from '../../database/models';
+import { IStopLossLevel } from '../../database/models/order.model';
 import {
 	getUserOrders,
 	getOrderById,
@@ -14,7 +15,15 @@ import { getUserWallets } from '../../core/wallet/wallet.manager';
 import { Wallet } from '../../database/models/wallet.model';
 import { updateWalletBalance } from '../../core/wallet/wallet.service';
 import { isValidAddress, validateBnbAmount, validateSlippage } from '../../utils/validation';
-import { formatBnb, formatToggle } from '../../utils/formatter';
+import {
+	formatBnb,
+	formatBreakEvenStop,
+	formatDevDumpExit,
+	formatEntryMode,
+	formatSellRetryLadder,
+	formatStopLossTrigger,
+	formatToggle,
+} from '../../utils/formatter';
 import {
 	getOrdersListKeyboard,
 	getOrderWalletSelectionKeyboard,
@@ -23,6 +32,15 @@ import {
 	getOrderSlippageKeyboard,
 	getOrderRemoveConfirmKeyboard,
 } from '../keyboards/order.keyboard';
+import {
+	EntryMode,
+	SubmissionStrategy,
+	PnlBasis,
+	ENTRY_MAX_TRANCHES,
+	SELL_RETRY_MAX_ATTEMPTS,
+	BREAK_EVEN_MAX_LOCK_PERCENT,
+} from '../../config/constants';
+import { isPrivateRelayConfigured } from '../../core/trading/submission.service';
 
 /**
  * Bot instance getter - resolves circular dependency
@@ -51,7 +69,7 @@ interface UserState {
 		tradingAmount: number;
 		slippage: number;
 		takeProfitLevels: Array<{ pnlPercent: number; sellPercent: number }>;
-		stopLossLevels: Array<{ pnlPercent: number; sellPercent: number }>;
+		stopLossLevels: IStopLossLevel[];
 		timeLimitEnabled: boolean;
 		timeLimitSeconds: number;
 	};
@@ -189,7 +207,14 @@ export async function showOrderDetail(chatId: string, orderId: string, messageId
 		text += `💵 Trading Amount: ${formatBnb(order.tradingAmount)} BNB\n`;
 		text += `📊 Slippage: ${order.slippage}%\n`;
 		text += `⏱ Time Limit: ${order.timeLimitSeconds}s ${formatToggle(order.timeLimitEnabled)}\n`;
-		text += `⚡ Gas Price: ${order.gasFee.gasPrice} Gwei\n\n`;
+		text += `⚡ Gas Price: ${order.gasFee.gasPrice} Gwei\n`;
+		text += `🛡 Safety Filters: ${countActiveFilters(order)} active\n`;
+		text += `⏳ Buy on Pending Migration: ${formatToggle(order.actOnPending)}\n`;
+		text += `🕶 Submission: ${order.submissionStrategy === SubmissionStrategy.PRIVATE_RELAY ? 'Private Relay' : 'Public'}\n`;
+		text += `🎯 TP/SL PNL: ${order.pnlBasis === PnlBasis.REALIZABLE ? 'Realizable (sell quote)' : 'Spot price'}\n`;
+		text += `🔁 Sell Retry: ${formatToggle(order.sellRetry?.enabled ?? false)}\n`;
+		text += `🛡 Break-Even Stop: ${formatBreakEvenStop(order.breakEvenStop)}\n`;
+		text += `🚨 Dev Dump Exit: ${formatDevDumpExit(order.devDumpExit)}\n\n`;
 
 		// Display TP/SL Levels
 		text += `<b>🎯 Take Profit Levels:</b>\n`;
@@ -204,7 +229,7 @@ export async function showOrderDetail(chatId: string, orderId: string, messageId
 		text += `\n<b>🛑 Stop Loss Levels:</b>\n`;
 		if (order.stopLossLevels && order.stopLossLevels.length > 0) {
 			order.stopLossLevels.forEach((level: any, idx: number) => {
-				text += `  ${idx + 1}. At -${level.pnlPercent}% → Sell ${level.sellPercent}%\n`;
+				text += `  ${idx + 1}. At ${formatStopLossTrigger(level)} → Sell ${level.sellPercent}%\n`;
 			});
 		} else {
 			text += `  <i>No SL levels set</i>\n`;
@@ -268,7 +293,7 @@ export async function showOrderDetail(chatId: string, orderId: string, messageId
 				order.stopLossLevels.forEach((level: any, idx: number) => {
 					keyboard.inline_keyboard.push([
 						{
-							text: `📉 SL${idx + 1}: -${level.pnlPercent}% → Sell ${level.sellPercent}%`,
+							text: `📉 SL${idx + 1}: ${formatStopLossTrigger(level)} → Sell ${level.sellPercent}%`,
 							callback_data: `order_editsl_${orderId}_${idx}`
 						},
 						{
@@ -283,6 +308,9 @@ export async function showOrderDetail(chatId: string, orderId: string, messageId
 			keyboard.inline_keyboard.push([
 				{ text: '🍁 Add Stop Loss Level', callback_data: `order_addsl_${orderId}` },
 			]);
+			keyboard.inline_keyboard.push([
+				{ text: '📉 Add Trailing Stop', callback_data: `order_addtsl_${orderId}` },
+			]);
 
 			// Time Limit, Gas settings
 			keyboard.inline_keyboard.push(
@@ -298,6 +326,39 @@ export async function showOrderDetail(chatId: string, orderId: string, messageId
 				[
 					{ text: '⚡ Gas Settings', callback_data: `order_gas_label_${orderId}` },
 					{ text: `${order.gasFee.gasPrice} Gwei`, callback_data: `order_gas_input_${orderId}` },
+				],
+				// Row: Safety filters
+				[
+					{ text: '🛡 Safety Filters', callback_data: `order_filters_${orderId}` },
+				],
+				// Row: Pending (mempool) migrations
+				[
+					{
+						text: order.actOnPending ? '✅ Buy on Pending Migration' : '❌ Buy on Pending Migration',
+						callback_data: `order_pendingtoggle_${orderId}`
+					},
+				],
+				// Row: Entry mode (single swap / DCA / price ladder)
+				[
+					{ text: `🪜 Entry: ${formatEntryMode(order)}`, callback_data: `order_entry_${orderId}` },
+				],
+				// Row: Submission strategy (public mempool / private relay)
+				[
+					{
+						text: order.submissionStrategy === SubmissionStrategy.PRIVATE_RELAY ? '🕶 Submit: Private Relay' : '📢 Submit: Public',
+						callback_data: `order_submissiontoggle_${orderId}`
+					},
+				],
+				// Row: PNL basis for TP/SL (spot price / realizable sell quote)
+				[
+					{
+						text: order.pnlBasis === PnlBasis.REALIZABLE ? '🎯 TP/SL on: Realizable PNL' : '🎯 TP/SL on: Spot PNL',
+						callback_data: `order_pnlbasistoggle_${orderId}`
+					},
+				],
+				// Row: Escalating retries for failed auto-sells
+				[
+					{ text: '🔁 Sell Retry', callback_data: `order_sellretry_${orderId}` },
 				]
 			);
 		}
@@ -322,6 +383,12 @@ export async function showOrderDetail(chatId: string, orderId: string, messageId
 			]
 		);
 
+		// Limit buys & copy trading (always shown regardless of order status)
+		keyboard.inline_keyboard.push([
+			{ text: '🎯 Limit Buys', callback_data: `order_limits_${orderId}` },
+			{ text: '👀 Copy Trading', callback_data: `order_copy_${orderId}` },
+		]);
+
 		// Refresh, Back & Remove buttons (always last row)
 		keyboard.inline_keyboard.push(
 			[
@@ -550,7 +617,7 @@ async function showOrderCreateConfig(chatId: string, messageId?: number): Promis
 			slText += '  <i>No SL levels set</i>\n';
 		} else {
 			config.stopLossLevels.forEach((level, idx) => {
-				slText += `  ${idx + 1}. At -${level.pnlPercent}% → Sell ${level.sellPercent}%\n`;
+				slText += `  ${idx + 1}. At ${formatStopLossTrigger(level)} → Sell ${level.sellPercent}%\n`;
 			});
 		}
 
@@ -611,7 +678,7 @@ ${tpText}${slText}
 		config.stopLossLevels.forEach((level, idx) => {
 			keyboard.inline_keyboard.push([
 				{
-					text: `📉 SL${idx + 1}: -${level.pnlPercent}% → Sell ${level.sellPercent}%`,
+					text: `📉 SL${idx + 1}: ${formatStopLossTrigger(level)} → Sell ${level.sellPercent}%`,
 					callback_data: `order_config_editsl_${idx}`
 				},
 				{
@@ -625,6 +692,9 @@ ${tpText}${slText}
 		keyboard.inline_keyboard.push([
 			{ text: '⭐ Add Stop Loss Level', callback_data: 'order_config_addsl' },
 		]);
+		keyboard.inline_keyboard.push([
+			{ text: '📉 Add Trailing Stop', callback_data: 'order_config_addtsl' },
+		]);
 
 		// Time Limit row
 		keyboard.inline_keyboard.push([
@@ -1065,6 +1135,44 @@ export async function handleOrderConfigAddSL(chatId: string, messageId?: number)
 	}
 }
 
+/**
+ * Handle Add Trailing SL Level - Step 1: Ask for the drop from peak
+ */
+export async function handleOrderConfigAddTrailingSL(chatId: string, messageId?: number): Promise<void> {
+	try {
+		const state = userStates.get(chatId);
+		if (!state || !state.orderConfig) {
+			await getBot().sendMessage(chatId, '❌ Configuration lost. Please try again.');
+			return;
+		}
+
+		// Delete config message
+		if (messageId) {
+			try {
+				await getBot().deleteMessage(chatId, messageId);
+			} catch (error) {
+				// Ignore delete errors
+			}
+		}
+
+		const msg = await getBot().sendMessage(
+			chatId,
+			'📉 <b>Add Trailing Stop - Step 1/3</b>\n\n' +
+			'<b>How far may the price fall from its peak before this stop triggers?</b>\n\n' +
+			'Examples:\n• 15 = Trigger 15% below the highest price\n• 30 = Trigger 30% below the highest price\n\n' +
+			'Type /cancel to abort.',
+			{ parse_mode: 'HTML' }
+		);
+
+		state.action = 'order_config_addtsl_pnl';
+		state.lastMessageId = msg.message_id;
+		userStates.set(chatId, state);
+	} catch (error: any) {
+		logger.error('Failed to handle add trailing SL:', error.message);
+		await getBot().sendMessage(chatId, '❌ An error occurred. Please try again.');
+	}
+}
+
 /**
  * Handle Delete TP Level
  */
@@ -1495,12 +1603,18 @@ export async function showTPSLSettings(chatId: string, orderId: string, messageI
 		if (order.stopLossLevels && order.stopLossLevels.length > 0) {
 			for (let i = 0; i < order.stopLossLevels.length; i++) {
 				const level = order.stopLossLevels[i];
-				text += `  SL${i + 1}: -${level.pnlPercent}% → Sell ${level.sellPercent}%\n`;
+				text += `  SL${i + 1}: ${formatStopLossTrigger(level)} → Sell ${level.sellPercent}%\n`;
 			}
 		} else {
 			text += '  <i>No levels configured</i>\n';
 		}
 
+		text += `\n<b>🛡 Break-Even Stop:</b> ${formatBreakEvenStop(order.breakEvenStop)}\n`;
+		text += '<i>After any TP level sells, the rest is sold if PNL falls back to the locked profit</i>\n';
+
+		text += `\n<b>🚨 Dev Dump Exit:</b> ${formatDevDumpExit(order.devDumpExit)}\n`;
+		text += '<i>Sells the whole position if the creator or top holders move out more than this share of supply</i>\n';
+
 		text += '\n<i>Tap a level to edit, or add new levels below</i>';
 
 		// Import the keyboard function
@@ -1510,7 +1624,9 @@ export async function showTPSLSettings(chatId: string, orderId: string, messageI
 		const keyboard = getTPSLLevelsKeyboard(
 			orderId,
 			order.takeProfitLevels || [],
-			order.stopLossLevels || []
+			order.stopLossLevels || [],
+			order.breakEvenStop,
+			order.devDumpExit
 		);
 
 		if (messageId) {
@@ -1818,6 +1934,249 @@ export async function handleSlippageInput(chatId: string, orderId: string, messa
 	}
 }
 
+/**
+ * Editable order safety filters
+ */
+type OrderFilterKey = 'minliq' | 'maxliq' | 'minsupply' | 'maxsupply' | 'blacklist' | 'creators' | 'buytax' | 'selltax';
+
+const ORDER_FILTER_PROMPTS: Record<OrderFilterKey, { title: string; prompt: string }> = {
+	minliq: { title: 'Min Liquidity', prompt: 'Enter the minimum initial liquidity in BNB.\n\n<i>Example: 5</i>' },
+	maxliq: { title: 'Max Liquidity', prompt: 'Enter the maximum initial liquidity in BNB.\n\n<i>Example: 50</i>' },
+	minsupply: { title: 'Min Supply', prompt: 'Enter the minimum total supply (whole tokens).\n\n<i>Example: 1000000</i>' },
+	maxsupply: { title: 'Max Supply', prompt: 'Enter the maximum total supply (whole tokens).\n\n<i>Example: 1000000000</i>' },
+	blacklist: {
+		title: 'Name/Symbol Blacklist',
+		prompt: 'Enter a regular expression (case-insensitive) matched against token name and symbol.\n\n<i>Example: test|scam|rug</i>',
+	},
+	creators: {
+		title: 'Creator Blacklist',
+		prompt: 'Enter creator addresses to block, separated by spaces or commas. This replaces the current list.',
+	},
+	buytax: { title: 'Max Buy Tax', prompt: 'Enter the highest buy tax (0-100%) this order accepts.\n\n<i>Example: 10</i>' },
+	selltax: {
+		title: 'Max Sell Tax',
+		prompt: 'Enter the highest sell tax (0-100%) this order accepts. Honeypots (sell reverts) are always skipped when set.\n\n<i>Example: 10</i>',
+	},
+};
+
+/**
+ * Count configured safety filters on an order
+ */
+function countActiveFilters(order: any): number {
+	const limits = [
+		order.minLiquidityBnb,
+		order.maxLiquidityBnb,
+		order.minSupply,
+		order.maxSupply,
+		order.nameBlacklistRegex,
+		order.maxBuyTax,
+		order.maxSellTax,
+	];
+	let count = limits.filter((value) => value !== null && value !== undefined).length;
+	if (order.creatorBlacklist && order.creatorBlacklist.length > 0) count++;
+	if (order.requireRenouncedOwnership) count++;
+	return count;
+}
+
+/**
+ * Format an optional filter limit
+ */
+function formatFilterLimit(value?: number | null, suffix: string = ''): string {
+	return value === null || value === undefined ? 'OFF' : `${value}${suffix}`;
+}
+
+/**
+ * Show safety filters for an order
+ */
+export async function showOrderFilters(chatId: string, orderId: string, messageId?: number): Promise<void> {
+	try {
+		// Get user
+		const user = await User.findOne({ chatId });
+		if (!user) return;
+
+		// Get order
+		const order = await getOrderById(orderId, user._id.toString());
+		if (!order) {
+			await getBot().sendMessage(chatId, '❌ Order not found.');
+			return;
+		}
+
+		const creators = order.creatorBlacklist || [];
+
+		let text = `🛡 <b>Safety Filters - ${order.name}</b>\n\n`;
+		text += `Detected tokens that fail any filter are skipped by auto-buy.\n\n`;
+		text += `💧 Liquidity: ${formatFilterLimit(order.minLiquidityBnb, ' BNB')} - ${formatFilterLimit(order.maxLiquidityBnb, ' BNB')}\n`;
+		text += `📦 Supply: ${formatFilterLimit(order.minSupply)} - ${formatFilterLimit(order.maxSupply)}\n`;
+		text += `🚫 Name/Symbol Blacklist: ${order.nameBlacklistRegex ? `<code>${order.nameBlacklistRegex.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')}</code>` : 'OFF'}\n`;
+		text += `👤 Creator Blacklist: ${creators.length > 0 ? `${creators.length} address(es)` : 'OFF'}\n`;
+		text += `🔒 Renounced Ownership: ${formatToggle(order.requireRenouncedOwnership)}\n`;
+		text += `🧪 Max Buy Tax: ${formatFilterLimit(order.maxBuyTax, '%')}\n`;
+		text += `🧪 Max Sell Tax: ${formatFilterLimit(order.maxSellTax, '%')}\n`;
+
+		const keyboard = {
+			inline_keyboard: [
+				[
+					{ text: `💧 Min Liq: ${formatFilterLimit(order.minLiquidityBnb)}`, callback_data: `order_filter_set_minliq_${orderId}` },
+					{ text: `💧 Max Liq: ${formatFilterLimit(order.maxLiquidityBnb)}`, callback_data: `order_filter_set_maxliq_${orderId}` },
+				],
+				[
+					{ text: `📦 Min Supply: ${formatFilterLimit(order.minSupply)}`, callback_data: `order_filter_set_minsupply_${orderId}` },
+					{ text: `📦 Max Supply: ${formatFilterLimit(order.maxSupply)}`, callback_data: `order_filter_set_maxsupply_${orderId}` },
+				],
+				[
+					{ text: '🚫 Name Blacklist', callback_data: `order_filter_set_blacklist_${orderId}` },
+					{ text: '👤 Creator Blacklist', callback_data: `order_filter_set_creators_${orderId}` },
+				],
+				[
+					{
+						text: order.requireRenouncedOwnership ? '✅ Require Renounced' : '❌ Require Renounced',
+						callback_data: `order_filter_renounced_${orderId}`,
+					},
+				],
+				[
+					{ text: `🧪 Buy Tax: ${formatFilterLimit(order.maxBuyTax, '%')}`, callback_data: `order_filter_set_buytax_${orderId}` },
+					{ text: `🧪 Sell Tax: ${formatFilterLimit(order.maxSellTax, '%')}`, callback_data: `order_filter_set_selltax_${orderId}` },
+				],
+				[{ text: '⬅️ Back to Order', callback_data: `order_view_${orderId}` }],
+			],
+		};
+
+		if (messageId) {
+			try {
+				await getBot().editMessageText(text, {
+					chat_id: chatId,
+					message_id: messageId,
+					parse_mode: 'HTML',
+					reply_markup: keyboard,
+				});
+			} catch (editError: any) {
+				// Ignore "message is not modified" errors - this is fine
+				if (!editError.message?.includes('message is not modified')) {
+					throw editError;
+				}
+			}
+		} else {
+			await getBot().sendMessage(chatId, text, {
+				parse_mode: 'HTML',
+				reply_markup: keyboard,
+			});
+		}
+	} catch (error: any) {
+		logger.error('Failed to show order filters:', error.message);
+	}
+}
+
+/**
+ * Toggle renounced-ownership requirement
+ */
+export async function toggleRenouncedFilter(chatId: string, orderId: string, messageId?: number): Promise<void> {
+	try {
+		const user = await User.findOne({ chatId });
+		if (!user) return;
+
+		const order = await getOrderById(orderId, user._id.toString());
+		if (!order) return;
+
+		await updateOrderConfig(orderId, user._id.toString(), {
+			requireRenouncedOwnership: !order.requireRenouncedOwnership,
+		});
+
+		await showOrderFilters(chatId, orderId, messageId);
+	} catch (error: any) {
+		logger.error('Failed to toggle renounced filter:', error.message);
+	}
+}
+
+/**
+ * Handle safety filter input
+ */
+export async function handleOrderFilterInput(
+	chatId: string,
+	orderId: string,
+	filter: string,
+	messageId?: number
+): Promise<void> {
+	try {
+		const prompt = ORDER_FILTER_PROMPTS[filter as OrderFilterKey];
+		if (!prompt) return;
+
+		const text = `🛡 <b>Set ${prompt.title}</b>\n\n${prompt.prompt}\n\nSend <code>off</code> to disable this filter.`;
+
+		userStates.set(chatId, {
+			action: 'order_filter_input',
+			orderId,
+			data: { filter },
+		});
+
+		if (messageId) {
+			await getBot().editMessageText(text, {
+				chat_id: chatId,
+				message_id: messageId,
+				parse_mode: 'HTML',
+				reply_markup: {
+					inline_keyboard: [[{ text: '❌ Cancel', callback_data: `order_filters_${orderId}` }]],
+				},
+			});
+		} else {
+			await getBot().sendMessage(chatId, text, {
+				parse_mode: 'HTML',
+				reply_markup: {
+					inline_keyboard: [[{ text: '❌ Cancel', callback_data: `order_filters_${orderId}` }]],
+				},
+			});
+		}
+	} catch (error: any) {
+		logger.error('Failed to show filter input:', error.message);
+	}
+}
+
+/**
+ * Parse safety filter input into an order config update
+ * @returns Config update, or an error message
+ */
+function parseOrderFilterInput(filter: OrderFilterKey, text: string): { update?: any; error?: string } {
+	const disabled = text.toLowerCase() === 'off';
+
+	switch (filter) {
+		case 'blacklist': {
+			if (disabled) return { update: { nameBlacklistRegex: null } };
+			try {
+				new RegExp(text, 'i');
+			} catch {
+				return { error: '❌ Invalid regular expression.' };
+			}
+			return { update: { nameBlacklistRegex: text } };
+		}
+		case 'creators': {
+			if (disabled) return { update: { creatorBlacklist: [] } };
+			const addresses = text.split(/[\s,]+/).filter((address) => address.length > 0);
+			const invalid = addresses.find((address) => !isValidAddress(address));
+			if (invalid) {
+				return { error: `❌ Invalid address: ${invalid}` };
+			}
+			return { update: { creatorBlacklist: addresses.map((address) => address.toLowerCase()) } };
+		}
+		default: {
+			const fields: Record<string, string> = {
+				minliq: 'minLiquidityBnb',
+				maxliq: 'maxLiquidityBnb',
+				minsupply: 'minSupply',
+				maxsupply: 'maxSupply',
+				buytax: 'maxBuyTax',
+				selltax: 'maxSellTax',
+			};
+			if (disabled) return { update: { [fields[filter]]: null } };
+
+			const value = parseFloat(text);
+			const isTax = filter === 'buytax' || filter === 'selltax';
+			if (isNaN(value) || value < 0 || (isTax && value > 100)) {
+				return { error: isTax ? '❌ Invalid tax. Must be between 0% and 100%, or "off".' : '❌ Invalid value. Must be a positive number, or "off".' };
+			}
+			return { update: { [fields[filter]]: value } };
+		}
+	}
+}
+
 /**
  * Handle order removal confirmation
  */
@@ -1904,6 +2263,29 @@ export async function handleManualBuy(chatId: string, orderId: string, messageId
 	}
 }
 
+/**
+ * Parse a trailing stop drop-from-peak input (0.1 - 99.9)
+ */
+function parseTrailingDropInput(text: string): number | null {
+	const value = parseFloat(text);
+	if (isNaN(value) || value < 0.1 || value >= 100) return null;
+	return value;
+}
+
+/**
+ * Parse a trailing stop activation input
+ * @returns Activation profit percent, null to arm immediately (0), or undefined if invalid
+ */
+function parseTrailingActivationInput(text: string): number | null | undefined {
+	const value = parseFloat(text);
+	if (isNaN(value) || value < 0) return undefined;
+	return value === 0 ? null : value;
+}
+
+const TRAILING_ACTIVATION_HELP =
+	'Minimum profit the price must reach before the trailing stop is armed.\n\n' +
+	'Examples:\n• 0 = Armed immediately\n• 50 = Armed once the position was up +50%';
+
 /**
  * Handle text input for order operations
  */
@@ -2089,6 +2471,8 @@ export async function handleOrderTextMessage(msg: any): Promise<boolean> {
 			// Store PNL percentage and move to step 2
 			if (!state.data) state.data = {};
 			state.data.tempSLPnl = pnlPercent;
+			delete state.data.tempSLTrailing;
+			delete state.data.tempSLActivation;
 			state.action = 'order_config_addsl_sell';
 			userStates.set(chatId, state);
 
@@ -2106,6 +2490,85 @@ export async function handleOrderTextMessage(msg: any): Promise<boolean> {
 			return true;
 		}
 
+		// Handle Add Trailing SL during creation - Step 1: Drop from peak
+		if (state.action === 'order_config_addtsl_pnl') {
+			if (state.lastMessageId) {
+				try {
+					await getBot().deleteMessage(chatId, state.lastMessageId);
+				} catch (error) {
+					// Ignore delete errors
+				}
+			}
+
+			try {
+				await getBot().deleteMessage(chatId, msg.message_id);
+			} catch (error) {
+				// Ignore delete errors
+			}
+
+			const dropPercent = parseTrailingDropInput(text);
+			if (dropPercent === null) {
+				await getBot().sendMessage(chatId, '❌ Invalid percentage. Must be between 0.1 and 99.9.');
+				return true;
+			}
+
+			if (!state.data) state.data = {};
+			state.data.tempSLPnl = dropPercent;
+			state.data.tempSLTrailing = true;
+			state.action = 'order_config_addtsl_activation';
+
+			const msg2 = await getBot().sendMessage(
+				chatId,
+				`✅ Trail set to ${dropPercent}% below peak\n\n` +
+				`<b>Step 2/3: Activation Profit</b>\n\n` +
+				`${TRAILING_ACTIVATION_HELP}\n\n` +
+				`Type /cancel to abort.`,
+				{ parse_mode: 'HTML' }
+			);
+			state.lastMessageId = msg2.message_id;
+			userStates.set(chatId, state);
+			return true;
+		}
+
+		// Handle Add Trailing SL during creation - Step 2: Activation profit
+		if (state.action === 'order_config_addtsl_activation') {
+			if (state.lastMessageId) {
+				try {
+					await getBot().deleteMessage(chatId, state.lastMessageId);
+				} catch (error) {
+					// Ignore delete errors
+				}
+			}
+
+			try {
+				await getBot().deleteMessage(chatId, msg.message_id);
+			} catch (error) {
+				// Ignore delete errors
+			}
+
+			const activationPercent = parseTrailingActivationInput(text);
+			if (activationPercent === undefined) {
+				await getBot().sendMessage(chatId, '❌ Invalid percentage. Enter 0 or a positive number.');
+				return true;
+			}
+
+			state.data.tempSLActivation = activationPercent;
+			state.action = 'order_config_addsl_sell';
+
+			const msg3 = await getBot().sendMessage(
+				chatId,
+				`✅ ${activationPercent === null ? 'Armed immediately' : `Armed after +${activationPercent}%`}\n\n` +
+				`<b>Step 3/3: Sell Percentage</b>\n\n` +
+				`How much should be sold when this stop triggers?\n\n` +
+				`Examples:\n• 50 = Sell 50% of tokens\n• 100 = Sell 100% of tokens\n\n` +
+				`Type /cancel to abort.`,
+				{ parse_mode: 'HTML' }
+			);
+			state.lastMessageId = msg3.message_id;
+			userStates.set(chatId, state);
+			return true;
+		}
+
 		// Handle Add SL Level during creation - Step 2: Sell Percentage
 		if (state.action === 'order_config_addsl_sell') {
 			// Delete prompt message
@@ -2135,8 +2598,13 @@ export async function handleOrderTextMessage(msg: any): Promise<boolean> {
 				state.orderConfig.stopLossLevels.push({
 					pnlPercent: state.data.tempSLPnl,
 					sellPercent: sellPercent,
+					...(state.data.tempSLTrailing
+						? { trailing: true, activationPercent: state.data.tempSLActivation ?? null }
+						: {}),
 				});
 				delete state.data.tempSLPnl;
+				delete state.data.tempSLTrailing;
+				delete state.data.tempSLActivation;
 			}
 
 			// Show main config screen
@@ -2168,7 +2636,7 @@ export async function handleOrderTextMessage(msg: any): Promise<boolean> {
 
 			// Update order
 			const result = await updateOrderConfig(state.orderId, user._id.toString(), {
-				takeProfitPercent: percentage,
+				takeProfitLevels: [{ pnlPercent: percentage, sellPercent: 100 }],
 			});
 
 			if (!result.success) {
@@ -2224,7 +2692,7 @@ export async function handleOrderTextMessage(msg: any): Promise<boolean> {
 				return true;
 			}
 
-			const result = await updateOrderConfig(state.orderId, user._id.toString(), { takeProfitPercent: percentage });
+			const result = await updateOrderConfig(state.orderId, user._id.toString(), { takeProfitLevels: [{ pnlPercent: percentage, sellPercent: 100 }] });
 			if (!result.success) {
 				await getBot().sendMessage(chatId, `❌ ${result.error}`);
 			} else {
@@ -2251,7 +2719,7 @@ export async function handleOrderTextMessage(msg: any): Promise<boolean> {
 				return true;
 			}
 
-			const result = await updateOrderConfig(state.orderId, user._id.toString(), { stopLossPercent: percentage });
+			const result = await updateOrderConfig(state.orderId, user._id.toString(), { stopLossLevels: [{ pnlPercent: percentage, sellPercent: 100 }] });
 			if (!result.success) {
 				await getBot().sendMessage(chatId, `❌ ${result.error}`);
 			} else {
@@ -2317,11 +2785,18 @@ export async function handleOrderTextMessage(msg: any): Promise<boolean> {
 			return true;
 		}
 
-		// Handle direct slippage input
-		if (state.action === 'order_slippage_input') {
-			const slippage = parseFloat(text);
-			if (isNaN(slippage) || slippage < 0.1 || slippage > 100) {
-				await getBot().sendMessage(chatId, '❌ Invalid slippage. Must be between 0.1% and 100%.');
+		// Handle entry ladder interval / step input
+		if (state.action === 'order_entry_interval' || state.action === 'order_entry_step') {
+			const isInterval = state.action === 'order_entry_interval';
+			const value = isInterval ? parseInt(text) : parseFloat(text);
+			const [min, max] = isInterval ? [10, 86400] : [1, 90];
+			if (isNaN(value) || value < min || value > max) {
+				await getBot().sendMessage(
+					chatId,
+					isInterval
+						? '❌ Invalid interval. Must be between 10 and 86400 seconds.'
+						: '❌ Invalid step. Must be between 1% and 90%.'
+				);
 				return true;
 			}
 
@@ -2332,33 +2807,104 @@ export async function handleOrderTextMessage(msg: any): Promise<boolean> {
 				return true;
 			}
 
-			const result = await updateOrderConfig(state.orderId, user._id.toString(), { slippage });
+			const result = await updateOrderConfig(
+				state.orderId,
+				user._id.toString(),
+				isInterval ? { entryIntervalSeconds: value } : { entryStepPercent: value }
+			);
 			if (!result.success) {
 				await getBot().sendMessage(chatId, `❌ ${result.error}`);
 			} else {
-				await getBot().sendMessage(chatId, '✅ Slippage updated!');
-				await showOrderDetail(chatId, state.orderId);
+				await getBot().sendMessage(chatId, isInterval ? '✅ DCA interval updated!' : '✅ Ladder step updated!');
+				await showEntrySettings(chatId, state.orderId);
 			}
 
 			userStates.delete(chatId);
 			return true;
 		}
 
-		// Handle custom SL input for existing order
-		if (state.action === 'order_sl_custom') {
-			// Parse percentage
-			const percentage = parseFloat(text);
+		// Handle sell retry ladder input
+		if (state.action === 'order_breakeven_input') {
+			const lockProfitPercent = parseFloat(text);
+			if (isNaN(lockProfitPercent) || lockProfitPercent < 0 || lockProfitPercent > BREAK_EVEN_MAX_LOCK_PERCENT) {
+				await getBot().sendMessage(chatId, `❌ Invalid percentage. Enter a number between 0 and ${BREAK_EVEN_MAX_LOCK_PERCENT}.`);
+				return true;
+			}
 
-			// Validate
-			if (isNaN(percentage) || percentage < 0.1) {
+			const user = await User.findOne({ chatId });
+			if (!user || !state.orderId) {
+				await getBot().sendMessage(chatId, '❌ Order not found.');
+				userStates.delete(chatId);
+				return true;
+			}
+
+			const result = await updateOrderConfig(state.orderId, user._id.toString(), {
+				breakEvenStop: { lockProfitPercent },
+			});
+			if (!result.success) {
+				await getBot().sendMessage(chatId, `❌ ${result.error}`);
+			} else {
+				await getBot().sendMessage(chatId, `✅ Break-even stop will lock +${lockProfitPercent}%`);
+				await showTPSLSettings(chatId, state.orderId);
+			}
+
+			userStates.delete(chatId);
+			return true;
+		}
+
+		if (state.action === 'order_devdump_input') {
+			const supplyPercent = parseFloat(text);
+			if (isNaN(supplyPercent) || supplyPercent < 0.1 || supplyPercent > 100) {
+				await getBot().sendMessage(chatId, '❌ Invalid percentage. Enter a number between 0.1 and 100.');
+				return true;
+			}
+
+			const user = await User.findOne({ chatId });
+			if (!user || !state.orderId) {
+				await getBot().sendMessage(chatId, '❌ Order not found.');
+				userStates.delete(chatId);
+				return true;
+			}
+
+			const result = await updateOrderConfig(state.orderId, user._id.toString(), {
+				devDumpExit: { supplyPercent },
+			});
+			if (!result.success) {
+				await getBot().sendMessage(chatId, `❌ ${result.error}`);
+			} else {
+				await getBot().sendMessage(chatId, `✅ Dev dump exit will trigger above ${supplyPercent}% of supply`);
+				await showTPSLSettings(chatId, state.orderId);
+			}
+
+			userStates.delete(chatId);
+			return true;
+		}
+
+		if (state.action === 'order_sellretry_input') {
+			const values = text.trim().split(/\s+/).map((value: string) => parseFloat(value));
+			const [maxAttempts, slippageStep, maxSlippage, gasStepPercent, maxGasPrice] = values;
+			if (
+				values.length !== 5 ||
+				values.some((value: number) => isNaN(value)) ||
+				!Number.isInteger(maxAttempts) ||
+				maxAttempts < 1 ||
+				maxAttempts > SELL_RETRY_MAX_ATTEMPTS ||
+				slippageStep < 0 ||
+				slippageStep > 50 ||
+				maxSlippage < 0.1 ||
+				maxSlippage > 50 ||
+				gasStepPercent < 0 ||
+				gasStepPercent > 200 ||
+				maxGasPrice < 0.1 ||
+				maxGasPrice > 1000
+			) {
 				await getBot().sendMessage(
 					chatId,
-					'❌ Invalid percentage. Please enter a number greater than 0.1.',
+					`❌ Invalid ladder. Use: attempts (1-${SELL_RETRY_MAX_ATTEMPTS}) slippageStep (0-50) maxSlippage (0.1-50) gasStep% (0-200) maxGasGwei (0.1-1000).`
 				);
 				return true;
 			}
 
-			// Get user
 			const user = await User.findOne({ chatId });
 			if (!user || !state.orderId) {
 				await getBot().sendMessage(chatId, '❌ Order not found.');
@@ -2366,16 +2912,69 @@ export async function handleOrderTextMessage(msg: any): Promise<boolean> {
 				return true;
 			}
 
-			// Update order
+			const ladder = state.step === 'takeProfit' ? 'takeProfit' : 'stopLoss';
 			const result = await updateOrderConfig(state.orderId, user._id.toString(), {
-				takeProfitPercent: percentage,
+				sellRetry: { [ladder]: { maxAttempts, slippageStep, maxSlippage, gasStepPercent, maxGasPrice } },
 			});
+			if (!result.success) {
+				await getBot().sendMessage(chatId, `❌ ${result.error}`);
+			} else {
+				await getBot().sendMessage(chatId, '✅ Retry ladder updated!');
+				await showSellRetrySettings(chatId, state.orderId);
+			}
+
+			userStates.delete(chatId);
+			return true;
+		}
+
+		// Handle direct slippage input
+		if (state.action === 'order_slippage_input') {
+			const slippage = parseFloat(text);
+			if (isNaN(slippage) || slippage < 0.1 || slippage > 100) {
+				await getBot().sendMessage(chatId, '❌ Invalid slippage. Must be between 0.1% and 100%.');
+				return true;
+			}
 
+			const user = await User.findOne({ chatId });
+			if (!user || !state.orderId) {
+				await getBot().sendMessage(chatId, '❌ Order not found.');
+				userStates.delete(chatId);
+				return true;
+			}
+
+			const result = await updateOrderConfig(state.orderId, user._id.toString(), { slippage });
 			if (!result.success) {
 				await getBot().sendMessage(chatId, `❌ ${result.error}`);
 			} else {
-				await getBot().sendMessage(chatId, '✅ Take Profit updated!');
-				await showTPSLSettings(chatId, state.orderId);
+				await getBot().sendMessage(chatId, '✅ Slippage updated!');
+				await showOrderDetail(chatId, state.orderId);
+			}
+
+			userStates.delete(chatId);
+			return true;
+		}
+
+		// Handle safety filter input for existing order
+		if (state.action === 'order_filter_input') {
+			const parsed = parseOrderFilterInput(state.data?.filter, text);
+			if (parsed.error) {
+				await getBot().sendMessage(chatId, parsed.error);
+				return true;
+			}
+
+			const user = await User.findOne({ chatId });
+			if (!user || !state.orderId) {
+				await getBot().sendMessage(chatId, '❌ Order not found.');
+				userStates.delete(chatId);
+				return true;
+			}
+
+			const result = await updateOrderConfig(state.orderId, user._id.toString(), parsed.update);
+			if (!result.success) {
+				await getBot().sendMessage(chatId, `❌ ${result.error}`);
+			} else {
+				await getBot().sendMessage(chatId, '✅ Filter updated!');
+				await showOrderFilters(chatId, state.orderId);
 			}
 
 			userStates.delete(chatId);
@@ -2406,7 +3005,7 @@ export async function handleOrderTextMessage(msg: any): Promise<boolean> {
 
 			// Update order
 			const result = await updateOrderConfig(state.orderId, user._id.toString(), {
-				stopLossPercent: percentage,
+				stopLossLevels: [{ pnlPercent: percentage, sellPercent: 100 }],
 			});
 
 			if (!result.success) {
@@ -2514,6 +3113,50 @@ export async function handleOrderTextMessage(msg: any): Promise<boolean> {
 			return true;
 		}
 
+		// Handle Add Trailing SL Level - Step 1: Drop from peak
+		if (state.action === 'order_addtsl_input') {
+			const dropPercent = parseTrailingDropInput(text);
+			if (dropPercent === null) {
+				await getBot().sendMessage(chatId, '❌ Invalid percentage. Must be between 0.1 and 99.9.');
+				return true;
+			}
+
+			state.data.pnlPercent = dropPercent;
+			state.action = 'order_addtsl_activation';
+			userStates.set(chatId, state);
+
+			await getBot().sendMessage(
+				chatId,
+				`✅ Trail set to ${dropPercent}% below peak\n\n` +
+				`Now enter the activation profit percentage:\n\n` +
+				`<i>${TRAILING_ACTIVATION_HELP}</i>`,
+				{ parse_mode: 'HTML' }
+			);
+			return true;
+		}
+
+		// Handle Add Trailing SL Level - Step 2: Activation profit
+		if (state.action === 'order_addtsl_activation') {
+			const activationPercent = parseTrailingActivationInput(text);
+			if (activationPercent === undefined) {
+				await getBot().sendMessage(chatId, '❌ Invalid percentage. Enter 0 or a positive number.');
+				return true;
+			}
+
+			state.data.activationPercent = activationPercent;
+			state.action = 'order_addsl_sell';
+			userStates.set(chatId, state);
+
+			await getBot().sendMessage(
+				chatId,
+				`✅ ${activationPercent === null ? 'Armed immediately' : `Armed after +${activationPercent}%`}\n\n` +
+				`Now enter the sell percentage (how much to sell when this stop triggers):\n\n` +
+				`<i>Example: 100 (means sell all remaining tokens)</i>`,
+				{ parse_mode: 'HTML' }
+			);
+			return true;
+		}
+
 		// Handle Add SL Level - Step 2: Sell Percentage
 		if (state.action === 'order_addsl_sell') {
 			const sellPercent = parseFloat(text);
@@ -2545,11 +3188,15 @@ export async function handleOrderTextMessage(msg: any): Promise<boolean> {
 			order.stopLossLevels.push({
 				pnlPercent: state.data.pnlPercent,
 				sellPercent: sellPercent,
+				...(state.data.trailing ? { trailing: true, activationPercent: state.data.activationPercent } : {}),
 			});
 
 			await order.save();
 
-			await getBot().sendMessage(chatId, '✅ Stop Loss level added successfully!');
+			await getBot().sendMessage(
+				chatId,
+				state.data.trailing ? '✅ Trailing stop added successfully!' : '✅ Stop Loss level added successfully!'
+			);
 			await showTPSLSettings(chatId, state.orderId);
 
 			userStates.delete(chatId);
@@ -2620,6 +3267,29 @@ export async function handleOrderTextMessage(msg: any): Promise<boolean> {
 				return true;
 			}
 
+			// Trailing levels also ask for the activation profit
+			if (state.data.trailing) {
+				if (parseTrailingDropInput(text) === null) {
+					await getBot().sendMessage(chatId, '❌ Invalid percentage. Must be between 0.1 and 99.9.');
+					return true;
+				}
+
+				state.data.pnlPercent = pnlPercent;
+				state.action = 'order_edittsl_activation';
+				userStates.set(chatId, state);
+
+				const current = state.data.activationPercent == null ? '0 (armed immediately)' : `+${state.data.activationPercent}%`;
+				await getBot().sendMessage(
+					chatId,
+					`✅ Trail set to ${pnlPercent}% below peak\n\n` +
+					`Current activation: ${current}\n` +
+					`Now enter the new activation profit percentage:\n\n` +
+					`<i>${TRAILING_ACTIVATION_HELP}</i>`,
+					{ parse_mode: 'HTML' }
+				);
+				return true;
+			}
+
 			// Store new PNL percentage and move to step 2
 			state.data.pnlPercent = pnlPercent;
 			state.action = 'order_editsl_sell';
@@ -2633,6 +3303,26 @@ export async function handleOrderTextMessage(msg: any): Promise<boolean> {
 			return true;
 		}
 
+		// Handle Edit Trailing SL Level - Step 2: Activation profit
+		if (state.action === 'order_edittsl_activation') {
+			const activationPercent = parseTrailingActivationInput(text);
+			if (activationPercent === undefined) {
+				await getBot().sendMessage(chatId, '❌ Invalid percentage. Enter 0 or a positive number.');
+				return true;
+			}
+
+			state.data.activationPercent = activationPercent;
+			state.action = 'order_editsl_sell';
+			userStates.set(chatId, state);
+
+			await getBot().sendMessage(
+				chatId,
+				`✅ ${activationPercent === null ? 'Armed immediately' : `Armed after +${activationPercent}%`}\n\nNow enter the new sell percentage:`,
+				{ parse_mode: 'HTML' }
+			);
+			return true;
+		}
+
 		// Handle Edit SL Level - Step 2: Sell Percentage
 		if (state.action === 'order_editsl_sell') {
 			const sellPercent = parseFloat(text);
@@ -2658,6 +3348,9 @@ export async function handleOrderTextMessage(msg: any): Promise<boolean> {
 			// Update level
 			order.stopLossLevels[state.data.levelIndex].pnlPercent = state.data.pnlPercent;
 			order.stopLossLevels[state.data.levelIndex].sellPercent = sellPercent;
+			if (state.data.trailing) {
+				order.stopLossLevels[state.data.levelIndex].activationPercent = state.data.activationPercent;
+			}
 
 			await order.save();
 
@@ -2822,9 +3515,9 @@ export function clearOrderState(chatId: string): void {
 }
 
 /**
- * Toggle TP enabled
+ * Toggle Time Limit enabled
  */
-export async function toggleTPEnabled(chatId: string, orderId: string, messageId?: number): Promise<void> {
+export async function toggleTimeLimitEnabled(chatId: string, orderId: string, messageId?: number): Promise<void> {
 	try {
 		const user = await User.findOne({ chatId });
 		if (!user) return;
@@ -2833,19 +3526,19 @@ export async function toggleTPEnabled(chatId: string, orderId: string, messageId
 		if (!order) return;
 
 		await updateOrderConfig(orderId, user._id.toString(), {
-			takeProfitEnabled: !order.takeProfitEnabled,
+			timeLimitEnabled: !order.timeLimitEnabled,
 		});
 
-		await showTPSLSettings(chatId, orderId, messageId);
+		await showOrderDetail(chatId, orderId, messageId);
 	} catch (error: any) {
-		logger.error('Failed to toggle TP:', error.message);
+		logger.error('Failed to toggle Time Limit:', error.message);
 	}
 }
 
 /**
- * Toggle SL enabled
+ * Toggle buying on pending (mempool) migrations
  */
-export async function toggleSLEnabled(chatId: string, orderId: string, messageId?: number): Promise<void> {
+export async function toggleActOnPending(chatId: string, orderId: string, messageId?: number): Promise<void> {
 	try {
 		const user = await User.findOne({ chatId });
 		if (!user) return;
@@ -2854,19 +3547,19 @@ export async function toggleSLEnabled(chatId: string, orderId: string, messageId
 		if (!order) return;
 
 		await updateOrderConfig(orderId, user._id.toString(), {
-			stopLossEnabled: !order.stopLossEnabled,
+			actOnPending: !order.actOnPending,
 		});
 
-		await showTPSLSettings(chatId, orderId, messageId);
+		await showOrderDetail(chatId, orderId, messageId);
 	} catch (error: any) {
-		logger.error('Failed to toggle SL:', error.message);
+		logger.error('Failed to toggle pending migrations:', error.message);
 	}
 }
 
 /**
- * Toggle Time Limit enabled
+ * Toggle between public broadcast and the private relay for buys and sells
  */
-export async function toggleTimeLimitEnabled(chatId: string, orderId: string, messageId?: number): Promise<void> {
+export async function toggleSubmissionStrategy(chatId: string, orderId: string, messageId?: number): Promise<void> {
 	try {
 		const user = await User.findOne({ chatId });
 		if (!user) return;
@@ -2874,13 +3567,317 @@ export async function toggleTimeLimitEnabled(chatId: string, orderId: string, me
 		const order = await getOrderById(orderId, user._id.toString());
 		if (!order) return;
 
+		const usePrivate = order.submissionStrategy !== SubmissionStrategy.PRIVATE_RELAY;
+		if (usePrivate && !isPrivateRelayConfigured()) {
+			await getBot().sendMessage(
+				chatId,
+				'❌ No private relay configured.\n\nSet <code>PRIVATE_RELAY_URL</code> in the bot environment to enable private submission.',
+				{ parse_mode: 'HTML' }
+			);
+			return;
+		}
+
 		await updateOrderConfig(orderId, user._id.toString(), {
-			timeLimitEnabled: !order.timeLimitEnabled,
+			submissionStrategy: usePrivate ? SubmissionStrategy.PRIVATE_RELAY : SubmissionStrategy.PUBLIC,
 		});
 
 		await showOrderDetail(chatId, orderId, messageId);
 	} catch (error: any) {
-		logger.error('Failed to toggle Time Limit:', error.message);
+		logger.error('Failed to toggle submission strategy:', error.message);
+	}
+}
+
+/**
+ * Toggle whether TP/SL triggers on spot PNL or realizable PNL (router quote net of sell tax)
+ */
+export async function togglePnlBasis(chatId: string, orderId: string, messageId?: number): Promise<void> {
+	try {
+		const user = await User.findOne({ chatId });
+		if (!user) return;
+
+		const order = await getOrderById(orderId, user._id.toString());
+		if (!order) return;
+
+		await updateOrderConfig(orderId, user._id.toString(), {
+			pnlBasis: order.pnlBasis === PnlBasis.REALIZABLE ? PnlBasis.SPOT : PnlBasis.REALIZABLE,
+		});
+
+		await showOrderDetail(chatId, orderId, messageId);
+	} catch (error: any) {
+		logger.error('Failed to toggle PNL basis:', error.message);
+	}
+}
+
+/**
+ * Show sell retry settings (escalation ladders for failed TP/SL/time limit sells)
+ */
+export async function showSellRetrySettings(chatId: string, orderId: string, messageId?: number): Promise<void> {
+	try {
+		const user = await User.findOne({ chatId });
+		if (!user) return;
+
+		const order = await getOrderById(orderId, user._id.toString());
+		if (!order) {
+			await getBot().sendMessage(chatId, '❌ Order not found.');
+			return;
+		}
+
+		const { enabled, stopLoss, takeProfit } = order.sellRetry;
+
+		let text = `🔁 <b>Sell Retry: ${order.name}</b>\n\n`;
+		text += `When an automatic sell fails (e.g. INSUFFICIENT_OUTPUT_AMOUNT on a dumping token), it is retried with more slippage and gas, up to the caps. `;
+		text += `All attempts are reported in one message.\n\n`;
+		text += `<b>Status:</b> ${formatToggle(enabled)}\n`;
+		text += `<b>Base:</b> ${order.slippage}% slippage, ${order.gasFee.gasPrice} gwei\n\n`;
+		text += `<b>🛑 Stop Loss / Time Limit:</b>\n${formatSellRetryLadder(stopLoss)}\n\n`;
+		text += `<b>🎯 Take Profit:</b>\n${formatSellRetryLadder(takeProfit)}`;
+
+		const keyboard: TelegramBot.InlineKeyboardMarkup = {
+			inline_keyboard: [
+				[{ text: enabled ? '✅ Retry: ON' : '❌ Retry: OFF', callback_data: `order_sellretrytoggle_${orderId}` }],
+				[
+					{ text: '🛑 Edit SL Ladder', callback_data: `order_sellretryedit_${orderId}_stopLoss` },
+					{ text: '🎯 Edit TP Ladder', callback_data: `order_sellretryedit_${orderId}_takeProfit` },
+				],
+				[{ text: '🔙 Back to Order', callback_data: `order_view_${orderId}` }],
+			],
+		};
+
+		if (messageId) {
+			try {
+				await getBot().editMessageText(text, {
+					chat_id: chatId,
+					message_id: messageId,
+					parse_mode: 'HTML',
+					reply_markup: keyboard,
+				});
+			} catch (editError: any) {
+				if (!editError.message?.includes('message is not modified')) {
+					throw editError;
+				}
+			}
+		} else {
+			await getBot().sendMessage(chatId, text, {
+				parse_mode: 'HTML',
+				reply_markup: keyboard,
+			});
+		}
+	} catch (error: any) {
+		logger.error('Failed to show sell retry settings:', error.message);
+		await getBot().sendMessage(chatId, '❌ Failed to load sell retry settings.');
+	}
+}
+
+/**
+ * Toggle escalating sell retries
+ */
+export async function toggleSellRetry(chatId: string, orderId: string, messageId?: number): Promise<void> {
+	try {
+		const user = await User.findOne({ chatId });
+		if (!user) return;
+
+		const order = await getOrderById(orderId, user._id.toString());
+		if (!order) return;
+
+		await updateOrderConfig(orderId, user._id.toString(), {
+			sellRetry: { enabled: !order.sellRetry.enabled },
+		});
+
+		await showSellRetrySettings(chatId, orderId, messageId);
+	} catch (error: any) {
+		logger.error('Failed to toggle sell retry:', error.message);
+	}
+}
+
+/**
+ * Handle sell retry ladder input request
+ */
+export async function handleSellRetryInput(
+	chatId: string,
+	orderId: string,
+	ladder: 'stopLoss' | 'takeProfit',
+	messageId?: number
+): Promise<void> {
+	try {
+		const title = ladder === 'stopLoss' ? '🛑 <b>Stop Loss Retry Ladder</b>' : '🎯 <b>Take Profit Retry Ladder</b>';
+		const text =
+			`${title}\n\n` +
+			`Enter five numbers separated by spaces:\n` +
+			`<code>attempts slippageStep maxSlippage gasStep% maxGasGwei</code>\n\n` +
+			`Attempts include the first try (1-${SELL_RETRY_MAX_ATTEMPTS}, 1 = no retries).\n\n` +
+			`<i>Example: 4 10 49 25 20 (retries at +10%, +20%, +30% slippage up to 49%, gas +25% per retry up to 20 gwei)</i>`;
+
+		userStates.set(chatId, {
+			action: 'order_sellretry_input',
+			orderId,
+			step: ladder,
+		});
+
+		const reply_markup = {
+			inline_keyboard: [[{ text: '❌ Cancel', callback_data: `order_sellretry_${orderId}` }]],
+		};
+
+		if (messageId) {
+			await getBot().editMessageText(text, { chat_id: chatId, message_id: messageId, parse_mode: 'HTML', reply_markup });
+		} else {
+			await getBot().sendMessage(chatId, text, { parse_mode: 'HTML', reply_markup });
+		}
+	} catch (error: any) {
+		logger.error('Failed to handle sell retry input:', error.message);
+	}
+}
+
+/**
+ * Show entry mode settings (single swap, time-based DCA or price ladder)
+ */
+export async function showEntrySettings(chatId: string, orderId: string, messageId?: number): Promise<void> {
+	try {
+		const user = await User.findOne({ chatId });
+		if (!user) return;
+
+		const order = await getOrderById(orderId, user._id.toString());
+		if (!order) {
+			await getBot().sendMessage(chatId, '❌ Order not found.');
+			return;
+		}
+
+		const mode = order.entryMode || EntryMode.SINGLE;
+		const tranche = order.tradingAmount / order.entryTranches;
+
+		let text = `🪜 <b>Entry Mode: ${order.name}</b>\n\n`;
+		text += `<b>Single:</b> buy the whole amount in one swap\n`;
+		text += `<b>Time DCA:</b> split into tranches bought every N seconds\n`;
+		text += `<b>Price Ladder:</b> buy more at fixed drops below the first fill\n\n`;
+		text += `<b>Current:</b> ${formatEntryMode(order)}\n`;
+
+		if (mode !== EntryMode.SINGLE) {
+			text += `<b>Per Tranche:</b> ${formatBnb(tranche)} BNB\n`;
+			if (mode === EntryMode.PRICE) {
+				const steps = Array.from({ length: order.entryTranches - 1 }, (_, i) => `-${(i + 1) * order.entryStepPercent}%`);
+				text += `<b>Buys at:</b> first fill, ${steps.join(', ')}\n`;
+			}
+			text += `\n<i>All tranches are averaged into one position; TP/SL apply to the averaged entry. The ladder stops once the position starts selling.</i>`;
+		}
+
+		const modeButton = (label: string, value: EntryMode) => ({
+			text: mode === value ? `✅ ${label}` : label,
+			callback_data: `order_entrymode_${orderId}_${value}`,
+		});
+
+		const keyboard: TelegramBot.InlineKeyboardMarkup = {
+			inline_keyboard: [
+				[modeButton('Single', EntryMode.SINGLE)],
+				[modeButton('⏱ Time DCA', EntryMode.TIME), modeButton('📉 Price Ladder', EntryMode.PRICE)],
+			],
+		};
+
+		if (mode !== EntryMode.SINGLE) {
+			keyboard.inline_keyboard.push(
+				[2, 3, 4, 5].map((count) => ({
+					text: order.entryTranches === count ? `✅ ${count}×` : `${count}×`,
+					callback_data: `order_entrytranches_${orderId}_${count}`,
+				}))
+			);
+			keyboard.inline_keyboard.push([
+				mode === EntryMode.TIME
+					? { text: `⏱ Interval: ${order.entryIntervalSeconds}s`, callback_data: `order_entryparam_${orderId}` }
+					: { text: `📉 Step: ${order.entryStepPercent}%`, callback_data: `order_entryparam_${orderId}` },
+			]);
+		}
+
+		keyboard.inline_keyboard.push([{ text: '🔙 Back to Order', callback_data: `order_view_${orderId}` }]);
+
+		if (messageId) {
+			try {
+				await getBot().editMessageText(text, {
+					chat_id: chatId,
+					message_id: messageId,
+					parse_mode: 'HTML',
+					reply_markup: keyboard,
+				});
+			} catch (editError: any) {
+				if (!editError.message?.includes('message is not modified')) {
+					throw editError;
+				}
+			}
+		} else {
+			await getBot().sendMessage(chatId, text, {
+				parse_mode: 'HTML',
+				reply_markup: keyboard,
+			});
+		}
+	} catch (error: any) {
+		logger.error('Failed to show entry settings:', error.message);
+		await getBot().sendMessage(chatId, '❌ Failed to load entry settings.');
+	}
+}
+
+/**
+ * Set entry mode
+ */
+export async function setEntryMode(chatId: string, orderId: string, entryMode: EntryMode, messageId?: number): Promise<void> {
+	try {
+		const user = await User.findOne({ chatId });
+		if (!user) return;
+
+		if (!Object.values(EntryMode).includes(entryMode)) return;
+
+		await updateOrderConfig(orderId, user._id.toString(), { entryMode });
+		await showEntrySettings(chatId, orderId, messageId);
+	} catch (error: any) {
+		logger.error('Failed to set entry mode:', error.message);
+	}
+}
+
+/**
+ * Set number of entry tranches
+ */
+export async function setEntryTranches(chatId: string, orderId: string, tranches: number, messageId?: number): Promise<void> {
+	try {
+		const user = await User.findOne({ chatId });
+		if (!user) return;
+
+		if (isNaN(tranches) || tranches < 2 || tranches > ENTRY_MAX_TRANCHES) return;
+
+		await updateOrderConfig(orderId, user._id.toString(), { entryTranches: tranches });
+		await showEntrySettings(chatId, orderId, messageId);
+	} catch (error: any) {
+		logger.error('Failed to set entry tranches:', error.message);
+	}
+}
+
+/**
+ * Handle entry interval (TIME) or step (PRICE) input request
+ */
+export async function handleEntryParamInput(chatId: string, orderId: string, messageId?: number): Promise<void> {
+	try {
+		const user = await User.findOne({ chatId });
+		if (!user) return;
+
+		const order = await getOrderById(orderId, user._id.toString());
+		if (!order) return;
+
+		const isTime = order.entryMode === EntryMode.TIME;
+		const text = isTime
+			? '⏱ <b>DCA Interval</b>\n\nEnter the delay between tranches in seconds (10-86400):\n\n<i>Example: 60</i>'
+			: '📉 <b>Ladder Step</b>\n\nEnter the drop below the first fill between tranches, in % (1-90):\n\n<i>Example: 10 (buys at -10%, -20%, ...)</i>';
+
+		userStates.set(chatId, {
+			action: isTime ? 'order_entry_interval' : 'order_entry_step',
+			orderId,
+		});
+
+		const reply_markup = {
+			inline_keyboard: [[{ text: '❌ Cancel', callback_data: `order_entry_${orderId}` }]],
+		};
+
+		if (messageId) {
+			await getBot().editMessageText(text, { chat_id: chatId, message_id: messageId, parse_mode: 'HTML', reply_markup });
+		} else {
+			await getBot().sendMessage(chatId, text, { parse_mode: 'HTML', reply_markup });
+		}
+	} catch (error: any) {
+		logger.error('Failed to handle entry input:', error.message);
 	}
 }
 
@@ -2923,7 +3920,7 @@ export async function handleTimeLimitInput(chatId: string, orderId: string, mess
  */
 export async function showTPSelection(chatId: string, orderId: string, messageId?: number): Promise<void> {
 	try {
-		const text = '📈 <b>Take Profit Percentage</b>\n\nSelect or enter a custom percentage for taking profits:';
+		const text = '📈 <b>Take Profit Percentage</b>\n\nSelect or enter a custom percentage for taking profits.\n<i>Replaces all TP levels with a single level that sells 100%.</i>';
 
 		const keyboard = {
 			inline_keyboard: [
@@ -2970,7 +3967,7 @@ export async function showTPSelection(chatId: string, orderId: string, messageId
  */
 export async function showSLSelection(chatId: string, orderId: string, messageId?: number): Promise<void> {
 	try {
-		const text = '📉 <b>Stop Loss Percentage</b>\n\nSelect or enter a custom percentage for stop losses:';
+		const text = '📉 <b>Stop Loss Percentage</b>\n\nSelect or enter a custom percentage for stop losses.\n<i>Replaces all SL levels with a single level that sells 100%.</i>';
 
 		const keyboard = {
 			inline_keyboard: [
@@ -3034,7 +4031,7 @@ export async function handleSetTP(
 
 		// Update order
 		const result = await updateOrderConfig(orderId, user._id.toString(), {
-			takeProfitPercent: percentage,
+			takeProfitLevels: [{ pnlPercent: percentage, sellPercent: 100 }],
 		});
 
 		if (!result.success) {
@@ -3073,7 +4070,7 @@ export async function handleSetSL(
 
 		// Update order
 		const result = await updateOrderConfig(orderId, user._id.toString(), {
-			stopLossPercent: percentage,
+			stopLossLevels: [{ pnlPercent: percentage, sellPercent: 100 }],
 		});
 
 		if (!result.success) {
@@ -3230,6 +4227,43 @@ export async function handleAddSLLevel(chatId: string, orderId: string, messageI
 	}
 }
 
+/**
+ * Handle Add Trailing SL Level
+ */
+export async function handleAddTrailingSLLevel(chatId: string, orderId: string, messageId?: number): Promise<void> {
+	try {
+		const text =
+			'📉 <b>Add Trailing Stop</b>\n\n📊 Enter the drop from peak percentage:\n\n' +
+			'<i>Example: 20 (sell when price falls 20% below its highest point since buy)</i>';
+
+		userStates.set(chatId, {
+			action: 'order_addtsl_input',
+			orderId,
+			data: { pnlPercent: null, sellPercent: null, trailing: true, activationPercent: null },
+		});
+
+		if (messageId) {
+			await getBot().editMessageText(text, {
+				chat_id: chatId,
+				message_id: messageId,
+				parse_mode: 'HTML',
+				reply_markup: {
+					inline_keyboard: [[{ text: '❌ Cancel', callback_data: `order_tpsl_${orderId}` }]],
+				},
+			});
+		} else {
+			await getBot().sendMessage(chatId, text, {
+				parse_mode: 'HTML',
+				reply_markup: {
+					inline_keyboard: [[{ text: '❌ Cancel', callback_data: `order_tpsl_${orderId}` }]],
+				},
+			});
+		}
+	} catch (error: any) {
+		logger.error('Failed to handle add trailing SL level:', error.message);
+	}
+}
+
 /**
  * Handle Edit TP Level
  */
@@ -3284,12 +4318,20 @@ export async function handleEditSLLevel(chatId: string, orderId: string, levelIn
 		if (!order || !order.stopLossLevels || !order.stopLossLevels[levelIndex]) return;
 
 		const level = order.stopLossLevels[levelIndex];
-		const text = `✏️ <b>Edit SL${levelIndex + 1}</b>\n\nCurrent: -${level.pnlPercent}% → Sell ${level.sellPercent}%\n\n📊 Enter new loss percentage:`;
+		const text =
+			`✏️ <b>Edit SL${levelIndex + 1}</b>\n\nCurrent: ${formatStopLossTrigger(level)} → Sell ${level.sellPercent}%\n\n` +
+			(level.trailing ? '📊 Enter new drop from peak percentage:' : '📊 Enter new loss percentage:');
 
 		userStates.set(chatId, {
 			action: 'order_editsl_input',
 			orderId,
-			data: { levelIndex, pnlPercent: level.pnlPercent, sellPercent: level.sellPercent },
+			data: {
+				levelIndex,
+				pnlPercent: level.pnlPercent,
+				sellPercent: level.sellPercent,
+				trailing: !!level.trailing,
+				activationPercent: level.activationPercent ?? null,
+			},
 		});
 
 		if (messageId) {
@@ -3373,3 +4415,106 @@ export async function handleDeleteSLLevel(chatId: string, orderId: string, level
 		logger.error('Failed to delete SL level:', error.message);
 	}
 }
+
+/**
+ * Toggle the break-even stop (applies after the first TP level sells)
+ */
+export async function toggleBreakEvenStop(chatId: string, orderId: string, messageId?: number): Promise<void> {
+	try {
+		const user = await User.findOne({ chatId });
+		if (!user) return;
+
+		const order = await getOrderById(orderId, user._id.toString());
+		if (!order) return;
+
+		await updateOrderConfig(orderId, user._id.toString(), {
+			breakEvenStop: { enabled: !order.breakEvenStop?.enabled },
+		});
+
+		await showTPSLSettings(chatId, orderId, messageId);
+	} catch (error: any) {
+		logger.error('Failed to toggle break-even stop:', error.message);
+	}
+}
+
+/**
+ * Handle break-even locked profit input request
+ */
+export async function handleBreakEvenLockInput(chatId: string, orderId: string, messageId?: number): Promise<void> {
+	try {
+		const text =
+			`🔒 <b>Break-Even Locked Profit</b>\n\n` +
+			`Once any take profit level sells, the remaining tokens are sold if PNL falls back to this percentage.\n\n` +
+			`Enter a percentage (0-${BREAK_EVEN_MAX_LOCK_PERCENT}). Use 0 for a plain break-even stop.\n\n` +
+			`<i>Example: 10 (sell the rest if PNL drops back to +10%)</i>`;
+
+		userStates.set(chatId, {
+			action: 'order_breakeven_input',
+			orderId,
+		});
+
+		const reply_markup = {
+			inline_keyboard: [[{ text: '❌ Cancel', callback_data: `order_tpsl_${orderId}` }]],
+		};
+
+		if (messageId) {
+			await getBot().editMessageText(text, { chat_id: chatId, message_id: messageId, parse_mode: 'HTML', reply_markup });
+		} else {
+			await getBot().sendMessage(chatId, text, { parse_mode: 'HTML', reply_markup });
+		}
+	} catch (error: any) {
+		logger.error('Failed to handle break-even input:', error.message);
+	}
+}
+
+/**
+ * Toggle the dev dump exit (full sell when the creator or top holders dump)
+ */
+export async function toggleDevDumpExit(chatId: string, orderId: string, messageId?: number): Promise<void> {
+	try {
+		const user = await User.findOne({ chatId });
+		if (!user) return;
+
+		const order = await getOrderById(orderId, user._id.toString());
+		if (!order) return;
+
+		await updateOrderConfig(orderId, user._id.toString(), {
+			devDumpExit: { enabled: !order.devDumpExit?.enabled },
+		});
+
+		await showTPSLSettings(chatId, orderId, messageId);
+	} catch (error: any) {
+		logger.error('Failed to toggle dev dump exit:', error.message);
+	}
+}
+
+/**
+ * Handle dev dump supply percentage input request
+ */
+export async function handleDevDumpPercentInput(chatId: string, orderId: string, messageId?: number): Promise<void> {
+	try {
+		const text =
+			`📦 <b>Dev Dump Limit</b>\n\n` +
+			`The creator and the largest initial holders of migrated tokens are watched while a position is open. ` +
+			`Once they have sold or transferred out more than this share of the total supply, the position is sold in full.\n\n` +
+			`Enter a percentage of supply (0.1-100).\n\n` +
+			`<i>Example: 5 (exit once the devs moved more than 5% of supply)</i>`;
+
+		userStates.set(chatId, {
+			action: 'order_devdump_input',
+			orderId,
+		});
+
+		const reply_markup = {
+			inline_keyboard: [[{ text: '❌ Cancel', callback_data: `order_tpsl_${orderId}` }]],
+		};
+
+		if (messageId) {
+			await getBot().editMessageText(text, { chat_id: chatId, message_id: messageId, parse_mode: 'HTML', reply_markup });
+		} else {
+			await getBot().sendMessage(chatId, text, { parse_mode: 'HTML', reply_markup });
+		}
+	} catch (error: any) {
+		logger.error('Failed to handle dev dump input:', error.message);
+	}
+}
@@ -0,0 +1,284 @@
+import TelegramBot from 'node-telegram-bot-api';
+import { panicSellService, PanicSellScope, PanicSellProgress } from '../../services/panic.sell';
+import { User, Position, Order, Wallet } from '../../database/models';
+import { formatBnb, escapeHtml, truncate } from '../../utils/formatter';
+import { logger } from '../../utils/logger';
+import {
+	PositionStatus,
+	PANIC_SELL_SLIPPAGE,
+	PANIC_SELL_GAS_MULTIPLIER,
+	PANIC_PROGRESS_INTERVAL,
+} from '../../config/constants';
+
+/**
+ * Bot instance for panic handler
+ */
+let botInstance: TelegramBot;
+
+/**
+ * Set bot instance (to avoid circular dependency)
+ */
+export function setBotInstance(bot: TelegramBot): void {
+	botInstance = bot;
+}
+
+/**
+ * Get bot instance
+ */
+function getBot(): TelegramBot {
+	if (!botInstance) {
+		throw new Error('Bot instance not initialized in panic handler');
+	}
+	return botInstance;
+}
+
+/**
+ * Edit a message, or send a new one if there is nothing to edit
+ */
+async function render(
+	chatId: string,
+	text: string,
+	reply_markup: TelegramBot.InlineKeyboardMarkup | undefined,
+	messageId?: number
+): Promise<void> {
+	if (messageId) {
+		try {
+			await getBot().editMessageText(text, { chat_id: chatId, message_id: messageId, parse_mode: 'HTML', reply_markup });
+			return;
+		} catch (editError: any) {
+			if (editError.message?.includes('message is not modified')) return;
+			logger.debug(`Panic message edit failed, sending a new one: ${editError.message}`);
+		}
+	}
+
+	await getBot().sendMessage(chatId, text, { parse_mode: 'HTML', reply_markup });
+}
+
+/**
+ * Callback suffix for a scope: "{manual}_all", "{manual}_order_{id}" or "{manual}_wallet_{id}"
+ */
+function encodeScope(scope: PanicSellScope): string {
+	const manual = scope.includeManual ? '1' : '0';
+	return scope.type === 'all' ? `${manual}_all` : `${manual}_${scope.type}_${scope.id}`;
+}
+
+/**
+ * Parse a callback scope suffix (see encodeScope)
+ */
+export function parsePanicScope(data: string): PanicSellScope | null {
+	const [manual, type, id] = data.split('_');
+	if (manual !== '0' && manual !== '1') return null;
+	if (type === 'all') return { type, includeManual: manual === '1' };
+	if ((type === 'order' || type === 'wallet') && id) return { type, id, includeManual: manual === '1' };
+	return null;
+}
+
+/**
+ * Show the panic sell menu: pick all positions, one wallet or one order
+ */
+export async function showPanicMenu(chatId: string, includeManual: boolean = false, messageId?: number): Promise<void> {
+	try {
+		const user = await User.findOne({ chatId });
+		if (!user) return;
+
+		const positions = await Position.find({ userId: user._id, status: PositionStatus.ACTIVE }).select('orderId walletId isManual');
+		const manualCount = positions.filter((position) => position.isManual).length;
+		const included = includeManual ? positions : positions.filter((position) => !position.isManual);
+
+		const byOrder = new Map<string, number>();
+		const byWallet = new Map<string, number>();
+		for (const position of included) {
+			const orderId = position.orderId.toString();
+			const walletId = position.walletId.toString();
+			byOrder.set(orderId, (byOrder.get(orderId) || 0) + 1);
+			byWallet.set(walletId, (byWallet.get(walletId) || 0) + 1);
+		}
+
+		const [orders, wallets] = await Promise.all([
+			Order.find({ _id: { $in: [...byOrder.keys()] } }).select('name'),
+			Wallet.find({ _id: { $in: [...byWallet.keys()] } }).select('name'),
+		]);
+
+		let text = `🚨 <b>Panic Sell</b>\n\n`;
+		text += `Sells 100% of every active position in the chosen scope at top queue priority, `;
+		text += `with ${PANIC_SELL_SLIPPAGE}% slippage and ${PANIC_SELL_GAS_MULTIPLIER}× gas.\n\n`;
+		text += `<b>Active Positions:</b> ${positions.length} (${manualCount} manual)\n`;
+		text += `<b>Manual Positions:</b> ${includeManual ? 'Included' : 'Excluded'}\n\n`;
+		text += included.length > 0 ? `Choose what to sell:` : `<i>Nothing to sell.</i>`;
+
+		const keyboard: TelegramBot.InlineKeyboardMarkup = { inline_keyboard: [] };
+
+		if (included.length > 0) {
+			keyboard.inline_keyboard.push([
+				{ text: `🌐 Everything (${included.length})`, callback_data: `panic_pick_${encodeScope({ type: 'all', includeManual })}` },
+			]);
+			for (const wallet of wallets) {
+				keyboard.inline_keyboard.push([
+					{
+						text: `💼 ${wallet.name} (${byWallet.get(wallet._id.toString())})`,
+						callback_data: `panic_pick_${encodeScope({ type: 'wallet', id: wallet._id.toString(), includeManual })}`,
+					},
+				]);
+			}
+			for (const order of orders) {
+				keyboard.inline_keyboard.push([
+					{
+						text: `📊 ${order.name} (${byOrder.get(order._id.toString())})`,
+						callback_data: `panic_pick_${encodeScope({ type: 'order', id: order._id.toString(), includeManual })}`,
+					},
+				]);
+			}
+		}
+
+		if (manualCount > 0) {
+			keyboard.inline_keyboard.push([
+				{
+					text: includeManual ? '✋ Manual Positions: Included' : '✋ Manual Positions: Excluded',
+					callback_data: `panic_menu_${includeManual ? '0' : '1'}`,
+				},
+			]);
+		}
+		keyboard.inline_keyboard.push([{ text: '🏠 Main Menu', callback_data: 'main_menu' }]);
+
+		await render(chatId, text, keyboard, messageId);
+	} catch (error: any) {
+		logger.error('Failed to show panic menu:', error.message);
+		await getBot().sendMessage(chatId, '❌ Failed to load panic sell menu.');
+	}
+}
+
+/**
+ * Ask for confirmation before selling a scope
+ */
+export async function showPanicConfirm(chatId: string, scope: PanicSellScope, messageId?: number): Promise<void> {
+	try {
+		const user = await User.findOne({ chatId });
+		if (!user) return;
+
+		const targets = await panicSellService.getTargets(user._id.toString(), scope);
+		if (targets.length === 0) {
+			await render(
+				chatId,
+				'🚨 <b>Panic Sell</b>\n\n<i>No active positions in this scope.</i>',
+				{ inline_keyboard: [[{ text: '🔙 Back', callback_data: `panic_menu_${scope.includeManual ? '1' : '0'}` }]] },
+				messageId
+			);
+			return;
+		}
+
+		let scopeName = 'all wallets and orders';
+		if (scope.type === 'order') {
+			const order = await Order.findById(scope.id).select('name');
+			scopeName = `order <b>${escapeHtml(order?.name || 'Unknown')}</b>`;
+		} else if (scope.type === 'wallet') {
+			const wallet = await Wallet.findById(scope.id).select('name');
+			scopeName = `wallet <b>${escapeHtml(wallet?.name || 'Unknown')}</b>`;
+		}
+
+		const estimatedValue = targets.reduce((sum, position) => sum + position.tokenAmount * (position.currentPrice || 0), 0);
+
+		let text = `🚨 <b>Confirm Panic Sell</b>\n\n`;
+		text += `Sell <b>100%</b> of ${targets.length} position(s) in ${scopeName}`;
+		text += scope.includeManual ? ' (manual positions included)' : '';
+		text += `.\n\n`;
+		targets.slice(0, 10).forEach((position) => {
+			text += `• ${escapeHtml(position.tokenSymbol || 'Unknown')}: ~${formatBnb(position.tokenAmount * (position.currentPrice || 0))} BNB\n`;
+		});
+		if (targets.length > 10) {
+			text += `• ... and ${targets.length - 10} more\n`;
+		}
+		text += `\n<b>Estimated Value:</b> ~${formatBnb(estimatedValue)} BNB (spot, before slippage)\n\n`;
+		text += `⚠️ <i>This cannot be undone.</i>`;
+
+		await render(
+			chatId,
+			text,
+			{
+				inline_keyboard: [
+					[{ text: '🚨 CONFIRM - SELL EVERYTHING', callback_data: `panic_go_${encodeScope(scope)}` }],
+					[{ text: '❌ Cancel', callback_data: `panic_menu_${scope.includeManual ? '1' : '0'}` }],
+				],
+			},
+			messageId
+		);
+	} catch (error: any) {
+		logger.error('Failed to show panic confirmation:', error.message);
+		await getBot().sendMessage(chatId, '❌ Failed to prepare panic sell.');
+	}
+}
+
+/**
+ * Format the live progress message
+ */
+function formatProgress(progress: PanicSellProgress): string {
+	let text = progress.done ? `🚨 <b>Panic Sell Complete</b>\n\n` : `🚨 <b>Panic Sell In Progress...</b>\n\n`;
+	text += `✅ Sold: ${progress.sold}/${progress.total}\n`;
+	text += `❌ Failed: ${progress.failed}\n`;
+	text += `⏭ Skipped: ${progress.skipped}\n`;
+	if (!progress.done) {
+		text += `⏳ Pending: ${progress.pending}\n`;
+	}
+	text += `💰 BNB Recovered: ${formatBnb(progress.bnbRecovered)} BNB\n\n`;
+
+	const icons = { sold: '✅', failed: '❌', skipped: '⏭', pending: '⏳' };
+	progress.results.slice(0, 20).forEach((result) => {
+		let line = `${icons[result.status]} ${escapeHtml(result.tokenSymbol)}`;
+		if (result.status === 'sold') line += `: +${formatBnb(result.bnbReceived || 0)} BNB`;
+		if (result.error) line += `: ${escapeHtml(truncate(result.error, 60))}`;
+		text += `${line}\n`;
+	});
+	if (progress.results.length > 20) {
+		text += `... and ${progress.results.length - 20} more\n`;
+	}
+
+	return text;
+}
+
+/**
+ * Run a confirmed panic sell, editing one message as sells settle
+ */
+export async function executePanicSell(chatId: string, scope: PanicSellScope, messageId?: number): Promise<void> {
+	try {
+		const user = await User.findOne({ chatId });
+		if (!user) return;
+
+		const userId = user._id.toString();
+		if (panicSellService.isRunning(userId)) {
+			await getBot().sendMessage(chatId, '⏳ A panic sell is already running.');
+			return;
+		}
+
+		let progressMessageId = messageId;
+		if (!progressMessageId) {
+			const sent = await getBot().sendMessage(chatId, '🚨 <b>Panic Sell</b>\n\nQueueing sells...', { parse_mode: 'HTML' });
+			progressMessageId = sent.message_id;
+		} else {
+			await render(chatId, '🚨 <b>Panic Sell</b>\n\nQueueing sells...', undefined, progressMessageId);
+		}
+
+		let lastEdit = 0;
+		const progress = await panicSellService.run(userId, scope, async (update) => {
+			// Telegram rate-limits edits, so intermediate updates are throttled
+			if (!update.done && Date.now() - lastEdit < PANIC_PROGRESS_INTERVAL) return;
+			lastEdit = Date.now();
+
+			try {
+				await getBot().editMessageText(formatProgress(update), {
+					chat_id: chatId,
+					message_id: progressMessageId,
+					parse_mode: 'HTML',
+					reply_markup: update.done ? { inline_keyboard: [[{ text: '🏠 Main Menu', callback_data: 'main_menu' }]] } : undefined,
+				});
+			} catch (editError: any) {
+				logger.debug(`Panic progress update failed: ${editError.message}`);
+			}
+		});
+
+		if (progress.total === 0) {
+			await render(chatId, '🚨 <b>Panic Sell</b>\n\n<i>No active positions to sell.</i>', undefined, progressMessageId);
+		}
+	} catch (error: any) {
+		logger.error('Panic sell failed:', error.message);
+		await getBot().sendMessage(chatId, `❌ Panic sell failed: ${escapeHtml(error.message)}`, { parse_mode: 'HTML' });
+	}
+}
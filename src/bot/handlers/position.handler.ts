@@ -1,10 +1,10 @@
 import TelegramBot from 'node-telegram-bot-api';
 import { logger } from '../../utils/logger';
-import { User, Position } from '../../database/models';
+import { User, Position, ScannedToken } from '../../database/models';
 import { PositionStatus } from '../../config/constants';
-import { formatBnb, formatAddress, formatPercent } from '../../utils/formatter';
+import { formatBnb, formatAddress, formatPercent, formatStopLossTrigger } from '../../utils/formatter';
 import { getPositionsListKeyboard, getPositionDetailKeyboard } from '../keyboards/position.keyboard';
-import { B_Transaction, TransactionType, transactionQueue, B_Wallet, B_Token } from '../../core/classes';
+import { B_Transaction, TransactionType, transactionQueue, B_Wallet, B_Token, B_Trading } from '../../core/classes';
 
 /**
  * Bot instance getter - resolves circular dependency
@@ -149,10 +149,15 @@ export async function showPositionDetail(chatId: string, positionId: string, mes
 
 		text += `📊 <b>Buy Information</b>\n`;
 		text += `💵 Amount: ${formatBnb(position.buyAmount)} BNB\n`;
-		text += `💰 Price: ${position.buyPrice.toFixed(10)} BNB\n`;
+		text += `💰 ${position.entryLadder ? 'Avg Price' : 'Price'}: ${position.buyPrice.toFixed(10)} BNB\n`;
 		text += `💲 USD Price: $${position.buyPriceUsd.toFixed(6)}\n`;
 		text += `🪙 Tokens: ${position.tokenAmount.toFixed(2)}\n`;
 		text += `📅 Date: ${position.buyTimestamp.toLocaleString()}\n`;
+		if (position.entryLadder) {
+			const ladder = position.entryLadder;
+			const ladderStatus = ladder.complete ? (ladder.filled < ladder.tranches ? ' (stopped)' : '') : ' (in progress)';
+			text += `🪜 Tranches: ${ladder.filled}/${ladder.tranches}${ladderStatus}\n`;
+		}
 		text += `🔗 TX: <code>${position.buyTxHash}</code>\n\n`;
 
 		text += `📈 <b>Current Status</b>\n`;
@@ -163,7 +168,12 @@ export async function showPositionDetail(chatId: string, positionId: string, mes
 		text += `${pnlEmoji} <b>Profit/Loss</b>\n`;
 		text += `📊 PNL %: ${pnlSign}${formatPercent(position.pnlPercent)}%\n`;
 		text += `💵 PNL BNB: ${pnlSign}${formatBnb(position.pnlBnb)} BNB\n`;
-		text += `💲 PNL USD: $${pnlSign}${position.pnlUsd.toFixed(2)}\n\n`;
+		text += `💲 PNL USD: $${pnlSign}${position.pnlUsd.toFixed(2)}\n`;
+		if (position.realizablePnlPercent != null && position.realizablePnlBnb != null) {
+			const realizableSign = position.realizablePnlPercent >= 0 ? '+' : '';
+			text += `🧾 Realizable: ${formatPercent(position.realizablePnlPercent)} (${realizableSign}${formatBnb(position.realizablePnlBnb)} BNB after impact and tax)\n`;
+		}
+		text += `\n`;
 
 		// Display Multiple TP/SL Levels with triggered status
 		if (position.takeProfitLevels && position.takeProfitLevels.length > 0) {
@@ -175,10 +185,6 @@ export async function showPositionDetail(chatId: string, positionId: string, mes
 				text += `${statusIcon} TP${i + 1}: +${level.pnlPercent}% → Sell ${level.sellPercent}%\n`;
 			}
 			text += '\n';
-		} else if (position.takeProfitTarget) {
-			// Legacy single TP display
-			text += `🎯 <b>Targets</b>\n`;
-			text += `✅ Take Profit: ${formatPercent(position.takeProfitTarget)}%\n`;
 		}
 
 		if (position.stopLossLevels && position.stopLossLevels.length > 0) {
@@ -187,15 +193,34 @@ export async function showPositionDetail(chatId: string, positionId: string, mes
 				const level = position.stopLossLevels[i];
 				const isTriggered = position.triggeredStopLossLevels?.includes(i);
 				const statusIcon = isTriggered ? '✅' : '⏳';
-				text += `${statusIcon} SL${i + 1}: -${level.pnlPercent}% → Sell ${level.sellPercent}%\n`;
+				text += `${statusIcon} SL${i + 1}: ${formatStopLossTrigger(level)} → Sell ${level.sellPercent}%\n`;
 			}
-			text += '\n';
-		} else if (position.stopLossTarget) {
-			// Legacy single SL display (only if not already shown above)
-			if (!position.takeProfitLevels || position.takeProfitLevels.length === 0) {
-				text += `🎯 <b>Targets</b>\n`;
+			if (position.stopLossLevels.some((level) => level.trailing) && position.peakPrice > 0) {
+				const peakPnl = position.buyPrice > 0 ? ((position.peakPrice - position.buyPrice) / position.buyPrice) * 100 : 0;
+				const dropFromPeak = Math.max(0, (1 - position.currentPrice / position.peakPrice) * 100);
+				text += `🏔 Peak: ${position.peakPrice.toFixed(10)} BNB (${formatPercent(peakPnl)}), now ${formatPercent(dropFromPeak, 2, false)} below\n`;
 			}
-			text += `🛑 Stop Loss: ${formatPercent(position.stopLossTarget)}%\n\n`;
+			text += '\n';
+		}
+
+		// Break-even stop (order setting) - armed once any TP level has sold
+		const order = position.orderId as any;
+		if (order?.breakEvenStop?.enabled && position.status === PositionStatus.ACTIVE) {
+			const lockPercent = order.breakEvenStop.lockProfitPercent;
+			const stopPrice = position.buyPrice * (1 + lockPercent / 100);
+			text += `🛡 <b>Break-Even Stop</b>\n`;
+			text += (position.triggeredTakeProfitLevels || []).length > 0
+				? `✅ Armed: rest sells at +${lockPercent}% (~${stopPrice.toFixed(10)} BNB)\n\n`
+				: `⏳ Arms after the first take profit (then +${lockPercent}%)\n\n`;
+		}
+
+		// Dev dump exit (order setting) - creator and top holders recorded by the scanner
+		if (order?.devDumpExit?.enabled && position.status === PositionStatus.ACTIVE) {
+			const scannedToken = await ScannedToken.findOne({ address: position.tokenAddress.toLowerCase() });
+			text += `🚨 <b>Dev Dump Exit</b>\n`;
+			text += scannedToken?.devWalletsResolvedAt
+				? `Devs moved ${scannedToken.devOutflowPercent.toFixed(2)}% of supply (exit above ${order.devDumpExit.supplyPercent}%)\n\n`
+				: `<i>Dev wallets unknown for this token - not watched</i>\n\n`;
 		}
 
 		if (position.status !== PositionStatus.ACTIVE) {
@@ -500,6 +525,7 @@ export async function handlePositionSell(chatId: string, positionId: string, mes
 			slippage: order.slippage,
 			gasPrice: gasPriceStr,
 			gasLimit: gasLimitNum,
+			submission: order.submissionStrategy,
 			orderId: order._id.toString(),
 			positionId: position._id.toString(),
 			userId: user._id.toString(),
@@ -531,6 +557,7 @@ export async function handlePositionSell(chatId: string, positionId: string, mes
 				userId: user._id,
 				walletId: wallet._id,
 				positionId: position._id,
+				orderId: order._id,
 				type: TransactionType.SELL,
 				status: TransactionStatus.FAILED,
 				tokenAddress: position.tokenAddress,
@@ -546,7 +573,7 @@ export async function handlePositionSell(chatId: string, positionId: string, mes
 		}
 
 		// Calculate BNB received
-		const bnbReceived = parseFloat(ethers.utils.formatEther(sellResult.amountOut || '0'));
+		const bnbReceived = parseFloat(sellResult.bnbAmount || '0');
 
 		// Calculate final PNL
 		const finalPnlBnb = bnbReceived - position.buyAmount;
@@ -560,21 +587,7 @@ export async function handlePositionSell(chatId: string, positionId: string, mes
 			sellResult.txHash
 		);
 		logger.info(`✅ Position closed: ${position._id}`);
-
-		// Log successful transaction
-		await Transaction.create({
-			userId: user._id,
-			walletId: wallet._id,
-			positionId: position._id,
-			type: TransactionType.SELL,
-			status: TransactionStatus.SUCCESS,
-			tokenAddress: position.tokenAddress,
-			tokenSymbol: position.tokenSymbol,
-			amountBnb: bnbReceived,
-			amountToken: position.tokenAmount,
-			gasFee: sellResult.gasFee || 0,
-			txHash: sellResult.txHash,
-		});
+		// The SELL Transaction record is written by the trade recorder when the queue completes the sell
 
 		// Update wallet balance
 		const { updateWalletBalance } = await import('../../core/wallet/wallet.service');
@@ -589,7 +602,7 @@ export async function handlePositionSell(chatId: string, positionId: string, mes
 		successText += `📍 <code>${position.tokenAddress}</code>\n\n`;
 		successText += `💰 <b>Sold:</b> ${position.tokenAmount.toFixed(2)} tokens\n`;
 		successText += `💵 <b>Received:</b> ${bnbReceived.toFixed(6)} BNB\n`;
-		successText += `⛽ <b>Gas:</b> ${(sellResult.gasFee || 0).toFixed(6)} BNB\n\n`;
+		successText += `⛽ <b>Gas:</b> ${B_Trading.getGasFeeBnb(sellResult).toFixed(6)} BNB\n\n`;
 		successText += `${pnlEmoji} <b>PNL:</b> ${pnlSign}${finalPnlPercent.toFixed(2)}% (${pnlSign}${finalPnlBnb.toFixed(6)} BNB)\n\n`;
 		successText += `💳 <b>TX:</b> <code>${sellResult.txHash}</code>`;
 
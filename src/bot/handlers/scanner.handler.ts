@@ -1,6 +1,8 @@
 import TelegramBot from 'node-telegram-bot-api';
 import { scannerService } from '../../services/scanner.service';
 import { logger } from '../../utils/logger';
+import { User } from '../../database/models';
+import { escapeHtml } from '../../utils/formatter';
 
 /**
  * Bot instance for scanner handler
@@ -147,8 +149,30 @@ export async function showTokenDetail(chatId: string, tokenAddress: string, mess
 		message += `🔢 <b>Decimals:</b> ${selectedToken.decimals}\n`;
 		message += `📦 <b>Total Supply:</b> ${formatSupply(selectedToken.totalSupply)}\n`;
 		message += `🔗 <b>Transaction:</b> <code>${selectedToken.transactionHash}</code>\n`;
-		message += `📊 <b>Block:</b> ${selectedToken.blockNumber}\n`;
-		message += `⏰ <b>Detected:</b> ${formatTimestamp(selectedToken.scannedAt)}\n\n`;
+		message += selectedToken.status === 'PENDING'
+			? `📊 <b>Block:</b> ⏳ Pending (mempool)\n`
+			: `📊 <b>Block:</b> ${selectedToken.blockNumber}\n`;
+		message += `⏰ <b>Detected:</b> ${formatTimestamp(selectedToken.scannedAt)}\n`;
+		if (selectedToken.liquidityBnb !== undefined && selectedToken.liquidityBnb !== null) {
+			message += `💧 <b>Liquidity:</b> ${selectedToken.liquidityBnb.toFixed(4)} BNB\n`;
+		}
+		if (selectedToken.creator) {
+			message += `👤 <b>Creator:</b> <code>${selectedToken.creator}</code>\n`;
+		}
+		message += `\n`;
+
+		// Auto-buy skip reasons for this user's orders
+		const user = await User.findOne({ chatId });
+		const skipped = (selectedToken.skippedOrders || []).filter(
+			(entry) => user && entry.userId.toString() === user._id.toString()
+		);
+		if (skipped.length > 0) {
+			message += `🛡 <b>Skipped by your orders:</b>\n`;
+			for (const entry of skipped) {
+				message += `• ${escapeHtml(entry.orderName)}: ${escapeHtml(entry.reason)}\n`;
+			}
+			message += `\n`;
+		}
 
 		// Build keyboard with links
 		const keyboard = {
@@ -267,7 +291,9 @@ export async function showScannerStats(chatId: string, messageId?: number): Prom
 export async function sendTokenAlert(chatId: string, tokenData: any): Promise<void> {
 	try {
 		// Simple alert format
-		let message = `🚨 <b>New Token Detected!</b>\n\n`;
+		let message = tokenData.pending
+			? `⏳ <b>Pending Migration Detected!</b>\n<i>Not mined yet - may still be cancelled</i>\n\n`
+			: `🚨 <b>New Token Detected!</b>\n\n`;
 		message += `💊 <code>${tokenData.name}</code> (<code>${tokenData.symbol}</code>)\n`;
 		message += `📍 <code>${tokenData.address}</code>\n`;
 		message += `⏰ ${formatTimestamp(tokenData.scannedAt)}\n`;
@@ -0,0 +1,180 @@
+import TelegramBot from 'node-telegram-bot-api';
+import { getPortfolioStats, renderPnlChart, StatsPeriod, PnlBreakdown } from '../../core/stats';
+import { User } from '../../database/models';
+import { formatBnb, formatDate, formatDuration, formatPercent, escapeHtml, truncate } from '../../utils/formatter';
+import { logger } from '../../utils/logger';
+
+/**
+ * Bot instance for stats handler
+ */
+let botInstance: TelegramBot;
+
+/**
+ * Set bot instance (to avoid circular dependency)
+ */
+export function setBotInstance(bot: TelegramBot): void {
+	botInstance = bot;
+}
+
+/**
+ * Get bot instance
+ */
+function getBot(): TelegramBot {
+	if (!botInstance) {
+		throw new Error('Bot instance not initialized in stats handler');
+	}
+	return botInstance;
+}
+
+const PERIOD_NAMES: Record<StatsPeriod, string> = {
+	day: 'Daily (14 days)',
+	week: 'Weekly (12 weeks)',
+	month: 'Monthly (12 months)',
+};
+
+/**
+ * Parse a callback period ("day", "week" or "month")
+ */
+export function parseStatsPeriod(value: string): StatsPeriod | null {
+	return value === 'day' || value === 'week' || value === 'month' ? value : null;
+}
+
+/**
+ * Edit a message, or send a new one if there is nothing to edit (the main menu is a photo)
+ */
+async function render(
+	chatId: string,
+	text: string,
+	reply_markup: TelegramBot.InlineKeyboardMarkup,
+	messageId?: number
+): Promise<void> {
+	if (messageId) {
+		try {
+			await getBot().editMessageText(text, { chat_id: chatId, message_id: messageId, parse_mode: 'HTML', reply_markup });
+			return;
+		} catch (editError: any) {
+			if (editError.message?.includes('message is not modified')) return;
+			logger.debug(`Stats message edit failed, sending a new one: ${editError.message}`);
+		}
+	}
+
+	await getBot().sendMessage(chatId, text, { parse_mode: 'HTML', reply_markup });
+}
+
+/**
+ * Signed BNB amount
+ */
+function formatSignedBnb(amount: number): string {
+	return `${amount > 0 ? '+' : amount < 0 ? '-' : ''}${formatBnb(Math.abs(amount))} BNB`;
+}
+
+/**
+ * Per-order or per-wallet PNL lines
+ */
+function formatBreakdown(title: string, rows: PnlBreakdown[]): string {
+	if (rows.length === 0) return '';
+
+	let text = `\n<b>${title}:</b>\n`;
+	for (const row of rows.slice(0, 8)) {
+		text += `• ${escapeHtml(truncate(row.name, 20))}: ${formatSignedBnb(row.realizedBnb)} realized`;
+		if (row.openPositions > 0) {
+			text += `, ${formatSignedBnb(row.unrealizedBnb)} open (${row.openPositions})`;
+		}
+		text += `\n`;
+	}
+	return text;
+}
+
+/**
+ * Show portfolio stats for a period
+ */
+export async function showStats(chatId: string, period: StatsPeriod, messageId?: number): Promise<void> {
+	try {
+		const user = await User.findOne({ chatId });
+		if (!user) return;
+
+		const stats = await getPortfolioStats(user._id.toString(), period);
+
+		let text = `📈 <b>Portfolio Stats</b> - ${PERIOD_NAMES[period]}\n`;
+		text += `<i>Since ${formatDate(stats.since, false)}, buckets in UTC</i>\n\n`;
+		text += `<b>Realized PNL:</b> ${formatSignedBnb(stats.realizedBnb)}\n`;
+		text += `<b>Unrealized PNL:</b> ${formatSignedBnb(stats.unrealizedBnb)} (${stats.openPositions} open)\n`;
+		text += `<b>Net:</b> ${formatSignedBnb(stats.realizedBnb + stats.unrealizedBnb)}\n`;
+		text += `<b>Gas Paid (all txs):</b> ${formatBnb(stats.gasBnb, 5)} BNB\n\n`;
+
+		text += `<b>Closed Trades:</b> ${stats.closedTrades}`;
+		if (stats.closedTrades > 0) {
+			text += ` (${stats.wins} won, ${formatPercent(stats.winRate, 1, false)} win rate)`;
+		}
+		text += `\n`;
+		if (stats.avgHoldMs !== null) {
+			text += `<b>Avg Hold:</b> ${formatDuration(stats.avgHoldMs)}\n`;
+		}
+		if (stats.best) {
+			text += `<b>Best:</b> ${escapeHtml(stats.best.tokenSymbol)} ${formatSignedBnb(stats.best.realizedBnb)} (${formatPercent(stats.best.pnlPercent)})\n`;
+		}
+		if (stats.worst && stats.closedTrades > 1) {
+			text += `<b>Worst:</b> ${escapeHtml(stats.worst.tokenSymbol)} ${formatSignedBnb(stats.worst.realizedBnb)} (${formatPercent(stats.worst.pnlPercent)})\n`;
+		}
+
+		const activeBuckets = stats.buckets.filter((bucket) => bucket.sells > 0);
+		if (activeBuckets.length > 0) {
+			text += `\n<b>Realized by ${period}:</b>\n`;
+			for (const bucket of activeBuckets.slice(-10)) {
+				text += `<code>${bucket.label}</code> ${formatSignedBnb(bucket.realizedBnb)} (${bucket.sells} sells)\n`;
+			}
+		}
+
+		text += formatBreakdown('By Order', stats.byOrder);
+		text += formatBreakdown('By Wallet', stats.byWallet);
+
+		text += `\n<i>Realized PNL counts sells with a recorded cost basis, before gas. Gas covers every transaction.</i>`;
+
+		const periodButton = (value: StatsPeriod, label: string): TelegramBot.InlineKeyboardButton => ({
+			text: value === period ? `• ${label} •` : label,
+			callback_data: `stats_${value}`,
+		});
+
+		await render(
+			chatId,
+			text,
+			{
+				inline_keyboard: [
+					[periodButton('day', 'Day'), periodButton('week', 'Week'), periodButton('month', 'Month')],
+					[{ text: '📊 PNL Chart', callback_data: `stats_chart_${period}` }],
+					[{ text: '🏠 Main Menu', callback_data: 'main_menu' }],
+				],
+			},
+			messageId
+		);
+	} catch (error: any) {
+		logger.error('Failed to show stats:', error.message);
+		await getBot().sendMessage(chatId, '❌ Failed to load stats.');
+	}
+}
+
+/**
+ * Send the realized PNL chart of a period as a PNG
+ */
+export async function sendStatsChart(chatId: string, period: StatsPeriod): Promise<void> {
+	try {
+		const user = await User.findOne({ chatId });
+		if (!user) return;
+
+		const stats = await getPortfolioStats(user._id.toString(), period);
+
+		await getBot().sendPhoto(
+			chatId,
+			renderPnlChart(stats.buckets),
+			{
+				caption:
+					`📊 Realized PNL - ${PERIOD_NAMES[period]}\n` +
+					`Bars: per ${period}, line: cumulative (${formatSignedBnb(stats.realizedBnb)})`,
+			},
+			{ filename: `pnl_${period}.png`, contentType: 'image/png' }
+		);
+	} catch (error: any) {
+		logger.error('Failed to send stats chart:', error.message);
+		await getBot().sendMessage(chatId, '❌ Failed to render PNL chart.');
+	}
+}
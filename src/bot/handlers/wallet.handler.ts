@@ -1,6 +1,7 @@
 import TelegramBot from 'node-telegram-bot-api';
+import { ethers } from 'ethers';
 import { logger } from '../../utils/logger';
-import { formatBnb, formatTimeAgo } from '../../utils/formatter';
+import { formatBnb, formatTimeAgo, formatTokenAmount } from '../../utils/formatter';
 import {
 	generateWallet,
 	importWallet,
@@ -20,9 +21,12 @@ import {
 	getWalletGenerateKeyboard,
 	getWalletRemoveConfirmKeyboard,
 	getWithdrawAmountKeyboard,
+	getWalletApprovalsKeyboard,
 } from '../keyboards/wallet.keyboard';
-import { WALLETS_PER_PAGE } from '../../config/constants';
-import { User } from '../../database/models';
+import { WALLETS_PER_PAGE, ApprovalStatus } from '../../config/constants';
+import { User, TokenApproval } from '../../database/models';
+import { approvalManager } from '../../services/approval.manager';
+import { B_Trading } from '../../core/classes/B_Trading';
 
 /**
  * Bot instance getter - resolves circular dependency
@@ -661,6 +665,131 @@ async function processWalletRename(
 	}
 }
 
+/**
+ * Show tracked token approvals of a wallet, with revoke buttons for tokens no longer held
+ */
+export async function showWalletApprovals(chatId: string, walletId: string, messageId?: number): Promise<void> {
+	try {
+		const userId = await getUserId(chatId);
+		if (!userId) {
+			await getBot().sendMessage(chatId, '❌ User not found. Please use /start first.');
+			return;
+		}
+
+		const wallets = await getUserWallets(userId);
+		const wallet = wallets.find((w) => w._id.toString() === walletId);
+		if (!wallet) {
+			await getBot().sendMessage(chatId, '❌ Wallet not found.');
+			return;
+		}
+
+		const holdings = await approvalManager.getWalletApprovals(walletId, userId);
+		const stale = holdings.filter((h) => !h.held && h.approval.status === ApprovalStatus.APPROVED);
+
+		let text = `🔐 <b>Token Approvals: ${wallet.name}</b>\n\n`;
+		text += `<i>Buys pre-approve the router so sells skip the approval step. Revoke allowances left on tokens you no longer hold.</i>\n\n`;
+
+		if (holdings.length === 0) {
+			text += 'No open approvals tracked for this wallet.';
+		} else {
+			for (const { approval, held } of holdings) {
+				const amount = B_Trading.isUnlimitedAllowance(approval.allowance)
+					? 'unlimited'
+					: formatTokenAmount(parseFloat(ethers.utils.formatUnits(approval.allowance || '0', approval.tokenDecimals)));
+				const state =
+					approval.status === ApprovalStatus.PENDING ? '⏳ queued' : held ? '🟢 held' : '⚪️ not held';
+				text += `<b>${approval.tokenSymbol}</b> - ${amount} (${state})\n`;
+				text += `<code>${approval.tokenAddress}</code>\n`;
+			}
+			text += `\n<b>Stale:</b> ${stale.length}`;
+		}
+
+		const keyboard = getWalletApprovalsKeyboard(
+			walletId,
+			stale.map((h) => ({ _id: h.approval._id.toString(), tokenSymbol: h.approval.tokenSymbol }))
+		);
+
+		if (messageId) {
+			try {
+				await getBot().deleteMessage(chatId, messageId);
+			} catch (e) {
+				// Ignore delete errors
+			}
+		}
+
+		await getBot().sendMessage(chatId, text, {
+			parse_mode: 'HTML',
+			reply_markup: keyboard,
+		});
+	} catch (error: any) {
+		logger.error('Error showing wallet approvals:', error.message);
+		await getBot().sendMessage(chatId, '❌ Failed to load token approvals.');
+	}
+}
+
+/**
+ * Revoke one tracked approval
+ */
+export async function handleRevokeApproval(chatId: string, approvalId: string, messageId?: number): Promise<void> {
+	try {
+		const userId = await getUserId(chatId);
+		if (!userId) {
+			await getBot().sendMessage(chatId, '❌ User not found. Please use /start first.');
+			return;
+		}
+
+		const approval = await TokenApproval.findOne({ _id: approvalId, userId });
+		if (!approval) {
+			await getBot().sendMessage(chatId, '❌ Approval not found.');
+			return;
+		}
+
+		const result = await approvalManager.revoke(approvalId, userId);
+		if (!result.success) {
+			await getBot().sendMessage(chatId, `❌ Failed to revoke: ${result.error || 'Unknown error'}`);
+			return;
+		}
+
+		await getBot().sendMessage(chatId, `✅ Revoke of <b>${approval.tokenSymbol}</b> queued.`, { parse_mode: 'HTML' });
+		await showWalletApprovals(chatId, approval.walletId.toString(), messageId);
+	} catch (error: any) {
+		logger.error('Error revoking approval:', error.message);
+		await getBot().sendMessage(chatId, '❌ Failed to revoke approval.');
+	}
+}
+
+/**
+ * Revoke every approval of a wallet whose token is no longer held
+ */
+export async function handleRevokeAllStale(chatId: string, walletId: string, messageId?: number): Promise<void> {
+	try {
+		const userId = await getUserId(chatId);
+		if (!userId) {
+			await getBot().sendMessage(chatId, '❌ User not found. Please use /start first.');
+			return;
+		}
+
+		const holdings = await approvalManager.getWalletApprovals(walletId, userId);
+		const stale = holdings.filter((h) => !h.held && h.approval.status === ApprovalStatus.APPROVED);
+
+		let queued = 0;
+		for (const { approval } of stale) {
+			const result = await approvalManager.revoke(approval._id.toString(), userId);
+			if (result.success) {
+				queued++;
+			} else {
+				logger.warning(`Revoke of ${approval.tokenSymbol} not queued: ${result.error}`);
+			}
+		}
+
+		await getBot().sendMessage(chatId, `✅ Queued ${queued}/${stale.length} revokes.`);
+		await showWalletApprovals(chatId, walletId, messageId);
+	} catch (error: any) {
+		logger.error('Error revoking stale approvals:', error.message);
+		await getBot().sendMessage(chatId, '❌ Failed to revoke approvals.');
+	}
+}
+
 /**
  * Handle withdraw initiation
  */
@@ -1,7 +1,7 @@
 import TelegramBot from 'node-telegram-bot-api';
 import { config } from '../config/config';
 import { logger } from '../utils/logger';
-import { WELCOME_MESSAGE, HELP_MESSAGE } from '../config/constants';
+import { WELCOME_MESSAGE, HELP_MESSAGE, EntryMode, LimitTriggerType, CopySizingMode } from '../config/constants';
 import { getMainMenuKeyboard } from './keyboards/main.keyboard';
 import { User } from '../database/models';
 import {
@@ -16,6 +16,9 @@ import {
 	handleWalletRename,
 	handleWithdrawInitiate,
 	handleWithdrawPercent,
+	showWalletApprovals,
+	handleRevokeApproval,
+	handleRevokeAllStale,
 	handleWalletTextMessage,
 	clearWalletState,
 	setBotInstance as setWalletBotInstance,
@@ -45,10 +48,14 @@ import {
 	handleSLInput,
 	handleGasInput,
 	handleSlippageInput,
+	showOrderFilters,
+	toggleRenouncedFilter,
+	handleOrderFilterInput,
 	showTPSLSettings,
-	toggleTPEnabled,
-	toggleSLEnabled,
 	toggleTimeLimitEnabled,
+	toggleActOnPending,
+	toggleSubmissionStrategy,
+	togglePnlBasis,
 	handleTimeLimitInput,
 	showTPSelection,
 	showSLSelection,
@@ -67,6 +74,7 @@ import {
 	clearOrderState,
 	handleAddTPLevel,
 	handleAddSLLevel,
+	handleAddTrailingSLLevel,
 	handleEditTPLevel,
 	handleEditSLLevel,
 	handleDeleteTPLevel,
@@ -92,6 +100,44 @@ import {
 	sendTokenAlert,
 	setBotInstance as setScannerBotInstance,
 } from './handlers/scanner.handler';
+import {
+	handleBacktestCommand,
+	setBotInstance as setBacktestBotInstance,
+} from './handlers/backtest.handler';
+import {
+	showPanicMenu,
+	showPanicConfirm,
+	executePanicSell,
+	parsePanicScope,
+	setBotInstance as setPanicBotInstance,
+} from './handlers/panic.handler';
+import {
+	showStats,
+	sendStatsChart,
+	parseStatsPeriod,
+	setBotInstance as setStatsBotInstance,
+} from './handlers/stats.handler';
+import {
+	showLimitOrders,
+	handleLimitCreate,
+	handleLimitTriggerType,
+	handleLimitCancel,
+	handleLimitTextMessage,
+	clearLimitState,
+	setBotInstance as setLimitBotInstance,
+} from './handlers/limit.handler';
+import {
+	showWatchedWallets,
+	handleCopyCreate,
+	handleCopySizingMode,
+	handleCopyToggle,
+	handleCopySellsToggle,
+	handleCopyRename,
+	handleCopyRemove,
+	handleCopyTextMessage,
+	clearCopyState,
+	setBotInstance as setCopyBotInstance,
+} from './handlers/copy.handler';
 
 /**
  * Telegram Bot Instance
@@ -115,6 +161,11 @@ export async function initializeBot(): Promise<void> {
 		setPositionBotInstance(bot);
 		setTransactionBotInstance(bot);
 		setScannerBotInstance(bot);
+		setBacktestBotInstance(bot);
+		setLimitBotInstance(bot);
+		setCopyBotInstance(bot);
+		setPanicBotInstance(bot);
+		setStatsBotInstance(bot);
 
 		// Setup handlers
 		setupCommandHandlers();
@@ -221,6 +272,22 @@ function setupCommandHandlers(): void {
 • Auto-buy new tokens (if order active)
 • Real-time notifications
 
+<b>🧪 Backtest:</b>
+• /backtest - Replay recent migrations against your orders
+• /backtest &lt;blocks&gt; - Replay the last N blocks
+• /backtest &lt;from&gt; &lt;to&gt; - Replay a block range
+• Summary with PNL, win rate and drawdown, plus a CSV of every trade
+
+<b>🚨 Panic Sell:</b>
+• /panic - Sell 100% of every active position at once
+• Pick everything, one wallet or one order; manual positions only if included
+• Asks for confirmation, then shows live progress and BNB recovered
+
+<b>📈 Stats:</b>
+• /stats - Realized and unrealized PNL by day, week or month
+• Win rate, average hold time, best/worst trade and gas paid
+• Breakdown per order and per wallet, plus a PNL chart
+
 <b>🎯 Quick Start:</b>
 1. Click "💼 Wallets" to create/import a wallet
 2. Click "📊 Orders" to configure trading settings
@@ -235,6 +302,24 @@ Need more help? Contact admin!
 			reply_markup: getMainMenuKeyboard(),
 		});
 	});
+
+	// /backtest command
+	bot.onText(/^\/backtest(?:@\w+)?(?:\s+(.*))?$/, async (msg, match) => {
+		const chatId = msg.chat.id.toString();
+		await handleBacktestCommand(chatId, match?.[1] || '');
+	});
+
+	// /stats command
+	bot.onText(/^\/stats(?:@\w+)?$/, async (msg) => {
+		const chatId = msg.chat.id.toString();
+		await showStats(chatId, 'day');
+	});
+
+	// /panic command
+	bot.onText(/^\/panic(?:@\w+)?$/, async (msg) => {
+		const chatId = msg.chat.id.toString();
+		await showPanicMenu(chatId);
+	});
 }
 
 /**
@@ -263,6 +348,18 @@ function setupMessageHandlers(): void {
 				return;
 			}
 
+			// Try limit buy handler
+			const limitHandled = await handleLimitTextMessage(msg);
+			if (limitHandled) {
+				return;
+			}
+
+			// Try copy trading handler
+			const copyHandled = await handleCopyTextMessage(msg);
+			if (copyHandled) {
+				return;
+			}
+
 			// Add other handlers here in future steps
 		} catch (error: any) {
 			logger.error('Error handling message:', error.message);
@@ -291,6 +388,8 @@ function setupCallbackHandlers(): void {
 				console.log('[BOT] Routing to main_menu');
 				clearWalletState(chatId);
 				clearOrderState(chatId);
+				clearLimitState(chatId);
+				clearCopyState(chatId);
 				await bot.sendPhoto(
 					chatId,
 					'https://ipfs.io/ipfs/bafkreiebl7hx5sieh6obulfjpl76dl7zq5cgfp62n4tk3rnyjclvipcbby',
@@ -300,6 +399,20 @@ function setupCallbackHandlers(): void {
 						reply_markup: getMainMenuKeyboard(),
 					}
 				);
+			} else if (data.startsWith('panic_menu_')) {
+				await showPanicMenu(chatId, data === 'panic_menu_1', query.message?.message_id);
+			} else if (data.startsWith('panic_pick_')) {
+				const scope = parsePanicScope(data.replace('panic_pick_', ''));
+				if (scope) await showPanicConfirm(chatId, scope, query.message?.message_id);
+			} else if (data.startsWith('panic_go_')) {
+				const scope = parsePanicScope(data.replace('panic_go_', ''));
+				if (scope) await executePanicSell(chatId, scope, query.message?.message_id);
+			} else if (data.startsWith('stats_chart_')) {
+				const period = parseStatsPeriod(data.replace('stats_chart_', ''));
+				if (period) await sendStatsChart(chatId, period);
+			} else if (data.startsWith('stats_')) {
+				const period = parseStatsPeriod(data.replace('stats_', ''));
+				if (period) await showStats(chatId, period, query.message?.message_id);
 			} else if (data === 'wallets') {
 				console.log('[BOT] Routing to wallets handler');
 				await showWalletsList(chatId, query.message?.message_id);
@@ -333,6 +446,15 @@ function setupCallbackHandlers(): void {
 			} else if (data.startsWith('wallet_refresh_')) {
 				const walletId = data.replace('wallet_refresh_', '');
 				await showWalletDetail(chatId, walletId, query.message?.message_id);
+			} else if (data.startsWith('wallet_approvals_')) {
+				const walletId = data.replace('wallet_approvals_', '');
+				await showWalletApprovals(chatId, walletId, query.message?.message_id);
+			} else if (data.startsWith('wallet_revokeall_')) {
+				const walletId = data.replace('wallet_revokeall_', '');
+				await handleRevokeAllStale(chatId, walletId, query.message?.message_id);
+			} else if (data.startsWith('wallet_revoke_')) {
+				const approvalId = data.replace('wallet_revoke_', '');
+				await handleRevokeApproval(chatId, approvalId, query.message?.message_id);
 			} else if (data.startsWith('wallet_withdraw_')) {
 				if (data.startsWith('wallet_withdraw_percent_')) {
 					const parts = data.split('_');
@@ -389,6 +511,9 @@ function setupCallbackHandlers(): void {
 			} else if (data === 'order_config_addsl') {
 				const { handleOrderConfigAddSL } = await import('./handlers/order.handler');
 				await handleOrderConfigAddSL(chatId, query.message?.message_id);
+			} else if (data === 'order_config_addtsl') {
+				const { handleOrderConfigAddTrailingSL } = await import('./handlers/order.handler');
+				await handleOrderConfigAddTrailingSL(chatId, query.message?.message_id);
 			} else if (data.startsWith('order_config_deletetp_')) {
 				const index = parseInt(data.replace('order_config_deletetp_', ''));
 				const { handleOrderConfigDeleteTP } = await import('./handlers/order.handler');
@@ -412,6 +537,44 @@ function setupCallbackHandlers(): void {
 				const orderId = data.replace('order_positions_', '');
 				const { showOrderPositions } = await import('./handlers/order.handler');
 				await showOrderPositions(chatId, orderId, query.message?.message_id);
+			} else if (data.startsWith('order_limits_')) {
+				const orderId = data.replace('order_limits_', '');
+				await showLimitOrders(chatId, orderId, query.message?.message_id);
+			} else if (data.startsWith('limit_new_')) {
+				const orderId = data.replace('limit_new_', '');
+				clearOrderState(chatId);
+				await handleLimitCreate(chatId, orderId, query.message?.message_id);
+			} else if (data.startsWith('limit_trigger_')) {
+				const triggerType = data.replace('limit_trigger_', '') as LimitTriggerType;
+				await handleLimitTriggerType(chatId, triggerType, query.message?.message_id);
+			} else if (data.startsWith('limit_cancel_')) {
+				const limitOrderId = data.replace('limit_cancel_', '');
+				await handleLimitCancel(chatId, limitOrderId, query.message?.message_id);
+			} else if (data.startsWith('order_copy_')) {
+				const orderId = data.replace('order_copy_', '');
+				await showWatchedWallets(chatId, orderId, query.message?.message_id);
+			} else if (data.startsWith('copy_new_')) {
+				const orderId = data.replace('copy_new_', '');
+				clearOrderState(chatId);
+				clearLimitState(chatId);
+				await handleCopyCreate(chatId, orderId, query.message?.message_id);
+			} else if (data.startsWith('copy_sizing_')) {
+				const sizingMode = data.replace('copy_sizing_', '') as CopySizingMode;
+				await handleCopySizingMode(chatId, sizingMode, query.message?.message_id);
+			} else if (data.startsWith('copy_toggle_')) {
+				const watchedWalletId = data.replace('copy_toggle_', '');
+				await handleCopyToggle(chatId, watchedWalletId, query.message?.message_id);
+			} else if (data.startsWith('copy_sells_')) {
+				const watchedWalletId = data.replace('copy_sells_', '');
+				await handleCopySellsToggle(chatId, watchedWalletId, query.message?.message_id);
+			} else if (data.startsWith('copy_label_')) {
+				const watchedWalletId = data.replace('copy_label_', '');
+				clearOrderState(chatId);
+				clearLimitState(chatId);
+				await handleCopyRename(chatId, watchedWalletId, query.message?.message_id);
+			} else if (data.startsWith('copy_remove_')) {
+				const watchedWalletId = data.replace('copy_remove_', '');
+				await handleCopyRemove(chatId, watchedWalletId, query.message?.message_id);
 			} else if (data.startsWith('order_manual_buy_')) {
 				const orderId = data.replace('order_manual_buy_', '');
 				await handleManualBuy(chatId, orderId, query.message?.message_id);
@@ -487,15 +650,46 @@ function setupCallbackHandlers(): void {
 				} else {
 					await showSlippageSelection(chatId, orderId, query.message?.message_id);
 				}
-			} else if (data.startsWith('order_tptoggle_')) {
-				const orderId = data.replace('order_tptoggle_', '');
-				await toggleTPEnabled(chatId, orderId, query.message?.message_id);
-			} else if (data.startsWith('order_sltoggle_')) {
-				const orderId = data.replace('order_sltoggle_', '');
-				await toggleSLEnabled(chatId, orderId, query.message?.message_id);
 			} else if (data.startsWith('order_timelimittoggle_')) {
 				const orderId = data.replace('order_timelimittoggle_', '');
 				await toggleTimeLimitEnabled(chatId, orderId, query.message?.message_id);
+			} else if (data.startsWith('order_pendingtoggle_')) {
+				const orderId = data.replace('order_pendingtoggle_', '');
+				await toggleActOnPending(chatId, orderId, query.message?.message_id);
+			} else if (data.startsWith('order_submissiontoggle_')) {
+				const orderId = data.replace('order_submissiontoggle_', '');
+				await toggleSubmissionStrategy(chatId, orderId, query.message?.message_id);
+			} else if (data.startsWith('order_pnlbasistoggle_')) {
+				const orderId = data.replace('order_pnlbasistoggle_', '');
+				await togglePnlBasis(chatId, orderId, query.message?.message_id);
+			} else if (data.startsWith('order_sellretry_')) {
+				const orderId = data.replace('order_sellretry_', '');
+				const { showSellRetrySettings } = await import('./handlers/order.handler');
+				await showSellRetrySettings(chatId, orderId, query.message?.message_id);
+			} else if (data.startsWith('order_sellretrytoggle_')) {
+				const orderId = data.replace('order_sellretrytoggle_', '');
+				const { toggleSellRetry } = await import('./handlers/order.handler');
+				await toggleSellRetry(chatId, orderId, query.message?.message_id);
+			} else if (data.startsWith('order_sellretryedit_')) {
+				const [orderId, ladder] = data.replace('order_sellretryedit_', '').split('_');
+				const { handleSellRetryInput } = await import('./handlers/order.handler');
+				await handleSellRetryInput(chatId, orderId, ladder === 'takeProfit' ? 'takeProfit' : 'stopLoss', query.message?.message_id);
+			} else if (data.startsWith('order_entry_')) {
+				const orderId = data.replace('order_entry_', '');
+				const { showEntrySettings } = await import('./handlers/order.handler');
+				await showEntrySettings(chatId, orderId, query.message?.message_id);
+			} else if (data.startsWith('order_entrymode_')) {
+				const [orderId, entryMode] = data.replace('order_entrymode_', '').split('_');
+				const { setEntryMode } = await import('./handlers/order.handler');
+				await setEntryMode(chatId, orderId, entryMode as EntryMode, query.message?.message_id);
+			} else if (data.startsWith('order_entrytranches_')) {
+				const [orderId, tranches] = data.replace('order_entrytranches_', '').split('_');
+				const { setEntryTranches } = await import('./handlers/order.handler');
+				await setEntryTranches(chatId, orderId, parseInt(tranches), query.message?.message_id);
+			} else if (data.startsWith('order_entryparam_')) {
+				const orderId = data.replace('order_entryparam_', '');
+				const { handleEntryParamInput } = await import('./handlers/order.handler');
+				await handleEntryParamInput(chatId, orderId, query.message?.message_id);
 			} else if (data.startsWith('order_timelimit_input_')) {
 				const orderId = data.replace('order_timelimit_input_', '');
 				await handleTimeLimitInput(chatId, orderId, query.message?.message_id);
@@ -508,6 +702,25 @@ function setupCallbackHandlers(): void {
 			} else if (data.startsWith('order_addsl_')) {
 				const orderId = data.replace('order_addsl_', '');
 				await handleAddSLLevel(chatId, orderId, query.message?.message_id);
+			} else if (data.startsWith('order_addtsl_')) {
+				const orderId = data.replace('order_addtsl_', '');
+				await handleAddTrailingSLLevel(chatId, orderId, query.message?.message_id);
+			} else if (data.startsWith('order_breakeventoggle_')) {
+				const orderId = data.replace('order_breakeventoggle_', '');
+				const { toggleBreakEvenStop } = await import('./handlers/order.handler');
+				await toggleBreakEvenStop(chatId, orderId, query.message?.message_id);
+			} else if (data.startsWith('order_breakevenlock_')) {
+				const orderId = data.replace('order_breakevenlock_', '');
+				const { handleBreakEvenLockInput } = await import('./handlers/order.handler');
+				await handleBreakEvenLockInput(chatId, orderId, query.message?.message_id);
+			} else if (data.startsWith('order_devdumptoggle_')) {
+				const orderId = data.replace('order_devdumptoggle_', '');
+				const { toggleDevDumpExit } = await import('./handlers/order.handler');
+				await toggleDevDumpExit(chatId, orderId, query.message?.message_id);
+			} else if (data.startsWith('order_devdumppct_')) {
+				const orderId = data.replace('order_devdumppct_', '');
+				const { handleDevDumpPercentInput } = await import('./handlers/order.handler');
+				await handleDevDumpPercentInput(chatId, orderId, query.message?.message_id);
 			} else if (data.startsWith('order_edittp_')) {
 				const parts = data.split('_');
 				const orderId = parts[2];
@@ -554,6 +767,17 @@ function setupCallbackHandlers(): void {
 				const orderId = parts[2];
 				const slippage = parseFloat(parts[3]);
 				await handleOrderSetSlippage(chatId, orderId, slippage, query.message?.message_id);
+			} else if (data.startsWith('order_filters_')) {
+				const orderId = data.replace('order_filters_', '');
+				await showOrderFilters(chatId, orderId, query.message?.message_id);
+			} else if (data.startsWith('order_filter_renounced_')) {
+				const orderId = data.replace('order_filter_renounced_', '');
+				await toggleRenouncedFilter(chatId, orderId, query.message?.message_id);
+			} else if (data.startsWith('order_filter_set_')) {
+				const parts = data.split('_');
+				const filter = parts[3];
+				const orderId = parts[4];
+				await handleOrderFilterInput(chatId, orderId, filter, query.message?.message_id);
 			} else if (data.startsWith('order_manual_')) {
 				const orderId = data.replace('order_manual_', '');
 				await handleManualBuy(chatId, orderId, query.message?.message_id);
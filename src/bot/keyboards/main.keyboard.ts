@@ -18,6 +18,8 @@ export function getMainMenuKeyboard(): InlineKeyboardMarkup {
 				{ text: '🪙 Tokens', callback_data: 'scanner' },
 				{ text: 'ℹ️ Help', callback_data: 'help' },
 			],
+			[{ text: '📈 Stats', callback_data: 'stats_day' }],
+			[{ text: '🚨 Panic Sell', callback_data: 'panic_menu_0' }],
 		],
 	};
 }
@@ -1,4 +1,6 @@
 import TelegramBot from 'node-telegram-bot-api';
+import { formatStopLossTrigger } from '../../utils/formatter';
+import { DEV_DUMP_DEFAULT_PERCENT } from '../../config/constants';
 
 /**
  * Get orders list keyboard
@@ -139,27 +141,6 @@ export function getOrderAmountKeyboard(orderId: string): TelegramBot.InlineKeybo
 	return { inline_keyboard: buttons };
 }
 
-/**
- * Get TP/SL settings keyboard
- */
-export function getOrderTPSLKeyboard(orderId: string): TelegramBot.InlineKeyboardMarkup {
-	const buttons: TelegramBot.InlineKeyboardButton[][] = [];
-
-	buttons.push([
-		{ text: '🎯 Set Take Profit %', callback_data: `order_tp_${orderId}` },
-		{ text: '🛑 Set Stop Loss %', callback_data: `order_sl_${orderId}` },
-	]);
-
-	buttons.push([
-		{ text: '✅ Toggle TP On/Off', callback_data: `order_tptoggle_${orderId}` },
-		{ text: '✅ Toggle SL On/Off', callback_data: `order_sltoggle_${orderId}` },
-	]);
-
-	buttons.push([{ text: '🛡️ Back', callback_data: `order_view_${orderId}` }]);
-
-	return { inline_keyboard: buttons };
-}
-
 /**
  * Get gas settings keyboard
  */
@@ -240,7 +221,9 @@ export function getManualBuyKeyboard(orderId: string): TelegramBot.InlineKeyboar
 export function getTPSLLevelsKeyboard(
 	orderId: string,
 	takeProfitLevels: Array<{ pnlPercent: number; sellPercent: number }>,
-	stopLossLevels: Array<{ pnlPercent: number; sellPercent: number }>
+	stopLossLevels: Array<{ pnlPercent: number; sellPercent: number; trailing?: boolean; activationPercent?: number | null }>,
+	breakEvenStop?: { enabled: boolean; lockProfitPercent: number },
+	devDumpExit?: { enabled: boolean; supplyPercent: number }
 ): TelegramBot.InlineKeyboardMarkup {
 	const buttons: TelegramBot.InlineKeyboardButton[][] = [];
 
@@ -270,7 +253,7 @@ export function getTPSLLevelsKeyboard(
 			const level = stopLossLevels[i];
 			buttons.push([
 				{
-					text: `🛑 SL${i + 1}: -${level.pnlPercent}% → Sell ${level.sellPercent}%`,
+					text: `🛑 SL${i + 1}: ${formatStopLossTrigger(level)} → Sell ${level.sellPercent}%`,
 					callback_data: `order_editsl_${orderId}_${i}`
 				},
 				{
@@ -283,6 +266,19 @@ export function getTPSLLevelsKeyboard(
 
 	// Add SL Level Button
 	buttons.push([{ text: '🍁 Add Stop Loss Level', callback_data: `order_addsl_${orderId}` }]);
+	buttons.push([{ text: '📉 Add Trailing Stop', callback_data: `order_addtsl_${orderId}` }]);
+
+	// Break-Even Stop (after the first TP)
+	buttons.push([
+		{ text: breakEvenStop?.enabled ? '🛡 Break-Even: ON' : '🛡 Break-Even: OFF', callback_data: `order_breakeventoggle_${orderId}` },
+		{ text: `🔒 Lock: +${breakEvenStop?.lockProfitPercent ?? 0}%`, callback_data: `order_breakevenlock_${orderId}` },
+	]);
+
+	// Dev Dump Exit (creator / top holders selling)
+	buttons.push([
+		{ text: devDumpExit?.enabled ? '🚨 Dev Dump Exit: ON' : '🚨 Dev Dump Exit: OFF', callback_data: `order_devdumptoggle_${orderId}` },
+		{ text: `📦 Limit: ${devDumpExit?.supplyPercent ?? DEV_DUMP_DEFAULT_PERCENT}%`, callback_data: `order_devdumppct_${orderId}` },
+	]);
 
 	// Back Button
 	buttons.push([{ text: '🛡️ Back', callback_data: `order_view_${orderId}` }]);
@@ -70,6 +70,7 @@ export function getWalletDetailKeyboard(walletId: string, isActive: boolean): Te
 		],
 		[
 			{ text: '🔑 Show Private Key', callback_data: `wallet_showkey_${walletId}` },
+			{ text: '🔐 Approvals', callback_data: `wallet_approvals_${walletId}` },
 		],
 		[{ text: '🛡️ Back to Wallets', callback_data: 'wallets' }],
 	];
@@ -77,6 +78,29 @@ export function getWalletDetailKeyboard(walletId: string, isActive: boolean): Te
 	return { inline_keyboard: buttons };
 }
 
+/**
+ * Get token approvals keyboard (revoke buttons for tokens no longer held)
+ */
+export function getWalletApprovalsKeyboard(
+	walletId: string,
+	staleApprovals: Array<{ _id: string; tokenSymbol: string }>
+): TelegramBot.InlineKeyboardMarkup {
+	const buttons: TelegramBot.InlineKeyboardButton[][] = [];
+
+	for (const approval of staleApprovals) {
+		buttons.push([{ text: `🔓 Revoke ${approval.tokenSymbol}`, callback_data: `wallet_revoke_${approval._id}` }]);
+	}
+
+	if (staleApprovals.length > 1) {
+		buttons.push([{ text: '🔓 Revoke All Stale', callback_data: `wallet_revokeall_${walletId}` }]);
+	}
+
+	buttons.push([{ text: '🔄 Refresh', callback_data: `wallet_approvals_${walletId}` }]);
+	buttons.push([{ text: '🛡️ Back to Wallet', callback_data: `wallet_view_${walletId}` }]);
+
+	return { inline_keyboard: buttons };
+}
+
 /**
  * Get wallet generation confirmation keyboard
  */
@@ -3,6 +3,16 @@ import dotenv from 'dotenv';
 // Load environment variables
 dotenv.config();
 
+/**
+ * Split a comma-separated env value into trimmed, non-empty entries
+ */
+function parseList(value: string): string[] {
+	return value
+		.split(',')
+		.map((entry) => entry.trim())
+		.filter((entry) => entry.length > 0);
+}
+
 /**
  * Application Configuration
  */
@@ -17,9 +27,40 @@ export const config = {
 	bsc: {
 		rpcHttpUrl: process.env.BSC_RPC_HTTP_URL || 'https://bsc-dataseed1.binance.org',
 		rpcWssUrl: process.env.BSC_RPC_WSS_URL || 'wss://bsc-ws-node.nariox.org:443',
+		// Provider pool: comma-separated, each entry "url" or "url|requestsPerSecond"
+		rpcHttpUrls: parseList(process.env.BSC_RPC_HTTP_URLS || process.env.BSC_RPC_HTTP_URL || 'https://bsc-dataseed1.binance.org'),
+		rpcWssUrls: parseList(process.env.BSC_RPC_WSS_URLS || process.env.BSC_RPC_WSS_URL || 'wss://bsc-ws-node.nariox.org:443'),
+		rpcDefaultRateLimit: parseInt(process.env.RPC_DEFAULT_RATE_LIMIT || '25', 10), // Requests per second per endpoint
+		rpcRequestTimeout: parseInt(process.env.RPC_REQUEST_TIMEOUT || '8000', 10),
+		rpcHealthCheckInterval: parseInt(process.env.RPC_HEALTH_CHECK_INTERVAL || '10000', 10),
+		rpcMaxBlockLag: parseInt(process.env.RPC_MAX_BLOCK_LAG || '3', 10), // Blocks behind the best endpoint before it is skipped
+		// 'single' = send raw transactions to the best endpoint, 'fastest' = broadcast to several at once
+		rpcBroadcastMode: (process.env.RPC_BROADCAST_MODE === 'fastest' ? 'fastest' : 'single') as 'single' | 'fastest',
+		rpcBroadcastFanout: parseInt(process.env.RPC_BROADCAST_FANOUT || '3', 10),
+	},
+
+	// Private transaction relay (MEV protection)
+	privateRelay: {
+		url: process.env.PRIVATE_RELAY_URL || '',
+		// 'rpc' = eth_sendRawTransaction, 'bundle' = eth_sendBundle with a single transaction
+		api: (process.env.PRIVATE_RELAY_API === 'bundle' ? 'bundle' : 'rpc') as 'rpc' | 'bundle',
+		authHeader: process.env.PRIVATE_RELAY_AUTH_HEADER || '', // Sent as the Authorization header
+		requestTimeout: parseInt(process.env.PRIVATE_RELAY_TIMEOUT || '3000', 10),
+		fallbackMs: parseInt(process.env.PRIVATE_RELAY_FALLBACK_MS || '6000', 10), // Public broadcast if not mined by then
+		bundleBlocks: parseInt(process.env.PRIVATE_RELAY_BUNDLE_BLOCKS || '10', 10), // Bundle validity window
 	},
 
 	// Database
+	// Price subsystem
+	price: {
+		// Sources tried in order until every token has a price: reserves, router, dexscreener, fixture
+		sources: parseList(process.env.PRICE_SOURCES || 'reserves,router,dexscreener'),
+		cacheTtlMs: parseInt(process.env.PRICE_CACHE_TTL_MS || '2000', 10), // Cached prices younger than this skip the sources
+		staleAfterMs: parseInt(process.env.PRICE_STALE_AFTER_MS || '15000', 10), // Older prices are flagged stale
+		bnbUsdTtlMs: parseInt(process.env.BNB_USD_CACHE_TTL_MS || '30000', 10),
+		fixtureFile: process.env.PRICE_FIXTURE_FILE || '', // JSON { "tokenAddress": priceInBnb } for the fixture source
+	},
+
 	database: {
 		uri: process.env.MONGODB_URI || 'mongodb://localhost:27017/fourmeme_trading_bot',
 	},
@@ -39,9 +80,23 @@ export const config = {
 
 	// Monitoring
 	monitoring: {
-		positionMonitorInterval: parseInt(process.env.POSITION_MONITOR_INTERVAL || '10000', 10), // Legacy TP/SL monitor
-		pnlMonitorInterval: parseInt(process.env.PNL_MONITOR_INTERVAL || '2000', 10), // New PNL engine (default 2 seconds)
+		pnlMonitorInterval: parseInt(process.env.PNL_MONITOR_INTERVAL || '2000', 10), // PNL engine (default 2 seconds)
+		// 'poll' = batch prices every interval, 'sync' = react to pair Sync events and poll slowly as a fallback
+		pnlPriceMode: (process.env.PNL_PRICE_MODE === 'sync' ? 'sync' : 'poll') as 'poll' | 'sync',
+		pnlSyncFallbackInterval: parseInt(process.env.PNL_SYNC_FALLBACK_INTERVAL || '15000', 10),
+		limitOrderMonitorInterval: parseInt(process.env.LIMIT_ORDER_MONITOR_INTERVAL || '3000', 10), // Pending limit buys
+		entryLadderMonitorInterval: parseInt(process.env.ENTRY_LADDER_MONITOR_INTERVAL || '3000', 10), // DCA/laddered entry tranches
+		rugWatchdogInterval: parseInt(process.env.RUG_WATCHDOG_INTERVAL || '3000', 10), // Pair liquidity of open positions
+		rugLiquidityDropPercent: parseFloat(process.env.RUG_LIQUIDITY_DROP_PERCENT || '50'), // WBNB reserve drop that counts as a rug
+		rugWindowMs: parseInt(process.env.RUG_WINDOW_MS || '60000', 10), // Window the drop is measured over
 		scannerEnabled: process.env.SCANNER_ENABLED === 'true',
+		// 'block' = scan confirmed blocks, 'mempool' = also detect migrations from pending transactions
+		scannerMode: (process.env.SCANNER_MODE === 'mempool' ? 'mempool' : 'block') as 'block' | 'mempool',
+		pendingDetectionTimeoutBlocks: parseInt(process.env.PENDING_DETECTION_TIMEOUT_BLOCKS || '20', 10),
+		scannerReconnectBaseMs: parseInt(process.env.SCANNER_RECONNECT_BASE_MS || '1000', 10),
+		scannerReconnectMaxMs: parseInt(process.env.SCANNER_RECONNECT_MAX_MS || '60000', 10),
+		scannerMaxBackfillBlocks: parseInt(process.env.SCANNER_MAX_BACKFILL_BLOCKS || '2000', 10),
+		scannerBackfillAutoBuyMaxAge: parseInt(process.env.SCANNER_BACKFILL_AUTOBUY_MAX_AGE || '60', 10), // seconds, 0 = never
 	},
 
 	// Logging
@@ -53,6 +108,7 @@ export const config = {
 	// Performance
 	performance: {
 		mode: process.env.PERFORMANCE_MODE === 'true',
+		maxConcurrentLanes: parseInt(process.env.MAX_CONCURRENT_LANES || '10', 10), // Wallets sending transactions in parallel
 	},
 };
 
@@ -14,17 +14,31 @@ export const BSC_CHAIN_NAME = 'BSC';
 // ==============================================
 export const PANCAKE_ROUTER_ADDRESS = '0x10ED43C718714eb63d5aA57B78B54704E256024E';
 export const PANCAKE_FACTORY_ADDRESS = '0xcA143Ce32Fe78f1f7019d7d551a6402fC5350c73';
+export const PANCAKE_V2_FEE_BPS = 25; // 0.25% swap fee
+
+// ==============================================
+// MULTICALL
+// ==============================================
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+export const MULTICALL_CHUNK_SIZE = 200; // Calls per eth_call
 
 // ==============================================
 // TOKEN ADDRESSES
 // ==============================================
 export const WBNB_ADDRESS = '0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c';
+export const USDT_ADDRESS = '0x55d398326f99059fF775485246999027B3197955'; // BSC-USD, 18 decimals
+export const BUSD_ADDRESS = '0xe9e7CEA3DedcA5984780Bafc599bD69ADd087D56'; // 18 decimals
+export const BNB_USD_FALLBACK_PRICE = 300; // Only used (flagged stale) if no oracle source ever answered
 
 // ==============================================
 // FOUR.MEME CONSTANTS
 // ==============================================
 export const FOUR_MEME_FACTORY_ADDRESS = '0x5c952063c7fc8610FFDB798152D69F0B9550762b';
 export const FOUR_MEME_ADD_LIQUIDITY_METHOD_ID = '0xe3412e3d';
+export const FOUR_MEME_TOKEN_CREATE_EVENT =
+	'event TokenCreate(address creator, address token, uint256 requestId, string name, string symbol, uint256 totalSupply, uint256 launchTime, uint256 launchFee)';
+export const FOUR_MEME_CREATOR_LOOKBACK_BLOCKS = 50000; // How far back to look for a token's TokenCreate event
+export const LOG_QUERY_CHUNK_BLOCKS = 5000; // Max block range per eth_getLogs request
 
 // ==============================================
 // GAS CONFIGURATION
@@ -41,10 +55,107 @@ export const MAX_SLIPPAGE = 99;
 export const MIN_TRADE_AMOUNT = 0.001; // BNB
 export const MAX_POSITIONS_PER_USER = 50;
 
+// ==============================================
+// TOKEN SAFETY SIMULATION
+// ==============================================
+export const SIMULATION_BNB_AMOUNT = 0.01; // BNB spent by the simulated buy
+export const SIMULATION_ACCOUNT = '0x7a11ca7e0000000000000000000000000000beef'; // Code-less account used as eth_call sender
+export const SIMULATION_TTL = 300; // Seconds before a stored simulation is re-run
+export const SIMULATION_MAX_STORAGE_SLOT = 20; // Highest storage slot probed for balance/allowance mappings
+
+// ==============================================
+// BACKTEST
+// ==============================================
+export const BACKTEST_DEFAULT_BLOCKS = 20000; // Range replayed by /backtest without arguments
+export const BACKTEST_MAX_BLOCKS = 200000; // Largest range a single backtest may replay
+
+// ==============================================
+// LIMIT ORDERS
+// ==============================================
+export const LIMIT_ORDER_DEFAULT_EXPIRY_HOURS = 24;
+export const LIMIT_ORDER_MAX_EXPIRY_HOURS = 720; // 30 days
+export const MAX_PENDING_LIMIT_ORDERS = 20; // Per trading order
+
+// ==============================================
+// COPY TRADING
+// ==============================================
+export const MAX_WATCHED_WALLETS = 10; // Per trading order
+export const COPY_WATCHLIST_REFRESH_MS = 30000; // Watched addresses are reloaded at least this often
+export const COPY_SELL_FULL_PERCENT = 99; // A leader sell of at least this share of its bag closes our position
+
+export enum CopySizingMode {
+	FIXED = 'FIXED', // Same BNB amount for every copied buy
+	PROPORTIONAL = 'PROPORTIONAL', // Percentage of the BNB the watched wallet spent
+}
+
+// ==============================================
+// DEV WALLET TRACKING
+// ==============================================
+export const DEV_TOP_HOLDERS = 5; // Largest initial holders tracked next to the creator
+export const DEV_DUMP_DEFAULT_PERCENT = 5; // Default share of supply the devs may move before an exit
+export const DEV_WATCHLIST_REFRESH_MS = 30000; // Tracked tokens are reloaded at least this often
+export const TRANSFER_EVENT_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef'; // Transfer(address,address,uint256)
+
+// ==============================================
+// RUG WATCHDOG
+// ==============================================
+export const RUG_BURN_MAX_BLOCKS = 100; // Max blocks per Burn log query; older blocks are skipped after an outage
+
+// ==============================================
+// ENTRY LADDER (DCA)
+// ==============================================
+export const ENTRY_MAX_TRANCHES = 10;
+export const ENTRY_MAX_TRANCHE_FAILURES = 3; // Failed tranche buys before the ladder stops
+
+// ==============================================
+// SELL RETRY (ESCALATION LADDERS)
+// ==============================================
+// Retry n (1-based) sells with order slippage + n * slippageStep and order gas * (1 + n * gasStepPercent / 100), both capped
+export const SELL_RETRY_MAX_ATTEMPTS = 6; // Upper bound for a ladder's maxAttempts (first try included)
+export const SELL_RETRY_STOP_LOSS_DEFAULTS = {
+	maxAttempts: 4,
+	slippageStep: 10,
+	maxSlippage: 49,
+	gasStepPercent: 25,
+	maxGasPrice: 20, // gwei
+};
+export const SELL_RETRY_TAKE_PROFIT_DEFAULTS = {
+	maxAttempts: 2,
+	slippageStep: 5,
+	maxSlippage: 25,
+	gasStepPercent: 10,
+	maxGasPrice: 10, // gwei
+};
+
+// ==============================================
+// BREAK-EVEN STOP
+// ==============================================
+export const BREAK_EVEN_MAX_LOCK_PERCENT = 1000; // Upper bound for the profit a break-even stop can lock in
+
+// ==============================================
+// PANIC SELL
+// ==============================================
+export const PANIC_SELL_PRIORITY = 1000; // Above stop-loss (100) so panic sells jump every lane
+export const PANIC_SELL_SLIPPAGE = 49; // Percent
+export const PANIC_SELL_GAS_MULTIPLIER = 1.5; // Applied to each order's gas price
+export const PANIC_SELL_TIMEOUT = 180000; // Milliseconds to wait for each sell
+export const PANIC_PROGRESS_INTERVAL = 2000; // Minimum milliseconds between progress message edits
+
+// ==============================================
+// APPROVAL MANAGEMENT
+// ==============================================
+export const APPROVAL_PRIORITY = 1; // Below buys (10), so pre-approvals never delay a buy or a sell
+
+export enum ApprovalStatus {
+	PENDING = 'PENDING', // Approval or revoke queued
+	APPROVED = 'APPROVED', // Router can spend the token
+	REVOKED = 'REVOKED', // Allowance set back to zero
+	FAILED = 'FAILED', // Pre-approval failed (the sell will approve on its own)
+}
+
 // ==============================================
 // MONITORING INTERVALS
 // ==============================================
-export const PRICE_CACHE_TTL = 300; // 5 minutes in seconds
 export const BALANCE_CACHE_TTL = 60; // 1 minute in seconds
 export const MAX_CONCURRENT_TX = 3;
 export const TX_RETRY_ATTEMPTS = 3;
@@ -56,6 +167,7 @@ export const TX_TIMEOUT = 60000; // 60 seconds
 // ==============================================
 export const DEXSCREENER_API_URL = 'https://api.dexscreener.com/latest/dex';
 export const API_TIMEOUT = 5000; // milliseconds
+export const DEXSCREENER_MAX_TOKENS_PER_REQUEST = 30;
 
 // ==============================================
 // UI CONSTANTS
@@ -74,6 +186,48 @@ export enum PositionStatus {
 	FAILED = 'FAILED',
 }
 
+// ==============================================
+// ENTRY MODES
+// ==============================================
+export enum EntryMode {
+	SINGLE = 'SINGLE', // Whole trading amount in one swap
+	TIME = 'TIME', // Tranches every N seconds
+	PRICE = 'PRICE', // Tranches at fixed drops from the first fill
+}
+
+// ==============================================
+// PNL BASIS
+// ==============================================
+export enum PnlBasis {
+	SPOT = 'SPOT', // Reserve price x token amount
+	REALIZABLE = 'REALIZABLE', // Router quote for the whole bag, net of sell tax
+}
+
+// ==============================================
+// TRANSACTION SUBMISSION
+// ==============================================
+export enum SubmissionStrategy {
+	PUBLIC = 'PUBLIC', // Public mempool through the RPC pool
+	PRIVATE_RELAY = 'PRIVATE_RELAY', // Private relay first, public broadcast if not included in time
+}
+
+// ==============================================
+// LIMIT ORDER STATUS
+// ==============================================
+export enum LimitOrderStatus {
+	PENDING = 'PENDING', // Waiting for the trigger
+	TRIGGERED = 'TRIGGERED', // Buy queued
+	FILLED = 'FILLED',
+	FAILED = 'FAILED',
+	EXPIRED = 'EXPIRED',
+	CANCELLED = 'CANCELLED',
+}
+
+export enum LimitTriggerType {
+	PRICE = 'PRICE', // Token price in BNB falls to the target
+	MARKET_CAP = 'MARKET_CAP', // Market cap in USD falls to the target
+}
+
 // ==============================================
 // TRANSACTION TYPES
 // ==============================================
@@ -130,6 +284,13 @@ export const HELP_MESSAGE = `
 • Auto-buy on new tokens
 • Token alerts
 
+<b>🧪 Backtest:</b>
+• /backtest [blocks] - Replay past migrations
+• /backtest &lt;from&gt; &lt;to&gt; - Replay a block range
+
+<b>🚨 Panic Sell:</b>
+• /panic - Sell every active position at once
+
 Need help? Contact admin!
 `;
 
@@ -0,0 +1,194 @@
+import { ethers, BigNumber } from 'ethers';
+import { getProvider } from '../wallet/wallet.service';
+import { getFourMemeTokenCreator, getTokenMetadata, parseFourMemeMigration, TokenMetadata } from '../token/token.service';
+import { PANCAKESWAP_FACTORY_ABI } from '../../abi/pancakeswap-factory.abi';
+import { PANCAKESWAP_PAIR_ABI } from '../../abi/pancakeswap-pair.abi';
+import { LOG_QUERY_CHUNK_BLOCKS, PANCAKE_FACTORY_ADDRESS, WBNB_ADDRESS } from '../../config/constants';
+import { logger } from '../../utils/logger';
+
+/**
+ * Backtest Data
+ * Historical migrations and pair reserves read from chain logs
+ */
+
+export interface BacktestMigration {
+	tokenAddress: string;
+	pairAddress: string;
+	txHash: string;
+	blockNumber: number;
+	name: string;
+	symbol: string;
+	decimals: number;
+	totalSupply: string;
+	tokenIsToken0: boolean;
+}
+
+export interface ReserveTick {
+	blockNumber: number;
+	logIndex: number;
+	txHash: string;
+	reserveBnb: BigNumber;
+	reserveToken: BigNumber;
+}
+
+/**
+ * Maps block numbers to timestamps by interpolating between the range ends
+ * (BSC block times are regular enough for time-limit checks)
+ */
+export interface BlockClock {
+	timestampOf(blockNumber: number): number;
+}
+
+/**
+ * Chain reads the backtest needs (the RPC provider live, a recorded fixture in tests)
+ */
+export interface BacktestChain {
+	getLogs(filter: ethers.providers.Filter): Promise<ethers.providers.Log[]>;
+	getBlock(blockNumber: number): Promise<{ timestamp: number }>;
+	getTransaction(txHash: string): Promise<{ to?: string | null; data: string } | null>;
+	getTokenMetadata(tokenAddress: string): Promise<TokenMetadata | null>;
+	getTokenCreator(tokenAddress: string, fromBlock: number): Promise<string | null>;
+}
+
+/**
+ * Backtest chain backed by the configured RPC provider
+ */
+export const rpcChain: BacktestChain = {
+	getLogs: (filter) => getProvider().getLogs(filter),
+	getBlock: (blockNumber) => getProvider().getBlock(blockNumber),
+	getTransaction: (txHash) => getProvider().getTransaction(txHash),
+	getTokenMetadata: (tokenAddress) => getTokenMetadata(tokenAddress),
+	getTokenCreator: getFourMemeTokenCreator,
+};
+
+const factoryInterface = new ethers.utils.Interface(PANCAKESWAP_FACTORY_ABI);
+const pairInterface = new ethers.utils.Interface(PANCAKESWAP_PAIR_ABI);
+
+/**
+ * Fetch logs for a block range in LOG_QUERY_CHUNK_BLOCKS chunks
+ */
+async function getLogsChunked(
+	chain: BacktestChain,
+	filter: ethers.providers.Filter,
+	fromBlock: number,
+	toBlock: number
+): Promise<ethers.providers.Log[]> {
+	const logs: ethers.providers.Log[] = [];
+
+	for (let start = fromBlock; start <= toBlock; start += LOG_QUERY_CHUNK_BLOCKS) {
+		const end = Math.min(toBlock, start + LOG_QUERY_CHUNK_BLOCKS - 1);
+		logs.push(...(await chain.getLogs({ ...filter, fromBlock: start, toBlock: end })));
+	}
+
+	return logs;
+}
+
+/**
+ * Find Four.meme migrations in a block range
+ * WBNB pairs created in the range are candidates; each creating transaction goes through
+ * the same migration parser as the live scanner
+ * @param fromBlock - First block (inclusive)
+ * @param toBlock - Last block (inclusive)
+ * @param chain - Chain to read from (default: RPC provider)
+ * @returns Migrations in block order
+ */
+export async function findMigrations(
+	fromBlock: number,
+	toBlock: number,
+	chain: BacktestChain = rpcChain
+): Promise<BacktestMigration[]> {
+	const wbnb = WBNB_ADDRESS.toLowerCase();
+
+	const logs = await getLogsChunked(
+		chain,
+		{ address: PANCAKE_FACTORY_ADDRESS, topics: [factoryInterface.getEventTopic('PairCreated')] },
+		fromBlock,
+		toBlock
+	);
+
+	const migrations: BacktestMigration[] = [];
+
+	for (const log of logs) {
+		try {
+			const parsed = factoryInterface.parseLog(log);
+			const token0 = (parsed.args.token0 as string).toLowerCase();
+			const token1 = (parsed.args.token1 as string).toLowerCase();
+			if (token0 !== wbnb && token1 !== wbnb) continue;
+
+			const tx = await chain.getTransaction(log.transactionHash);
+			const tokenAddress = tx ? parseFourMemeMigration(tx) : null;
+			if (!tokenAddress || (tokenAddress !== token0 && tokenAddress !== token1)) continue;
+
+			const metadata = await chain.getTokenMetadata(tokenAddress);
+			if (!metadata) continue;
+
+			migrations.push({
+				tokenAddress,
+				pairAddress: (parsed.args.pair as string).toLowerCase(),
+				txHash: log.transactionHash,
+				blockNumber: log.blockNumber,
+				name: metadata.name,
+				symbol: metadata.symbol,
+				decimals: metadata.decimals,
+				totalSupply: metadata.totalSupply,
+				tokenIsToken0: tokenAddress === token0,
+			});
+		} catch (error: any) {
+			logger.warning(`Skipping backtest candidate ${log.transactionHash}: ${error.message}`);
+		}
+	}
+
+	return migrations;
+}
+
+/**
+ * Get every reserve change of a migration's pair, from the migration block to the end of the range
+ * @param migration - Detected migration
+ * @param toBlock - Last block (inclusive)
+ * @param chain - Chain to read from (default: RPC provider)
+ * @returns Reserve ticks in chain order
+ */
+export async function getReserveTicks(
+	migration: BacktestMigration,
+	toBlock: number,
+	chain: BacktestChain = rpcChain
+): Promise<ReserveTick[]> {
+	const logs = await getLogsChunked(
+		chain,
+		{ address: migration.pairAddress, topics: [pairInterface.getEventTopic('Sync')] },
+		migration.blockNumber,
+		toBlock
+	);
+
+	return logs
+		.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex)
+		.map((log) => {
+			const parsed = pairInterface.parseLog(log);
+			const reserve0 = parsed.args.reserve0 as BigNumber;
+			const reserve1 = parsed.args.reserve1 as BigNumber;
+
+			return {
+				blockNumber: log.blockNumber,
+				logIndex: log.logIndex,
+				txHash: log.transactionHash,
+				reserveBnb: migration.tokenIsToken0 ? reserve1 : reserve0,
+				reserveToken: migration.tokenIsToken0 ? reserve0 : reserve1,
+			};
+		});
+}
+
+/**
+ * Build a block clock for a range
+ */
+export async function getBlockClock(
+	fromBlock: number,
+	toBlock: number,
+	chain: BacktestChain = rpcChain
+): Promise<BlockClock> {
+	const [first, last] = await Promise.all([chain.getBlock(fromBlock), chain.getBlock(toBlock)]);
+	const secondsPerBlock = toBlock > fromBlock ? (last.timestamp - first.timestamp) / (toBlock - fromBlock) : 0;
+
+	return {
+		timestampOf: (blockNumber: number) => first.timestamp + (blockNumber - fromBlock) * secondsPerBlock,
+	};
+}
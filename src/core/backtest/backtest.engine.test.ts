@@ -0,0 +1,141 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import { Order } from '../../database/models';
+import { TokenMetadata } from '../token/token.service';
+import { runBacktest } from './backtest.engine';
+import { BacktestChain, findMigrations } from './backtest.data';
+import fixture from './fixtures/migrations.fixture.json';
+
+/**
+ * Backtest chain that answers from the recorded fixture
+ */
+const fixtureChain: BacktestChain = {
+	async getLogs(filter) {
+		const topic = filter.topics?.[0];
+		return fixture.logs.filter(
+			(log) =>
+				(!filter.address || log.address.toLowerCase() === (filter.address as string).toLowerCase()) &&
+				(!topic || log.topics[0] === topic) &&
+				log.blockNumber >= Number(filter.fromBlock) &&
+				log.blockNumber <= Number(filter.toBlock)
+		);
+	},
+	async getBlock(blockNumber) {
+		const block = (fixture.blocks as Record<string, { timestamp: number }>)[blockNumber];
+		if (!block) throw new Error(`Block ${blockNumber} not in fixture`);
+		return block;
+	},
+	async getTransaction(txHash) {
+		return (fixture.transactions as Record<string, { to: string; data: string }>)[txHash] || null;
+	},
+	async getTokenMetadata(tokenAddress) {
+		return (fixture.tokens as Record<string, TokenMetadata>)[tokenAddress] || null;
+	},
+	async getTokenCreator(tokenAddress) {
+		return (fixture.creators as Record<string, string>)[tokenAddress] || null;
+	},
+};
+
+function createOrder(overrides: Record<string, unknown> = {}) {
+	return new Order({
+		userId: new mongoose.Types.ObjectId(),
+		walletId: new mongoose.Types.ObjectId(),
+		name: 'Fixture',
+		tradingAmount: 0.1,
+		slippage: 10,
+		gasFee: { gasPrice: '1', gasLimit: 300000 },
+		takeProfitLevels: [{ pnlPercent: 50, sellPercent: 100 }],
+		stopLossLevels: [{ pnlPercent: 30, sellPercent: 100 }],
+		timeLimitEnabled: false,
+		...overrides,
+	});
+}
+
+test('findMigrations keeps only Four.meme WBNB pairs', async () => {
+	const migrations = await findMigrations(fixture.fromBlock, fixture.toBlock, fixtureChain);
+
+	assert.deepEqual(
+		migrations.map((migration) => [migration.symbol, migration.blockNumber, migration.tokenIsToken0]),
+		[
+			['AAA', 1000, true],
+			['BBB', 1030, false],
+			['CCC', 1060, true],
+		]
+	);
+});
+
+test('runBacktest replays take profit, stop loss and slippage failures', async () => {
+	const order = createOrder();
+	const progress: number[] = [];
+
+	const result = await runBacktest(
+		[order],
+		fixture.fromBlock,
+		fixture.toBlock,
+		(processed) => {
+			progress.push(processed);
+		},
+		fixtureChain
+	);
+
+	assert.equal(result.migrations, 3);
+	assert.deepEqual(progress, [1, 2, 3]);
+
+	const [pump, dump, sniped] = result.trades;
+	const gasPerTx = 0.0003;
+
+	assert.equal(pump.status, 'CLOSED');
+	assert.equal(pump.exits.length, 1);
+	assert.equal(pump.exits[0].reason, 'TAKE_PROFIT');
+	assert.equal(pump.exits[0].blockNumber, 1010);
+	assert.ok(pump.pnlBnb > 0);
+	assert.ok(Math.abs(pump.gasCost - 2 * gasPerTx) < 1e-12);
+	assert.equal(pump.holdSeconds, 27);
+
+	assert.equal(dump.status, 'CLOSED');
+	assert.equal(dump.exits[0].reason, 'STOP_LOSS');
+	assert.equal(dump.exits[0].blockNumber, 1040);
+	assert.ok(dump.pnlBnb < 0);
+
+	assert.equal(sniped.status, 'FAILED');
+	assert.equal(sniped.reason, 'Slippage exceeded');
+	assert.equal(sniped.pnlBnb, -gasPerTx);
+
+	const [summary] = result.summaries;
+	assert.equal(summary.trades, 2);
+	assert.equal(summary.wins, 1);
+	assert.equal(summary.losses, 1);
+	assert.equal(summary.failed, 1);
+	assert.equal(summary.winRate, 50);
+	assert.ok(Math.abs(summary.pnlBnb - (pump.pnlBnb + dump.pnlBnb + sniped.pnlBnb)) < 1e-12);
+	assert.ok(summary.maxDrawdownBnb > 0);
+});
+
+test('runBacktest sells fractional take profit shares', async () => {
+	const order = createOrder({ takeProfitLevels: [{ pnlPercent: 50, sellPercent: 33.5 }] });
+
+	const result = await runBacktest([order], fixture.fromBlock, fixture.toBlock, undefined, fixtureChain);
+	const [pump] = result.trades;
+
+	assert.equal(result.migrations, 3);
+	assert.deepEqual(
+		pump.exits.map((exit) => [exit.reason, exit.blockNumber, exit.sellPercent]),
+		[['TAKE_PROFIT', 1010, 33.5]]
+	);
+	assert.ok(pump.exits[0].bnbReceived > 0);
+	assert.equal(pump.status, 'OPEN');
+	assert.ok(pump.openValue > 0);
+});
+
+test('runBacktest skips migrations the order filters out', async () => {
+	const order = createOrder({ creatorBlacklist: [fixture.creators['0xaa00000000000000000000000000000000000001']] });
+
+	const result = await runBacktest([order.toObject()], fixture.fromBlock, fixture.toBlock, undefined, fixtureChain);
+
+	assert.equal(result.trades[0].status, 'SKIPPED');
+	assert.match(result.trades[0].reason || '', /blacklisted/);
+	assert.equal(result.summaries[0].skipped, 1);
+	assert.equal(result.summaries[0].trades, 1);
+	assert.equal(result.summaries[0].failed, 1);
+});
@@ -0,0 +1,397 @@
+import { ethers, BigNumber } from 'ethers';
+import { IOrder, LeanOrder } from '../../database/models';
+import { checkOrderFilters, orderNeedsCreator, TokenSafetyInfo } from '../order/order.filter';
+import { getAmountOut } from '../price/pair.service';
+import { logger } from '../../utils/logger';
+import {
+	BacktestMigration,
+	BacktestChain,
+	BlockClock,
+	ReserveTick,
+	findMigrations,
+	getBlockClock,
+	getReserveTicks,
+	rpcChain,
+} from './backtest.data';
+
+/**
+ * Backtest Engine
+ * Replays historical migrations against each order's buy amount, slippage, TP/SL levels and time limit.
+ *
+ * Model:
+ * - Quote at the reserves right after the migration tx, fill at the reserves at the end of the migration block
+ *   (the bot's buy lands in the next block); a fill below the slippage bound is a failed buy
+ * - Every Sync of the pair is a price check, evaluated like PNLMonitorEngine (time limit, TP levels,
+ *   fixed and trailing SL levels)
+ * - Sells fill at the pair reserves of that moment; the bot's own trades do not move later reserves
+ * - Gas is charged at the order's gas price and gas limit for every transaction
+ * - Tax and ownership filters are not replayed (they need the state at detection time)
+ */
+
+const DUST_TOKEN_AMOUNT = 0.0001;
+
+export type BacktestTradeStatus = 'CLOSED' | 'OPEN' | 'FAILED' | 'SKIPPED';
+export type BacktestExitReason = 'TAKE_PROFIT' | 'STOP_LOSS' | 'TIME_LIMIT';
+
+export interface BacktestExit {
+	reason: BacktestExitReason;
+	level?: number; // TP/SL level index
+	blockNumber: number;
+	pnlPercent: number;
+	sellPercent: number;
+	bnbReceived: number;
+}
+
+export interface BacktestTrade {
+	orderId: string;
+	orderName: string;
+	tokenAddress: string;
+	tokenSymbol: string;
+	detectionBlock: number;
+	status: BacktestTradeStatus;
+	reason?: string; // Why the trade was skipped or failed
+	bnbSpent: number;
+	tokenAmount: number;
+	buyPrice: number; // BNB per token
+	exits: BacktestExit[];
+	bnbReceived: number;
+	openValue: number; // Value of tokens still held at the end of the range
+	gasCost: number;
+	pnlBnb: number;
+	pnlPercent: number;
+	holdSeconds: number;
+	exitBlock: number; // Last sell, or the end of the range for open trades
+}
+
+export interface BacktestOrderSummary {
+	orderId: string;
+	orderName: string;
+	trades: number; // Filled buys
+	wins: number;
+	losses: number;
+	open: number;
+	failed: number;
+	skipped: number;
+	winRate: number;
+	bnbSpent: number;
+	gasCost: number;
+	pnlBnb: number;
+	maxDrawdownBnb: number;
+}
+
+export interface BacktestResult {
+	fromBlock: number;
+	toBlock: number;
+	migrations: number;
+	trades: BacktestTrade[];
+	summaries: BacktestOrderSummary[];
+}
+
+/**
+ * Hydrated or lean order - only its configuration is read
+ */
+type BacktestOrder = IOrder | LeanOrder;
+
+export type BacktestProgressCallback = (processed: number, total: number) => void | Promise<void>;
+
+/**
+ * Spot price in BNB per whole token
+ */
+function getSpotPrice(tick: ReserveTick, decimals: number): number {
+	const tokenReserve = parseFloat(ethers.utils.formatUnits(tick.reserveToken, decimals));
+	if (tokenReserve === 0) return 0;
+	return parseFloat(ethers.utils.formatEther(tick.reserveBnb)) / tokenReserve;
+}
+
+/**
+ * Gas cost of one transaction in BNB
+ */
+function getGasCost(order: BacktestOrder): number {
+	const gasPrice = parseFloat(order.gasFee?.gasPrice || '0');
+	const gasLimit = Number(order.gasFee?.gasLimit || 300000);
+	return (gasPrice * gasLimit) / 1e9;
+}
+
+/**
+ * Empty trade record for an order and migration
+ */
+function createTrade(order: BacktestOrder, migration: BacktestMigration, status: BacktestTradeStatus): BacktestTrade {
+	return {
+		orderId: order._id.toString(),
+		orderName: order.name,
+		tokenAddress: migration.tokenAddress,
+		tokenSymbol: migration.symbol,
+		detectionBlock: migration.blockNumber,
+		status,
+		bnbSpent: 0,
+		tokenAmount: 0,
+		buyPrice: 0,
+		exits: [],
+		bnbReceived: 0,
+		openValue: 0,
+		gasCost: 0,
+		pnlBnb: 0,
+		pnlPercent: 0,
+		holdSeconds: 0,
+		exitBlock: migration.blockNumber,
+	};
+}
+
+/**
+ * Simulate one order on one migration
+ */
+function simulateTrade(
+	order: BacktestOrder,
+	migration: BacktestMigration,
+	ticks: ReserveTick[],
+	clock: BlockClock,
+	toBlock: number
+): BacktestTrade {
+	const gasPerTx = getGasCost(order);
+	const trade = createTrade(order, migration, 'FAILED');
+
+	// Reserves right after the migration (quote) and at the end of its block (fill)
+	const quoteTick = [...ticks].reverse().find((tick) => tick.txHash === migration.txHash);
+	const fillTick = [...ticks].reverse().find((tick) => tick.blockNumber === migration.blockNumber);
+	if (!quoteTick || !fillTick) {
+		trade.reason = 'No liquidity at migration';
+		return trade;
+	}
+
+	const bnbIn = ethers.utils.parseEther(order.tradingAmount.toString());
+	const quoted = getAmountOut(bnbIn, quoteTick.reserveBnb, quoteTick.reserveToken);
+	const filled = getAmountOut(bnbIn, fillTick.reserveBnb, fillTick.reserveToken);
+	const minOut = quoted.mul(10000 - Math.round(order.slippage * 100)).div(10000);
+
+	trade.gasCost = gasPerTx;
+	if (filled.isZero() || filled.lt(minOut)) {
+		trade.reason = filled.isZero() ? 'Zero output' : 'Slippage exceeded';
+		trade.pnlBnb = -gasPerTx;
+		return trade;
+	}
+
+	trade.status = 'OPEN';
+	trade.bnbSpent = order.tradingAmount;
+	trade.tokenAmount = parseFloat(ethers.utils.formatUnits(filled, migration.decimals));
+	trade.buyPrice = trade.bnbSpent / trade.tokenAmount;
+
+	const entryBlock = migration.blockNumber + 1;
+	const entryTime = clock.timestampOf(entryBlock);
+	let remaining = filled;
+	let current = fillTick;
+	let peakPrice = trade.buyPrice;
+	const triggeredTp = new Set<number>();
+	const triggeredSl = new Set<number>();
+
+	// Sell a share of the remaining balance at the current reserves
+	const sell = (reason: BacktestExitReason, sellPercent: number, pnlPercent: number, blockNumber: number, level?: number) => {
+		// Levels allow fractional percents - scale to basis points, BigNumber only multiplies integers
+		const amount = remaining.mul(Math.round(sellPercent * 100)).div(10000);
+		const bnbOut = parseFloat(ethers.utils.formatEther(getAmountOut(amount, current.reserveToken, current.reserveBnb)));
+
+		remaining = remaining.sub(amount);
+		trade.bnbReceived += bnbOut;
+		trade.gasCost += gasPerTx;
+		trade.exitBlock = blockNumber;
+		trade.exits.push({ reason, level, blockNumber, pnlPercent, sellPercent, bnbReceived: bnbOut });
+
+		if (sellPercent >= 100 || parseFloat(ethers.utils.formatUnits(remaining, migration.decimals)) < DUST_TOKEN_AMOUNT) {
+			remaining = BigNumber.from(0);
+		}
+	};
+
+	const timeLimitReached = (blockNumber: number) =>
+		order.timeLimitEnabled && clock.timestampOf(blockNumber) - entryTime >= order.timeLimitSeconds;
+
+	for (const tick of ticks) {
+		if (tick.blockNumber <= migration.blockNumber) continue;
+
+		// Time limit sells at the reserves in place before this tick
+		if (timeLimitReached(tick.blockNumber)) {
+			const pnlPercent = (getSpotPrice(current, migration.decimals) / trade.buyPrice - 1) * 100;
+			sell('TIME_LIMIT', 100, pnlPercent, tick.blockNumber);
+			break;
+		}
+
+		current = tick;
+		const price = getSpotPrice(tick, migration.decimals);
+		const pnlPercent = (price / trade.buyPrice - 1) * 100;
+		peakPrice = Math.max(peakPrice, price);
+		const peakPnlPercent = (peakPrice / trade.buyPrice - 1) * 100;
+		const dropFromPeak = (1 - price / peakPrice) * 100;
+		const tpLevels = order.takeProfitLevels || [];
+		const slLevels = order.stopLossLevels || [];
+
+		const hitTp = tpLevels
+			.map((level, index) => ({ level, index }))
+			.filter(({ level, index }) => !triggeredTp.has(index) && pnlPercent >= level.pnlPercent);
+		const hitSl = slLevels
+			.map((level, index) => ({ level, index }))
+			.filter(({ level, index }) => {
+				if (triggeredSl.has(index)) return false;
+				if (!level.trailing) return pnlPercent <= -level.pnlPercent;
+				const armed = level.activationPercent == null || peakPnlPercent >= level.activationPercent;
+				return armed && dropFromPeak >= level.pnlPercent;
+			});
+
+		if (hitTp.length > 0) {
+			for (const { level, index } of hitTp) {
+				if (remaining.isZero()) break;
+				triggeredTp.add(index);
+				sell('TAKE_PROFIT', level.sellPercent, pnlPercent, tick.blockNumber, index);
+			}
+		} else if (hitSl.length > 0) {
+			for (const { level, index } of hitSl) {
+				if (remaining.isZero()) break;
+				triggeredSl.add(index);
+				sell('STOP_LOSS', level.sellPercent, pnlPercent, tick.blockNumber, index);
+			}
+		}
+
+		if (remaining.isZero()) break;
+	}
+
+	if (!remaining.isZero() && timeLimitReached(toBlock)) {
+		const pnlPercent = (getSpotPrice(current, migration.decimals) / trade.buyPrice - 1) * 100;
+		sell('TIME_LIMIT', 100, pnlPercent, toBlock);
+	}
+
+	if (remaining.isZero()) {
+		trade.status = 'CLOSED';
+	} else {
+		// Mark to market at the last known reserves
+		trade.openValue = parseFloat(
+			ethers.utils.formatEther(getAmountOut(remaining, current.reserveToken, current.reserveBnb))
+		);
+		trade.exitBlock = toBlock;
+	}
+
+	trade.pnlBnb = trade.bnbReceived + trade.openValue - trade.bnbSpent - trade.gasCost;
+	trade.pnlPercent = (trade.pnlBnb / trade.bnbSpent) * 100;
+	trade.holdSeconds = Math.max(0, Math.round(clock.timestampOf(trade.exitBlock) - entryTime));
+
+	return trade;
+}
+
+/**
+ * Aggregate an order's trades
+ * Drawdown is the largest peak-to-trough drop of cumulative PNL, trades ordered by exit block
+ */
+function summarizeOrder(order: BacktestOrder, trades: BacktestTrade[]): BacktestOrderSummary {
+	const filled = trades.filter((trade) => trade.status === 'CLOSED' || trade.status === 'OPEN');
+	const counted = trades
+		.filter((trade) => trade.status !== 'SKIPPED')
+		.sort((a, b) => a.exitBlock - b.exitBlock);
+
+	let cumulative = 0;
+	let peak = 0;
+	let maxDrawdownBnb = 0;
+	for (const trade of counted) {
+		cumulative += trade.pnlBnb;
+		peak = Math.max(peak, cumulative);
+		maxDrawdownBnb = Math.max(maxDrawdownBnb, peak - cumulative);
+	}
+
+	const wins = filled.filter((trade) => trade.pnlBnb > 0).length;
+
+	return {
+		orderId: order._id.toString(),
+		orderName: order.name,
+		trades: filled.length,
+		wins,
+		losses: filled.length - wins,
+		open: filled.filter((trade) => trade.status === 'OPEN').length,
+		failed: trades.filter((trade) => trade.status === 'FAILED').length,
+		skipped: trades.filter((trade) => trade.status === 'SKIPPED').length,
+		winRate: filled.length > 0 ? (wins / filled.length) * 100 : 0,
+		bnbSpent: filled.reduce((sum, trade) => sum + trade.bnbSpent, 0),
+		gasCost: counted.reduce((sum, trade) => sum + trade.gasCost, 0),
+		pnlBnb: cumulative,
+		maxDrawdownBnb,
+	};
+}
+
+/**
+ * Run a backtest of orders over a block range
+ * @param orders - Orders to simulate (their current configuration is used)
+ * @param fromBlock - First block (inclusive)
+ * @param toBlock - Last block (inclusive)
+ * @param onProgress - Called after each migration is simulated
+ * @param chain - Chain to replay (default: RPC provider)
+ * @returns Per-trade results and per-order summaries
+ */
+export async function runBacktest(
+	orders: BacktestOrder[],
+	fromBlock: number,
+	toBlock: number,
+	onProgress?: BacktestProgressCallback,
+	chain: BacktestChain = rpcChain
+): Promise<BacktestResult> {
+	logger.info(`🧪 Backtesting ${orders.length} order(s) over blocks ${fromBlock}-${toBlock}...`);
+
+	const [migrations, clock] = await Promise.all([
+		findMigrations(fromBlock, toBlock, chain),
+		getBlockClock(fromBlock, toBlock, chain),
+	]);
+	logger.info(`🧪 Found ${migrations.length} migration(s) to replay`);
+
+	// Tax and ownership need the state at detection time - not replayed
+	const filterOrders: LeanOrder[] = orders.map((order) => ({
+		...('toObject' in order ? (order.toObject() as LeanOrder) : order),
+		requireRenouncedOwnership: false,
+		maxBuyTax: null,
+		maxSellTax: null,
+	}));
+	const needsCreator = orders.some(orderNeedsCreator);
+
+	const trades: BacktestTrade[] = [];
+
+	for (let i = 0; i < migrations.length; i++) {
+		const migration = migrations[i];
+
+		try {
+			const ticks = await getReserveTicks(migration, toBlock, chain);
+			const quoteTick = [...ticks].reverse().find((tick) => tick.txHash === migration.txHash);
+
+			const info: TokenSafetyInfo = {
+				address: migration.tokenAddress,
+				name: migration.name,
+				symbol: migration.symbol,
+				totalSupply: parseFloat(ethers.utils.formatUnits(migration.totalSupply, migration.decimals)),
+				liquidityBnb: quoteTick ? parseFloat(ethers.utils.formatEther(quoteTick.reserveBnb)) : 0,
+				creator: needsCreator ? await chain.getTokenCreator(migration.tokenAddress, migration.blockNumber) : null,
+				ownershipRenounced: null,
+			};
+
+			for (let j = 0; j < orders.length; j++) {
+				const filterCheck = checkOrderFilters(filterOrders[j], info);
+				if (!filterCheck.valid) {
+					trades.push({
+						...createTrade(orders[j], migration, 'SKIPPED'),
+						reason: filterCheck.error || 'Filtered out',
+					});
+					continue;
+				}
+
+				trades.push(simulateTrade(orders[j], migration, ticks, clock, toBlock));
+			}
+		} catch (error: any) {
+			logger.warning(`Backtest skipped ${migration.symbol} (${migration.tokenAddress}): ${error.message}`);
+		}
+
+		if (onProgress) {
+			await onProgress(i + 1, migrations.length);
+		}
+	}
+
+	const summaries = orders.map((order) =>
+		summarizeOrder(
+			order,
+			trades.filter((trade) => trade.orderId === order._id.toString())
+		)
+	);
+
+	logger.success(`🧪 Backtest finished: ${trades.length} simulated trade(s)`);
+
+	return { fromBlock, toBlock, migrations: migrations.length, trades, summaries };
+}
@@ -0,0 +1,117 @@
+import { BacktestResult, BacktestTrade } from './backtest.engine';
+
+/**
+ * Backtest Report
+ * Telegram summary and per-trade CSV export
+ */
+
+const CSV_COLUMNS = [
+	'order',
+	'token',
+	'address',
+	'detection_block',
+	'status',
+	'reason',
+	'bnb_spent',
+	'token_amount',
+	'buy_price_bnb',
+	'exits',
+	'bnb_received',
+	'open_value_bnb',
+	'gas_bnb',
+	'pnl_bnb',
+	'pnl_percent',
+	'hold_seconds',
+	'exit_block',
+];
+
+/**
+ * Escape a CSV field
+ */
+function csvField(value: string | number): string {
+	const text = String(value);
+	return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Describe a trade's sells, e.g. "TP1@+52.1%:50% SL1@-20.3%:100%"
+ */
+function formatExits(trade: BacktestTrade): string {
+	return trade.exits
+		.map((exit) => {
+			const label =
+				exit.reason === 'TIME_LIMIT'
+					? 'TIME'
+					: `${exit.reason === 'TAKE_PROFIT' ? 'TP' : 'SL'}${(exit.level ?? 0) + 1}`;
+			const sign = exit.pnlPercent >= 0 ? '+' : '';
+			return `${label}@${sign}${exit.pnlPercent.toFixed(1)}%:${exit.sellPercent}%`;
+		})
+		.join(' ');
+}
+
+/**
+ * Build the per-trade CSV
+ * @param result - Backtest result
+ * @returns CSV text with a header row
+ */
+export function buildBacktestCsv(result: BacktestResult): string {
+	const rows = result.trades.map((trade) =>
+		[
+			trade.orderName,
+			trade.tokenSymbol,
+			trade.tokenAddress,
+			trade.detectionBlock,
+			trade.status,
+			trade.reason || '',
+			trade.bnbSpent,
+			trade.tokenAmount,
+			trade.buyPrice.toPrecision(8),
+			formatExits(trade),
+			trade.bnbReceived.toFixed(6),
+			trade.openValue.toFixed(6),
+			trade.gasCost.toFixed(6),
+			trade.pnlBnb.toFixed(6),
+			trade.pnlPercent.toFixed(2),
+			trade.holdSeconds,
+			trade.exitBlock,
+		]
+			.map(csvField)
+			.join(',')
+	);
+
+	return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
+
+/**
+ * Build the Telegram summary (HTML)
+ * @param result - Backtest result
+ * @returns Message text
+ */
+export function formatBacktestSummary(result: BacktestResult): string {
+	let message = `🧪 <b>Backtest Results</b>\n\n`;
+	message += `<b>Blocks:</b> ${result.fromBlock} → ${result.toBlock}\n`;
+	message += `<b>Migrations:</b> ${result.migrations}\n`;
+
+	for (const summary of result.summaries) {
+		const pnlEmoji = summary.pnlBnb >= 0 ? '🟢' : '🔴';
+		const pnlSign = summary.pnlBnb >= 0 ? '+' : '';
+
+		message += `\n<b>📊 ${summary.orderName}</b>\n`;
+		message += `Trades: ${summary.trades} (${summary.wins}W / ${summary.losses}L, ${summary.open} open)\n`;
+		message += `Win Rate: ${summary.winRate.toFixed(1)}%\n`;
+		message += `${pnlEmoji} PNL: ${pnlSign}${summary.pnlBnb.toFixed(4)} BNB`;
+		if (summary.bnbSpent > 0) {
+			message += ` (${pnlSign}${((summary.pnlBnb / summary.bnbSpent) * 100).toFixed(1)}%)`;
+		}
+		message += `\n`;
+		message += `Max Drawdown: ${summary.maxDrawdownBnb.toFixed(4)} BNB\n`;
+		message += `Gas: ${summary.gasCost.toFixed(4)} BNB\n`;
+		if (summary.failed > 0 || summary.skipped > 0) {
+			message += `Failed: ${summary.failed} | Filtered: ${summary.skipped}\n`;
+		}
+	}
+
+	message += `\n<i>Open positions are valued at the last reserves in the range. Tax and ownership filters are not replayed.</i>`;
+
+	return message;
+}
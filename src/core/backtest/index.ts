@@ -0,0 +1,31 @@
+/**
+ * Backtest Module
+ * Exports all backtest-related functionality
+ */
+
+// Engine exports
+export {
+	runBacktest,
+	type BacktestExit,
+	type BacktestExitReason,
+	type BacktestOrderSummary,
+	type BacktestProgressCallback,
+	type BacktestResult,
+	type BacktestTrade,
+	type BacktestTradeStatus,
+} from './backtest.engine';
+
+// Data exports
+export {
+	findMigrations,
+	getReserveTicks,
+	getBlockClock,
+	rpcChain,
+	type BacktestChain,
+	type BacktestMigration,
+	type ReserveTick,
+	type BlockClock,
+} from './backtest.data';
+
+// Report exports
+export { buildBacktestCsv, formatBacktestSummary } from './backtest.report';
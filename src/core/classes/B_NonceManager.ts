@@ -0,0 +1,134 @@
+import { logger } from '../../utils/logger';
+import { getProvider } from '../wallet/wallet.service';
+
+/**
+ * Nonce state for one wallet
+ */
+interface NonceState {
+	nextNonce: number;
+	syncedAt: number;
+}
+
+/**
+ * Nonce errors returned by BSC nodes / ethers
+ */
+const NONCE_ERROR_PATTERNS = [
+	'nonce too low',
+	'nonce too high',
+	'nonce has already been used',
+	'already known',
+	'replacement transaction underpriced',
+	'invalid nonce',
+	'NONCE_EXPIRED',
+];
+
+/**
+ * B_NonceManager - Tracks pending nonces per wallet address
+ * Hands out sequential nonces locally so queued transactions don't need a
+ * getTransactionCount round-trip each, and resyncs with the chain when a gap
+ * or a nonce error shows up.
+ */
+export class B_NonceManager {
+	private states: Map<string, NonceState> = new Map();
+
+	// Re-read the chain nonce when a wallet has been idle this long (it may have been used outside the queue)
+	private readonly resyncAfterMs = 30000;
+
+	/**
+	 * Reserve the next nonce for a wallet
+	 */
+	async next(address: string): Promise<number> {
+		const key = address.toLowerCase();
+		let state = this.states.get(key);
+
+		if (!state || Date.now() - state.syncedAt > this.resyncAfterMs) {
+			state = await this.sync(key);
+		}
+
+		const nonce = state.nextNonce;
+		state.nextNonce++;
+		state.syncedAt = Date.now();
+		return nonce;
+	}
+
+	/**
+	 * Release a nonce that was reserved but never broadcast
+	 * Only the most recently reserved nonce can be released without leaving a gap
+	 */
+	release(address: string, nonce: number): void {
+		const state = this.states.get(address.toLowerCase());
+		if (!state) return;
+
+		if (state.nextNonce === nonce + 1) {
+			state.nextNonce = nonce;
+		} else {
+			// A later nonce was already handed out - force a resync before the next send
+			logger.warning(`Nonce gap for ${address}: released ${nonce}, next was ${state.nextNonce}`);
+			this.states.delete(address.toLowerCase());
+		}
+	}
+
+	/**
+	 * Handle a failed send: resync on nonce errors, otherwise release the unused nonce
+	 */
+	async handleSendError(address: string, nonce: number, error: any): Promise<void> {
+		if (this.isNonceError(error)) {
+			logger.warning(`Nonce error for ${address} (nonce ${nonce}): ${error.message} - resyncing`);
+			await this.resync(address);
+		} else {
+			this.release(address, nonce);
+		}
+	}
+
+	/**
+	 * Re-read the nonce from the chain, detecting gaps between local and chain state
+	 */
+	async resync(address: string): Promise<number> {
+		const key = address.toLowerCase();
+		const previous = this.states.get(key);
+		const state = await this.sync(key);
+
+		if (previous && previous.nextNonce !== state.nextNonce) {
+			logger.warning(
+				`🔢 Nonce resync for ${address}: local ${previous.nextNonce} -> chain ${state.nextNonce}`
+			);
+		}
+
+		return state.nextNonce;
+	}
+
+	/**
+	 * Check whether an error is nonce-related
+	 */
+	isNonceError(error: any): boolean {
+		const message = `${error?.message || error || ''} ${error?.code || ''}`.toLowerCase();
+		return NONCE_ERROR_PATTERNS.some((pattern) => message.includes(pattern.toLowerCase()));
+	}
+
+	/**
+	 * Get the next nonce that will be handed out (null if not tracked yet)
+	 */
+	peek(address: string): number | null {
+		return this.states.get(address.toLowerCase())?.nextNonce ?? null;
+	}
+
+	/**
+	 * Forget all tracked nonces
+	 */
+	reset(): void {
+		this.states.clear();
+	}
+
+	/**
+	 * Load the pending nonce from the chain
+	 */
+	private async sync(key: string): Promise<NonceState> {
+		const nextNonce = await getProvider().getTransactionCount(key, 'pending');
+		const state: NonceState = { nextNonce, syncedAt: Date.now() };
+		this.states.set(key, state);
+		return state;
+	}
+}
+
+// Export singleton instance
+export const nonceManager = new B_NonceManager();
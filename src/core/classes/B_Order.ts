@@ -1,4 +1,5 @@
 import { Order, IOrder } from '../../database/models';
+import { ITakeProfitLevel, IStopLossLevel } from '../../database/models/order.model';
 import { B_Wallet } from './B_Wallet';
 import { B_Position } from './B_Position';
 import { logger } from '../../utils/logger';
@@ -16,10 +17,8 @@ export class B_Order {
 	public autoBuy: boolean;
 	public tradingAmount: number;
 	public slippage: number;
-	public takeProfitPercent: number;
-	public takeProfitEnabled: boolean;
-	public stopLossPercent: number;
-	public stopLossEnabled: boolean;
+	public takeProfitLevels: ITakeProfitLevel[];
+	public stopLossLevels: IStopLossLevel[];
 	public gasFee: {
 		gasPrice: string;
 		gasLimit: number;
@@ -37,10 +36,8 @@ export class B_Order {
 		this.autoBuy = order.autoBuy;
 		this.tradingAmount = order.tradingAmount;
 		this.slippage = order.slippage;
-		this.takeProfitPercent = order.takeProfitPercent;
-		this.takeProfitEnabled = order.takeProfitEnabled;
-		this.stopLossPercent = order.stopLossPercent;
-		this.stopLossEnabled = order.stopLossEnabled;
+		this.takeProfitLevels = order.takeProfitLevels || [];
+		this.stopLossLevels = order.stopLossLevels || [];
 		this.gasFee = order.gasFee;
 		this.createdAt = order.createdAt;
 		this.updatedAt = order.updatedAt;
@@ -56,10 +53,8 @@ export class B_Order {
 			name?: string;
 			tradingAmount?: number;
 			slippage?: number;
-			takeProfitPercent?: number;
-			takeProfitEnabled?: boolean;
-			stopLossPercent?: number;
-			stopLossEnabled?: boolean;
+			takeProfitLevels?: ITakeProfitLevel[];
+			stopLossLevels?: IStopLossLevel[];
 		}
 	): Promise<B_Order | null> {
 		try {
@@ -74,10 +69,8 @@ export class B_Order {
 				isActive: false,
 				tradingAmount: config?.tradingAmount ?? 0.01,
 				slippage: config?.slippage ?? 10,
-				takeProfitPercent: config?.takeProfitPercent ?? 50,
-				takeProfitEnabled: config?.takeProfitEnabled ?? true,
-				stopLossPercent: config?.stopLossPercent ?? 25,
-				stopLossEnabled: config?.stopLossEnabled ?? true,
+				takeProfitLevels: config?.takeProfitLevels ?? [{ pnlPercent: 50, sellPercent: 100 }],
+				stopLossLevels: config?.stopLossLevels ?? [{ pnlPercent: 25, sellPercent: 100 }],
 				gasFee: {
 					gasPrice: '5',
 					gasLimit: 300000,
@@ -147,10 +140,8 @@ export class B_Order {
 	async updateConfig(config: Partial<{
 		tradingAmount: number;
 		slippage: number;
-		takeProfitPercent: number;
-		takeProfitEnabled: boolean;
-		stopLossPercent: number;
-		stopLossEnabled: boolean;
+		takeProfitLevels: ITakeProfitLevel[];
+		stopLossLevels: IStopLossLevel[];
 		gasFee: { gasPrice: string; gasLimit?: number };
 	}>): Promise<boolean> {
 		try {
@@ -159,10 +150,8 @@ export class B_Order {
 			// Update local properties
 			if (config.tradingAmount !== undefined) this.tradingAmount = config.tradingAmount;
 			if (config.slippage !== undefined) this.slippage = config.slippage;
-			if (config.takeProfitPercent !== undefined) this.takeProfitPercent = config.takeProfitPercent;
-			if (config.takeProfitEnabled !== undefined) this.takeProfitEnabled = config.takeProfitEnabled;
-			if (config.stopLossPercent !== undefined) this.stopLossPercent = config.stopLossPercent;
-			if (config.stopLossEnabled !== undefined) this.stopLossEnabled = config.stopLossEnabled;
+			if (config.takeProfitLevels !== undefined) this.takeProfitLevels = config.takeProfitLevels;
+			if (config.stopLossLevels !== undefined) this.stopLossLevels = config.stopLossLevels;
 			if (config.gasFee !== undefined) {
 				this.gasFee = { ...this.gasFee, ...config.gasFee };
 			}
@@ -313,10 +302,8 @@ export class B_Order {
 			isActive: this.isActive,
 			tradingAmount: this.tradingAmount,
 			slippage: this.slippage,
-			takeProfitPercent: this.takeProfitPercent,
-			takeProfitEnabled: this.takeProfitEnabled,
-			stopLossPercent: this.stopLossPercent,
-			stopLossEnabled: this.stopLossEnabled,
+			takeProfitLevels: this.takeProfitLevels,
+			stopLossLevels: this.stopLossLevels,
 			positionCount: this.positions.size,
 			openPositionCount: openPositions.length,
 			totalPnL,
@@ -20,6 +20,8 @@ export interface ITakeProfitLevel {
 export interface IStopLossLevel {
 	pnlPercent: number;
 	sellPercent: number;
+	trailing?: boolean; // pnlPercent is the drop from the peak price
+	activationPercent?: number | null; // Trailing only: peak profit needed to arm the stop
 }
 
 /**
@@ -36,19 +38,15 @@ export class B_Position {
 	public buyAmount: number; // Alias for bnbSpent (matches database field)
 	public buyPrice: number; // BNB per token
 	public currentPrice: number;
+	public peakPrice: number; // Highest price seen since buy
+	public realizableValue: number | null = null; // BNB a full sell would return now (router quote net of sell tax)
 	public status: PositionStatus;
 	public buyTxHash: string;
 	public sellTxHash?: string;
 	public buyTimestamp: Date;
 	public sellTimestamp?: Date;
 
-	// Legacy TP/SL
-	public takeProfitPercent: number;
-	public stopLossPercent: number;
-	public takeProfitEnabled: boolean;
-	public stopLossEnabled: boolean;
-
-	// NEW: Multiple TP/SL levels
+	// Multiple TP/SL levels
 	public takeProfitLevels: ITakeProfitLevel[];
 	public stopLossLevels: IStopLossLevel[];
 	public triggeredTakeProfitLevels: number[];
@@ -65,16 +63,14 @@ export class B_Position {
 		bnbSpent: number;
 		buyPrice: number;
 		currentPrice?: number;
+		peakPrice?: number;
+		realizableValue?: number | null;
 		status?: PositionStatus;
 		buyTxHash: string;
 		sellTxHash?: string;
 		buyTimestamp?: Date;
 		sellTimestamp?: Date;
-		takeProfitPercent: number;
-		stopLossPercent: number;
-		takeProfitEnabled: boolean;
-		stopLossEnabled: boolean;
-		// NEW: Multiple TP/SL levels
+		// Multiple TP/SL levels
 		takeProfitLevels?: ITakeProfitLevel[];
 		stopLossLevels?: IStopLossLevel[];
 		triggeredTakeProfitLevels?: number[];
@@ -90,17 +86,15 @@ export class B_Position {
 		this.buyAmount = this.bnbSpent; // Initialize buyAmount as alias for bnbSpent
 		this.buyPrice = typeof data.buyPrice === 'string' ? parseFloat(data.buyPrice) : data.buyPrice;
 		this.currentPrice = data.currentPrice ? (typeof data.currentPrice === 'string' ? parseFloat(data.currentPrice) : data.currentPrice) : this.buyPrice;
+		this.peakPrice = Math.max(data.peakPrice || 0, this.currentPrice, this.buyPrice);
+		this.realizableValue = data.realizableValue ?? null;
 		this.status = data.status || PositionStatus.ACTIVE;
 		this.buyTxHash = data.buyTxHash;
 		this.sellTxHash = data.sellTxHash;
 		this.buyTimestamp = data.buyTimestamp || new Date();
 		this.sellTimestamp = data.sellTimestamp;
-		this.takeProfitPercent = typeof data.takeProfitPercent === 'string' ? parseFloat(data.takeProfitPercent) : data.takeProfitPercent;
-		this.stopLossPercent = typeof data.stopLossPercent === 'string' ? parseFloat(data.stopLossPercent) : data.stopLossPercent;
-		this.takeProfitEnabled = data.takeProfitEnabled;
-		this.stopLossEnabled = data.stopLossEnabled;
 
-		// NEW: Initialize multiple TP/SL levels
+		// Initialize multiple TP/SL levels
 		this.takeProfitLevels = data.takeProfitLevels || [];
 		this.stopLossLevels = data.stopLossLevels || [];
 		this.triggeredTakeProfitLevels = data.triggeredTakeProfitLevels || [];
@@ -126,10 +120,8 @@ export class B_Position {
 			bnbSpent,
 			buyPrice,
 			buyTxHash: txHash,
-			takeProfitPercent: order.takeProfitPercent,
-			stopLossPercent: order.stopLossPercent,
-			takeProfitEnabled: order.takeProfitEnabled,
-			stopLossEnabled: order.stopLossEnabled,
+			takeProfitLevels: order.takeProfitLevels,
+			stopLossLevels: order.stopLossLevels,
 		});
 
 		logger.success(`Position created: ${token.getDisplayName()} - ${tokenAmount} tokens`);
@@ -141,6 +133,47 @@ export class B_Position {
 	 */
 	updatePrice(newPrice: number): void {
 		this.currentPrice = newPrice;
+		this.peakPrice = Math.max(this.peakPrice, newPrice);
+	}
+
+	/**
+	 * Update the realizable value (null when no sell quote is available)
+	 */
+	updateRealizableValue(valueInBnb: number | null): void {
+		this.realizableValue = valueInBnb;
+	}
+
+	/**
+	 * Get realizable profit/loss in BNB (null without a sell quote)
+	 */
+	getRealizablePnL(): number | null {
+		if (this.realizableValue === null) return null;
+		return this.realizableValue - this.bnbSpent;
+	}
+
+	/**
+	 * Get realizable profit/loss percentage (null without a sell quote)
+	 */
+	getRealizablePnLPercent(): number | null {
+		const pnl = this.getRealizablePnL();
+		if (pnl === null || this.bnbSpent === 0) return null;
+		return (pnl / this.bnbSpent) * 100;
+	}
+
+	/**
+	 * Get profit/loss percentage at the peak price
+	 */
+	getPeakPnLPercent(): number {
+		if (this.bnbSpent === 0) return 0;
+		return ((this.tokenAmount * this.peakPrice - this.bnbSpent) / this.bnbSpent) * 100;
+	}
+
+	/**
+	 * Get how far the current price is below the peak, in percent
+	 */
+	getDropFromPeakPercent(): number {
+		if (this.peakPrice <= 0) return 0;
+		return Math.max(0, (1 - this.currentPrice / this.peakPrice) * 100);
 	}
 
 	/**
@@ -166,19 +199,23 @@ export class B_Position {
 	}
 
 	/**
-	 * Check if take profit target hit
+	 * Check if an untriggered take profit level is hit
 	 */
 	shouldTakeProfit(): boolean {
-		if (!this.takeProfitEnabled) return false;
-		return this.getPnLPercent() >= this.takeProfitPercent;
+		const pnlPercent = this.getPnLPercent();
+		return this.takeProfitLevels.some(
+			(level, index) => !this.triggeredTakeProfitLevels.includes(index) && pnlPercent >= level.pnlPercent
+		);
 	}
 
 	/**
-	 * Check if stop loss target hit
+	 * Check if an untriggered (fixed) stop loss level is hit
 	 */
 	shouldStopLoss(): boolean {
-		if (!this.stopLossEnabled) return false;
-		return this.getPnLPercent() <= -this.stopLossPercent;
+		const pnlPercent = this.getPnLPercent();
+		return this.stopLossLevels.some(
+			(level, index) => !level.trailing && !this.triggeredStopLossLevels.includes(index) && pnlPercent <= -level.pnlPercent
+		);
 	}
 
 	/**
@@ -254,6 +291,7 @@ export class B_Position {
 			bnbSpent: this.bnbSpent,
 			buyPrice: this.buyPrice,
 			currentPrice: this.currentPrice,
+			peakPrice: this.peakPrice,
 			currentValue: this.getCurrentValue(),
 			pnl: this.getPnL(),
 			pnlPercent: this.getPnLPercent(),
@@ -263,10 +301,10 @@ export class B_Position {
 			buyTimestamp: this.buyTimestamp,
 			sellTimestamp: this.sellTimestamp,
 			age: this.getAgeFormatted(),
-			takeProfitPercent: this.takeProfitPercent,
-			stopLossPercent: this.stopLossPercent,
-			takeProfitEnabled: this.takeProfitEnabled,
-			stopLossEnabled: this.stopLossEnabled,
+			takeProfitLevels: this.takeProfitLevels,
+			stopLossLevels: this.stopLossLevels,
+			triggeredTakeProfitLevels: this.triggeredTakeProfitLevels,
+			triggeredStopLossLevels: this.triggeredStopLossLevels,
 		};
 	}
 }
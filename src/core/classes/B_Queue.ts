@@ -1,7 +1,28 @@
 import { EventEmitter } from 'events';
-import { B_Transaction, TransactionType } from './B_Transaction';
+import { ethers } from 'ethers';
+import { B_Transaction, TransactionResult, TransactionStatus, TransactionType } from './B_Transaction';
 import { B_Trading } from './B_Trading';
+import { nonceManager } from './B_NonceManager';
+import { queueStore } from './B_QueueStore';
+import { getProvider } from '../wallet/wallet.service';
 import { logger } from '../../utils/logger';
+import { config } from '../../config/config';
+
+/**
+ * Lane Statistics (one lane per wallet)
+ */
+export interface LaneStats {
+	wallet: string;
+	pending: number;
+	processing: number;
+	completed: number;
+	failed: number;
+	cancelled: number;
+	totalProcessed: number;
+	averageWaitTime: number;
+	averageExecutionTime: number;
+	nextNonce: number | null;
+}
 
 /**
  * Queue Statistics
@@ -15,42 +36,61 @@ export interface QueueStats {
 	totalProcessed: number;
 	averageWaitTime: number;
 	averageExecutionTime: number;
+	lanes: LaneStats[];
+}
+
+/**
+ * Counters kept globally and per lane
+ */
+interface StatsCounters {
+	totalProcessed: number;
+	totalWaitTime: number;
+	totalExecutionTime: number;
+	completed: number;
+	failed: number;
+	cancelled: number;
+}
+
+/**
+ * Lane - ordered transaction queue for a single wallet
+ */
+interface Lane {
+	wallet: string;
+	queue: B_Transaction[];
+	processing: B_Transaction | null;
+	stats: StatsCounters;
 }
 
 /**
  * B_Queue - Transaction Queue Manager
- * Manages sequential execution of blockchain transactions to prevent conflicts
- * 
+ * Manages execution of blockchain transactions in per-wallet lanes
+ *
  * CRITICAL FOR PERFORMANCE:
- * - Prevents transaction nonce conflicts
- * - Ensures proper transaction ordering
+ * - Wallets run in parallel (up to maxConcurrent lanes at once)
+ * - Each wallet's transactions run strictly in order (one at a time, priority-sorted)
+ * - Nonces are handed out by the nonce manager and resynced on nonce errors
  * - Handles retries automatically
  * - Provides transaction status tracking
+ * - Persists queued/in-flight transactions so they survive a restart (see restore())
  */
 export class B_Queue extends EventEmitter {
-	private queue: B_Transaction[] = [];
-	private processing: B_Transaction | null = null;
+	private lanes: Map<string, Lane> = new Map();
 	private isRunning: boolean = false;
 	private isPaused: boolean = false;
-	private maxConcurrent: number = 1; // Process one at a time to avoid nonce conflicts
-	private processInterval: NodeJS.Timeout | null = null;
+	private maxConcurrent: number = config.performance.maxConcurrentLanes;
+
+	// How long to wait for a transaction that was still pending in the mempool at restart
+	private readonly reconcileTimeoutMs = 180000;
 
 	// Statistics
-	private stats = {
-		totalProcessed: 0,
-		totalWaitTime: 0,
-		totalExecutionTime: 0,
-		completed: 0,
-		failed: 0,
-		cancelled: 0,
-	};
+	private stats: StatsCounters = B_Queue.createCounters();
 
 	constructor() {
 		super();
 	}
 
 	/**
-	 * Start the queue processing loop
+	 * Start the queue processing
 	 */
 	start(): void {
 		if (this.isRunning) {
@@ -60,26 +100,20 @@ export class B_Queue extends EventEmitter {
 
 		this.isRunning = true;
 		this.isPaused = false;
-		logger.info('🚀 Transaction queue started');
+		logger.info(`🚀 Transaction queue started (max ${this.maxConcurrent} parallel wallet lanes)`);
 
-		// Process queue continuously
-		this.processLoop();
+		this.schedule();
 	}
 
 	/**
-	 * Stop the queue (waits for current transaction to finish)
+	 * Stop the queue (waits for in-flight transactions to finish)
 	 */
 	async stop(): Promise<void> {
 		logger.info('Stopping transaction queue...');
 		this.isRunning = false;
 
-		if (this.processInterval) {
-			clearTimeout(this.processInterval);
-			this.processInterval = null;
-		}
-
-		// Wait for current transaction to finish
-		while (this.processing) {
+		// Wait for in-flight transactions to finish
+		while (this.getProcessingTransactions().length > 0) {
 			await new Promise(resolve => setTimeout(resolve, 100));
 		}
 
@@ -87,7 +121,44 @@ export class B_Queue extends EventEmitter {
 	}
 
 	/**
-	 * Pause queue processing (current transaction will complete)
+	 * Rehydrate transactions persisted before a restart (call before start())
+	 * Transactions that may already have been broadcast are reconciled by hash or
+	 * nonce instead of being sent again, so a restart can never double-buy.
+	 * @returns Number of restored transactions
+	 */
+	async restore(): Promise<number> {
+		const transactions = await queueStore.loadAll();
+		const inFlight: Map<Lane, B_Transaction[]> = new Map();
+
+		for (const transaction of transactions) {
+			const lane = this.getLane(transaction.params.wallet.address);
+			this.emit('restored', transaction);
+
+			if (transaction.txHash || transaction.nonce !== undefined) {
+				inFlight.set(lane, [...(inFlight.get(lane) || []), transaction]);
+			} else {
+				lane.queue.push(transaction);
+			}
+		}
+
+		for (const lane of this.lanes.values()) {
+			this.sortLane(lane);
+		}
+
+		// Reconcile in-flight transactions before the lane sends anything else
+		for (const [lane, pending] of inFlight) {
+			this.runReconcile(lane, pending);
+		}
+
+		if (transactions.length > 0) {
+			logger.info(`♻️  Restored ${transactions.length} queued transactions (${[...inFlight.values()].flat().length} to reconcile)`);
+		}
+
+		return transactions.length;
+	}
+
+	/**
+	 * Pause queue processing (in-flight transactions will complete)
 	 */
 	pause(): void {
 		this.isPaused = true;
@@ -100,11 +171,11 @@ export class B_Queue extends EventEmitter {
 	resume(): void {
 		this.isPaused = false;
 		logger.info('▶️  Transaction queue resumed');
-		this.processLoop();
+		this.schedule();
 	}
 
 	/**
-	 * Add transaction to queue
+	 * Add transaction to its wallet's lane
 	 */
 	push(transaction: B_Transaction): string {
 		// Validate transaction
@@ -114,17 +185,16 @@ export class B_Queue extends EventEmitter {
 			throw new Error(validation.error);
 		}
 
-		// Add to queue with priority sorting
-		this.queue.push(transaction);
-		this.sortQueue();
+		// Add to lane with priority sorting
+		const lane = this.getLane(transaction.params.wallet.address);
+		lane.queue.push(transaction);
+		this.sortLane(lane);
 
-		logger.info(`📥 Transaction queued: ${transaction.toLogString()} (Queue: ${this.queue.length})`);
+		logger.info(`📥 Transaction queued: ${transaction.toLogString()} (Lane: ${lane.queue.length}, Queue: ${this.size()})`);
+		queueStore.save(transaction);
 		this.emit('queued', transaction);
 
-		// Trigger processing if not running
-		if (this.isRunning && !this.processing && !this.isPaused) {
-			this.processLoop();
-		}
+		this.schedule();
 
 		return transaction.id;
 	}
@@ -141,60 +211,183 @@ export class B_Queue extends EventEmitter {
 	}
 
 	/**
-	 * Process queue in a loop
+	 * Start idle lanes with pending transactions, up to maxConcurrent
+	 * Lanes whose next transaction has the highest priority start first
 	 */
-	private async processLoop(): Promise<void> {
-		// Don't start new loop if already processing or paused
-		if (this.processing || this.isPaused || !this.isRunning) {
+	private schedule(): void {
+		if (!this.isRunning || this.isPaused) {
 			return;
 		}
 
-		// Get next transaction
-		const transaction = this.getNext();
-		if (!transaction) {
-			// Queue is empty, check again in 1 second
-			this.processInterval = setTimeout(() => this.processLoop(), 1000);
-			return;
+		let active = this.getProcessingTransactions().length;
+
+		while (active < this.maxConcurrent) {
+			let nextLane: Lane | null = null;
+			for (const lane of this.lanes.values()) {
+				if (lane.processing || lane.queue.length === 0) continue;
+				if (!nextLane || this.compareHead(lane, nextLane) < 0) {
+					nextLane = lane;
+				}
+			}
+
+			if (!nextLane) {
+				return;
+			}
+
+			const transaction = nextLane.queue.shift()!;
+			nextLane.processing = transaction;
+			active++;
+
+			this.runLane(nextLane, transaction);
+		}
+	}
+
+	/**
+	 * Execute one transaction of a lane, then hand the slot back to the scheduler
+	 */
+	private async runLane(lane: Lane, transaction: B_Transaction): Promise<void> {
+		try {
+			await this.executeTransaction(lane, transaction);
+		} finally {
+			lane.processing = null;
+
+			// Process next transaction immediately
+			setImmediate(() => this.schedule());
+		}
+	}
+
+	/**
+	 * Reconcile a lane's in-flight transactions from before a restart, then hand the lane to the scheduler
+	 */
+	private async runReconcile(lane: Lane, transactions: B_Transaction[]): Promise<void> {
+		try {
+			for (const transaction of transactions) {
+				transaction.markAsProcessing();
+				lane.processing = transaction;
+				await this.reconcileTransaction(lane, transaction);
+			}
+		} finally {
+			lane.processing = null;
+			setImmediate(() => this.schedule());
 		}
+	}
 
-		// Process the transaction
-		this.processing = transaction;
-		await this.executeTransaction(transaction);
-		this.processing = null;
+	/**
+	 * Resolve the outcome of a transaction that may have been broadcast before a restart
+	 * - Receipt found: complete it (or retry if it reverted)
+	 * - Hash dropped / never broadcast: requeue it
+	 * - Nonce consumed but no hash recorded: outcome unknown, fail without retry
+	 */
+	private async reconcileTransaction(lane: Lane, transaction: B_Transaction): Promise<void> {
+		const { wallet, token } = transaction.params;
+
+		try {
+			if (transaction.txHash) {
+				const receipt = await this.findReceipt(transaction.txHash);
+				if (receipt) {
+					const result =
+						transaction.type === TransactionType.APPROVE
+							? { success: receipt.status === 1, txHash: receipt.transactionHash, error: receipt.status === 1 ? undefined : 'Transaction reverted' }
+							: B_Trading.getSwapResultFromReceipt(
+								transaction.type === TransactionType.BUY ? 'BUY' : 'SELL',
+								receipt,
+								wallet,
+								token!
+							);
+
+					if (result.success) {
+						logger.info(`♻️  ${transaction.txHash} was mined before restart`);
+						this.completeTransaction(lane, transaction, result);
+					} else {
+						await this.handleFailure(lane, transaction, result.error || 'Transaction reverted', 'Reverted before restart');
+					}
+					return;
+				}
+			} else if (transaction.nonce !== undefined) {
+				const chainNonce = await getProvider().getTransactionCount(wallet.address, 'pending');
+				if (chainNonce > transaction.nonce) {
+					this.failPermanently(
+						lane,
+						transaction,
+						`Nonce ${transaction.nonce} was used before restart but no hash was recorded - not retried`,
+						'Unreconciled'
+					);
+					return;
+				}
+			}
 
-		// Process next transaction immediately
-		setImmediate(() => this.processLoop());
+			// Never reached the chain - send it again
+			logger.info(`♻️  Requeueing ${transaction.toLogString()} (not broadcast before restart)`);
+			transaction.resetForRetry();
+			queueStore.update(transaction);
+			lane.queue.unshift(transaction);
+		} catch (error: any) {
+			this.failPermanently(lane, transaction, `Could not reconcile after restart: ${error.message}`, 'Unreconciled');
+		}
 	}
 
 	/**
-	 * Get next transaction from queue (priority-based)
+	 * Get the receipt of a transaction, waiting for it if still pending (null if dropped)
 	 */
-	private getNext(): B_Transaction | null {
-		if (this.queue.length === 0) {
+	private async findReceipt(txHash: string): Promise<ethers.providers.TransactionReceipt | null> {
+		const provider = getProvider();
+
+		const receipt = await provider.getTransactionReceipt(txHash);
+		if (receipt) {
+			return receipt;
+		}
+
+		const pending = await provider.getTransaction(txHash);
+		if (!pending) {
 			return null;
 		}
 
-		// Already sorted by priority, take first
-		const transaction = this.queue.shift()!;
-		return transaction;
+		logger.info(`⏳ ${txHash} still pending after restart, waiting for confirmation...`);
+		return provider.waitForTransaction(txHash, 1, this.reconcileTimeoutMs);
 	}
 
 	/**
-	 * Sort queue by priority (descending)
+	 * Compare lane heads: higher priority first, then older first
 	 */
-	private sortQueue(): void {
-		this.queue.sort((a, b) => b.getPriority() - a.getPriority());
+	private compareHead(a: Lane, b: Lane): number {
+		const headA = a.queue[0];
+		const headB = b.queue[0];
+		const byPriority = headB.getPriority() - headA.getPriority();
+		return byPriority !== 0 ? byPriority : headA.createdAt.getTime() - headB.createdAt.getTime();
+	}
+
+	/**
+	 * Get or create the lane for a wallet
+	 */
+	private getLane(walletAddress: string): Lane {
+		const key = walletAddress.toLowerCase();
+		let lane = this.lanes.get(key);
+		if (!lane) {
+			lane = { wallet: key, queue: [], processing: null, stats: B_Queue.createCounters() };
+			this.lanes.set(key, lane);
+		}
+		return lane;
+	}
+
+	/**
+	 * Sort lane by priority (descending)
+	 */
+	private sortLane(lane: Lane): void {
+		lane.queue.sort((a, b) => b.getPriority() - a.getPriority());
 	}
 
 	/**
 	 * Execute a single transaction
 	 */
-	private async executeTransaction(transaction: B_Transaction): Promise<void> {
+	private async executeTransaction(lane: Lane, transaction: B_Transaction): Promise<void> {
 		try {
 			transaction.markAsProcessing();
+			queueStore.update(transaction);
 			logger.info(`⚡ Executing: ${transaction.toLogString()}`);
 			this.emit('processing', transaction);
 
+			const onBroadcast = (nonce: number, txHash?: string) => this.recordBroadcast(transaction, nonce, txHash);
+
 			let result;
 
 			// Execute based on type
@@ -207,6 +400,10 @@ export class B_Queue extends EventEmitter {
 						slippage: transaction.params.slippage!,
 						gasPrice: transaction.params.gasPrice,
 						gasLimit: transaction.params.gasLimit,
+						pendingLiquidity: transaction.params.pendingLiquidity,
+						pendingReserves: transaction.params.pendingReserves,
+						submission: transaction.params.submission,
+						onBroadcast,
 					});
 					break;
 
@@ -218,12 +415,22 @@ export class B_Queue extends EventEmitter {
 						slippage: transaction.params.slippage!,
 						gasPrice: transaction.params.gasPrice,
 						gasLimit: transaction.params.gasLimit,
+						submission: transaction.params.submission,
+						onBroadcast,
 					});
 					break;
 
 				case TransactionType.APPROVE:
-					// TODO: Implement approve if needed
-					throw new Error('APPROVE transaction type not yet implemented');
+					result = await B_Trading.approve({
+						wallet: transaction.params.wallet,
+						token: transaction.params.token!,
+						spender: transaction.params.spenderAddress!,
+						amount: transaction.params.approveAmount ?? ethers.constants.MaxUint256.toString(),
+						gasPrice: transaction.params.gasPrice,
+						gasLimit: transaction.params.gasLimit,
+						onBroadcast,
+					});
+					break;
 
 				default:
 					throw new Error(`Unknown transaction type: ${transaction.type}`);
@@ -231,90 +438,153 @@ export class B_Queue extends EventEmitter {
 
 			// Handle result
 			if (result.success) {
-				transaction.markAsCompleted(result);
-				this.stats.completed++;
-				this.stats.totalProcessed++;
-				this.stats.totalWaitTime += transaction.getWaitTime();
-				this.stats.totalExecutionTime += transaction.getExecutionTime() || 0;
-
-				logger.success(`✅ Completed: ${transaction.toLogString()} | TX: ${result.txHash}`);
-				this.emit('completed', transaction, result);
+				this.completeTransaction(lane, transaction, result);
 			} else {
-				transaction.markAsFailed(result.error || 'Unknown error');
-
-				// Retry if possible
-				if (transaction.canRetry()) {
-					logger.warning(`⚠️  Failed (retry ${transaction.retryCount}/${transaction.maxRetries}): ${transaction.toLogString()}`);
-					transaction.resetForRetry();
-					this.queue.unshift(transaction); // Add to front for immediate retry
-					this.emit('retry', transaction);
-				} else {
-					this.stats.failed++;
-					this.stats.totalProcessed++;
-					logger.error(`❌ Failed permanently: ${transaction.toLogString()} | Error: ${result.error}`);
-					this.emit('failed', transaction, result.error);
-				}
+				await this.handleFailure(lane, transaction, result.error || 'Unknown error', 'Failed');
 			}
 		} catch (error: any) {
-			transaction.markAsFailed(error.message);
-
-			// Retry if possible
-			if (transaction.canRetry()) {
-				logger.warning(`⚠️  Error (retry ${transaction.retryCount}/${transaction.maxRetries}): ${transaction.toLogString()}`);
-				transaction.resetForRetry();
-				this.queue.unshift(transaction);
-				this.emit('retry', transaction);
-			} else {
-				this.stats.failed++;
-				this.stats.totalProcessed++;
-				logger.error(`❌ Error permanently: ${transaction.toLogString()} | ${error.message}`);
-				this.emit('failed', transaction, error.message);
+			await this.handleFailure(lane, transaction, error.message, 'Error');
+		}
+	}
+
+	/**
+	 * Record the nonce (before signing) and hash (after sending) of the current attempt
+	 */
+	private async recordBroadcast(transaction: B_Transaction, nonce: number, txHash?: string): Promise<void> {
+		transaction.nonce = nonce;
+		transaction.txHash = txHash;
+		await queueStore.update(transaction);
+	}
+
+	/**
+	 * Mark a transaction as completed
+	 */
+	private completeTransaction(lane: Lane, transaction: B_Transaction, result: TransactionResult): void {
+		transaction.markAsCompleted(result);
+		for (const counters of [this.stats, lane.stats]) {
+			counters.completed++;
+			counters.totalProcessed++;
+			counters.totalWaitTime += transaction.getWaitTime();
+			counters.totalExecutionTime += transaction.getExecutionTime() || 0;
+		}
+
+		logger.success(`✅ Completed: ${transaction.toLogString()} | TX: ${result.txHash}`);
+		this.emit('completed', transaction, result);
+		this.settle(transaction);
+	}
+
+	/**
+	 * Retry a failed transaction at the front of its lane, or fail it permanently
+	 * Nonce errors trigger a nonce resync before the retry
+	 */
+	private async handleFailure(lane: Lane, transaction: B_Transaction, error: string, label: string): Promise<void> {
+		transaction.markAsFailed(error);
+
+		if (nonceManager.isNonceError(error)) {
+			try {
+				await nonceManager.resync(lane.wallet);
+			} catch (syncError: any) {
+				logger.error(`Nonce resync failed for ${lane.wallet}: ${syncError.message}`);
 			}
 		}
+
+		// Retry if possible
+		if (transaction.canRetry()) {
+			logger.warning(`⚠️  ${label} (retry ${transaction.retryCount}/${transaction.maxRetries}): ${transaction.toLogString()}`);
+			transaction.resetForRetry();
+			queueStore.update(transaction);
+			lane.queue.unshift(transaction); // Add to front for immediate retry
+			this.emit('retry', transaction);
+		} else {
+			this.failPermanently(lane, transaction, error, label);
+		}
+	}
+
+	/**
+	 * Fail a transaction without further retries
+	 */
+	private failPermanently(lane: Lane, transaction: B_Transaction, error: string, label: string): void {
+		if (transaction.status !== TransactionStatus.FAILED) {
+			transaction.markAsFailed(error);
+		}
+
+		this.stats.failed++;
+		this.stats.totalProcessed++;
+		lane.stats.failed++;
+		lane.stats.totalProcessed++;
+		logger.error(`❌ ${label} permanently: ${transaction.toLogString()} | Error: ${error}`);
+		this.emit('failed', transaction, error);
+		this.settle(transaction);
+	}
+
+	/**
+	 * Drop a finished transaction from the persistent queue
+	 * Restored transactions have no caller waiting on them, so 'recovered' lets
+	 * listeners do the post-processing the original caller would have done
+	 */
+	private settle(transaction: B_Transaction): void {
+		queueStore.remove(transaction);
+		if (transaction.restored) {
+			this.emit('recovered', transaction);
+		}
 	}
 
 	/**
 	 * Get transaction by ID
 	 */
 	getTransaction(id: string): B_Transaction | null {
-		// Check if processing
-		if (this.processing && this.processing.id === id) {
-			return this.processing;
+		for (const lane of this.lanes.values()) {
+			// Check if processing
+			if (lane.processing && lane.processing.id === id) {
+				return lane.processing;
+			}
+
+			// Check lane queue
+			const transaction = lane.queue.find(tx => tx.id === id);
+			if (transaction) {
+				return transaction;
+			}
 		}
 
-		// Check queue
-		return this.queue.find(tx => tx.id === id) || null;
+		return null;
 	}
 
 	/**
 	 * Cancel a pending transaction
 	 */
 	cancel(id: string, reason: string = 'Cancelled by user'): boolean {
-		const index = this.queue.findIndex(tx => tx.id === id);
-		if (index === -1) {
-			return false;
-		}
+		for (const lane of this.lanes.values()) {
+			const index = lane.queue.findIndex(tx => tx.id === id);
+			if (index === -1) {
+				continue;
+			}
+
+			const transaction = lane.queue[index];
+			transaction.markAsCancelled(reason);
+			lane.queue.splice(index, 1);
+			this.stats.cancelled++;
+			lane.stats.cancelled++;
 
-		const transaction = this.queue[index];
-		transaction.markAsCancelled(reason);
-		this.queue.splice(index, 1);
-		this.stats.cancelled++;
+			logger.info(`🚫 Cancelled: ${transaction.toLogString()}`);
+			this.emit('cancelled', transaction);
+			this.settle(transaction);
+			return true;
+		}
 
-		logger.info(`🚫 Cancelled: ${transaction.toLogString()}`);
-		this.emit('cancelled', transaction);
-		return true;
+		return false;
 	}
 
 	/**
 	 * Cancel all pending transactions for a wallet
 	 */
 	cancelByWallet(walletAddress: string, reason: string = 'Cancelled by wallet'): number {
-		let cancelledCount = 0;
-		const toCancel = this.queue.filter(
-			tx => tx.params.wallet.address.toLowerCase() === walletAddress.toLowerCase()
-		);
+		const lane = this.lanes.get(walletAddress.toLowerCase());
+		if (!lane) {
+			return 0;
+		}
 
-		for (const tx of toCancel) {
+		let cancelledCount = 0;
+		for (const tx of [...lane.queue]) {
 			if (this.cancel(tx.id, reason)) {
 				cancelledCount++;
 			}
@@ -328,7 +598,7 @@ export class B_Queue extends EventEmitter {
 	 */
 	cancelByOrder(orderId: string, reason: string = 'Order cancelled'): number {
 		let cancelledCount = 0;
-		const toCancel = this.queue.filter(tx => tx.params.orderId === orderId);
+		const toCancel = this.getPendingTransactions().filter(tx => tx.params.orderId === orderId);
 
 		for (const tx of toCancel) {
 			if (this.cancel(tx.id, reason)) {
@@ -343,52 +613,71 @@ export class B_Queue extends EventEmitter {
 	 * Clear all pending transactions
 	 */
 	clear(): number {
-		const count = this.queue.length;
-		for (const tx of this.queue) {
-			tx.markAsCancelled('Queue cleared');
-			this.stats.cancelled++;
-			this.emit('cancelled', tx);
+		let count = 0;
+		for (const lane of this.lanes.values()) {
+			for (const tx of lane.queue) {
+				tx.markAsCancelled('Queue cleared');
+				this.stats.cancelled++;
+				lane.stats.cancelled++;
+				this.emit('cancelled', tx);
+				this.settle(tx);
+			}
+			count += lane.queue.length;
+			lane.queue = [];
 		}
-		this.queue = [];
 		logger.info(`🗑️  Cleared ${count} pending transactions`);
 		return count;
 	}
 
 	/**
-	 * Get queue statistics
+	 * Get queue statistics, overall and per lane
 	 */
 	getStats(): QueueStats {
-		const avgWaitTime = this.stats.totalProcessed > 0
-			? this.stats.totalWaitTime / this.stats.totalProcessed
-			: 0;
-		const avgExecutionTime = this.stats.totalProcessed > 0
-			? this.stats.totalExecutionTime / this.stats.totalProcessed
-			: 0;
+		const lanes: LaneStats[] = [];
+		for (const lane of this.lanes.values()) {
+			lanes.push({
+				wallet: lane.wallet,
+				pending: lane.queue.length,
+				processing: lane.processing ? 1 : 0,
+				completed: lane.stats.completed,
+				failed: lane.stats.failed,
+				cancelled: lane.stats.cancelled,
+				totalProcessed: lane.stats.totalProcessed,
+				averageWaitTime: B_Queue.average(lane.stats.totalWaitTime, lane.stats.totalProcessed),
+				averageExecutionTime: B_Queue.average(lane.stats.totalExecutionTime, lane.stats.totalProcessed),
+				nextNonce: nonceManager.peek(lane.wallet),
+			});
+		}
 
 		return {
-			pending: this.queue.length,
-			processing: this.processing ? 1 : 0,
+			pending: this.size(),
+			processing: this.getProcessingTransactions().length,
 			completed: this.stats.completed,
 			failed: this.stats.failed,
 			cancelled: this.stats.cancelled,
 			totalProcessed: this.stats.totalProcessed,
-			averageWaitTime: avgWaitTime,
-			averageExecutionTime: avgExecutionTime,
+			averageWaitTime: B_Queue.average(this.stats.totalWaitTime, this.stats.totalProcessed),
+			averageExecutionTime: B_Queue.average(this.stats.totalExecutionTime, this.stats.totalProcessed),
+			lanes,
 		};
 	}
 
 	/**
-	 * Get current queue size
+	 * Get current queue size (pending transactions across all lanes)
 	 */
 	size(): number {
-		return this.queue.length;
+		let count = 0;
+		for (const lane of this.lanes.values()) {
+			count += lane.queue.length;
+		}
+		return count;
 	}
 
 	/**
 	 * Check if queue is empty
 	 */
 	isEmpty(): boolean {
-		return this.queue.length === 0 && !this.processing;
+		return this.size() === 0 && this.getProcessingTransactions().length === 0;
 	}
 
 	/**
@@ -402,14 +691,31 @@ export class B_Queue extends EventEmitter {
 	 * Get all pending transactions
 	 */
 	getPendingTransactions(): B_Transaction[] {
-		return [...this.queue];
+		const pending: B_Transaction[] = [];
+		for (const lane of this.lanes.values()) {
+			pending.push(...lane.queue);
+		}
+		return pending;
+	}
+
+	/**
+	 * Get all transactions currently executing (at most one per lane)
+	 */
+	getProcessingTransactions(): B_Transaction[] {
+		const processing: B_Transaction[] = [];
+		for (const lane of this.lanes.values()) {
+			if (lane.processing) {
+				processing.push(lane.processing);
+			}
+		}
+		return processing;
 	}
 
 	/**
-	 * Get currently processing transaction
+	 * Get currently processing transaction (first lane with one in flight)
 	 */
 	getCurrentTransaction(): B_Transaction | null {
-		return this.processing;
+		return this.getProcessingTransactions()[0] || null;
 	}
 
 	/**
@@ -425,6 +731,34 @@ export class B_Queue extends EventEmitter {
 		logger.info(`   Cancelled: ${stats.cancelled}`);
 		logger.info(`   Avg Wait: ${stats.averageWaitTime.toFixed(0)}ms`);
 		logger.info(`   Avg Execution: ${stats.averageExecutionTime.toFixed(0)}ms`);
+
+		for (const lane of stats.lanes) {
+			logger.info(
+				`   Lane ${lane.wallet.substring(0, 10)}...: pending ${lane.pending}, processing ${lane.processing}, ` +
+				`completed ${lane.completed}, failed ${lane.failed}, next nonce ${lane.nextNonce ?? 'n/a'}`
+			);
+		}
+	}
+
+	/**
+	 * Create zeroed counters
+	 */
+	private static createCounters(): StatsCounters {
+		return {
+			totalProcessed: 0,
+			totalWaitTime: 0,
+			totalExecutionTime: 0,
+			completed: 0,
+			failed: 0,
+			cancelled: 0,
+		};
+	}
+
+	/**
+	 * Average helper (0 when nothing processed)
+	 */
+	private static average(total: number, count: number): number {
+		return count > 0 ? total / count : 0;
 	}
 }
 
@@ -0,0 +1,183 @@
+import { QueuedTransaction, IQueuedTransaction } from '../../database/models';
+import { B_Transaction, TransactionStatus, TransactionType } from './B_Transaction';
+import { B_Wallet } from './B_Wallet';
+import { B_Token } from './B_Token';
+import { logger } from '../../utils/logger';
+import { SubmissionStrategy } from '../../config/constants';
+
+/**
+ * B_QueueStore - Persists queued and in-flight transactions to MongoDB
+ * Writes for the same transaction are chained so they land in order; failures
+ * are logged and never block the queue.
+ */
+export class B_QueueStore {
+	private writes: Map<string, Promise<void>> = new Map();
+
+	/**
+	 * Persist a newly queued transaction
+	 */
+	save(transaction: B_Transaction): Promise<void> {
+		const { params } = transaction;
+
+		return this.write(transaction.id, async () => {
+			await QueuedTransaction.updateOne(
+				{ txId: transaction.id },
+				{
+					$set: {
+						type: transaction.type,
+						status: TransactionStatus.PENDING,
+						walletId: params.wallet.id,
+						walletAddress: params.wallet.address,
+						token: params.token
+							? {
+								address: params.token.address,
+								name: params.token.name,
+								symbol: params.token.symbol,
+								decimals: params.token.decimals,
+							}
+							: undefined,
+						gasPrice: String(params.gasPrice),
+						gasLimit: params.gasLimit,
+						bnbAmount: params.bnbAmount,
+						slippage: params.slippage,
+						pendingLiquidity: !!params.pendingLiquidity,
+						pendingReserves: params.pendingReserves || null,
+						submission: params.submission || SubmissionStrategy.PUBLIC,
+						tokenAmount: params.tokenAmount,
+						spenderAddress: params.spenderAddress,
+						approveAmount: params.approveAmount,
+						orderId: params.orderId || null,
+						positionId: params.positionId || null,
+						userId: params.userId || null,
+						priority: transaction.getPriority(),
+						retryCount: transaction.retryCount,
+						maxRetries: transaction.maxRetries,
+						nonce: null,
+						txHash: null,
+						queuedAt: transaction.createdAt,
+					},
+				},
+				{ upsert: true }
+			);
+		});
+	}
+
+	/**
+	 * Persist the current execution state of a transaction
+	 */
+	update(transaction: B_Transaction): Promise<void> {
+		const status = transaction.status === TransactionStatus.PROCESSING ? 'PROCESSING' : 'PENDING';
+
+		return this.write(transaction.id, async () => {
+			await QueuedTransaction.updateOne(
+				{ txId: transaction.id },
+				{
+					$set: {
+						status,
+						retryCount: transaction.retryCount,
+						nonce: transaction.nonce ?? null,
+						txHash: transaction.txHash ?? null,
+					},
+				}
+			);
+		});
+	}
+
+	/**
+	 * Remove a transaction that reached a final state
+	 */
+	remove(transaction: B_Transaction): Promise<void> {
+		return this.write(transaction.id, async () => {
+			await QueuedTransaction.deleteOne({ txId: transaction.id });
+		});
+	}
+
+	/**
+	 * Load all persisted transactions, oldest first
+	 * Transactions whose wallet no longer exists are dropped
+	 */
+	async loadAll(): Promise<B_Transaction[]> {
+		const docs = await QueuedTransaction.find().sort({ queuedAt: 1 });
+		const transactions: B_Transaction[] = [];
+
+		for (const doc of docs) {
+			const wallet = await B_Wallet.getById(doc.walletId.toString());
+			if (!wallet) {
+				logger.warning(`Dropping queued transaction ${doc.txId}: wallet ${doc.walletId} not found`);
+				await QueuedTransaction.deleteOne({ _id: doc._id });
+				continue;
+			}
+
+			transactions.push(this.toTransaction(doc, wallet));
+		}
+
+		return transactions;
+	}
+
+	/**
+	 * Rebuild a B_Transaction from its persisted copy
+	 */
+	private toTransaction(doc: IQueuedTransaction, wallet: B_Wallet): B_Transaction {
+		const transaction = new B_Transaction(
+			{
+				type: doc.type as TransactionType,
+				wallet,
+				gasPrice: doc.gasPrice,
+				gasLimit: doc.gasLimit,
+				token: doc.token?.address
+					? new B_Token({
+						address: doc.token.address,
+						name: doc.token.name,
+						symbol: doc.token.symbol,
+						decimals: doc.token.decimals,
+					})
+					: undefined,
+				bnbAmount: doc.bnbAmount,
+				slippage: doc.slippage,
+				pendingLiquidity: doc.pendingLiquidity,
+				pendingReserves: doc.pendingReserves?.reserveBnb ? doc.pendingReserves : undefined,
+				submission: doc.submission as SubmissionStrategy,
+				tokenAmount: doc.tokenAmount,
+				spenderAddress: doc.spenderAddress,
+				approveAmount: doc.approveAmount,
+				orderId: doc.orderId || undefined,
+				positionId: doc.positionId || undefined,
+				userId: doc.userId || undefined,
+				priority: doc.priority,
+			},
+			doc.maxRetries
+		);
+
+		transaction.id = doc.txId;
+		transaction.createdAt = doc.queuedAt;
+		transaction.retryCount = doc.retryCount;
+		transaction.nonce = doc.nonce ?? undefined;
+		transaction.txHash = doc.txHash ?? undefined;
+		transaction.restored = true;
+
+		return transaction;
+	}
+
+	/**
+	 * Chain a write after the previous write for the same transaction
+	 */
+	private write(txId: string, operation: () => Promise<void>): Promise<void> {
+		const previous = this.writes.get(txId) || Promise.resolve();
+		const next = previous
+			.then(operation)
+			.catch((error: any) => {
+				logger.error(`Failed to persist queued transaction ${txId}: ${error.message}`);
+			})
+			.finally(() => {
+				if (this.writes.get(txId) === next) {
+					this.writes.delete(txId);
+				}
+			});
+
+		this.writes.set(txId, next);
+		return next;
+	}
+}
+
+// Export singleton instance
+export const queueStore = new B_QueueStore();
@@ -2,12 +2,19 @@ import { ethers } from 'ethers';
 import { B_Wallet } from './B_Wallet';
 import { B_Token } from './B_Token';
 import { logger } from '../../utils/logger';
+import { nonceManager } from './B_NonceManager';
+import { getProvider } from '../wallet/wallet.service';
+import { getSubmitter } from '../trading/submission.service';
+import { getAmountOut } from '../price/pair.service';
+import { SubmissionStrategy, APPROVAL_GAS_LIMIT } from '../../config/constants';
 
 // PancakeSwap ABIs
 import { PANCAKESWAP_ROUTER_ABI } from '../../abi/pancakeswap-router.abi';
 
-// Import config
-import { config } from '../../config/config';
+/**
+ * Called with the reserved nonce before a swap is signed, and again with the hash once it is broadcast
+ */
+export type BroadcastHook = (nonce: number, txHash?: string) => Promise<void>;
 
 /**
  * B_Trading - Buy/Sell Execution Utility
@@ -24,7 +31,7 @@ export class B_Trading {
 	 */
 	static initialize() {
 		if (!this.provider) {
-			this.provider = new ethers.providers.JsonRpcProvider(config.bsc.rpcHttpUrl);
+			this.provider = getProvider();
 			this.routerContract = new ethers.Contract(
 				this.ROUTER_ADDRESS,
 				PANCAKESWAP_ROUTER_ABI,
@@ -34,6 +41,38 @@ export class B_Trading {
 		}
 	}
 
+	/**
+	 * Send a transaction with a nonce reserved from the nonce manager
+	 * Releases the nonce (or resyncs on nonce errors) if the send fails
+	 */
+	private static async sendWithNonce(
+		address: string,
+		send: (nonce: number) => Promise<ethers.providers.TransactionResponse>,
+		onBroadcast?: BroadcastHook
+	): Promise<ethers.providers.TransactionResponse> {
+		const nonce = await nonceManager.next(address);
+		let tx: ethers.providers.TransactionResponse;
+		try {
+			if (onBroadcast) {
+				await onBroadcast(nonce);
+			}
+			tx = await send(nonce);
+		} catch (error: any) {
+			await nonceManager.handleSendError(address, nonce, error);
+			throw error;
+		}
+
+		if (onBroadcast) {
+			try {
+				await onBroadcast(nonce, tx.hash);
+			} catch (error: any) {
+				logger.warning(`Failed to record broadcast of ${tx.hash}: ${error.message}`);
+			}
+		}
+
+		return tx;
+	}
+
 	/**
 	 * Buy tokens with BNB
 	 */
@@ -44,11 +83,15 @@ export class B_Trading {
 		slippage: number;
 		gasPrice: string;
 		gasLimit?: number;
-	}): Promise<{ success: boolean; txHash?: string; error?: string; tokenAmount?: string }> {
+		pendingLiquidity?: boolean;
+		pendingReserves?: { reserveBnb: string; reserveToken: string };
+		submission?: SubmissionStrategy;
+		onBroadcast?: BroadcastHook;
+	}): Promise<{ success: boolean; txHash?: string; error?: string; tokenAmount?: string; gasUsed?: string; effectiveGasPrice?: string }> {
 		try {
 			this.initialize();
 
-			const { wallet, token, bnbAmount, slippage, gasPrice, gasLimit = 300000 } = params;
+			const { wallet, token, bnbAmount, slippage, gasPrice, gasLimit = 300000, pendingLiquidity, pendingReserves, submission, onBroadcast } = params;
 
 			// Get ethers wallet instance
 			const ethersWallet = wallet.getEthersWallet();
@@ -58,9 +101,25 @@ export class B_Trading {
 			const amountIn = ethers.utils.parseEther(bnbAmount.toString());
 
 			// Get expected output amount
+			// A pending migration has no pair yet: quote against the reserves its addLiquidity will create
 			const path = [this.WBNB_ADDRESS, token.address];
-			const amounts = await this.routerContract.getAmountsOut(amountIn, path);
-			const expectedOut = amounts[1];
+			let expectedOut: ethers.BigNumber;
+			if (pendingLiquidity) {
+				if (!pendingReserves) {
+					return { success: false, error: 'Pending migration liquidity unknown - refusing to buy without a minimum output' };
+				}
+				expectedOut = getAmountOut(
+					amountIn,
+					ethers.BigNumber.from(pendingReserves.reserveBnb),
+					ethers.BigNumber.from(pendingReserves.reserveToken)
+				);
+			} else {
+				const amounts = await this.routerContract.getAmountsOut(amountIn, path);
+				expectedOut = amounts[1];
+			}
+			if (expectedOut.isZero()) {
+				return { success: false, error: 'Quoted output is zero - refusing to buy without a minimum output' };
+			}
 
 			// Calculate minimum amount with slippage
 			const slippageBps = Math.floor(slippage * 100); // Convert to basis points
@@ -75,44 +134,38 @@ export class B_Trading {
 			logger.info(`Min Amount Out (${slippage}% slippage): ${ethers.utils.formatUnits(minAmountOut, token.decimals)} ${token.symbol}`);
 
 			// Execute swap - USING TAX-COMPATIBLE FUNCTION
-			const tx = await routerWithSigner.swapExactETHForTokensSupportingFeeOnTransferTokens(
-				minAmountOut,
-				path,
-				wallet.address,
-				deadline,
-				{
-					value: amountIn,
-					gasPrice: ethers.utils.parseUnits(String(gasPrice), 'gwei'),
-					gasLimit: ethers.BigNumber.from(gasLimit),
-				}
+			const submitter = getSubmitter(submission);
+			const tx = await this.sendWithNonce(wallet.address, async (nonce) =>
+				submitter.submit(
+					ethersWallet,
+					await routerWithSigner.populateTransaction.swapExactETHForTokensSupportingFeeOnTransferTokens(
+						minAmountOut,
+						path,
+						wallet.address,
+						deadline,
+						{
+							value: amountIn,
+							gasPrice: ethers.utils.parseUnits(String(gasPrice), 'gwei'),
+							gasLimit: ethers.BigNumber.from(gasLimit),
+							nonce,
+						}
+					)
+				),
+				onBroadcast
 			);
 
-			logger.info(`Transaction sent: ${tx.hash}`);
+			logger.info(`Transaction sent via ${submitter.name}: ${tx.hash}`);
 
 			// Wait for confirmation
 			const receipt = await tx.wait();
 
 			if (receipt.status === 1) {
 				// Parse Transfer event to get actual tokens received
-				// Transfer event: Transfer(address indexed from, address indexed to, uint256 value)
-				const transferTopic = ethers.utils.id('Transfer(address,address,uint256)');
-
-				// Find the Transfer event where tokens are transferred TO our wallet
-				const transferLog = receipt.logs.find(
-					(log: any) => {
-						if (log.topics[0] !== transferTopic) return false;
-						if (log.address.toLowerCase() !== token.address.toLowerCase()) return false;
-						// Check if the recipient (topics[2]) is our wallet address
-						const recipient = ethers.utils.defaultAbiCoder.decode(['address'], log.topics[2])[0];
-						return recipient.toLowerCase() === wallet.address.toLowerCase();
-					}
-				);
+				const received = this.getReceivedTokenAmount(receipt, wallet, token);
 
 				let tokenAmount: string;
-				if (transferLog) {
-					// Decode the transfer amount from the log data
-					const transferAmount = ethers.BigNumber.from(transferLog.data);
-					tokenAmount = ethers.utils.formatUnits(transferAmount, token.decimals);
+				if (received !== null) {
+					tokenAmount = received;
 					logger.success(`Buy successful! Got ${tokenAmount} ${token.symbol} (from Transfer event)`);
 				} else {
 					// Fallback to expected amount if Transfer event not found
@@ -125,6 +178,7 @@ export class B_Trading {
 					success: true,
 					txHash: tx.hash,
 					tokenAmount,
+					...this.getGasUsage(receipt),
 				};
 			} else {
 				logger.error('Transaction failed');
@@ -152,11 +206,13 @@ export class B_Trading {
 		slippage: number;
 		gasPrice: string;
 		gasLimit?: number;
-	}): Promise<{ success: boolean; txHash?: string; error?: string; bnbAmount?: string }> {
+		submission?: SubmissionStrategy;
+		onBroadcast?: BroadcastHook;
+	}): Promise<{ success: boolean; txHash?: string; error?: string; bnbAmount?: string; gasUsed?: string; effectiveGasPrice?: string }> {
 		try {
 			this.initialize();
 
-			const { wallet, token, tokenAmount, slippage, gasPrice, gasLimit = 300000 } = params;
+			const { wallet, token, tokenAmount, slippage, gasPrice, gasLimit = 300000, submission, onBroadcast } = params;
 
 			// Get ethers wallet instance
 			const ethersWallet = wallet.getEthersWallet();
@@ -200,13 +256,16 @@ export class B_Trading {
 
 				try {
 					// Approve with MaxUint256 for future transactions
-					const approveTx = await tokenContract.approve(
-						this.ROUTER_ADDRESS,
-						ethers.constants.MaxUint256,
-						{
-							gasPrice: ethers.utils.parseUnits(String(gasPrice), 'gwei'),
-							gasLimit: ethers.BigNumber.from(100000),
-						}
+					const approveTx = await this.sendWithNonce(wallet.address, (nonce) =>
+						tokenContract.approve(
+							this.ROUTER_ADDRESS,
+							ethers.constants.MaxUint256,
+							{
+								gasPrice: ethers.utils.parseUnits(String(gasPrice), 'gwei'),
+								gasLimit: ethers.BigNumber.from(100000),
+								nonce,
+							}
+						)
 					);
 
 					logger.info(`Approval TX sent: ${approveTx.hash}`);
@@ -250,19 +309,27 @@ export class B_Trading {
 			logger.info(`Min Amount Out (${slippage}% slippage): ${ethers.utils.formatEther(minAmountOut)} BNB`);
 
 			// Execute swap - USING TAX-COMPATIBLE FUNCTION
-			const tx = await routerWithSigner.swapExactTokensForETHSupportingFeeOnTransferTokens(
-				amountIn,
-				minAmountOut,
-				path,
-				wallet.address,
-				deadline,
-				{
-					gasPrice: ethers.utils.parseUnits(String(gasPrice), 'gwei'),
-					gasLimit: ethers.BigNumber.from(gasLimit),
-				}
+			const submitter = getSubmitter(submission);
+			const tx = await this.sendWithNonce(wallet.address, async (nonce) =>
+				submitter.submit(
+					ethersWallet,
+					await routerWithSigner.populateTransaction.swapExactTokensForETHSupportingFeeOnTransferTokens(
+						amountIn,
+						minAmountOut,
+						path,
+						wallet.address,
+						deadline,
+						{
+							gasPrice: ethers.utils.parseUnits(String(gasPrice), 'gwei'),
+							gasLimit: ethers.BigNumber.from(gasLimit),
+							nonce,
+						}
+					)
+				),
+				onBroadcast
 			);
 
-			logger.info(`Transaction sent: ${tx.hash}`);
+			logger.info(`Transaction sent via ${submitter.name}: ${tx.hash}`);
 
 			// Wait for confirmation with retries
 			let receipt;
@@ -283,8 +350,7 @@ export class B_Trading {
 
 						// Try to get receipt directly
 						try {
-							const provider = new ethers.providers.JsonRpcProvider(config.bsc.rpcHttpUrl);
-							receipt = await provider.getTransactionReceipt(tx.hash);
+							receipt = await getProvider().getTransactionReceipt(tx.hash);
 							if (receipt) {
 								logger.info('Got receipt directly from provider');
 								break;
@@ -313,12 +379,13 @@ export class B_Trading {
 			}
 
 			if (receipt.status === 1) {
-				const bnbAmount = ethers.utils.formatEther(expectedOut);
+				const bnbAmount = this.getWithdrawnBnb(receipt) ?? ethers.utils.formatEther(expectedOut);
 				logger.success(`Sell successful! Got ${bnbAmount} BNB | Block: ${receipt.blockNumber}`);
 				return {
 					success: true,
 					txHash: tx.hash,
 					bnbAmount,
+					...this.getGasUsage(receipt),
 				};
 			} else {
 				logger.error('Transaction failed (status = 0)');
@@ -338,42 +405,179 @@ export class B_Trading {
 	}
 
 	/**
-	 * Get token price in BNB
+	 * Approve a spender for a token (amount "0" revokes the allowance)
+	 * Nothing is sent when the current allowance already matches the request
 	 */
-	static async getTokenPrice(tokenAddress: string, amount: string = '1'): Promise<string | null> {
+	static async approve(params: {
+		wallet: B_Wallet;
+		token: B_Token;
+		spender: string;
+		amount: string;
+		gasPrice: string;
+		gasLimit?: number;
+		onBroadcast?: BroadcastHook;
+	}): Promise<{ success: boolean; txHash?: string; error?: string }> {
 		try {
-			this.initialize();
+			const { wallet, token, spender, amount, gasPrice, gasLimit = APPROVAL_GAS_LIMIT, onBroadcast } = params;
 
-			const path = [tokenAddress, this.WBNB_ADDRESS];
-			const amountIn = ethers.utils.parseEther(amount);
-			const amounts = await this.routerContract.getAmountsOut(amountIn, path);
-			const bnbOut = amounts[1];
+			const ethersWallet = wallet.getEthersWallet();
+			const tokenContract = new ethers.Contract(
+				token.address,
+				[
+					'function allowance(address owner, address spender) view returns (uint256)',
+					'function approve(address spender, uint256 amount) returns (bool)',
+				],
+				ethersWallet
+			);
+
+			const requested = ethers.BigNumber.from(amount);
+			const current: ethers.BigNumber = await tokenContract.allowance(wallet.address, spender);
+			const redundant = requested.isZero()
+				? current.isZero()
+				: current.gte(requested) || (this.isUnlimitedAllowance(requested) && this.isUnlimitedAllowance(current));
 
-			return ethers.utils.formatEther(bnbOut);
+			if (redundant) {
+				logger.info(`Allowance of ${token.symbol} for ${spender} already ${requested.isZero() ? 'revoked' : 'set'} - skipping`);
+				return { success: true };
+			}
+
+			const tx = await this.sendWithNonce(
+				wallet.address,
+				(nonce) =>
+					tokenContract.approve(spender, requested, {
+						gasPrice: ethers.utils.parseUnits(String(gasPrice), 'gwei'),
+						gasLimit: ethers.BigNumber.from(gasLimit),
+						nonce,
+					}),
+				onBroadcast
+			);
+
+			logger.info(`${requested.isZero() ? 'Revoke' : 'Approval'} TX sent: ${tx.hash}`);
+			const receipt = await tx.wait(1);
+
+			if (receipt.status !== 1) {
+				return { success: false, error: 'Transaction reverted', txHash: tx.hash };
+			}
+
+			logger.success(`✅ ${token.symbol} allowance ${requested.isZero() ? 'revoked' : 'approved'} | Block: ${receipt.blockNumber}`);
+			return { success: true, txHash: tx.hash };
 		} catch (error: any) {
-			logger.error('Failed to get token price:', error.message);
-			return null;
+			logger.error('Approve failed:', error.message);
+			return {
+				success: false,
+				error: error.message || 'Unknown error',
+			};
 		}
 	}
 
 	/**
-	 * Get BNB price in USD (using USDT pair)
+	 * Whether an allowance counts as unlimited
+	 * Some tokens decrement even a MaxUint256 approval on transferFrom, so anything above half of it qualifies
 	 */
-	static async getBNBPrice(): Promise<number> {
-		try {
-			this.initialize();
+	static isUnlimitedAllowance(allowance: ethers.BigNumberish): boolean {
+		return ethers.BigNumber.from(allowance).gte(ethers.constants.MaxUint256.div(2));
+	}
 
-			const USDT_ADDRESS = '0x55d398326f99059fF775485246999027B3197955'; // BSC-USD
-			const path = [this.WBNB_ADDRESS, USDT_ADDRESS];
-			const amountIn = ethers.utils.parseEther('1');
-			const amounts = await this.routerContract.getAmountsOut(amountIn, path);
-			const usdtOut = amounts[1];
+	/**
+	 * Build a swap result from the receipt of an already broadcast transaction
+	 * Used to reconcile swaps that were sent before a restart
+	 */
+	static getSwapResultFromReceipt(
+		type: 'BUY' | 'SELL',
+		receipt: ethers.providers.TransactionReceipt,
+		wallet: B_Wallet,
+		token: B_Token
+	): {
+		success: boolean;
+		txHash?: string;
+		error?: string;
+		tokenAmount?: string;
+		bnbAmount?: string;
+		gasUsed?: string;
+		effectiveGasPrice?: string;
+	} {
+		if (receipt.status !== 1) {
+			return { success: false, error: 'Transaction reverted', txHash: receipt.transactionHash };
+		}
 
-			return parseFloat(ethers.utils.formatUnits(usdtOut, 18));
-		} catch (error: any) {
-			logger.error('Failed to get BNB price:', error.message);
-			return 0;
+		if (type === 'BUY') {
+			return {
+				success: true,
+				txHash: receipt.transactionHash,
+				tokenAmount: this.getReceivedTokenAmount(receipt, wallet, token) || '0',
+				...this.getGasUsage(receipt),
+			};
 		}
+
+		return {
+			success: true,
+			txHash: receipt.transactionHash,
+			bnbAmount: this.getWithdrawnBnb(receipt) ?? undefined,
+			...this.getGasUsage(receipt),
+		};
+	}
+
+	/**
+	 * Gas fee of a settled transaction in BNB (0 if the result carries no gas usage)
+	 * @param result - Transaction result with gasUsed / effectiveGasPrice
+	 * @returns Gas fee in BNB
+	 */
+	static getGasFeeBnb(result?: { gasUsed?: string; effectiveGasPrice?: string } | null): number {
+		if (!result?.gasUsed || !result.effectiveGasPrice) return 0;
+		return parseFloat(ethers.utils.formatEther(ethers.BigNumber.from(result.gasUsed).mul(result.effectiveGasPrice)));
+	}
+
+	/**
+	 * Get the BNB paid out by a sell from the router's WBNB unwrap (null if not found)
+	 */
+	private static getWithdrawnBnb(receipt: ethers.providers.TransactionReceipt): string | null {
+		// The router unwraps WBNB before paying out: Withdrawal(address indexed src, uint256 wad)
+		const withdrawalTopic = ethers.utils.id('Withdrawal(address,uint256)');
+		const withdrawalLog = receipt.logs.find(
+			(log) => log.topics[0] === withdrawalTopic && log.address.toLowerCase() === this.WBNB_ADDRESS.toLowerCase()
+		);
+
+		return withdrawalLog ? ethers.utils.formatEther(ethers.BigNumber.from(withdrawalLog.data)) : null;
+	}
+
+	/**
+	 * Get the gas used and price paid from a receipt
+	 */
+	private static getGasUsage(receipt: ethers.providers.TransactionReceipt): { gasUsed: string; effectiveGasPrice?: string } {
+		return {
+			gasUsed: receipt.gasUsed.toString(),
+			effectiveGasPrice: receipt.effectiveGasPrice?.toString(),
+		};
+	}
+
+	/**
+	 * Get the token amount transferred to the wallet in a receipt (null if no matching Transfer event)
+	 */
+	private static getReceivedTokenAmount(
+		receipt: ethers.providers.TransactionReceipt,
+		wallet: B_Wallet,
+		token: B_Token
+	): string | null {
+		// Transfer event: Transfer(address indexed from, address indexed to, uint256 value)
+		const transferTopic = ethers.utils.id('Transfer(address,address,uint256)');
+
+		// Find the Transfer event where tokens are transferred TO our wallet
+		const transferLog = receipt.logs.find(
+			(log: any) => {
+				if (log.topics[0] !== transferTopic) return false;
+				if (log.address.toLowerCase() !== token.address.toLowerCase()) return false;
+				// Check if the recipient (topics[2]) is our wallet address
+				const recipient = ethers.utils.defaultAbiCoder.decode(['address'], log.topics[2])[0];
+				return recipient.toLowerCase() === wallet.address.toLowerCase();
+			}
+		);
+
+		if (!transferLog) {
+			return null;
+		}
+
+		// Decode the transfer amount from the log data
+		return ethers.utils.formatUnits(ethers.BigNumber.from(transferLog.data), token.decimals);
 	}
 
 	/**
@@ -1,5 +1,6 @@
 import { B_Wallet } from './B_Wallet';
 import { B_Token } from './B_Token';
+import { SubmissionStrategy } from '../../config/constants';
 
 /**
  * Transaction Type - defines the operation type
@@ -30,11 +31,14 @@ export interface TransactionParams {
 	wallet: B_Wallet;
 	gasPrice: string;
 	gasLimit?: number;
+	submission?: SubmissionStrategy; // Public mempool or private relay (buys and sells)
 
 	// Buy params
 	token?: B_Token;
 	bnbAmount?: number;
 	slippage?: number;
+	pendingLiquidity?: boolean; // Pair not created yet (pending migration) - quoted from pendingReserves
+	pendingReserves?: { reserveBnb: string; reserveToken: string }; // Pair reserves the pending migration creates
 
 	// Sell params
 	tokenAmount?: string;
@@ -80,6 +84,13 @@ export class B_Transaction {
 	public maxRetries: number;
 	public error?: string;
 
+	// Broadcast state of the current attempt (persisted so a restart can reconcile it)
+	public nonce?: number;
+	public txHash?: string;
+
+	// Rehydrated from the persistent queue after a restart (no caller is waiting on it)
+	public restored: boolean = false;
+
 	constructor(params: TransactionParams, maxRetries: number = 3) {
 		this.id = `tx_${Date.now()}_${Math.random().toString(36).substring(7)}`;
 		this.type = params.type;
@@ -147,6 +158,8 @@ export class B_Transaction {
 		this.status = TransactionStatus.PENDING;
 		this.startedAt = undefined;
 		this.completedAt = undefined;
+		this.nonce = undefined;
+		this.txHash = undefined;
 	}
 
 	/**
@@ -175,7 +188,9 @@ export class B_Transaction {
 		const token = this.params.token?.symbol || 'N/A';
 		const amount = this.type === TransactionType.BUY
 			? `${this.params.bnbAmount} BNB`
-			: `${this.params.tokenAmount} tokens`;
+			: this.type === TransactionType.APPROVE
+				? (this.params.approveAmount === '0' ? 'revoke' : 'approve')
+				: `${this.params.tokenAmount} tokens`;
 
 		return `[${this.type}] ${wallet}... -> ${token} (${amount}) [${this.status}]`;
 	}
@@ -12,3 +12,5 @@ export { B_Position } from './B_Position';
 export { B_Trading } from './B_Trading';
 export { B_Transaction, TransactionType, TransactionStatus } from './B_Transaction';
 export { B_Queue, transactionQueue } from './B_Queue';
+export { B_NonceManager, nonceManager } from './B_NonceManager';
+export { B_QueueStore, queueStore } from './B_QueueStore';
@@ -0,0 +1,176 @@
+import { WatchedWallet, IWatchedWallet, Order, Wallet } from '../../database/models';
+import { isValidAddress } from '../../utils/validation';
+import { logger } from '../../utils/logger';
+import { CopySizingMode, MAX_WATCHED_WALLETS, MIN_TRADE_AMOUNT } from '../../config/constants';
+
+/**
+ * Copy Trade Manager
+ * Watched wallets whose PancakeSwap V2 buys and sells are mirrored by a trading order
+ */
+
+interface WatchedWalletResult {
+	success: boolean;
+	watchedWallet?: IWatchedWallet;
+	error?: string;
+}
+
+export interface WatchedWalletParams {
+	address: string;
+	label: string;
+	sizingMode: CopySizingMode;
+	sizeValue: number;
+	maxPerToken: number;
+}
+
+/**
+ * Calculate the BNB amount of a copied buy
+ * @param watchedWallet - Watched wallet (sizing and per-token cap)
+ * @param tokenAddress - Token being bought
+ * @param leaderBnb - BNB the watched wallet spent
+ * @returns BNB to spend (0 when the per-token cap is used up)
+ */
+export function calculateCopyBuyAmount(watchedWallet: IWatchedWallet, tokenAddress: string, leaderBnb: number): number {
+	let amount = watchedWallet.sizingMode === CopySizingMode.PROPORTIONAL
+		? leaderBnb * (watchedWallet.sizeValue / 100)
+		: watchedWallet.sizeValue;
+
+	if (watchedWallet.maxPerToken > 0) {
+		const spent = watchedWallet.tokenSpend?.get(tokenAddress.toLowerCase()) || 0;
+		amount = Math.min(amount, Math.max(0, watchedWallet.maxPerToken - spent));
+	}
+
+	return parseFloat(amount.toFixed(6));
+}
+
+/**
+ * Watch a wallet under a trading order
+ * @param userId - User ID
+ * @param orderId - Parent order (wallet, gas, slippage and TP/SL levels)
+ * @param params - Address, label and sizing
+ * @returns Created watched wallet
+ */
+export async function createWatchedWallet(
+	userId: string,
+	orderId: string,
+	params: WatchedWalletParams
+): Promise<WatchedWalletResult> {
+	try {
+		if (!isValidAddress(params.address)) {
+			return { success: false, error: 'Invalid wallet address' };
+		}
+
+		if (params.sizeValue <= 0) {
+			return { success: false, error: 'Size must be greater than 0' };
+		}
+
+		if (params.sizingMode === CopySizingMode.FIXED && params.sizeValue < MIN_TRADE_AMOUNT) {
+			return { success: false, error: `Minimum amount is ${MIN_TRADE_AMOUNT} BNB` };
+		}
+
+		if (params.maxPerToken < 0) {
+			return { success: false, error: 'Max per token cannot be negative' };
+		}
+
+		const order = await Order.findOne({ _id: orderId, userId });
+		if (!order) {
+			return { success: false, error: 'Order not found' };
+		}
+
+		// Copying one of our own wallets would mirror our own buys
+		const address = params.address.toLowerCase();
+		if (await Wallet.exists({ userId, address })) {
+			return { success: false, error: 'You cannot copy one of your own wallets' };
+		}
+
+		if (await WatchedWallet.exists({ orderId, address })) {
+			return { success: false, error: 'This wallet is already watched by the order' };
+		}
+
+		const watchedCount = await WatchedWallet.countDocuments({ orderId });
+		if (watchedCount >= MAX_WATCHED_WALLETS) {
+			return { success: false, error: `Maximum ${MAX_WATCHED_WALLETS} watched wallets per order` };
+		}
+
+		const watchedWallet = await WatchedWallet.create({
+			userId,
+			orderId,
+			address,
+			label: params.label,
+			sizingMode: params.sizingMode,
+			sizeValue: params.sizeValue,
+			maxPerToken: params.maxPerToken,
+		});
+
+		logger.success(`Watched wallet added: ${params.label} (${address}) -> order ${order.name}`);
+		return { success: true, watchedWallet };
+	} catch (error: any) {
+		logger.error('Failed to create watched wallet:', error.message);
+		return { success: false, error: error.message };
+	}
+}
+
+/**
+ * Get watched wallets of a trading order
+ * @param orderId - Order ID
+ * @param userId - User ID
+ * @returns Watched wallets (oldest first)
+ */
+export async function getOrderWatchedWallets(orderId: string, userId: string): Promise<IWatchedWallet[]> {
+	try {
+		return await WatchedWallet.find({ orderId, userId }).sort({ createdAt: 1 });
+	} catch (error: any) {
+		logger.error('Failed to get watched wallets:', error.message);
+		return [];
+	}
+}
+
+/**
+ * Update a watched wallet's label or switches
+ * @param watchedWalletId - Watched wallet ID
+ * @param userId - User ID
+ * @param updates - Fields to change
+ * @returns Updated watched wallet
+ */
+export async function updateWatchedWallet(
+	watchedWalletId: string,
+	userId: string,
+	updates: { label?: string; isActive?: boolean; mirrorSells?: boolean }
+): Promise<WatchedWalletResult> {
+	try {
+		const watchedWallet = await WatchedWallet.findOneAndUpdate(
+			{ _id: watchedWalletId, userId },
+			{ $set: updates },
+			{ new: true, runValidators: true }
+		);
+
+		if (!watchedWallet) {
+			return { success: false, error: 'Watched wallet not found' };
+		}
+
+		return { success: true, watchedWallet };
+	} catch (error: any) {
+		logger.error('Failed to update watched wallet:', error.message);
+		return { success: false, error: error.message };
+	}
+}
+
+/**
+ * Stop watching a wallet (copied positions stay open with the order's TP/SL)
+ * @param watchedWalletId - Watched wallet ID
+ * @param userId - User ID
+ * @returns Removed watched wallet
+ */
+export async function removeWatchedWallet(watchedWalletId: string, userId: string): Promise<WatchedWalletResult> {
+	try {
+		const watchedWallet = await WatchedWallet.findOneAndDelete({ _id: watchedWalletId, userId });
+		if (!watchedWallet) {
+			return { success: false, error: 'Watched wallet not found' };
+		}
+
+		logger.info(`Watched wallet removed: ${watchedWallet.label} (${watchedWallet.address})`);
+		return { success: true, watchedWallet };
+	} catch (error: any) {
+		logger.error('Failed to remove watched wallet:', error.message);
+		return { success: false, error: error.message };
+	}
+}
@@ -20,6 +20,41 @@ export {
 export {
 	executeBuyOrder,
 	executeManualBuy,
+	recordBuyPosition,
+	executeEntryTranche,
+	recordEntryTranche,
 	validateOrderExecution,
+	type ExecutionOptions,
 	type ExecutionResult,
 } from './order.executor';
+
+// Limit order exports
+export {
+	createLimitOrder,
+	getOrderLimitOrders,
+	cancelLimitOrder,
+	calculateMarketCapUsd,
+	isLimitTriggered,
+	type LimitOrderParams,
+} from './limit.manager';
+
+// Copy trading exports
+export {
+	createWatchedWallet,
+	getOrderWatchedWallets,
+	updateWatchedWallet,
+	removeWatchedWallet,
+	calculateCopyBuyAmount,
+	type WatchedWalletParams,
+} from './copy.manager';
+
+// Filter exports
+export {
+	checkOrderFilters,
+	checkPendingEligibility,
+	checkTaxLimits,
+	orderNeedsCreator,
+	orderNeedsOwnership,
+	type TokenSafetyInfo,
+	type FilterResult,
+} from './order.filter';
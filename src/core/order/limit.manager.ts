@@ -0,0 +1,189 @@
+import { ethers } from 'ethers';
+import { LimitOrder, ILimitOrder, Order } from '../../database/models';
+import { getTokenMetadata } from '../token/token.service';
+import { isValidAddress } from '../../utils/validation';
+import { logger } from '../../utils/logger';
+import {
+	LimitOrderStatus,
+	LimitTriggerType,
+	LIMIT_ORDER_MAX_EXPIRY_HOURS,
+	MAX_PENDING_LIMIT_ORDERS,
+} from '../../config/constants';
+
+/**
+ * Limit Order Manager
+ * Pending buys that fire when a token's price or market cap falls to a target
+ */
+
+interface LimitOrderResult {
+	success: boolean;
+	limitOrder?: ILimitOrder;
+	error?: string;
+}
+
+export interface LimitOrderParams {
+	tokenAddress: string;
+	bnbAmount: number;
+	triggerType: LimitTriggerType;
+	triggerValue: number;
+	expiresInHours: number;
+}
+
+/**
+ * Calculate a token's market cap in USD
+ * @param priceInBnb - Token price in BNB
+ * @param totalSupply - Total supply in raw units
+ * @param decimals - Token decimals
+ * @param bnbPriceUsd - BNB price in USD
+ * @returns Market cap in USD
+ */
+export function calculateMarketCapUsd(
+	priceInBnb: number,
+	totalSupply: string,
+	decimals: number,
+	bnbPriceUsd: number
+): number {
+	const supply = parseFloat(ethers.utils.formatUnits(totalSupply || '0', decimals));
+	return priceInBnb * supply * bnbPriceUsd;
+}
+
+/**
+ * Check whether a limit order's trigger is met
+ * @param limitOrder - Limit order
+ * @param priceInBnb - Current token price in BNB
+ * @param bnbPriceUsd - BNB price in USD (market cap triggers only)
+ * @returns True when the price or market cap is at or below the target
+ */
+export function isLimitTriggered(limitOrder: ILimitOrder, priceInBnb: number, bnbPriceUsd: number): boolean {
+	if (priceInBnb <= 0) return false;
+
+	if (limitOrder.triggerType === LimitTriggerType.MARKET_CAP) {
+		if (bnbPriceUsd <= 0) return false;
+		const marketCap = calculateMarketCapUsd(
+			priceInBnb,
+			limitOrder.totalSupply,
+			limitOrder.tokenDecimals,
+			bnbPriceUsd
+		);
+		return marketCap > 0 && marketCap <= limitOrder.triggerValue;
+	}
+
+	return priceInBnb <= limitOrder.triggerValue;
+}
+
+/**
+ * Create a limit buy under a trading order
+ * @param userId - User ID
+ * @param orderId - Parent order (wallet, gas, slippage and TP/SL levels)
+ * @param params - Token, amount, trigger and expiry
+ * @returns Created limit order
+ */
+export async function createLimitOrder(
+	userId: string,
+	orderId: string,
+	params: LimitOrderParams
+): Promise<LimitOrderResult> {
+	try {
+		if (!isValidAddress(params.tokenAddress)) {
+			return { success: false, error: 'Invalid token address' };
+		}
+
+		if (params.bnbAmount <= 0) {
+			return { success: false, error: 'Amount must be greater than 0' };
+		}
+
+		if (params.triggerValue <= 0) {
+			return { success: false, error: 'Trigger value must be greater than 0' };
+		}
+
+		if (params.expiresInHours <= 0 || params.expiresInHours > LIMIT_ORDER_MAX_EXPIRY_HOURS) {
+			return { success: false, error: `Expiry must be between 1 and ${LIMIT_ORDER_MAX_EXPIRY_HOURS} hours` };
+		}
+
+		const order = await Order.findOne({ _id: orderId, userId });
+		if (!order) {
+			return { success: false, error: 'Order not found' };
+		}
+
+		const pendingCount = await LimitOrder.countDocuments({ orderId, status: LimitOrderStatus.PENDING });
+		if (pendingCount >= MAX_PENDING_LIMIT_ORDERS) {
+			return { success: false, error: `Maximum ${MAX_PENDING_LIMIT_ORDERS} pending limit orders per order` };
+		}
+
+		const metadata = await getTokenMetadata(params.tokenAddress);
+		if (!metadata) {
+			return { success: false, error: 'Failed to load token metadata' };
+		}
+
+		if (params.triggerType === LimitTriggerType.MARKET_CAP && metadata.totalSupply === '0') {
+			return { success: false, error: 'Token total supply unavailable - use a price trigger' };
+		}
+
+		const limitOrder = await LimitOrder.create({
+			userId,
+			orderId,
+			walletId: order.walletId,
+			tokenAddress: params.tokenAddress,
+			tokenSymbol: metadata.symbol,
+			tokenName: metadata.name,
+			tokenDecimals: metadata.decimals,
+			totalSupply: metadata.totalSupply,
+			bnbAmount: params.bnbAmount,
+			triggerType: params.triggerType,
+			triggerValue: params.triggerValue,
+			expiresAt: new Date(Date.now() + params.expiresInHours * 3600 * 1000),
+		});
+
+		logger.success(`Limit order created: ${params.bnbAmount} BNB -> ${metadata.symbol} (${params.triggerType} <= ${params.triggerValue})`);
+		return { success: true, limitOrder };
+	} catch (error: any) {
+		logger.error('Failed to create limit order:', error.message);
+		return { success: false, error: error.message };
+	}
+}
+
+/**
+ * Get limit orders of a trading order (pending first, then most recent)
+ * @param orderId - Order ID
+ * @param userId - User ID
+ * @param limit - Max limit orders returned
+ * @returns Limit orders
+ */
+export async function getOrderLimitOrders(orderId: string, userId: string, limit: number = 20): Promise<ILimitOrder[]> {
+	try {
+		const limitOrders = await LimitOrder.find({ orderId, userId }).sort({ createdAt: -1 }).limit(limit);
+		return limitOrders.sort(
+			(a, b) =>
+				Number(b.status === LimitOrderStatus.PENDING) - Number(a.status === LimitOrderStatus.PENDING)
+		);
+	} catch (error: any) {
+		logger.error('Failed to get limit orders:', error.message);
+		return [];
+	}
+}
+
+/**
+ * Cancel a pending limit order
+ * @param limitOrderId - Limit order ID
+ * @param userId - User ID
+ * @returns Cancelled limit order
+ */
+export async function cancelLimitOrder(limitOrderId: string, userId: string): Promise<LimitOrderResult> {
+	try {
+		const limitOrder = await LimitOrder.findOneAndUpdate(
+			{ _id: limitOrderId, userId, status: LimitOrderStatus.PENDING },
+			{ status: LimitOrderStatus.CANCELLED },
+			{ new: true }
+		);
+
+		if (!limitOrder) {
+			return { success: false, error: 'Limit order not found or no longer pending' };
+		}
+
+		logger.info(`Limit order cancelled: ${limitOrderId}`);
+		return { success: true, limitOrder };
+	} catch (error: any) {
+		logger.error('Failed to cancel limit order:', error.message);
+		return { success: false, error: error.message };
+	}
+}
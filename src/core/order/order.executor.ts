@@ -1,18 +1,21 @@
-import { IOrder, IWallet, Position, Transaction } from '../../database/models';
+import { IOrder, IWallet, LeanOrder, Order, Position, Transaction, Wallet } from '../../database/models';
 import { logger } from '../../utils/logger';
 import { getWalletWithPrivateKey } from '../wallet/wallet.manager';
+import { updateWalletBalance } from '../wallet/wallet.service';
 import { buyToken } from '../trading/pancakeswap.service';
-import { getTokenMetadata } from '../token/token.service';
-import { getTokenPrice } from '../price/price.service';
+import { getTokenMetadata, isTokenRugged, PendingMigrationLiquidity } from '../token/token.service';
+import { priceService } from '../price/price.service';
 import { isValidAddress } from '../../utils/validation';
-import { PositionStatus, TransactionStatus, TransactionType } from '../../config/constants';
+import { EntryMode, PositionStatus, TransactionStatus, TransactionType } from '../../config/constants';
 import { ethers } from 'ethers';
 import mongoose from 'mongoose';
 import { tokenValidator } from '../token/token.validator';
+import { checkTaxLimits } from './order.filter';
 import { positionManager } from '../position/position.manager';
 import { B_Position } from '../classes/B_Position';
 import { B_Token } from '../classes/B_Token';
 import { B_Wallet } from '../classes/B_Wallet';
+import { B_Trading } from '../classes/B_Trading';
 import { B_Transaction, TransactionType as TxType, transactionQueue } from '../classes';
 
 /**
@@ -20,6 +23,12 @@ import { B_Transaction, TransactionType as TxType, transactionQueue } from '../c
  * Handles execution of buy orders
  */
 
+export interface ExecutionOptions {
+	pendingLiquidity?: boolean; // Migration detected in the mempool - pair not created yet
+	pendingReserves?: PendingMigrationLiquidity; // Reserves the pending migration creates - required with pendingLiquidity
+	bnbAmount?: number; // Overrides the order's trading amount (limit buys); laddered orders split it into tranches
+}
+
 export interface ExecutionResult {
 	success: boolean;
 	txHash?: string;
@@ -33,15 +42,22 @@ export interface ExecutionResult {
  * @param order - Order configuration
  * @param wallet - Wallet to execute from
  * @param tokenAddress - Token contract address to buy
+ * @param options - Pending-liquidity buys skip pair validation and take the entry price from the fill
  * @returns Execution result
  */
 export async function executeBuyOrder(
-	order: IOrder,
+	order: IOrder | LeanOrder,
 	wallet: IWallet,
-	tokenAddress: string
+	tokenAddress: string,
+	options: ExecutionOptions = {}
 ): Promise<ExecutionResult> {
+	// Laddered entries only buy the first tranche here - the entry ladder service buys the rest
+	const plannedAmount = options.bnbAmount ?? order.tradingAmount;
+	const laddered = !!order.entryMode && order.entryMode !== EntryMode.SINGLE && order.entryTranches > 1;
+	const bnbAmount = laddered ? plannedAmount / order.entryTranches : plannedAmount;
+
 	try {
-		logger.info(`🛍️ Buy: ${order.tradingAmount} BNB -> ${tokenAddress}`);
+		logger.info(`🛍️ Buy: ${bnbAmount} BNB -> ${tokenAddress}`);
 
 		// Validate token address
 		if (!isValidAddress(tokenAddress)) {
@@ -54,29 +70,54 @@ export async function executeBuyOrder(
 		// 	return { success: false, error: 'Order is not active' };
 		// }
 
+		if (await isTokenRugged(tokenAddress)) {
+			return { success: false, error: 'Token was rugged (liquidity pulled)' };
+		}
+
 		// Check wallet balance
-		if (wallet.balance.bnb < order.tradingAmount) {
+		if (wallet.balance.bnb < bnbAmount) {
 			return {
 				success: false,
-				error: `Insufficient balance. Required: ${order.tradingAmount} BNB, Available: ${wallet.balance.bnb} BNB`,
+				error: `Insufficient balance. Required: ${bnbAmount} BNB, Available: ${wallet.balance.bnb} BNB`,
 			};
 		}
 
-		// Validate token is on PancakeSwap V2
-		const validation = await tokenValidator.validateToken(tokenAddress);
+		let tokenMetadata: { name?: string; symbol?: string; decimals?: number };
+		if (options.pendingLiquidity) {
+			// The minimum output is quoted from the migration's reserves - never buy without one
+			if (!options.pendingReserves) {
+				return { success: false, error: 'Pending migration liquidity unknown - refusing to buy without a minimum output' };
+			}
 
-		if (!validation.isValid) {
-			return { success: false, error: validation.error || 'Token validation failed' };
-		}
+			// No pair yet - nothing to validate or simulate until the migration is mined
+			const metadata = await getTokenMetadata(tokenAddress);
+			if (!metadata) {
+				return { success: false, error: 'Failed to load token metadata' };
+			}
+			tokenMetadata = metadata;
+		} else {
+			// Validate token is on PancakeSwap V2
+			const validation = await tokenValidator.validateToken(tokenAddress);
 
-		if (!validation.token || !validation.pairAddress) {
-			return { success: false, error: 'Token validation incomplete' };
-		}
+			if (!validation.isValid) {
+				return { success: false, error: validation.error || 'Token validation failed' };
+			}
 
-		logger.success(`Token validated: ${validation.token.symbol} on PancakeSwap V2`);
+			if (!validation.token || !validation.pairAddress) {
+				return { success: false, error: 'Token validation incomplete' };
+			}
+
+			logger.success(`Token validated: ${validation.token.symbol} on PancakeSwap V2`);
 
-		// Get token metadata
-		const tokenMetadata = validation.token; // Use validated token metadata
+			// Refuse tokens above the order's tax limits
+			const taxCheck = checkTaxLimits(order, validation.simulation);
+			if (!taxCheck.valid) {
+				return { success: false, error: taxCheck.error };
+			}
+
+			// Get token metadata
+			tokenMetadata = validation.token; // Use validated token metadata
+		}
 
 		// Get wallet with private key for signing
 		const walletWithKey = await getWalletWithPrivateKey(wallet._id.toString(), order.userId.toString());
@@ -87,18 +128,20 @@ export async function executeBuyOrder(
 		// Get current token price (for tracking)
 		let buyPriceInBnb = 0;
 		let buyPriceInUsd = 0;
-		try {
-			const priceData = await getTokenPrice(tokenAddress);
-			if (priceData) {
-				buyPriceInBnb = parseFloat(priceData.priceInBnb);
-				buyPriceInUsd = parseFloat(priceData.priceInUsd);
+		if (!options.pendingLiquidity) {
+			try {
+				const quote = await priceService.getPrice(tokenAddress, { useCache: false });
+				if (quote && !quote.stale) {
+					buyPriceInBnb = quote.priceInBnb;
+					buyPriceInUsd = quote.priceInUsd;
+				}
+			} catch (error: any) {
+				logger.warning('Failed to fetch price, will continue without it:', error.message);
 			}
-		} catch (error: any) {
-			logger.warning('Failed to fetch price, will continue without it:', error.message);
 		}
 
 		// Execute the swap via transaction queue
-		logger.info(`💰 ${order.tradingAmount} BNB -> ${tokenMetadata.symbol} (${order.slippage}% slippage)`);
+		logger.info(`💰 ${bnbAmount} BNB -> ${tokenMetadata.symbol} (${order.slippage}% slippage)`);
 
 		// Create B_Wallet instance
 		const bWallet = await B_Wallet.getById(wallet._id.toString());
@@ -119,18 +162,22 @@ export async function executeBuyOrder(
 		const gasLimitNum = Number(order.gasFee.gasLimit || 300000);
 
 		// Create transaction for queue
+		// Pending-liquidity buys are not retried: a retry would land long after the migration at an unknown price
 		const transaction = new B_Transaction({
 			type: TxType.BUY,
 			wallet: bWallet,
 			token: bToken,
-			bnbAmount: order.tradingAmount,
+			bnbAmount,
 			slippage: order.slippage,
 			gasPrice: gasPriceStr,
 			gasLimit: gasLimitNum,
+			submission: order.submissionStrategy,
+			pendingLiquidity: options.pendingLiquidity,
+			pendingReserves: options.pendingReserves,
 			orderId: order._id.toString(),
 			userId: order.userId.toString(),
 			priority: 10, // Normal priority for buys
-		});
+		}, options.pendingLiquidity ? 0 : 3);
 
 		// Queue the transaction
 		const txId = transactionQueue.push(transaction);
@@ -144,11 +191,12 @@ export async function executeBuyOrder(
 			await Transaction.create({
 				userId: order.userId,
 				walletId: wallet._id,
+				orderId: order._id,
 				type: TransactionType.BUY,
 				status: TransactionStatus.FAILED,
 				tokenAddress,
 				tokenSymbol: tokenMetadata.symbol || 'UNKNOWN',
-				amountBnb: order.tradingAmount,
+				amountBnb: bnbAmount,
 				gasFee: 0,
 				txHash: 'FAILED',
 				errorMessage: swapResult.error || 'Unknown error',
@@ -171,91 +219,51 @@ export async function executeBuyOrder(
 			logger.success(`✅ Token amount received: ${tokenAmountReceived}`);
 		}
 
-		// Create position in database
-		const positionDoc = await Position.create({
-			userId: order.userId,
-			walletId: wallet._id,
-			orderId: order._id,
-			tokenAddress,
-			tokenSymbol: tokenMetadata.symbol || 'UNKNOWN',
-			tokenName: tokenMetadata.name || 'Unknown Token',
-			tokenDecimals: tokenMetadata.decimals || 18,
-			buyTxHash: swapResult.txHash,
-			buyPrice: buyPriceInBnb,
-			buyPriceUsd: buyPriceInUsd,
-			buyAmount: order.tradingAmount,
-			tokenAmount: tokenAmountReceived,
-			buyTimestamp: new Date(),
-			currentPrice: buyPriceInBnb,
-			currentPriceUsd: buyPriceInUsd,
-			lastPriceUpdate: new Date(),
-			pnlPercent: 0,
-			pnlBnb: 0,
-			pnlUsd: 0,
-			status: PositionStatus.PENDING,
-			takeProfitTarget: order.takeProfitPercent,
-			stopLossTarget: order.stopLossPercent,
-
-			// NEW: Copy multiple TP/SL levels from order
-			takeProfitLevels: order.takeProfitLevels || [],
-			stopLossLevels: order.stopLossLevels || [],
-			triggeredTakeProfitLevels: [],
-			triggeredStopLossLevels: [],
-
-			isManual: false,
-		});
-
-		logger.success(`Position created in DB: ${positionDoc._id}`);
-
-		// Create B_Position instance and add to PositionManager
-		const bPosition = new B_Position({
-			id: positionDoc._id.toString(),
-			orderId: order._id.toString(),
-			userId: order.userId.toString(),
-			token: bToken,
-			tokenAmount: tokenAmountReceived,
-			bnbSpent: order.tradingAmount,
-			buyPrice: buyPriceInBnb,
-			currentPrice: buyPriceInBnb,
-			status: PositionStatus.PENDING,
-			buyTxHash: swapResult.txHash,
-			buyTimestamp: new Date(),
-			takeProfitPercent: order.takeProfitPercent,
-			stopLossPercent: order.stopLossPercent,
-			takeProfitEnabled: order.takeProfitEnabled,
-			stopLossEnabled: order.stopLossEnabled,
-
-			// NEW: Copy multiple TP/SL levels
-			takeProfitLevels: order.takeProfitLevels || [],
-			stopLossLevels: order.stopLossLevels || [],
-			triggeredTakeProfitLevels: [],
-			triggeredStopLossLevels: [],
-		});
+		// No fresh quote was available (e.g. before the pair existed) - use the actual fill price
+		if (buyPriceInBnb === 0 && tokenAmountReceived > 0) {
+			buyPriceInBnb = bnbAmount / tokenAmountReceived;
+			try {
+				buyPriceInUsd = buyPriceInBnb * (await priceService.getBnbUsd()).price;
+			} catch (error: any) {
+				logger.warning('Failed to fetch BNB price, will continue without it:', error.message);
+			}
+		}
 
-		// Add to PositionManager (in-memory tracking)
-		await positionManager.addPosition(bPosition);
-		logger.success(`Position added to PositionManager: ${bPosition.id}`);
-
-		// Log successful transaction
-		await Transaction.create({
-			userId: order.userId,
-			walletId: wallet._id,
-			positionId: positionDoc._id,
-			type: TransactionType.BUY,
-			status: TransactionStatus.SUCCESS,
-			tokenAddress,
-			tokenSymbol: tokenMetadata.symbol || 'UNKNOWN',
-			amountBnb: order.tradingAmount,
-			amountToken: tokenAmountReceived,
-			gasFee: swapResult.gasFee || 0,
-			txHash: swapResult.txHash,
-		});
+		const positionId = await recordBuyPosition(
+			order,
+			wallet._id.toString(),
+			bToken,
+			swapResult.txHash,
+			tokenAmountReceived,
+			buyPriceInBnb,
+			buyPriceInUsd,
+			B_Trading.getGasFeeBnb(swapResult),
+			bnbAmount
+		);
+
+		if (laddered) {
+			await Position.findByIdAndUpdate(positionId, {
+				entryLadder: {
+					mode: order.entryMode,
+					tranches: order.entryTranches,
+					filled: 1,
+					trancheAmount: bnbAmount,
+					intervalSeconds: order.entryIntervalSeconds,
+					stepPercent: order.entryStepPercent,
+					firstPrice: buyPriceInBnb,
+					lastFillAt: new Date(),
+					failures: 0,
+					complete: false,
+				},
+			});
+			logger.info(`🪜 Entry ladder started: 1/${order.entryTranches} tranches (${order.entryMode})`);
+		}
 
 		return {
 			success: true,
 			txHash: swapResult.txHash,
 			tokenAddress,
-			positionId: positionDoc._id.toString(),
+			positionId,
 		};
 	} catch (error: any) {
 		logger.error('Failed to execute buy order:', error.message);
@@ -268,11 +276,12 @@ export async function executeBuyOrder(
 			await Transaction.create({
 				userId: order.userId,
 				walletId: wallet._id,
+				orderId: order._id,
 				type: TransactionType.BUY,
 				status: TransactionStatus.FAILED,
 				tokenAddress,
 				tokenSymbol: 'UNKNOWN',
-				amountBnb: order.tradingAmount,
+				amountBnb: bnbAmount,
 				gasFee: 0,
 				txHash: 'FAILED_' + Date.now(),
 				errorMessage: error.message,
@@ -288,6 +297,315 @@ export async function executeBuyOrder(
 	}
 }
 
+/**
+ * Record a confirmed buy: create the position (DB + PositionManager) and log the transaction
+ * @param order - Order that bought the token
+ * @param walletId - Wallet that holds the tokens
+ * @param token - Bought token
+ * @param txHash - Buy transaction hash
+ * @param tokenAmount - Tokens received
+ * @param buyPriceInBnb - Entry price in BNB
+ * @param buyPriceInUsd - Entry price in USD
+ * @param gasFee - Gas fee paid (BNB)
+ * @param bnbAmount - BNB spent (defaults to the order's trading amount)
+ * @returns Created position ID
+ */
+export async function recordBuyPosition(
+	order: IOrder | LeanOrder,
+	walletId: string,
+	token: B_Token,
+	txHash: string,
+	tokenAmount: number,
+	buyPriceInBnb: number,
+	buyPriceInUsd: number,
+	gasFee: number = 0,
+	bnbAmount: number = order.tradingAmount
+): Promise<string> {
+	// Create position in database
+	const positionDoc = await Position.create({
+		userId: order.userId,
+		walletId,
+		orderId: order._id,
+		tokenAddress: token.address,
+		tokenSymbol: token.symbol || 'UNKNOWN',
+		tokenName: token.name || 'Unknown Token',
+		tokenDecimals: token.decimals || 18,
+		buyTxHash: txHash,
+		buyPrice: buyPriceInBnb,
+		buyPriceUsd: buyPriceInUsd,
+		buyAmount: bnbAmount,
+		tokenAmount,
+		buyTimestamp: new Date(),
+		currentPrice: buyPriceInBnb,
+		currentPriceUsd: buyPriceInUsd,
+		peakPrice: buyPriceInBnb,
+		lastPriceUpdate: new Date(),
+		pnlPercent: 0,
+		pnlBnb: 0,
+		pnlUsd: 0,
+		status: PositionStatus.PENDING,
+
+		// Copy multiple TP/SL levels from order
+		takeProfitLevels: order.takeProfitLevels || [],
+		stopLossLevels: order.stopLossLevels || [],
+		triggeredTakeProfitLevels: [],
+		triggeredStopLossLevels: [],
+
+		isManual: false,
+	});
+
+	logger.success(`Position created in DB: ${positionDoc._id}`);
+
+	// Create B_Position instance and add to PositionManager
+	const bPosition = new B_Position({
+		id: positionDoc._id.toString(),
+		orderId: order._id.toString(),
+		userId: order.userId.toString(),
+		token,
+		tokenAmount,
+		bnbSpent: bnbAmount,
+		buyPrice: buyPriceInBnb,
+		currentPrice: buyPriceInBnb,
+		status: PositionStatus.PENDING,
+		buyTxHash: txHash,
+		buyTimestamp: new Date(),
+
+		// Copy multiple TP/SL levels
+		takeProfitLevels: order.takeProfitLevels || [],
+		stopLossLevels: order.stopLossLevels || [],
+		triggeredTakeProfitLevels: [],
+		triggeredStopLossLevels: [],
+	});
+
+	// Add to PositionManager (in-memory tracking)
+	await positionManager.addPosition(bPosition);
+	logger.success(`Position added to PositionManager: ${bPosition.id}`);
+
+	// Log successful transaction
+	await Transaction.create({
+		userId: order.userId,
+		walletId,
+		positionId: positionDoc._id,
+		orderId: order._id,
+		type: TransactionType.BUY,
+		status: TransactionStatus.SUCCESS,
+		tokenAddress: token.address,
+		tokenSymbol: token.symbol || 'UNKNOWN',
+		amountBnb: bnbAmount,
+		amountToken: tokenAmount,
+		gasFee,
+		txHash,
+	});
+
+	return positionDoc._id.toString();
+}
+
+/**
+ * Buy the next tranche of a laddered entry
+ * @param positionId - Position with an incomplete entry ladder
+ * @returns Execution result
+ */
+export async function executeEntryTranche(positionId: string): Promise<ExecutionResult> {
+	const position = await Position.findById(positionId);
+	if (!position || !position.entryLadder || position.entryLadder.complete) {
+		return { success: false, error: 'No pending entry tranche' };
+	}
+
+	const ladder = position.entryLadder;
+	const tokenAddress = position.tokenAddress;
+
+	try {
+		const order = await Order.findById(position.orderId);
+		if (!order) {
+			return { success: false, error: 'Order not found' };
+		}
+
+		if (await isTokenRugged(tokenAddress)) {
+			return { success: false, error: 'Token was rugged (liquidity pulled)' };
+		}
+
+		await updateWalletBalance(position.walletId.toString());
+		const wallet = await Wallet.findById(position.walletId);
+		if (!wallet) {
+			return { success: false, error: 'Wallet not found' };
+		}
+
+		if (wallet.balance.bnb < ladder.trancheAmount) {
+			return {
+				success: false,
+				error: `Insufficient balance. Required: ${ladder.trancheAmount} BNB, Available: ${wallet.balance.bnb} BNB`,
+			};
+		}
+
+		// Get current token price (entry fallback when the fill amount is unknown)
+		let priceInBnb = 0;
+		let priceInUsd = 0;
+		try {
+			const quote = await priceService.getPrice(tokenAddress, { useCache: false });
+			if (quote && !quote.stale) {
+				priceInBnb = quote.priceInBnb;
+				priceInUsd = quote.priceInUsd;
+			}
+		} catch (error: any) {
+			logger.warning('Failed to fetch price, will use the fill price:', error.message);
+		}
+
+		const bWallet = await B_Wallet.getById(wallet._id.toString());
+		if (!bWallet) {
+			return { success: false, error: 'Failed to load wallet' };
+		}
+
+		const bToken = new B_Token({
+			address: tokenAddress,
+			symbol: position.tokenSymbol,
+			name: position.tokenName,
+			decimals: position.tokenDecimals,
+		});
+
+		logger.info(`🪜 Tranche ${ladder.filled + 1}/${ladder.tranches}: ${ladder.trancheAmount} BNB -> ${position.tokenSymbol}`);
+
+		const transaction = new B_Transaction({
+			type: TxType.BUY,
+			wallet: bWallet,
+			token: bToken,
+			bnbAmount: ladder.trancheAmount,
+			slippage: order.slippage,
+			gasPrice: String(order.gasFee.gasPrice || '5'),
+			gasLimit: Number(order.gasFee.gasLimit || 300000),
+			submission: order.submissionStrategy,
+			orderId: order._id.toString(),
+			positionId,
+			userId: order.userId.toString(),
+			priority: 10, // Normal priority for buys
+		}, 3);
+
+		transactionQueue.push(transaction);
+		const swapResult = await waitForTransactionComplete(transaction, 120000);
+
+		if (!swapResult.success || !swapResult.txHash) {
+			await Transaction.create({
+				userId: order.userId,
+				walletId: wallet._id,
+				orderId: order._id,
+				positionId,
+				type: TransactionType.BUY,
+				status: TransactionStatus.FAILED,
+				tokenAddress,
+				tokenSymbol: position.tokenSymbol,
+				amountBnb: ladder.trancheAmount,
+				gasFee: 0,
+				txHash: 'FAILED_' + Date.now(),
+				errorMessage: swapResult.error || 'Unknown error',
+			});
+
+			return { success: false, error: swapResult.error || 'Swap failed' };
+		}
+
+		const tokenAmountReceived = swapResult.tokenAmount ? parseFloat(swapResult.tokenAmount) : 0;
+		// Average in the fill price - on thin pairs the spot read before the buy is below the real fill
+		if (tokenAmountReceived > 0) {
+			priceInBnb = ladder.trancheAmount / tokenAmountReceived;
+			try {
+				priceInUsd = priceInBnb * (await priceService.getBnbUsd()).price;
+			} catch (error: any) {
+				logger.warning('Failed to fetch BNB price, will continue without it:', error.message);
+			}
+		}
+
+		await recordEntryTranche(
+			positionId,
+			swapResult.txHash,
+			tokenAmountReceived,
+			ladder.trancheAmount,
+			priceInBnb,
+			priceInUsd,
+			B_Trading.getGasFeeBnb(swapResult)
+		);
+
+		return { success: true, txHash: swapResult.txHash, tokenAddress, positionId };
+	} catch (error: any) {
+		logger.error('Failed to execute entry tranche:', error.message);
+		return { success: false, error: error.message || 'An unexpected error occurred' };
+	}
+}
+
+/**
+ * Record a confirmed entry tranche: average it into the position (DB + PositionManager)
+ * TP/SL keep working off the combined cost basis, so they apply to the averaged entry
+ * @param positionId - Position being laddered into
+ * @param txHash - Tranche buy transaction hash
+ * @param tokenAmount - Tokens received
+ * @param bnbAmount - BNB spent
+ * @param priceInBnb - Tranche fill price in BNB
+ * @param priceInUsd - Tranche fill price in USD
+ * @param gasFee - Gas fee paid (BNB)
+ */
+export async function recordEntryTranche(
+	positionId: string,
+	txHash: string,
+	tokenAmount: number,
+	bnbAmount: number,
+	priceInBnb: number,
+	priceInUsd: number,
+	gasFee: number = 0
+): Promise<void> {
+	const position = await Position.findById(positionId);
+	if (!position || !position.entryLadder) {
+		throw new Error(`Laddered position ${positionId} not found`);
+	}
+
+	// Already recorded (e.g. recovered after a restart)
+	if (await Transaction.exists({ txHash })) return;
+
+	const ladder = position.entryLadder;
+	const previousTokens = position.tokenAmount;
+	const totalTokens = previousTokens + tokenAmount;
+
+	// Volume-weighted entry price
+	const buyPrice = totalTokens > 0 ? (position.buyPrice * previousTokens + priceInBnb * tokenAmount) / totalTokens : priceInBnb;
+	const buyPriceUsd = totalTokens > 0 ? (position.buyPriceUsd * previousTokens + priceInUsd * tokenAmount) / totalTokens : priceInUsd;
+	const buyAmount = position.buyAmount + bnbAmount;
+	const filled = ladder.filled + 1;
+
+	await Position.findByIdAndUpdate(positionId, {
+		buyPrice,
+		buyPriceUsd,
+		buyAmount,
+		tokenAmount: totalTokens,
+		peakPrice: priceInBnb, // Trailing stops measure from the new entry, not the pre-dip peak
+		'entryLadder.filled': filled,
+		'entryLadder.lastFillAt': new Date(),
+		'entryLadder.failures': 0,
+		'entryLadder.complete': filled >= ladder.tranches,
+	});
+
+	const bPosition = positionManager.getPosition(positionId);
+	if (bPosition) {
+		bPosition.buyPrice = buyPrice;
+		bPosition.tokenAmount = totalTokens;
+		bPosition.buyAmount = buyAmount;
+		bPosition.bnbSpent = buyAmount;
+		bPosition.peakPrice = priceInBnb;
+	}
+
+	await Transaction.create({
+		userId: position.userId,
+		walletId: position.walletId,
+		positionId: position._id,
+		orderId: position.orderId,
+		type: TransactionType.BUY,
+		status: TransactionStatus.SUCCESS,
+		tokenAddress: position.tokenAddress,
+		tokenSymbol: position.tokenSymbol,
+		amountBnb: bnbAmount,
+		amountToken: tokenAmount,
+		gasFee,
+		txHash,
+	});
+
+	logger.success(`🪜 Tranche ${filled}/${ladder.tranches} recorded: avg entry ${buyPrice.toFixed(10)} BNB`);
+}
+
 /**
  * Execute manual buy for a specific order
  * @param orderId - Order ID
@@ -0,0 +1,167 @@
+import { IOrder, LeanOrder } from '../../database/models';
+import { TokenSimulationResult } from '../token/token.validator';
+
+/**
+ * Order Filters
+ * Per-order token safety filters applied before auto-buying a detected token
+ */
+
+export interface TokenSafetyInfo {
+	address: string;
+	name: string;
+	symbol: string;
+	totalSupply: number; // Whole tokens (decimals applied)
+	liquidityBnb: number;
+	creator: string | null; // null = unknown
+	ownershipRenounced: boolean | null; // null = unknown
+	simulation?: TokenSimulationResult;
+}
+
+export interface FilterResult {
+	valid: boolean;
+	error?: string;
+}
+
+/**
+ * Check whether an order needs the token creator to be resolved
+ */
+export function orderNeedsCreator(order: IOrder | LeanOrder): boolean {
+	return (order.creatorBlacklist || []).length > 0;
+}
+
+/**
+ * Check whether an order needs the token ownership to be resolved
+ */
+export function orderNeedsOwnership(order: IOrder | LeanOrder): boolean {
+	return !!order.requireRenouncedOwnership;
+}
+
+/**
+ * Check whether an order can buy a migration that is still pending
+ * Liquidity and tax filters need the pair to exist, so those orders wait for the confirmed block
+ */
+export function checkPendingEligibility(order: IOrder | LeanOrder): FilterResult {
+	if (!order.actOnPending) {
+		return { valid: false, error: 'Order does not act on pending migrations' };
+	}
+
+	if (order.minLiquidityBnb != null || order.maxLiquidityBnb != null) {
+		return { valid: false, error: 'Liquidity filters need the confirmed migration' };
+	}
+
+	if (order.maxBuyTax != null || order.maxSellTax != null) {
+		return { valid: false, error: 'Tax limits need the confirmed migration' };
+	}
+
+	return { valid: true };
+}
+
+/**
+ * Check a token's simulated taxes against the order's limits
+ * @param order - Order with optional maxBuyTax / maxSellTax
+ * @param simulation - Result of the pre-buy simulation
+ * @returns Validation result
+ */
+export function checkTaxLimits(order: IOrder | LeanOrder, simulation?: TokenSimulationResult): FilterResult {
+	const maxBuyTax = order.maxBuyTax ?? null;
+	const maxSellTax = order.maxSellTax ?? null;
+
+	// No limits configured
+	if (maxBuyTax === null && maxSellTax === null) {
+		return { valid: true };
+	}
+
+	if (!simulation) {
+		return { valid: false, error: 'Tax simulation unavailable' };
+	}
+
+	if (maxBuyTax !== null) {
+		if (simulation.buyReverts) {
+			return { valid: false, error: 'Buy simulation reverted' };
+		}
+		if (simulation.buyTax === null) {
+			return { valid: false, error: `Buy tax unknown: ${simulation.error || 'simulation failed'}` };
+		}
+		if (simulation.buyTax > maxBuyTax) {
+			return { valid: false, error: `Buy tax ${simulation.buyTax}% exceeds limit of ${maxBuyTax}%` };
+		}
+	}
+
+	if (maxSellTax !== null) {
+		if (simulation.sellReverts) {
+			return { valid: false, error: 'Honeypot: sell simulation reverted' };
+		}
+		if (simulation.sellTax === null) {
+			return { valid: false, error: `Sell tax unknown: ${simulation.error || 'simulation failed'}` };
+		}
+		if (simulation.sellTax > maxSellTax) {
+			return { valid: false, error: `Sell tax ${simulation.sellTax}% exceeds limit of ${maxSellTax}%` };
+		}
+	}
+
+	return { valid: true };
+}
+
+/**
+ * Check a detected token against all of an order's safety filters
+ * @param order - Order with filter configuration
+ * @param info - Token data gathered once per detected token
+ * @returns Validation result with the first failing filter as error
+ */
+export function checkOrderFilters(order: IOrder | LeanOrder, info: TokenSafetyInfo): FilterResult {
+	if (order.minLiquidityBnb != null && info.liquidityBnb < order.minLiquidityBnb) {
+		return {
+			valid: false,
+			error: `Liquidity ${info.liquidityBnb.toFixed(4)} BNB below minimum ${order.minLiquidityBnb} BNB`,
+		};
+	}
+
+	if (order.maxLiquidityBnb != null && info.liquidityBnb > order.maxLiquidityBnb) {
+		return {
+			valid: false,
+			error: `Liquidity ${info.liquidityBnb.toFixed(4)} BNB above maximum ${order.maxLiquidityBnb} BNB`,
+		};
+	}
+
+	if (order.minSupply != null && info.totalSupply < order.minSupply) {
+		return { valid: false, error: `Supply ${info.totalSupply} below minimum ${order.minSupply}` };
+	}
+
+	if (order.maxSupply != null && info.totalSupply > order.maxSupply) {
+		return { valid: false, error: `Supply ${info.totalSupply} above maximum ${order.maxSupply}` };
+	}
+
+	if (order.nameBlacklistRegex) {
+		let pattern: RegExp | null = null;
+		try {
+			pattern = new RegExp(order.nameBlacklistRegex, 'i');
+		} catch {
+			return { valid: false, error: `Invalid blacklist pattern /${order.nameBlacklistRegex}/` };
+		}
+
+		if (pattern.test(info.name) || pattern.test(info.symbol)) {
+			return { valid: false, error: `Name/symbol matches blacklist /${order.nameBlacklistRegex}/` };
+		}
+	}
+
+	if (orderNeedsCreator(order)) {
+		if (!info.creator) {
+			return { valid: false, error: 'Creator unknown' };
+		}
+		const blacklist = order.creatorBlacklist.map((address) => address.toLowerCase());
+		if (blacklist.includes(info.creator.toLowerCase())) {
+			return { valid: false, error: `Creator ${info.creator} is blacklisted` };
+		}
+	}
+
+	if (orderNeedsOwnership(order)) {
+		if (info.ownershipRenounced === null) {
+			return { valid: false, error: 'Ownership status unknown' };
+		}
+		if (!info.ownershipRenounced) {
+			return { valid: false, error: 'Ownership not renounced' };
+		}
+	}
+
+	return checkTaxLimits(order, info.simulation);
+}
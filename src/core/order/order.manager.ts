@@ -1,4 +1,6 @@
-import { Order, IOrder, Wallet } from '../../database/models';
+import { Order, IOrder, Wallet, LimitOrder } from '../../database/models';
+import { ISellRetryLadder, ITakeProfitLevel, IStopLossLevel, IBreakEvenStop, IDevDumpExit } from '../../database/models/order.model';
+import { EntryMode, LimitOrderStatus, SubmissionStrategy, PnlBasis } from '../../config/constants';
 import { logger } from '../../utils/logger';
 import mongoose from 'mongoose';
 
@@ -61,12 +63,8 @@ export async function createOrder(
 	customConfig?: {
 		tradingAmount?: number;
 		slippage?: number;
-		takeProfitPercent?: number;
-		takeProfitEnabled?: boolean;
-		stopLossPercent?: number;
-		stopLossEnabled?: boolean;
-		takeProfitLevels?: Array<{ pnlPercent: number; sellPercent: number }>;
-		stopLossLevels?: Array<{ pnlPercent: number; sellPercent: number }>;
+		takeProfitLevels?: ITakeProfitLevel[];
+		stopLossLevels?: IStopLossLevel[];
 		timeLimitEnabled?: boolean;
 		timeLimitSeconds?: number;
 		orderName?: string;
@@ -83,18 +81,9 @@ export async function createOrder(
 		const orderCount = await getOrderCount(userId);
 		const name = customConfig?.orderName || `Order #${orderCount + 1}`;
 
-		// Prepare TP/SL levels - use arrays if provided, otherwise use legacy single values
 		let takeProfitLevels = customConfig?.takeProfitLevels;
 		let stopLossLevels = customConfig?.stopLossLevels;
 
-		// If no arrays provided but legacy values provided, convert them
-		if (!takeProfitLevels && customConfig?.takeProfitPercent !== undefined) {
-			takeProfitLevels = [{ pnlPercent: customConfig.takeProfitPercent, sellPercent: 100 }];
-		}
-		if (!stopLossLevels && customConfig?.stopLossPercent !== undefined) {
-			stopLossLevels = [{ pnlPercent: customConfig.stopLossPercent, sellPercent: 100 }];
-		}
-
 		// Default levels if nothing provided
 		if (!takeProfitLevels) {
 			takeProfitLevels = [{ pnlPercent: 50, sellPercent: 100 }];
@@ -139,14 +128,35 @@ export async function updateOrderConfig(
 		name?: string;
 		walletId?: string;
 		tradingAmount?: number;
-		takeProfitPercent?: number;
-		takeProfitEnabled?: boolean;
-		stopLossPercent?: number;
-		stopLossEnabled?: boolean;
+		takeProfitLevels?: ITakeProfitLevel[];
+		stopLossLevels?: IStopLossLevel[];
 		timeLimitEnabled?: boolean;
 		timeLimitSeconds?: number;
 		slippage?: number;
 		autoBuy?: boolean;
+		maxBuyTax?: number | null;
+		maxSellTax?: number | null;
+		minLiquidityBnb?: number | null;
+		maxLiquidityBnb?: number | null;
+		minSupply?: number | null;
+		maxSupply?: number | null;
+		nameBlacklistRegex?: string | null;
+		creatorBlacklist?: string[];
+		requireRenouncedOwnership?: boolean;
+		actOnPending?: boolean;
+		entryMode?: EntryMode;
+		entryTranches?: number;
+		entryIntervalSeconds?: number;
+		entryStepPercent?: number;
+		submissionStrategy?: SubmissionStrategy;
+		pnlBasis?: PnlBasis;
+		sellRetry?: {
+			enabled?: boolean;
+			stopLoss?: Partial<ISellRetryLadder>;
+			takeProfit?: Partial<ISellRetryLadder>;
+		};
+		breakEvenStop?: Partial<IBreakEvenStop>;
+		devDumpExit?: Partial<IDevDumpExit>;
 		gasFee?: {
 			gasPrice?: string;
 			gasLimit?: number;
@@ -171,13 +181,39 @@ export async function updateOrderConfig(
 		if (config.name !== undefined) order.name = config.name;
 		if (config.walletId !== undefined) order.walletId = new mongoose.Types.ObjectId(config.walletId);
 		if (config.tradingAmount !== undefined) order.tradingAmount = config.tradingAmount;
-		if (config.takeProfitPercent !== undefined) order.takeProfitPercent = config.takeProfitPercent;
-		if (config.takeProfitEnabled !== undefined) order.takeProfitEnabled = config.takeProfitEnabled;
-		if (config.stopLossPercent !== undefined) order.stopLossPercent = config.stopLossPercent;
-		if (config.stopLossEnabled !== undefined) order.stopLossEnabled = config.stopLossEnabled;
+		if (config.takeProfitLevels !== undefined) order.set('takeProfitLevels', config.takeProfitLevels);
+		if (config.stopLossLevels !== undefined) order.set('stopLossLevels', config.stopLossLevels);
 		if (config.timeLimitEnabled !== undefined) order.timeLimitEnabled = config.timeLimitEnabled;
 		if (config.timeLimitSeconds !== undefined) order.timeLimitSeconds = config.timeLimitSeconds; if (config.slippage !== undefined) order.slippage = config.slippage;
 		if (config.autoBuy !== undefined) order.autoBuy = config.autoBuy;
+		if (config.maxBuyTax !== undefined) order.maxBuyTax = config.maxBuyTax;
+		if (config.maxSellTax !== undefined) order.maxSellTax = config.maxSellTax;
+		if (config.minLiquidityBnb !== undefined) order.minLiquidityBnb = config.minLiquidityBnb;
+		if (config.maxLiquidityBnb !== undefined) order.maxLiquidityBnb = config.maxLiquidityBnb;
+		if (config.minSupply !== undefined) order.minSupply = config.minSupply;
+		if (config.maxSupply !== undefined) order.maxSupply = config.maxSupply;
+		if (config.nameBlacklistRegex !== undefined) order.nameBlacklistRegex = config.nameBlacklistRegex;
+		if (config.creatorBlacklist !== undefined) order.creatorBlacklist = config.creatorBlacklist;
+		if (config.requireRenouncedOwnership !== undefined) order.requireRenouncedOwnership = config.requireRenouncedOwnership;
+		if (config.actOnPending !== undefined) order.actOnPending = config.actOnPending;
+		if (config.entryMode !== undefined) order.entryMode = config.entryMode;
+		if (config.entryTranches !== undefined) order.entryTranches = config.entryTranches;
+		if (config.entryIntervalSeconds !== undefined) order.entryIntervalSeconds = config.entryIntervalSeconds;
+		if (config.entryStepPercent !== undefined) order.entryStepPercent = config.entryStepPercent;
+		if (config.submissionStrategy !== undefined) order.submissionStrategy = config.submissionStrategy;
+		if (config.pnlBasis !== undefined) order.pnlBasis = config.pnlBasis;
+		if (config.sellRetry?.enabled !== undefined) order.sellRetry.enabled = config.sellRetry.enabled;
+		for (const ladder of ['stopLoss', 'takeProfit'] as const) {
+			for (const [key, value] of Object.entries(config.sellRetry?.[ladder] || {})) {
+				if (value !== undefined) order.set(`sellRetry.${ladder}.${key}`, value);
+			}
+		}
+		for (const [key, value] of Object.entries(config.breakEvenStop || {})) {
+			if (value !== undefined) order.set(`breakEvenStop.${key}`, value);
+		}
+		for (const [key, value] of Object.entries(config.devDumpExit || {})) {
+			if (value !== undefined) order.set(`devDumpExit.${key}`, value);
+		}
 		if (config.gasFee?.gasPrice !== undefined) order.gasFee.gasPrice = config.gasFee.gasPrice;
 		if (config.gasFee?.gasLimit !== undefined) order.gasFee.gasLimit = config.gasFee.gasLimit;
 
@@ -246,6 +282,12 @@ export async function removeOrder(orderId: string, userId: string): Promise<Orde
 			return { success: false, error: 'Order not found' };
 		}
 
+		// Pending limit buys have nothing to execute with anymore
+		await LimitOrder.updateMany(
+			{ orderId, status: LimitOrderStatus.PENDING },
+			{ status: LimitOrderStatus.CANCELLED, errorMessage: 'Order removed' }
+		);
+
 		logger.info(`Order removed: ${orderId}`);
 		return { success: true, order };
 	} catch (error: any) {
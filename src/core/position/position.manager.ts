@@ -1,3 +1,4 @@
+import { EventEmitter } from 'events';
 import { Position } from '../../database/models';
 import { B_Position, PositionStatus } from '../classes/B_Position';
 import { B_Token } from '../classes/B_Token';
@@ -6,8 +7,9 @@ import { logger } from '../../utils/logger';
 /**
  * Position Manager
  * Manages positions in memory and database
+ * Emits 'added' and 'removed' (position) when the in-memory set changes
  */
-export class PositionManager {
+export class PositionManager extends EventEmitter {
 	// In-memory cache for fast access
 	private positions: Map<string, B_Position> = new Map();
 	private initialized: boolean = false;
@@ -26,7 +28,7 @@ export class PositionManager {
 			// Load all open/active positions from database
 			const openPositions = await Position.find({ status: { $in: ['PENDING', 'OPEN', 'ACTIVE'] } })
 				.populate('walletId')
-				.populate('orderId'); // Populate order to get TP/SL enabled flags
+				.populate('orderId');
 
 			for (const pos of openPositions) {
 				try {
@@ -43,10 +45,7 @@ export class PositionManager {
 						logger.info(`✅ Fixed tokenAmount: ${tokenAmount}`);
 					}
 
-					// Get order to read TP/SL enabled flags
 					const order = pos.orderId as any;
-					const takeProfitEnabled = order?.takeProfitEnabled !== undefined ? order.takeProfitEnabled : true;
-					const stopLossEnabled = order?.stopLossEnabled !== undefined ? order.stopLossEnabled : true;
 
 					const bPosition = new B_Position({
 						id: pos._id.toString(),
@@ -61,14 +60,12 @@ export class PositionManager {
 						bnbSpent: pos.buyAmount,
 						buyPrice: pos.buyPrice,
 						currentPrice: pos.currentPrice || pos.buyPrice,
+						peakPrice: pos.peakPrice,
+						realizableValue: pos.realizableValueBnb,
 						status: pos.status as PositionStatus,
 						buyTxHash: pos.buyTxHash,
 						buyTimestamp: pos.buyTimestamp,
-						takeProfitPercent: pos.takeProfitTarget,
-						stopLossPercent: pos.stopLossTarget,
-						takeProfitEnabled: takeProfitEnabled,  // Read from order
-						stopLossEnabled: stopLossEnabled,      // Read from order
-						// NEW: Load multiple TP/SL levels from position
+						// Load multiple TP/SL levels from position
 						takeProfitLevels: pos.takeProfitLevels || [],
 						stopLossLevels: pos.stopLossLevels || [],
 						triggeredTakeProfitLevels: pos.triggeredTakeProfitLevels || [],
@@ -99,6 +96,7 @@ export class PositionManager {
 
 		this.positions.set(position.id, position);
 		logger.info(`Position added to memory: ${position.id}`);
+		this.emit('added', position);
 	}
 
 	/**
@@ -151,7 +149,7 @@ export class PositionManager {
 	/**
 	 * Update position price
 	 */
-	async updatePositionPrice(positionId: string, newPrice: number): Promise<void> {
+	async updatePositionPrice(positionId: string, newPrice: number, realizableValue?: number | null): Promise<void> {
 		const position = this.positions.get(positionId);
 		if (!position) {
 			logger.warning(`Position not found in memory: ${positionId}`);
@@ -159,12 +157,19 @@ export class PositionManager {
 		}
 
 		position.updatePrice(newPrice);
+		if (realizableValue !== undefined) {
+			position.updateRealizableValue(realizableValue);
+		}
 
 		// Update in database
 		await Position.findByIdAndUpdate(positionId, {
 			currentPrice: newPrice,
+			peakPrice: position.peakPrice,
 			pnlPercent: position.getPnLPercent(),
 			pnlBnb: position.getPnL(),
+			realizableValueBnb: position.realizableValue,
+			realizablePnlPercent: position.getRealizablePnLPercent(),
+			realizablePnlBnb: position.getRealizablePnL(),
 			lastPriceUpdate: new Date(),
 		});
 	}
@@ -187,6 +192,7 @@ export class PositionManager {
 		// Remove from memory immediately
 		this.positions.delete(positionId);
 		logger.success(`Position closed and deleted: ${positionId}`);
+		this.emit('removed', position);
 	}
 
 	/**
@@ -198,8 +204,12 @@ export class PositionManager {
 		await Position.findByIdAndDelete(positionId);
 
 		// Remove from memory
+		const position = this.positions.get(positionId);
 		this.positions.delete(positionId);
 		logger.success(`Position manually removed: ${positionId}`);
+		if (position) {
+			this.emit('removed', position);
+		}
 	}
 
 	/**
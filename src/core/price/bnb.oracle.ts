@@ -0,0 +1,155 @@
+import { ethers } from 'ethers';
+import { getPairReservesBatch, getPriceFromReserves } from './pair.service';
+import { fetchDexScreenerPairs } from './price.sources';
+import { multicall } from '../rpc/multicall';
+import { config } from '../../config/config';
+import { logger } from '../../utils/logger';
+import {
+	PANCAKE_ROUTER_ADDRESS,
+	WBNB_ADDRESS,
+	USDT_ADDRESS,
+	BUSD_ADDRESS,
+	BNB_USD_FALLBACK_PRICE,
+} from '../../config/constants';
+import { PANCAKESWAP_ROUTER_ABI } from '../../abi/pancakeswap-router.abi';
+
+export interface BnbUsdQuote {
+	price: number;
+	stale: boolean; // No source answered - last good (or fallback) price
+	sources: string[]; // Sources that contributed to the median
+	timestamp: number;
+}
+
+const MAX_SOURCE_SPREAD_PERCENT = 2; // Log when sources disagree by more than this
+
+const routerInterface = new ethers.utils.Interface(PANCAKESWAP_ROUTER_ABI);
+
+/**
+ * BNB/USD Oracle
+ * Median of independent sources - the WBNB/USDT and WBNB/BUSD pair reserves, a router
+ * quote and DexScreener - so one dead API or skewed pool cannot move the price.
+ */
+export class BnbUsdOracle {
+	private lastQuote: BnbUsdQuote | null = null;
+	private lastAttemptAt: number = 0;
+	private pending: Promise<BnbUsdQuote> | null = null;
+
+	/**
+	 * Get the BNB price in USD (cached for config.price.bnbUsdTtlMs)
+	 */
+	async getQuote(): Promise<BnbUsdQuote> {
+		// A failed refresh is not retried before the TTL either, so dead sources are not hammered
+		if (this.lastQuote && Date.now() - this.lastAttemptAt < config.price.bnbUsdTtlMs) {
+			return this.lastQuote;
+		}
+
+		// Concurrent callers share one refresh
+		if (!this.pending) {
+			this.pending = this.refresh().finally(() => {
+				this.pending = null;
+			});
+		}
+		return this.pending;
+	}
+
+	/**
+	 * Query every source and take the median
+	 */
+	private async refresh(): Promise<BnbUsdQuote> {
+		this.lastAttemptAt = Date.now();
+		const [reserves, router, dexscreener] = await Promise.all([
+			this.fromReserves().catch(() => []),
+			this.fromRouter().catch(() => []),
+			this.fromDexScreener().catch(() => []),
+		]);
+		const samples = [...reserves, ...router, ...dexscreener];
+
+		if (samples.length === 0) {
+			const previous = this.lastQuote;
+			logger.warning(`No BNB/USD source answered - using ${previous ? 'last known' : 'fallback'} price`);
+
+			this.lastQuote = {
+				price: previous?.price || BNB_USD_FALLBACK_PRICE,
+				stale: true,
+				sources: [],
+				timestamp: previous?.timestamp || 0,
+			};
+			return this.lastQuote;
+		}
+
+		const values = samples.map((sample) => sample.price).sort((a, b) => a - b);
+		const middle = Math.floor(values.length / 2);
+		const price = values.length % 2 ? values[middle] : (values[middle - 1] + values[middle]) / 2;
+
+		const spread = ((values[values.length - 1] - values[0]) / price) * 100;
+		if (spread > MAX_SOURCE_SPREAD_PERCENT) {
+			logger.warning(`BNB/USD sources disagree by ${spread.toFixed(1)}%: ${samples.map((s) => `${s.source}=${s.price.toFixed(2)}`).join(', ')}`);
+		}
+
+		this.lastQuote = {
+			price,
+			stale: false,
+			sources: samples.map((sample) => sample.source),
+			timestamp: Date.now(),
+		};
+		return this.lastQuote;
+	}
+
+	/**
+	 * Stablecoin pair reserves (both 18 decimals on BSC)
+	 */
+	private async fromReserves(): Promise<Array<{ source: string; price: number }>> {
+		const reservesByToken = await getPairReservesBatch([USDT_ADDRESS, BUSD_ADDRESS]);
+		const samples: Array<{ source: string; price: number }> = [];
+
+		for (const [stable, reserves] of reservesByToken) {
+			const stableInBnb = getPriceFromReserves(stable, reserves);
+			if (stableInBnb > 0) {
+				samples.push({
+					source: stable === USDT_ADDRESS.toLowerCase() ? 'usdt-pair' : 'busd-pair',
+					price: 1 / stableInBnb,
+				});
+			}
+		}
+
+		return samples;
+	}
+
+	/**
+	 * Router quote for 1 WBNB -> USDT
+	 */
+	private async fromRouter(): Promise<Array<{ source: string; price: number }>> {
+		const [result] = await multicall([
+			{
+				target: PANCAKE_ROUTER_ADDRESS,
+				iface: routerInterface,
+				method: 'getAmountsOut',
+				args: [ethers.utils.parseEther('1'), [WBNB_ADDRESS, USDT_ADDRESS]],
+			},
+		]);
+		if (!result) return [];
+
+		const amounts: ethers.BigNumber[] = result[0];
+		const price = parseFloat(ethers.utils.formatEther(amounts[amounts.length - 1]));
+		return price > 0 ? [{ source: 'router', price }] : [];
+	}
+
+	/**
+	 * Deepest WBNB pair on DexScreener
+	 */
+	private async fromDexScreener(): Promise<Array<{ source: string; price: number }>> {
+		const pairs = (await fetchDexScreenerPairs([WBNB_ADDRESS])).filter(
+			(pair) => pair.baseToken?.address?.toLowerCase() === WBNB_ADDRESS.toLowerCase()
+		);
+		if (pairs.length === 0) return [];
+
+		const best = pairs.reduce((a: any, b: any) =>
+			parseFloat(b.liquidity?.usd || '0') > parseFloat(a.liquidity?.usd || '0') ? b : a
+		);
+		const price = parseFloat(best.priceUsd || '0');
+		return price > 0 ? [{ source: 'dexscreener', price }] : [];
+	}
+}
+
+// Singleton instance
+export const bnbUsdOracle = new BnbUsdOracle();
@@ -0,0 +1,111 @@
+import { ethers } from 'ethers';
+import { Token } from '../../database/models';
+import { multicall } from '../rpc/multicall';
+import { logger } from '../../utils/logger';
+import { PANCAKE_ROUTER_ADDRESS, WBNB_ADDRESS, SIMULATION_TTL } from '../../config/constants';
+import { PANCAKESWAP_ROUTER_ABI } from '../../abi/pancakeswap-router.abi';
+
+/**
+ * Exit Quotes
+ * What selling a whole bag would actually return: the router quote for the full token
+ * amount (price impact included) net of the sell tax measured by the token simulation.
+ */
+
+export interface ExitQuoteRequest {
+	tokenAddress: string;
+	tokenAmount: number; // Human-readable amount
+	decimals: number;
+}
+
+const routerInterface = new ethers.utils.Interface(PANCAKESWAP_ROUTER_ABI);
+
+// Token => simulated sell tax (%), refreshed like the simulation itself
+const sellTaxCache = new Map<string, { sellTax: number; fetchedAt: number }>();
+
+/**
+ * Get simulated sell taxes for tokens
+ * Tokens without a simulation count as untaxed
+ * @param tokenAddresses - Token contract addresses
+ * @returns Sell tax in percent by lowercase token address
+ */
+export async function getSellTaxes(tokenAddresses: string[]): Promise<Map<string, number>> {
+	const taxes = new Map<string, number>();
+	const now = Date.now();
+	const missing: string[] = [];
+
+	for (const token of new Set(tokenAddresses.map((address) => address.toLowerCase()))) {
+		const cached = sellTaxCache.get(token);
+		if (cached && now - cached.fetchedAt < SIMULATION_TTL * 1000) {
+			taxes.set(token, cached.sellTax);
+		} else {
+			missing.push(token);
+		}
+	}
+
+	if (missing.length > 0) {
+		try {
+			const tokens = await Token.find({ address: { $in: missing } }).select('address sellTax');
+			const found = new Map(tokens.map((token) => [token.address, token.sellTax ?? 0]));
+
+			for (const token of missing) {
+				const sellTax = found.get(token) ?? 0;
+				sellTaxCache.set(token, { sellTax, fetchedAt: now });
+				taxes.set(token, sellTax);
+			}
+		} catch (error: any) {
+			logger.error(`Failed to load sell taxes: ${error.message}`);
+			missing.forEach((token) => taxes.set(token, 0));
+		}
+	}
+
+	return taxes;
+}
+
+/**
+ * Quote full exits through Multicall3 (one eth_call per chunk)
+ * @param requests - Bags to quote
+ * @returns BNB each bag would return after sell tax, in request order (null if unquotable)
+ */
+export async function getExitValuesBatch(requests: ExitQuoteRequest[]): Promise<(number | null)[]> {
+	if (requests.length === 0) return [];
+
+	const taxes = await getSellTaxes(requests.map((request) => request.tokenAddress));
+	const values: (number | null)[] = new Array(requests.length).fill(null);
+
+	const quotable: number[] = [];
+	const calls = [];
+	for (let index = 0; index < requests.length; index++) {
+		const { tokenAddress, tokenAmount, decimals } = requests[index];
+		if (!(tokenAmount > 0)) continue;
+
+		let amountIn: ethers.BigNumber;
+		try {
+			amountIn = ethers.utils.parseUnits(tokenAmount.toFixed(decimals), decimals);
+		} catch {
+			continue;
+		}
+
+		quotable.push(index);
+		calls.push({
+			target: PANCAKE_ROUTER_ADDRESS,
+			iface: routerInterface,
+			method: 'getAmountsOut',
+			args: [amountIn, [tokenAddress, WBNB_ADDRESS]],
+		});
+	}
+
+	const results = await multicall(calls);
+
+	results.forEach((result, callIndex) => {
+		if (!result) return;
+
+		const index = quotable[callIndex];
+		const amounts: ethers.BigNumber[] = result[0];
+		const bnbOut = parseFloat(ethers.utils.formatEther(amounts[amounts.length - 1]));
+		const sellTax = Math.min(100, Math.max(0, taxes.get(requests[index].tokenAddress.toLowerCase()) || 0));
+
+		values[index] = bnbOut * (1 - sellTax / 100);
+	});
+
+	return values;
+}
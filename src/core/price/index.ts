@@ -1,4 +1,8 @@
 /**
  * Price Module Exports
  */
+export * from './pair.service';
+export * from './price.sources';
+export * from './bnb.oracle';
 export * from './price.service';
+export * from './exit.quote';
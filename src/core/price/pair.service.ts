@@ -0,0 +1,263 @@
+import { ethers, BigNumber } from 'ethers';
+import { getProvider } from '../wallet/wallet.service';
+import { isValidAddress } from '../../utils/validation';
+import { logger } from '../../utils/logger';
+import { PANCAKE_FACTORY_ADDRESS, PANCAKE_V2_FEE_BPS, WBNB_ADDRESS } from '../../config/constants';
+import { PANCAKESWAP_FACTORY_ABI } from '../../abi/pancakeswap-factory.abi';
+import { PANCAKESWAP_PAIR_ABI } from '../../abi/pancakeswap-pair.abi';
+import { multicall } from '../rpc/multicall';
+
+/**
+ * Pair Service
+ * PancakeSwap V2 pair lookups and reserves - the on-chain input of the price subsystem
+ */
+
+// Token => WBNB pair and its token0 (pairs never change once created)
+const pairCache = new Map<string, { pairAddress: string; token0: string }>();
+
+const factoryInterface = new ethers.utils.Interface(PANCAKESWAP_FACTORY_ABI);
+const pairInterface = new ethers.utils.Interface(PANCAKESWAP_PAIR_ABI);
+
+export interface PairReserves {
+	reserve0: string;
+	reserve1: string;
+	token0: string;
+	token1: string;
+	pairAddress: string;
+}
+
+/**
+ * Get PancakeSwap factory contract instance
+ */
+function getFactoryContract(): ethers.Contract {
+	const provider = getProvider();
+	return new ethers.Contract(PANCAKE_FACTORY_ADDRESS, PANCAKESWAP_FACTORY_ABI, provider);
+}
+
+/**
+ * Get PancakeSwap pair contract instance
+ */
+function getPairContract(pairAddress: string): ethers.Contract {
+	const provider = getProvider();
+	return new ethers.Contract(pairAddress, PANCAKESWAP_PAIR_ABI, provider);
+}
+
+/**
+ * Get pair address for two tokens
+ * @param tokenA - First token address
+ * @param tokenB - Second token address
+ * @returns Pair address or null if doesn't exist
+ */
+export async function getPairAddress(tokenA: string, tokenB: string): Promise<string | null> {
+	try {
+		if (!isValidAddress(tokenA) || !isValidAddress(tokenB)) {
+			throw new Error('Invalid token addresses');
+		}
+
+		const factory = getFactoryContract();
+		const pairAddress = await factory.getPair(tokenA, tokenB);
+
+		// Check if pair exists (non-zero address)
+		if (pairAddress === ethers.constants.AddressZero) {
+			return null;
+		}
+
+		return pairAddress.toLowerCase();
+	} catch (error: any) {
+		logger.error(`Failed to get pair address for ${tokenA}/${tokenB}:`, error.message);
+		return null;
+	}
+}
+
+/**
+ * Get pair reserves
+ * @param pairAddress - Pair contract address
+ * @returns Pair reserves data
+ */
+export async function getPairReserves(pairAddress: string): Promise<PairReserves | null> {
+	try {
+		if (!isValidAddress(pairAddress)) {
+			throw new Error('Invalid pair address');
+		}
+
+		const pairContract = getPairContract(pairAddress);
+
+		// Fetch token addresses and reserves in parallel
+		const [token0, token1, reserves] = await Promise.all([
+			pairContract.token0(),
+			pairContract.token1(),
+			pairContract.getReserves(),
+		]);
+
+		return {
+			reserve0: reserves.reserve0.toString(),
+			reserve1: reserves.reserve1.toString(),
+			token0: token0.toLowerCase(),
+			token1: token1.toLowerCase(),
+			pairAddress: pairAddress.toLowerCase(),
+		};
+	} catch (error: any) {
+		logger.error(`Failed to get pair reserves for ${pairAddress}:`, error.message);
+		return null;
+	}
+}
+
+/**
+ * Get WBNB pair reserves for many tokens through Multicall3
+ * One eth_call resolves unknown pairs, one more fetches reserves (and token0 of new pairs)
+ * @param tokenAddresses - Token contract addresses
+ * @returns Pair reserves by lowercase token address (tokens without a pair are omitted)
+ */
+export async function getPairReservesBatch(tokenAddresses: string[]): Promise<Map<string, PairReserves>> {
+	const reservesByToken = new Map<string, PairReserves>();
+	const wbnb = WBNB_ADDRESS.toLowerCase();
+	const tokens = [...new Set(tokenAddresses.map((address) => address.toLowerCase()))]
+		.filter((token) => token !== wbnb && isValidAddress(token));
+
+	try {
+		// Step 1: resolve pairs not seen before
+		const unknown = tokens.filter((token) => !pairCache.has(token));
+		const newPairs = new Map<string, string>();
+
+		const pairResults = await multicall(
+			unknown.map((token) => ({
+				target: PANCAKE_FACTORY_ADDRESS,
+				iface: factoryInterface,
+				method: 'getPair',
+				args: [token, WBNB_ADDRESS],
+			}))
+		);
+		pairResults.forEach((result, index) => {
+			if (result && result[0] !== ethers.constants.AddressZero) {
+				newPairs.set(unknown[index], result[0].toLowerCase());
+			}
+		});
+
+		// Step 2: reserves for every pair, token0 for new ones
+		const withPair = tokens.filter((token) => pairCache.has(token) || newPairs.has(token));
+		const pairOf = (token: string) => pairCache.get(token)?.pairAddress || newPairs.get(token)!;
+
+		const calls = withPair.map((token) => ({
+			target: pairOf(token),
+			iface: pairInterface,
+			method: 'getReserves',
+		}));
+		const newTokens = withPair.filter((token) => newPairs.has(token));
+		calls.push(
+			...newTokens.map((token) => ({
+				target: newPairs.get(token)!,
+				iface: pairInterface,
+				method: 'token0',
+			}))
+		);
+
+		const results = await multicall(calls);
+
+		newTokens.forEach((token, index) => {
+			const token0 = results[withPair.length + index];
+			if (token0) {
+				pairCache.set(token, { pairAddress: newPairs.get(token)!, token0: token0[0].toLowerCase() });
+			}
+		});
+
+		withPair.forEach((token, index) => {
+			const reserves = results[index];
+			const pair = pairCache.get(token);
+			if (!reserves || !pair) return;
+
+			reservesByToken.set(token, {
+				reserve0: reserves[0].toString(),
+				reserve1: reserves[1].toString(),
+				token0: pair.token0,
+				token1: pair.token0 === token ? wbnb : token,
+				pairAddress: pair.pairAddress,
+			});
+		});
+	} catch (error: any) {
+		logger.error('Failed to batch fetch pair reserves:', error.message);
+	}
+
+	return reservesByToken;
+}
+
+/**
+ * Calculate a token's price from its pair reserves
+ * Both reserves are scaled by 1e18, so the price is BNB per 1e18 token units
+ * (BNB per token for 18-decimal tokens, which is what every price in the bot uses)
+ * @param tokenAddress - Token to get price for
+ * @param reserves - Pair reserves data
+ * @returns Price in the pair's other token (0 if the token side is empty)
+ */
+export function getPriceFromReserves(tokenAddress: string, reserves: PairReserves): number {
+	const token = tokenAddress.toLowerCase();
+	const { reserve0, reserve1, token0, token1 } = reserves;
+
+	let tokenReserve: string;
+	let otherReserve: string;
+
+	if (token === token0) {
+		tokenReserve = reserve0;
+		otherReserve = reserve1;
+	} else if (token === token1) {
+		tokenReserve = reserve1;
+		otherReserve = reserve0;
+	} else {
+		throw new Error('Token not in pair');
+	}
+
+	if (BigNumber.from(tokenReserve).isZero()) {
+		return 0;
+	}
+
+	return parseFloat(ethers.utils.formatEther(otherReserve)) / parseFloat(ethers.utils.formatEther(tokenReserve));
+}
+
+/**
+ * PancakeSwap V2 getAmountOut (0.25% fee)
+ * @param amountIn - Input amount (wei)
+ * @param reserveIn - Reserve of the input token
+ * @param reserveOut - Reserve of the output token
+ * @returns Output amount (0 if any side is empty)
+ */
+export function getAmountOut(amountIn: BigNumber, reserveIn: BigNumber, reserveOut: BigNumber): BigNumber {
+	if (amountIn.isZero() || reserveIn.isZero() || reserveOut.isZero()) {
+		return BigNumber.from(0);
+	}
+
+	const amountInWithFee = amountIn.mul(10000 - PANCAKE_V2_FEE_BPS);
+	return amountInWithFee.mul(reserveOut).div(reserveIn.mul(10000).add(amountInWithFee));
+}
+
+/**
+ * Check if pair has sufficient liquidity
+ * @param tokenAddress - Token contract address
+ * @param minLiquidityBnb - Minimum liquidity in BNB
+ * @returns True if liquidity is sufficient
+ */
+export async function hasSufficientLiquidity(
+	tokenAddress: string,
+	minLiquidityBnb: number = 1
+): Promise<boolean> {
+	try {
+		const pairAddress = await getPairAddress(tokenAddress, WBNB_ADDRESS);
+		if (!pairAddress) {
+			return false;
+		}
+
+		const reserves = await getPairReserves(pairAddress);
+		if (!reserves) {
+			return false;
+		}
+
+		const token = tokenAddress.toLowerCase();
+		const bnbReserve =
+			token === reserves.token0.toLowerCase() ? reserves.reserve1 : reserves.reserve0;
+
+		const bnbLiquidity = parseFloat(ethers.utils.formatEther(bnbReserve));
+
+		return bnbLiquidity >= minLiquidityBnb;
+	} catch (error: any) {
+		logger.error('Failed to check liquidity:', error.message);
+		return false;
+	}
+}
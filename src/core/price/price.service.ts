@@ -1,552 +1,218 @@
-import { ethers, BigNumber } from 'ethers';
-import axios from 'axios';
-import { getProvider } from '../wallet/wallet.service';
-import { getAmountsOut } from '../trading/pancakeswap.service';
-import { getTokenDecimals } from '../token/token.service';
 import { isValidAddress } from '../../utils/validation';
 import { logger } from '../../utils/logger';
+import { config } from '../../config/config';
+import { WBNB_ADDRESS } from '../../config/constants';
+import { bnbUsdOracle, BnbUsdQuote } from './bnb.oracle';
 import {
-	PANCAKE_FACTORY_ADDRESS,
-	WBNB_ADDRESS,
-	PRICE_CACHE_TTL,
-	DEXSCREENER_API_URL,
-	API_TIMEOUT,
-} from '../../config/constants';
-import { PANCAKESWAP_FACTORY_ABI } from '../../abi/pancakeswap-factory.abi';
-import { PANCAKESWAP_PAIR_ABI } from '../../abi/pancakeswap-pair.abi';
-import NodeCache from 'node-cache';
+	PriceSource,
+	PriceSourceName,
+	ReservesPriceSource,
+	RouterQuotePriceSource,
+	DexScreenerPriceSource,
+	FixturePriceSource,
+} from './price.sources';
 
 /**
  * Price Service
- * Handles token price fetching from PancakeSwap with DEXScreener backup
+ * The single price subsystem: pluggable sources tried in order, one TTL cache and a
+ * staleness flag on every price. Prices are BNB per 1e18 token units.
  */
 
-// Price cache (TTL: 5 minutes)
-const priceCache = new NodeCache({ stdTTL: PRICE_CACHE_TTL });
-
-export interface TokenPrice {
-	tokenAddress: string;
-	priceInBnb: string;
-	priceInUsd: string;
-	source: 'pancakeswap' | 'dexscreener';
-	timestamp: number;
-}
-
-export interface PairReserves {
-	reserve0: string;
-	reserve1: string;
-	token0: string;
-	token1: string;
-	pairAddress: string;
-}
-
-/**
- * Get PancakeSwap factory contract instance
- */
-function getFactoryContract(): ethers.Contract {
-	const provider = getProvider();
-	return new ethers.Contract(PANCAKE_FACTORY_ADDRESS, PANCAKESWAP_FACTORY_ABI, provider);
+export interface PriceQuote {
+	tokenAddress: string; // Lowercase
+	priceInBnb: number;
+	priceInUsd: number;
+	source: PriceSourceName | 'sync';
+	timestamp: number; // When the price was observed
+	stale: boolean; // Older than config.price.staleAfterMs - do not trade on it
 }
 
-/**
- * Get PancakeSwap pair contract instance
- */
-function getPairContract(pairAddress: string): ethers.Contract {
-	const provider = getProvider();
-	return new ethers.Contract(pairAddress, PANCAKESWAP_PAIR_ABI, provider);
+export interface PriceOptions {
+	useCache?: boolean; // Default true
 }
 
-/**
- * Get pair address for two tokens
- * @param tokenA - First token address
- * @param tokenB - Second token address
- * @returns Pair address or null if doesn't exist
- */
-export async function getPairAddress(tokenA: string, tokenB: string): Promise<string | null> {
-	try {
-		if (!isValidAddress(tokenA) || !isValidAddress(tokenB)) {
-			throw new Error('Invalid token addresses');
-		}
-
-		const factory = getFactoryContract();
-		const pairAddress = await factory.getPair(tokenA, tokenB);
+// Local fixture prices (tests, offline runs) - only consulted when 'fixture' is a configured source
+export const fixturePriceSource = new FixturePriceSource(config.price.fixtureFile);
 
-		// Check if pair exists (non-zero address)
-		if (pairAddress === ethers.constants.AddressZero) {
-			return null;
-		}
+export class PriceService {
+	private cache: Map<string, { priceInBnb: number; source: PriceQuote['source']; timestamp: number }> = new Map();
+	private registry: Map<PriceSourceName, PriceSource> = new Map();
+	private sources: PriceSource[] = [];
 
-		return pairAddress.toLowerCase();
-	} catch (error: any) {
-		logger.error(`Failed to get pair address for ${tokenA}/${tokenB}:`, error.message);
-		return null;
+	constructor() {
+		this.registerSource(new ReservesPriceSource());
+		this.registerSource(new RouterQuotePriceSource());
+		this.registerSource(new DexScreenerPriceSource(async () => (await bnbUsdOracle.getQuote()).price));
+		this.registerSource(fixturePriceSource);
+		this.setSources(config.price.sources as PriceSourceName[]);
 	}
-}
 
-/**
- * Get pair reserves
- * @param pairAddress - Pair contract address
- * @returns Pair reserves data
- */
-export async function getPairReserves(pairAddress: string): Promise<PairReserves | null> {
-	try {
-		if (!isValidAddress(pairAddress)) {
-			throw new Error('Invalid pair address');
-		}
-
-		const pairContract = getPairContract(pairAddress);
-
-		// Fetch token addresses and reserves in parallel
-		const [token0, token1, reserves] = await Promise.all([
-			pairContract.token0(),
-			pairContract.token1(),
-			pairContract.getReserves(),
-		]);
-
-		return {
-			reserve0: reserves.reserve0.toString(),
-			reserve1: reserves.reserve1.toString(),
-			token0: token0.toLowerCase(),
-			token1: token1.toLowerCase(),
-			pairAddress: pairAddress.toLowerCase(),
-		};
-	} catch (error: any) {
-		logger.error(`Failed to get pair reserves for ${pairAddress}:`, error.message);
-		return null;
+	/**
+	 * Make a source available to setSources()
+	 */
+	registerSource(source: PriceSource): void {
+		this.registry.set(source.name, source);
 	}
-}
-
-/**
- * Calculate token price from pair reserves
- * @param tokenAddress - Token to get price for
- * @param reserves - Pair reserves data
- * @returns Price in BNB (as string)
- */
-function calculatePriceFromReserves(tokenAddress: string, reserves: PairReserves): string {
-	const token = tokenAddress.toLowerCase();
-	const { reserve0, reserve1, token0, token1 } = reserves;
-
-	let tokenReserve: string;
-	let bnbReserve: string;
-
-	if (token === token0) {
-		tokenReserve = reserve0;
-		bnbReserve = reserve1;
-	} else if (token === token1) {
-		tokenReserve = reserve1;
-		bnbReserve = reserve0;
-	} else {
-		throw new Error('Token not in pair');
-	}
-
-	// Price = BNB Reserve / Token Reserve
-	const price = BigNumber.from(bnbReserve)
-		.mul(ethers.utils.parseEther('1'))
-		.div(tokenReserve);
-
-	return ethers.utils.formatEther(price);
-}
 
-/**
- * Get token price in BNB from PancakeSwap
- * @param tokenAddress - Token contract address
- * @param useCache - Use cached price if available
- * @returns Price in BNB or null if pair doesn't exist
- */
-export async function getTokenPriceInBnb(
-	tokenAddress: string,
-	useCache: boolean = true
-): Promise<string | null> {
-	try {
-		if (!isValidAddress(tokenAddress)) {
-			throw new Error('Invalid token address');
-		}
-
-		// Return 1 if asking for WBNB price
-		if (tokenAddress.toLowerCase() === WBNB_ADDRESS.toLowerCase()) {
-			return '1.0';
-		}
-
-		const cacheKey = `price_bnb_${tokenAddress.toLowerCase()}`;
-
-		// Check cache first
-		if (useCache) {
-			const cached = priceCache.get<string>(cacheKey);
-			if (cached) {
-				logger.debug(`Price cache hit: ${tokenAddress}`);
-				return cached;
-			}
-		}
-
-		logger.info(`Fetching price for ${tokenAddress}`);
-
-		// Get pair address
-		const pairAddress = await getPairAddress(tokenAddress, WBNB_ADDRESS);
-		if (!pairAddress) {
-			logger.warning(`No PancakeSwap pair found for ${tokenAddress}`);
-			return null;
-		}
+	/**
+	 * Choose which sources are asked, in order
+	 * @param names - Registered source names; unknown names are ignored
+	 */
+	setSources(names: PriceSourceName[]): void {
+		const sources = names
+			.map((name) => this.registry.get(name))
+			.filter((source): source is PriceSource => source !== undefined);
 
-		// Get reserves
-		const reserves = await getPairReserves(pairAddress);
-		if (!reserves) {
-			return null;
+		if (sources.length === 0) {
+			logger.warning(`No valid price sources in [${names.join(', ')}] - using reserves`);
+			sources.push(this.registry.get('reserves')!);
 		}
 
-		// Calculate price
-		const price = calculatePriceFromReserves(tokenAddress, reserves);
-
-		// Cache the price
-		priceCache.set(cacheKey, price);
-
-		logger.success(`Price fetched: ${price} BNB`);
-
-		return price;
-	} catch (error: any) {
-		logger.error(`Failed to get token price in BNB for ${tokenAddress}:`, error.message);
-		return null;
+		this.sources = sources;
 	}
-}
 
-/**
- * Get BNB price in USD from DEXScreener
- * @returns BNB price in USD
- */
-export async function getBnbPriceInUsd(): Promise<number> {
-	try {
-		const cacheKey = 'bnb_usd_price';
-
-		// Check cache first
-		const cached = priceCache.get<number>(cacheKey);
-		if (cached) {
-			return cached;
-		}
+	/**
+	 * Names of the active sources, in order
+	 */
+	getSourceNames(): PriceSourceName[] {
+		return this.sources.map((source) => source.name);
+	}
 
-		// Fetch from DEXScreener
-		const response = await axios.get(`${DEXSCREENER_API_URL}/tokens/${WBNB_ADDRESS}`, {
-			timeout: API_TIMEOUT,
+	/**
+	 * Price many tokens
+	 * Cached prices younger than the TTL are reused; the rest go to the sources in order.
+	 * Tokens no source could price fall back to their last cached price, flagged stale once old.
+	 * @param tokenAddresses - Token contract addresses
+	 * @param options - Cache options
+	 * @returns Quotes by lowercase token address (tokens never priced are omitted)
+	 */
+	async getPrices(tokenAddresses: string[], options: PriceOptions = {}): Promise<Map<string, PriceQuote>> {
+		const useCache = options.useCache !== false;
+		const wbnb = WBNB_ADDRESS.toLowerCase();
+		const tokens = [...new Set(tokenAddresses.map((address) => address.toLowerCase()))].filter((token) =>
+			isValidAddress(token)
+		);
+
+		const now = Date.now();
+		let missing = tokens.filter((token) => {
+			if (token === wbnb) return false;
+			const cached = this.cache.get(token);
+			return !useCache || !cached || now - cached.timestamp >= config.price.cacheTtlMs;
 		});
 
-		if (response.data && response.data.pairs && response.data.pairs.length > 0) {
-			// Get the first pair's price (usually WBNB/USDT)
-			const pair = response.data.pairs[0];
-			const bnbPrice = parseFloat(pair.priceUsd || '0');
-
-			if (bnbPrice > 0) {
-				// Cache for 5 minutes
-				priceCache.set(cacheKey, bnbPrice);
-				logger.success(`BNB price: $${bnbPrice}`);
-				return bnbPrice;
+		for (const source of this.sources) {
+			if (missing.length === 0) break;
+
+			try {
+				const prices = await source.getPrices(missing);
+				const observedAt = Date.now();
+				for (const [token, priceInBnb] of prices) {
+					this.cache.set(token, { priceInBnb, source: source.name, timestamp: observedAt });
+				}
+				missing = missing.filter((token) => !prices.has(token));
+			} catch (error: any) {
+				logger.error(`Price source ${source.name} failed: ${error.message}`);
 			}
 		}
 
-		// Fallback to default price if API fails
-		logger.warning('Failed to fetch BNB price from DEXScreener, using fallback');
-		return 300; // Fallback price
-	} catch (error: any) {
-		logger.error('Failed to get BNB price in USD:', error.message);
-		return 300; // Fallback price
-	}
-}
-
-/**
- * Get token price in USD
- * @param tokenAddress - Token contract address
- * @param useCache - Use cached price if available
- * @returns Price in USD or null if unavailable
- */
-export async function getTokenPriceInUsd(
-	tokenAddress: string,
-	useCache: boolean = true
-): Promise<string | null> {
-	try {
-		// Get price in BNB
-		const priceInBnb = await getTokenPriceInBnb(tokenAddress, useCache);
-		if (!priceInBnb) {
-			return null;
+		if (missing.length > 0) {
+			logger.debug(`No price source answered for ${missing.length}/${tokens.length} token(s)`);
 		}
 
-		// Get BNB price in USD
-		const bnbUsdPrice = await getBnbPriceInUsd();
+		const bnbUsd = tokens.length > 0 ? await bnbUsdOracle.getQuote() : null;
+		const quotes = new Map<string, PriceQuote>();
 
-		// Calculate token price in USD
-		const priceInUsd = parseFloat(priceInBnb) * bnbUsdPrice;
+		for (const token of tokens) {
+			const entry = token === wbnb
+				? { priceInBnb: 1, source: 'reserves' as const, timestamp: Date.now() }
+				: this.cache.get(token);
+			if (!entry) continue;
 
-		return priceInUsd.toString();
-	} catch (error: any) {
-		logger.error(`Failed to get token price in USD for ${tokenAddress}:`, error.message);
-		return null;
-	}
-}
-
-/**
- * Get comprehensive token price from PancakeSwap
- * @param tokenAddress - Token contract address
- * @param useCache - Use cached price if available
- * @returns Token price data
- */
-export async function getTokenPrice(
-	tokenAddress: string,
-	useCache: boolean = true
-): Promise<TokenPrice | null> {
-	try {
-		if (!isValidAddress(tokenAddress)) {
-			throw new Error('Invalid token address');
-		}
-
-		// Try PancakeSwap first
-		const priceInBnb = await getTokenPriceInBnb(tokenAddress, useCache);
-
-		if (priceInBnb) {
-			const bnbUsdPrice = await getBnbPriceInUsd();
-			const priceInUsd = (parseFloat(priceInBnb) * bnbUsdPrice).toString();
-
-			return {
-				tokenAddress: tokenAddress.toLowerCase(),
-				priceInBnb,
-				priceInUsd,
-				source: 'pancakeswap',
-				timestamp: Date.now(),
-			};
-		}
-
-		// Fallback to DEXScreener
-		logger.info('PancakeSwap price not available, trying DEXScreener');
-		const dexPrice = await getTokenPriceFromDexScreener(tokenAddress);
-
-		if (dexPrice) {
-			return dexPrice;
+			quotes.set(token, {
+				tokenAddress: token,
+				priceInBnb: entry.priceInBnb,
+				priceInUsd: entry.priceInBnb * (bnbUsd?.price || 0),
+				source: entry.source,
+				timestamp: entry.timestamp,
+				stale: Date.now() - entry.timestamp > config.price.staleAfterMs,
+			});
 		}
 
-		logger.warning(`No price available for ${tokenAddress}`);
-		return null;
-	} catch (error: any) {
-		logger.error(`Failed to get token price for ${tokenAddress}:`, error.message);
-		return null;
+		return quotes;
 	}
-}
-
-/**
- * Get token price from DEXScreener API (backup method)
- * @param tokenAddress - Token contract address
- * @returns Token price data or null
- */
-export async function getTokenPriceFromDexScreener(
-	tokenAddress: string
-): Promise<TokenPrice | null> {
-	try {
-		if (!isValidAddress(tokenAddress)) {
-			throw new Error('Invalid token address');
-		}
-
-		logger.info(`Fetching price from DEXScreener: ${tokenAddress}`);
-
-		// Make API request
-		const response = await axios.get(`${DEXSCREENER_API_URL}/tokens/${tokenAddress}`, {
-			timeout: API_TIMEOUT,
-		});
 
-		if (!response.data || !response.data.pairs || response.data.pairs.length === 0) {
-			logger.warning(`No DEXScreener data for ${tokenAddress}`);
-			return null;
-		}
-
-		// Find BSC pair
-		const bscPairs = response.data.pairs.filter((pair: any) => pair.chainId === 'bsc');
-		if (bscPairs.length === 0) {
-			logger.warning(`No BSC pairs found on DEXScreener for ${tokenAddress}`);
-			return null;
-		}
-
-		// Get the pair with highest liquidity
-		const bestPair = bscPairs.reduce((best: any, current: any) => {
-			const bestLiq = parseFloat(best.liquidity?.usd || '0');
-			const currentLiq = parseFloat(current.liquidity?.usd || '0');
-			return currentLiq > bestLiq ? current : best;
-		});
-
-		const priceInUsd = bestPair.priceUsd || '0';
-		const bnbUsdPrice = await getBnbPriceInUsd();
-		const priceInBnb = (parseFloat(priceInUsd) / bnbUsdPrice).toString();
-
-		logger.success(`DEXScreener price: $${priceInUsd}`);
-
-		return {
-			tokenAddress: tokenAddress.toLowerCase(),
-			priceInBnb,
-			priceInUsd,
-			source: 'dexscreener',
-			timestamp: Date.now(),
-		};
-	} catch (error: any) {
-		logger.error(`Failed to get price from DEXScreener for ${tokenAddress}:`, error.message);
-		return null;
+	/**
+	 * Price one token
+	 * @param tokenAddress - Token contract address
+	 * @param options - Cache options
+	 * @returns Quote or null if no source could ever price it
+	 */
+	async getPrice(tokenAddress: string, options: PriceOptions = {}): Promise<PriceQuote | null> {
+		const quotes = await this.getPrices([tokenAddress], options);
+		return quotes.get(tokenAddress.toLowerCase()) || null;
 	}
-}
 
-/**
- * Get token value in BNB for a given amount
- * @param tokenAddress - Token contract address
- * @param tokenAmount - Token amount (in human-readable format)
- * @param decimals - Token decimals (optional, will fetch if not provided)
- * @returns Value in BNB
- */
-export async function getTokenValueInBnb(
-	tokenAddress: string,
-	tokenAmount: string,
-	decimals?: number
-): Promise<string | null> {
-	try {
-		const priceInBnb = await getTokenPriceInBnb(tokenAddress);
-		if (!priceInBnb) {
-			return null;
+	/**
+	 * Fresh BNB prices for monitors that act on them
+	 * Stale prices are left out so nothing triggers on an old price
+	 * @param tokenAddresses - Token contract addresses
+	 * @returns Price in BNB keyed by the address exactly as passed in
+	 */
+	async getFreshPricesInBnb(tokenAddresses: string[]): Promise<Map<string, number>> {
+		const quotes = await this.getPrices(tokenAddresses);
+		const prices = new Map<string, number>();
+		let staleCount = 0;
+
+		for (const address of tokenAddresses) {
+			const quote = quotes.get(address.toLowerCase());
+			if (!quote) continue;
+			if (quote.stale) {
+				staleCount++;
+				continue;
+			}
+			prices.set(address, quote.priceInBnb);
 		}
 
-		// Get decimals if not provided
-		if (decimals === undefined) {
-			decimals = await getTokenDecimals(tokenAddress);
+		if (staleCount > 0) {
+			logger.warning(`Skipped ${staleCount} stale price(s)`);
 		}
 
-		// Parse token amount with decimals
-		const amountBN = ethers.utils.parseUnits(tokenAmount, decimals);
-
-		// Calculate value: (amount * price)
-		const value = amountBN.mul(ethers.utils.parseEther(priceInBnb)).div(ethers.utils.parseEther('1'));
-
-		return ethers.utils.formatEther(value);
-	} catch (error: any) {
-		logger.error('Failed to get token value in BNB:', error.message);
-		return null;
+		return prices;
 	}
-}
 
-/**
- * Get token value in USD for a given amount
- * @param tokenAddress - Token contract address
- * @param tokenAmount - Token amount (in human-readable format)
- * @param decimals - Token decimals (optional)
- * @returns Value in USD
- */
-export async function getTokenValueInUsd(
-	tokenAddress: string,
-	tokenAmount: string,
-	decimals?: number
-): Promise<string | null> {
-	try {
-		const valueInBnb = await getTokenValueInBnb(tokenAddress, tokenAmount, decimals);
-		if (!valueInBnb) {
-			return null;
-		}
-
-		const bnbUsdPrice = await getBnbPriceInUsd();
-		const valueInUsd = parseFloat(valueInBnb) * bnbUsdPrice;
-
-		return valueInUsd.toString();
-	} catch (error: any) {
-		logger.error('Failed to get token value in USD:', error.message);
-		return null;
+	/**
+	 * Record a price observed elsewhere (e.g. a pair Sync event)
+	 */
+	setPrice(tokenAddress: string, priceInBnb: number, source: PriceQuote['source'] = 'sync'): void {
+		this.cache.set(tokenAddress.toLowerCase(), { priceInBnb, source, timestamp: Date.now() });
 	}
-}
 
-/**
- * Batch fetch token prices
- * @param tokenAddresses - Array of token addresses
- * @param useCache - Use cached prices if available
- * @returns Array of token prices (null for failed fetches)
- */
-export async function getBatchTokenPrices(
-	tokenAddresses: string[],
-	useCache: boolean = true
-): Promise<(TokenPrice | null)[]> {
-	try {
-		logger.info(`Fetching prices for ${tokenAddresses.length} tokens`);
-
-		const pricePromises = tokenAddresses.map((address) => getTokenPrice(address, useCache));
-
-		const results = await Promise.all(pricePromises);
-
-		const successCount = results.filter((p) => p !== null).length;
-		logger.success(`Fetched prices for ${successCount}/${tokenAddresses.length} tokens`);
-
-		return results;
-	} catch (error: any) {
-		logger.error('Failed to batch fetch token prices:', error.message);
-		return tokenAddresses.map(() => null);
+	/**
+	 * Get the BNB price in USD from the median oracle
+	 */
+	getBnbUsd(): Promise<BnbUsdQuote> {
+		return bnbUsdOracle.getQuote();
 	}
-}
-
-/**
- * Get expected output amount for a swap (using router)
- * @param amountIn - Input amount in wei
- * @param tokenIn - Input token address (use WBNB_ADDRESS for BNB)
- * @param tokenOut - Output token address
- * @returns Expected output amount in wei
- */
-export async function getExpectedOutputAmount(
-	amountIn: string,
-	tokenIn: string,
-	tokenOut: string
-): Promise<string | null> {
-	try {
-		const path = [tokenIn, tokenOut];
-		const amounts = await getAmountsOut(amountIn, path);
 
-		if (amounts && amounts.length >= 2) {
-			return amounts[1];
+	/**
+	 * Clear cached prices
+	 * @param tokenAddress - Optional token to clear, or everything if not provided
+	 */
+	clearCache(tokenAddress?: string): void {
+		if (tokenAddress) {
+			this.cache.delete(tokenAddress.toLowerCase());
+		} else {
+			this.cache.clear();
 		}
-
-		return null;
-	} catch (error: any) {
-		logger.error('Failed to get expected output amount:', error.message);
-		return null;
 	}
-}
 
-/**
- * Clear price cache
- * @param tokenAddress - Optional specific token address to clear, or clear all if not provided
- */
-export function clearPriceCache(tokenAddress?: string): void {
-	if (tokenAddress) {
-		const cacheKey = `price_bnb_${tokenAddress.toLowerCase()}`;
-		priceCache.del(cacheKey);
-		logger.info(`Cleared price cache for ${tokenAddress}`);
-	} else {
-		priceCache.flushAll();
-		logger.info('Cleared all price cache');
+	/**
+	 * Number of cached token prices
+	 */
+	getCacheSize(): number {
+		return this.cache.size;
 	}
 }
 
-/**
- * Check if pair has sufficient liquidity
- * @param tokenAddress - Token contract address
- * @param minLiquidityBnb - Minimum liquidity in BNB
- * @returns True if liquidity is sufficient
- */
-export async function hasSufficientLiquidity(
-	tokenAddress: string,
-	minLiquidityBnb: number = 1
-): Promise<boolean> {
-	try {
-		const pairAddress = await getPairAddress(tokenAddress, WBNB_ADDRESS);
-		if (!pairAddress) {
-			return false;
-		}
-
-		const reserves = await getPairReserves(pairAddress);
-		if (!reserves) {
-			return false;
-		}
-
-		const token = tokenAddress.toLowerCase();
-		const bnbReserve =
-			token === reserves.token0.toLowerCase() ? reserves.reserve1 : reserves.reserve0;
-
-		const bnbLiquidity = parseFloat(ethers.utils.formatEther(bnbReserve));
-
-		return bnbLiquidity >= minLiquidityBnb;
-	} catch (error: any) {
-		logger.error('Failed to check liquidity:', error.message);
-		return false;
-	}
-}
+// Singleton instance
+export const priceService = new PriceService();
@@ -0,0 +1,203 @@
+import { ethers } from 'ethers';
+import axios from 'axios';
+import fs from 'fs';
+import { getPairReservesBatch, getPriceFromReserves } from './pair.service';
+import { multicall } from '../rpc/multicall';
+import { logger } from '../../utils/logger';
+import {
+	PANCAKE_ROUTER_ADDRESS,
+	WBNB_ADDRESS,
+	DEXSCREENER_API_URL,
+	DEXSCREENER_MAX_TOKENS_PER_REQUEST,
+	API_TIMEOUT,
+} from '../../config/constants';
+import { PANCAKESWAP_ROUTER_ABI } from '../../abi/pancakeswap-router.abi';
+
+/**
+ * Price Sources
+ * Each source prices a batch of tokens in BNB per 1e18 token units (the unit every
+ * price in the bot uses). The price service tries its sources in order and only asks
+ * the next one for tokens that are still unpriced.
+ */
+
+export type PriceSourceName = 'reserves' | 'router' | 'dexscreener' | 'fixture';
+
+export interface PriceSource {
+	readonly name: PriceSourceName;
+	/**
+	 * Price tokens in BNB
+	 * @param tokenAddresses - Lowercase token addresses (never WBNB)
+	 * @returns Prices by lowercase token address; unpriced tokens are omitted
+	 */
+	getPrices(tokenAddresses: string[]): Promise<Map<string, number>>;
+}
+
+const routerInterface = new ethers.utils.Interface(PANCAKESWAP_ROUTER_ABI);
+
+/**
+ * Spot price from the PancakeSwap V2 WBNB pair reserves (Multicall3 batch)
+ */
+export class ReservesPriceSource implements PriceSource {
+	readonly name = 'reserves';
+
+	async getPrices(tokenAddresses: string[]): Promise<Map<string, number>> {
+		const prices = new Map<string, number>();
+		const reservesByToken = await getPairReservesBatch(tokenAddresses);
+
+		for (const [token, reserves] of reservesByToken) {
+			const price = getPriceFromReserves(token, reserves);
+			if (price > 0) prices.set(token, price);
+		}
+
+		return prices;
+	}
+}
+
+/**
+ * Router quote for selling 1e18 token units to WBNB (includes the 0.25% LP fee)
+ */
+export class RouterQuotePriceSource implements PriceSource {
+	readonly name = 'router';
+
+	async getPrices(tokenAddresses: string[]): Promise<Map<string, number>> {
+		const prices = new Map<string, number>();
+		const amountIn = ethers.utils.parseEther('1');
+
+		const results = await multicall(
+			tokenAddresses.map((token) => ({
+				target: PANCAKE_ROUTER_ADDRESS,
+				iface: routerInterface,
+				method: 'getAmountsOut',
+				args: [amountIn, [token, WBNB_ADDRESS]],
+			}))
+		);
+
+		results.forEach((result, index) => {
+			if (!result) return;
+
+			const amounts: ethers.BigNumber[] = result[0];
+			const price = parseFloat(ethers.utils.formatEther(amounts[amounts.length - 1]));
+			if (price > 0) prices.set(tokenAddresses[index], price);
+		});
+
+		return prices;
+	}
+}
+
+/**
+ * Fetch DexScreener pairs for up to DEXSCREENER_MAX_TOKENS_PER_REQUEST tokens per request
+ * @param tokenAddresses - Token addresses
+ * @returns BSC pairs (all chunks combined; failed chunks are logged and skipped)
+ */
+export async function fetchDexScreenerPairs(tokenAddresses: string[]): Promise<any[]> {
+	const pairs: any[] = [];
+
+	for (let start = 0; start < tokenAddresses.length; start += DEXSCREENER_MAX_TOKENS_PER_REQUEST) {
+		const chunk = tokenAddresses.slice(start, start + DEXSCREENER_MAX_TOKENS_PER_REQUEST);
+
+		try {
+			const response = await axios.get(`${DEXSCREENER_API_URL}/tokens/${chunk.join(',')}`, {
+				timeout: API_TIMEOUT,
+			});
+			pairs.push(...(response.data?.pairs || []).filter((pair: any) => pair.chainId === 'bsc'));
+		} catch (error: any) {
+			logger.warning(`DexScreener request for ${chunk.length} token(s) failed: ${error.message}`);
+		}
+	}
+
+	return pairs;
+}
+
+/**
+ * Price from the deepest BSC pair on DexScreener
+ * WBNB-quoted pairs use the native price directly, others convert the USD price
+ */
+export class DexScreenerPriceSource implements PriceSource {
+	readonly name = 'dexscreener';
+
+	constructor(private getBnbUsd: () => Promise<number>) {}
+
+	async getPrices(tokenAddresses: string[]): Promise<Map<string, number>> {
+		const prices = new Map<string, number>();
+		const wanted = new Set(tokenAddresses);
+		const bestPairs = new Map<string, any>();
+
+		for (const pair of await fetchDexScreenerPairs(tokenAddresses)) {
+			const token = pair.baseToken?.address?.toLowerCase();
+			if (!token || !wanted.has(token)) continue;
+
+			const best = bestPairs.get(token);
+			if (!best || parseFloat(pair.liquidity?.usd || '0') > parseFloat(best.liquidity?.usd || '0')) {
+				bestPairs.set(token, pair);
+			}
+		}
+
+		let bnbUsd = 0;
+		for (const [token, pair] of bestPairs) {
+			if (pair.quoteToken?.address?.toLowerCase() === WBNB_ADDRESS.toLowerCase()) {
+				const price = parseFloat(pair.priceNative || '0');
+				if (price > 0) prices.set(token, price);
+				continue;
+			}
+
+			if (!bnbUsd) bnbUsd = await this.getBnbUsd();
+			const price = parseFloat(pair.priceUsd || '0') / bnbUsd;
+			if (price > 0) prices.set(token, price);
+		}
+
+		return prices;
+	}
+}
+
+/**
+ * Fixed prices for tests and offline runs
+ * Seeded from PRICE_FIXTURE_FILE (JSON { "tokenAddress": priceInBnb }) or set in code
+ */
+export class FixturePriceSource implements PriceSource {
+	readonly name = 'fixture';
+	private prices: Map<string, number> = new Map();
+
+	constructor(fixtureFile?: string) {
+		if (fixtureFile) {
+			this.load(fixtureFile);
+		}
+	}
+
+	async getPrices(tokenAddresses: string[]): Promise<Map<string, number>> {
+		const prices = new Map<string, number>();
+		for (const token of tokenAddresses) {
+			const price = this.prices.get(token);
+			if (price !== undefined) prices.set(token, price);
+		}
+		return prices;
+	}
+
+	/**
+	 * Set a token's fixture price
+	 */
+	set(tokenAddress: string, priceInBnb: number): void {
+		this.prices.set(tokenAddress.toLowerCase(), priceInBnb);
+	}
+
+	/**
+	 * Remove all fixture prices
+	 */
+	clear(): void {
+		this.prices.clear();
+	}
+
+	/**
+	 * Load prices from a JSON file
+	 */
+	load(fixtureFile: string): void {
+		try {
+			const data: Record<string, number> = JSON.parse(fs.readFileSync(fixtureFile, 'utf8'));
+			for (const [token, price] of Object.entries(data)) {
+				this.set(token, Number(price));
+			}
+			logger.info(`Loaded ${Object.keys(data).length} fixture price(s) from ${fixtureFile}`);
+		} catch (error: any) {
+			logger.error(`Failed to load price fixtures from ${fixtureFile}: ${error.message}`);
+		}
+	}
+}
@@ -0,0 +1,7 @@
+/**
+ * RPC Module Export
+ * Central export point for the shared provider pool and multicall
+ */
+
+export * from './provider.pool';
+export * from './multicall';
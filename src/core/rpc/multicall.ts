@@ -0,0 +1,72 @@
+import { ethers } from 'ethers';
+import { providerPool } from './provider.pool';
+import { logger } from '../../utils/logger';
+import { MULTICALL3_ADDRESS, MULTICALL_CHUNK_SIZE } from '../../config/constants';
+import { MULTICALL3_ABI } from '../../abi/multicall3.abi';
+
+/**
+ * Multicall
+ * Batches read-only contract calls into Multicall3 aggregate3 eth_calls, so a
+ * monitoring cycle costs one request per chunk instead of one per call.
+ */
+
+export interface MulticallCall {
+	target: string;
+	iface: ethers.utils.Interface;
+	method: string;
+	args?: ReadonlyArray<any>;
+}
+
+export const multicallInterface = new ethers.utils.Interface(MULTICALL3_ABI);
+
+/**
+ * Execute calls through Multicall3
+ * Calls that revert, or chunks whose eth_call fails, resolve to null
+ * @param calls - Calls to batch
+ * @param chunkSize - Max calls per eth_call
+ * @returns Decoded results in call order
+ */
+export async function multicall(
+	calls: MulticallCall[],
+	chunkSize: number = MULTICALL_CHUNK_SIZE
+): Promise<(ethers.utils.Result | null)[]> {
+	const results: (ethers.utils.Result | null)[] = new Array(calls.length).fill(null);
+	if (calls.length === 0) return results;
+
+	const contract = new ethers.Contract(MULTICALL3_ADDRESS, MULTICALL3_ABI, providerPool.getProvider());
+
+	const starts: number[] = [];
+	for (let start = 0; start < calls.length; start += chunkSize) {
+		starts.push(start);
+	}
+
+	await Promise.all(
+		starts.map(async (start) => {
+			const chunk = calls.slice(start, start + chunkSize);
+
+			try {
+				const response: Array<{ success: boolean; returnData: string }> = await contract.callStatic.aggregate3(
+					chunk.map((call) => ({
+						target: call.target,
+						allowFailure: true,
+						callData: call.iface.encodeFunctionData(call.method, call.args || []),
+					}))
+				);
+
+				response.forEach(({ success, returnData }, index) => {
+					if (!success || returnData === '0x') return;
+
+					try {
+						results[start + index] = chunk[index].iface.decodeFunctionResult(chunk[index].method, returnData);
+					} catch {
+						// Non-conforming return data (e.g. not a contract) - leave null
+					}
+				});
+			} catch (error: any) {
+				logger.error(`Multicall chunk of ${chunk.length} calls failed: ${error.message}`);
+			}
+		})
+	);
+
+	return results;
+}
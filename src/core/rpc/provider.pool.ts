@@ -0,0 +1,412 @@
+import { ethers } from 'ethers';
+import { config } from '../../config/config';
+import { logger } from '../../utils/logger';
+
+/**
+ * RPC Provider Pool
+ * Shares a set of BSC HTTP endpoints between every module. Endpoints are scored by
+ * latency and block height, rate limited individually and skipped while unhealthy,
+ * so a slow or lagging node never stalls trading.
+ */
+
+const BSC_NETWORK = { chainId: 56, name: 'bnb' };
+
+// Consecutive failures before an endpoint is put on cooldown
+const MAX_CONSECUTIVE_FAILURES = 3;
+const FAILURE_COOLDOWN_MS = 30000;
+
+// Score penalties (score ~ milliseconds, lower is better)
+const BLOCK_LAG_PENALTY = 500;
+const FAILURE_PENALTY = 1000;
+
+// Weight of the newest sample in the latency moving average
+const LATENCY_EWMA_ALPHA = 0.3;
+
+interface RpcEndpoint {
+	url: string;
+	provider: ethers.providers.StaticJsonRpcProvider;
+	rateLimit: number; // Requests per second
+	tokens: number;
+	lastRefill: number;
+	latencyMs: number;
+	blockNumber: number;
+	failures: number; // Consecutive
+	cooldownUntil: number;
+	requests: number;
+	errors: number;
+}
+
+export interface RpcEndpointStatus {
+	url: string;
+	healthy: boolean;
+	latencyMs: number;
+	blockNumber: number;
+	blockLag: number;
+	failures: number;
+	requests: number;
+	errors: number;
+}
+
+/**
+ * Errors that say nothing about the request itself (transport, throttling, lagging node)
+ * and are safe to retry on another endpoint
+ */
+function isRetryableError(error: unknown): boolean {
+	if (typeof error !== 'object' || error === null) return false;
+
+	const code = 'code' in error ? error.code : undefined;
+	if (
+		code === ethers.errors.SERVER_ERROR ||
+		code === ethers.errors.TIMEOUT ||
+		code === ethers.errors.NETWORK_ERROR ||
+		code === -32005 || // Limit exceeded
+		code === -32603 // Internal error
+	) {
+		return true;
+	}
+
+	const message = String(('message' in error && error.message) || '').toLowerCase();
+	return /rate limit|limit exceeded|too many requests|header not found|missing trie node|econnreset|econnrefused|etimedout|socket hang up/.test(message);
+}
+
+/**
+ * Node already has the transaction (sent earlier or by another endpoint)
+ */
+function isAlreadyKnownError(error: any): boolean {
+	const message = String(error?.error?.message || error?.message || '').toLowerCase();
+	return message.includes('already known') || message.includes('known transaction');
+}
+
+/**
+ * Endpoint URL without path or query, so API keys never reach the logs
+ */
+function maskUrl(url: string): string {
+	try {
+		const parsed = new URL(url);
+		return `${parsed.protocol}//${parsed.host}`;
+	} catch {
+		return url;
+	}
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Provider that routes every JSON-RPC call through the pool
+ * Drop-in for JsonRpcProvider: contracts, signers and wallets work unchanged
+ */
+export class PooledProvider extends ethers.providers.StaticJsonRpcProvider {
+	constructor(private pool: ProviderPool, url: string) {
+		super(url, BSC_NETWORK);
+	}
+
+	send(method: string, params: Array<any>): Promise<any> {
+		return this.pool.send(method, params);
+	}
+}
+
+export class ProviderPool {
+	private endpoints: RpcEndpoint[] = [];
+	private wssUrls: string[];
+	private wssIndex: number = 0;
+	private bestBlock: number = 0;
+	private provider: PooledProvider;
+	private healthHandle: NodeJS.Timeout | null = null;
+
+	constructor() {
+		for (const entry of config.bsc.rpcHttpUrls) {
+			const [url, rps] = entry.split('|').map((part) => part.trim());
+			const rateLimit = parseInt(rps, 10) > 0 ? parseInt(rps, 10) : config.bsc.rpcDefaultRateLimit;
+
+			this.endpoints.push({
+				url,
+				// throttleLimit 1: fail over on HTTP 429 instead of ethers' built-in backoff
+				provider: new ethers.providers.StaticJsonRpcProvider(
+					{ url, timeout: config.bsc.rpcRequestTimeout, throttleLimit: 1 },
+					BSC_NETWORK
+				),
+				rateLimit,
+				tokens: rateLimit,
+				lastRefill: Date.now(),
+				latencyMs: 0,
+				blockNumber: 0,
+				failures: 0,
+				cooldownUntil: 0,
+				requests: 0,
+				errors: 0,
+			});
+		}
+
+		this.wssUrls = config.bsc.rpcWssUrls;
+		this.provider = new PooledProvider(this, this.endpoints[0]?.url || config.bsc.rpcHttpUrl);
+	}
+
+	/**
+	 * Start periodic health checks
+	 */
+	async start(): Promise<void> {
+		if (this.healthHandle) return;
+
+		await this.checkHealth();
+		this.healthHandle = setInterval(() => {
+			this.checkHealth();
+		}, config.bsc.rpcHealthCheckInterval);
+
+		const healthy = this.getStatus().filter((status) => status.healthy).length;
+		logger.info(`🌐 RPC pool started (${healthy}/${this.endpoints.length} HTTP endpoints healthy, broadcast: ${config.bsc.rpcBroadcastMode})`);
+	}
+
+	/**
+	 * Stop health checks
+	 */
+	stop(): void {
+		if (this.healthHandle) {
+			clearInterval(this.healthHandle);
+			this.healthHandle = null;
+		}
+	}
+
+	/**
+	 * Get the shared pooled provider
+	 */
+	getProvider(): PooledProvider {
+		return this.provider;
+	}
+
+	/**
+	 * Current WebSocket URL
+	 */
+	getWssUrl(): string {
+		return this.wssUrls[this.wssIndex % this.wssUrls.length];
+	}
+
+	/**
+	 * Move to the next WebSocket URL (after a dropped connection)
+	 * @returns Next WebSocket URL
+	 */
+	rotateWssUrl(): string {
+		this.wssIndex = (this.wssIndex + 1) % this.wssUrls.length;
+		return this.getWssUrl();
+	}
+
+	/**
+	 * Health of every HTTP endpoint
+	 */
+	getStatus(): RpcEndpointStatus[] {
+		return this.endpoints.map((endpoint) => ({
+			url: maskUrl(endpoint.url),
+			healthy: this.isHealthy(endpoint),
+			latencyMs: Math.round(endpoint.latencyMs),
+			blockNumber: endpoint.blockNumber,
+			blockLag: this.bestBlock > 0 ? Math.max(this.bestBlock - endpoint.blockNumber, 0) : 0,
+			failures: endpoint.failures,
+			requests: endpoint.requests,
+			errors: endpoint.errors,
+		}));
+	}
+
+	/**
+	 * Route a JSON-RPC request through the pool
+	 * Reads fail over to the next best endpoint on transport errors; signed
+	 * transactions are also broadcast to several endpoints in 'fastest' mode.
+	 * @param method - JSON-RPC method
+	 * @param params - JSON-RPC params
+	 * @returns Result of the first endpoint that answered
+	 */
+	async send(method: string, params: Array<any>): Promise<any> {
+		if (method === 'eth_sendRawTransaction') {
+			return this.sendRawTransaction(params);
+		}
+
+		const ranked = this.rankEndpoints();
+		let lastError: any;
+
+		for (const endpoint of ranked) {
+			try {
+				return await this.sendTo(endpoint, method, params);
+			} catch (error: any) {
+				lastError = error;
+				if (!isRetryableError(error)) throw error;
+				logger.debug(`RPC ${method} failed on ${maskUrl(endpoint.url)}, failing over: ${error.message}`);
+			}
+		}
+
+		throw lastError || new Error('No RPC endpoints configured');
+	}
+
+	/**
+	 * Broadcast a signed transaction
+	 * Resends of the same signed payload are harmless, so every endpoint may be tried
+	 */
+	private async sendRawTransaction(params: Array<any>): Promise<string> {
+		const rawTx: string = params[0];
+		const txHash = ethers.utils.keccak256(rawTx);
+		const ranked = this.rankEndpoints();
+
+		const sendOne = async (endpoint: RpcEndpoint): Promise<string> => {
+			try {
+				return await this.sendTo(endpoint, 'eth_sendRawTransaction', params);
+			} catch (error: any) {
+				if (isAlreadyKnownError(error)) return txHash;
+				throw error;
+			}
+		};
+
+		if (config.bsc.rpcBroadcastMode === 'fastest' && ranked.length > 1) {
+			const targets = ranked.slice(0, Math.max(config.bsc.rpcBroadcastFanout, 1));
+
+			try {
+				return await this.firstSuccess(targets.map((endpoint) => sendOne(endpoint)));
+			} catch (failure: unknown) {
+				const errors: unknown[] = Array.isArray(failure) ? failure : [failure];
+
+				// Surface a node's verdict (nonce too low, insufficient funds) over transport noise
+				const rejection = errors.find((error) => !isRetryableError(error));
+				if (rejection) throw rejection;
+
+				// Every fan-out target was unreachable - fall through to the remaining endpoints
+				ranked.splice(0, targets.length);
+				if (ranked.length === 0) throw errors[0];
+			}
+		}
+
+		let lastError: any;
+		for (const endpoint of ranked) {
+			try {
+				return await sendOne(endpoint);
+			} catch (error: any) {
+				lastError = error;
+				if (!isRetryableError(error)) throw error;
+				logger.warning(`Broadcast failed on ${maskUrl(endpoint.url)}, trying next endpoint: ${error.message}`);
+			}
+		}
+
+		throw lastError || new Error('No RPC endpoints configured');
+	}
+
+	/**
+	 * Resolve with the first fulfilled promise, reject with all errors (unknown[]) if none succeed
+	 */
+	private firstSuccess<T>(promises: Promise<T>[]): Promise<T> {
+		return new Promise((resolve, reject) => {
+			const errors: unknown[] = new Array(promises.length);
+			let pending = promises.length;
+
+			promises.forEach((promise, index) => {
+				promise.then(resolve, (error) => {
+					errors[index] = error;
+					if (--pending === 0) reject(errors);
+				});
+			});
+		});
+	}
+
+	/**
+	 * Send one request to one endpoint, updating its latency and failure stats
+	 */
+	private async sendTo(endpoint: RpcEndpoint, method: string, params: Array<any>): Promise<any> {
+		await this.acquire(endpoint);
+
+		const startedAt = Date.now();
+		endpoint.requests++;
+
+		try {
+			const result = await endpoint.provider.send(method, params);
+			this.recordSuccess(endpoint, Date.now() - startedAt);
+			return result;
+		} catch (error: any) {
+			if (isRetryableError(error)) {
+				this.recordFailure(endpoint, error);
+			}
+			throw error;
+		}
+	}
+
+	/**
+	 * Wait for a rate limit token (token bucket refilled every second)
+	 */
+	private async acquire(endpoint: RpcEndpoint): Promise<void> {
+		while (true) {
+			const now = Date.now();
+			const elapsed = (now - endpoint.lastRefill) / 1000;
+			endpoint.tokens = Math.min(endpoint.rateLimit, endpoint.tokens + elapsed * endpoint.rateLimit);
+			endpoint.lastRefill = now;
+
+			if (endpoint.tokens >= 1) {
+				endpoint.tokens -= 1;
+				return;
+			}
+
+			await sleep(Math.ceil(((1 - endpoint.tokens) / endpoint.rateLimit) * 1000));
+		}
+	}
+
+	/**
+	 * Healthy endpoints best-first, with throttled ones moved to the back
+	 * Falls back to every endpoint when none is healthy
+	 */
+	private rankEndpoints(): RpcEndpoint[] {
+		const healthy = this.endpoints.filter((endpoint) => this.isHealthy(endpoint));
+		const candidates = healthy.length > 0 ? healthy : [...this.endpoints];
+
+		return candidates.sort((a, b) => {
+			const aThrottled = a.tokens < 1 ? 1 : 0;
+			const bThrottled = b.tokens < 1 ? 1 : 0;
+			return aThrottled - bThrottled || this.score(a) - this.score(b);
+		});
+	}
+
+	/**
+	 * Endpoint score (lower is better)
+	 */
+	private score(endpoint: RpcEndpoint): number {
+		const lag = this.bestBlock > 0 ? Math.max(this.bestBlock - endpoint.blockNumber, 0) : 0;
+		return endpoint.latencyMs + lag * BLOCK_LAG_PENALTY + endpoint.failures * FAILURE_PENALTY;
+	}
+
+	private isHealthy(endpoint: RpcEndpoint): boolean {
+		if (endpoint.cooldownUntil > Date.now()) return false;
+		if (this.bestBlock > 0 && endpoint.blockNumber > 0) {
+			return this.bestBlock - endpoint.blockNumber <= config.bsc.rpcMaxBlockLag;
+		}
+		return true;
+	}
+
+	private recordSuccess(endpoint: RpcEndpoint, latencyMs: number): void {
+		endpoint.latencyMs = endpoint.latencyMs === 0
+			? latencyMs
+			: endpoint.latencyMs * (1 - LATENCY_EWMA_ALPHA) + latencyMs * LATENCY_EWMA_ALPHA;
+		endpoint.failures = 0;
+	}
+
+	private recordFailure(endpoint: RpcEndpoint, error: any): void {
+		endpoint.errors++;
+		endpoint.failures++;
+
+		if (endpoint.failures >= MAX_CONSECUTIVE_FAILURES && endpoint.cooldownUntil <= Date.now()) {
+			endpoint.cooldownUntil = Date.now() + FAILURE_COOLDOWN_MS;
+			logger.warning(`🌐 RPC ${maskUrl(endpoint.url)} on cooldown after ${endpoint.failures} failures: ${error.message}`);
+		}
+	}
+
+	/**
+	 * Poll block height and latency of every endpoint
+	 */
+	private async checkHealth(): Promise<void> {
+		await Promise.all(
+			this.endpoints.map(async (endpoint) => {
+				try {
+					const result = await this.sendTo(endpoint, 'eth_blockNumber', []);
+					endpoint.blockNumber = parseInt(result, 16);
+				} catch (error: any) {
+					logger.debug(`RPC health check failed for ${maskUrl(endpoint.url)}: ${error.message}`);
+				}
+			})
+		);
+
+		this.bestBlock = Math.max(0, ...this.endpoints.map((endpoint) => endpoint.blockNumber));
+	}
+}
+
+// Singleton instance
+export const providerPool = new ProviderPool();
@@ -0,0 +1,19 @@
+/**
+ * Stats Module
+ * Exports all portfolio stats functionality
+ */
+
+// Service exports
+export {
+	getPortfolioStats,
+	getPeriodStart,
+	getBucketLabel,
+	type StatsPeriod,
+	type PnlBucket,
+	type PnlBreakdown,
+	type ClosedTrade,
+	type PortfolioStats,
+} from './stats.service';
+
+// Chart exports
+export { renderPnlChart } from './stats.chart';
@@ -0,0 +1,270 @@
+import zlib from 'zlib';
+import { PnlBucket } from './stats.service';
+
+/**
+ * PNL Chart
+ * Renders realized PNL buckets as a PNG (bars per bucket plus a cumulative line) without any
+ * canvas dependency: pixels are drawn into an RGB buffer and encoded with zlib.
+ */
+
+type Color = [number, number, number];
+
+const WIDTH = 640;
+const HEIGHT = 320;
+const MARGIN = { left: 68, right: 12, top: 16, bottom: 28 };
+const FONT_SCALE = 2;
+
+const COLORS = {
+	background: [24, 26, 32] as Color,
+	grid: [52, 56, 66] as Color,
+	zero: [140, 146, 160] as Color,
+	gain: [38, 166, 91] as Color,
+	loss: [214, 69, 65] as Color,
+	cumulative: [241, 196, 15] as Color,
+	text: [200, 204, 214] as Color,
+};
+
+/**
+ * 3x5 glyphs for axis labels (rows top to bottom, '1' = lit pixel)
+ */
+const GLYPHS: Record<string, string[]> = {
+	'0': ['111', '101', '101', '101', '111'],
+	'1': ['010', '110', '010', '010', '111'],
+	'2': ['111', '001', '111', '100', '111'],
+	'3': ['111', '001', '111', '001', '111'],
+	'4': ['101', '101', '111', '001', '001'],
+	'5': ['111', '100', '111', '001', '111'],
+	'6': ['111', '100', '111', '101', '111'],
+	'7': ['111', '001', '010', '010', '010'],
+	'8': ['111', '101', '111', '101', '111'],
+	'9': ['111', '101', '111', '001', '111'],
+	'-': ['000', '000', '111', '000', '000'],
+	'+': ['000', '010', '111', '010', '000'],
+	'.': ['000', '000', '000', '000', '010'],
+	W: ['101', '101', '101', '111', '101'],
+	' ': ['000', '000', '000', '000', '000'],
+};
+
+/**
+ * Minimal RGB raster
+ */
+class Raster {
+	readonly pixels: Buffer;
+
+	constructor(readonly width: number, readonly height: number, background: Color) {
+		this.pixels = Buffer.alloc(width * height * 3);
+		this.fillRect(0, 0, width, height, background);
+	}
+
+	setPixel(x: number, y: number, color: Color): void {
+		x = Math.round(x);
+		y = Math.round(y);
+		if (x < 0 || y < 0 || x >= this.width || y >= this.height) return;
+
+		const offset = (y * this.width + x) * 3;
+		this.pixels[offset] = color[0];
+		this.pixels[offset + 1] = color[1];
+		this.pixels[offset + 2] = color[2];
+	}
+
+	fillRect(x: number, y: number, width: number, height: number, color: Color): void {
+		for (let row = Math.round(y); row < Math.round(y + height); row++) {
+			for (let col = Math.round(x); col < Math.round(x + width); col++) {
+				this.setPixel(col, row, color);
+			}
+		}
+	}
+
+	/** Bresenham line, `thickness` pixels tall */
+	line(x0: number, y0: number, x1: number, y1: number, color: Color, thickness: number = 1): void {
+		x0 = Math.round(x0);
+		y0 = Math.round(y0);
+		x1 = Math.round(x1);
+		y1 = Math.round(y1);
+
+		const dx = Math.abs(x1 - x0);
+		const dy = -Math.abs(y1 - y0);
+		const sx = x0 < x1 ? 1 : -1;
+		const sy = y0 < y1 ? 1 : -1;
+		let error = dx + dy;
+
+		for (;;) {
+			for (let t = 0; t < thickness; t++) this.setPixel(x0, y0 + t, color);
+			if (x0 === x1 && y0 === y1) break;
+
+			const doubled = 2 * error;
+			if (doubled >= dy) {
+				error += dy;
+				x0 += sx;
+			}
+			if (doubled <= dx) {
+				error += dx;
+				y0 += sy;
+			}
+		}
+	}
+
+	/** Draw text with the 3x5 font; `align` anchors x at the left or right edge */
+	text(value: string, x: number, y: number, color: Color, align: 'left' | 'right' = 'left'): void {
+		const advance = 4 * FONT_SCALE;
+		let cursor = align === 'right' ? x - value.length * advance + FONT_SCALE : x;
+
+		for (const char of value) {
+			const glyph = GLYPHS[char] || GLYPHS[' '];
+			glyph.forEach((row, rowIndex) => {
+				for (let col = 0; col < row.length; col++) {
+					if (row[col] === '1') {
+						this.fillRect(cursor + col * FONT_SCALE, y + rowIndex * FONT_SCALE, FONT_SCALE, FONT_SCALE, color);
+					}
+				}
+			});
+			cursor += advance;
+		}
+	}
+}
+
+/**
+ * Render realized PNL buckets as a bar chart with a cumulative line
+ * @param buckets - PNL buckets, oldest first
+ * @returns PNG image
+ */
+export function renderPnlChart(buckets: PnlBucket[]): Buffer {
+	const raster = new Raster(WIDTH, HEIGHT, COLORS.background);
+	const plot = {
+		left: MARGIN.left,
+		top: MARGIN.top,
+		width: WIDTH - MARGIN.left - MARGIN.right,
+		height: HEIGHT - MARGIN.top - MARGIN.bottom,
+	};
+
+	let running = 0;
+	const cumulative = buckets.map((bucket) => (running += bucket.realizedBnb));
+	const values = [0, ...buckets.map((bucket) => bucket.realizedBnb), ...cumulative];
+	let max = Math.max(...values);
+	let min = Math.min(...values);
+	if (max - min < 1e-9) {
+		max += 0.01;
+		min -= 0.01;
+	}
+
+	const toY = (value: number): number => plot.top + ((max - value) / (max - min)) * plot.height;
+
+	// Gridlines and y-axis labels
+	for (let i = 0; i <= 4; i++) {
+		const y = plot.top + (plot.height * i) / 4;
+		raster.line(plot.left, y, plot.left + plot.width, y, COLORS.grid);
+	}
+	const zeroY = toY(0);
+	raster.line(plot.left, zeroY, plot.left + plot.width, zeroY, COLORS.zero);
+
+	const labelY = (y: number) => Math.min(Math.max(y - 2.5 * FONT_SCALE, 0), HEIGHT - MARGIN.bottom - 5 * FONT_SCALE);
+	raster.text(formatAxisValue(max), plot.left - 6, labelY(toY(max)), COLORS.text, 'right');
+	if (toY(0) - toY(max) > 12 * FONT_SCALE && toY(min) - toY(0) > 12 * FONT_SCALE) {
+		raster.text('0', plot.left - 6, labelY(zeroY), COLORS.text, 'right');
+	}
+	raster.text(formatAxisValue(min), plot.left - 6, labelY(toY(min)), COLORS.text, 'right');
+
+	if (buckets.length === 0) {
+		return encodePng(raster);
+	}
+
+	// Bars
+	const slot = plot.width / buckets.length;
+	const barWidth = Math.max(1, slot * 0.6);
+	buckets.forEach((bucket, index) => {
+		if (bucket.realizedBnb === 0) return;
+
+		const x = plot.left + slot * index + (slot - barWidth) / 2;
+		const y = toY(bucket.realizedBnb);
+		const top = Math.min(y, zeroY);
+		raster.fillRect(x, top, barWidth, Math.max(1, Math.abs(zeroY - y)), bucket.realizedBnb > 0 ? COLORS.gain : COLORS.loss);
+	});
+
+	// Cumulative line
+	const centerX = (index: number) => plot.left + slot * index + slot / 2;
+	for (let i = 1; i < cumulative.length; i++) {
+		raster.line(centerX(i - 1), toY(cumulative[i - 1]), centerX(i), toY(cumulative[i]), COLORS.cumulative, 2);
+	}
+
+	// First and last bucket labels
+	const xLabelY = HEIGHT - MARGIN.bottom + 8;
+	raster.text(buckets[0].label, plot.left, xLabelY, COLORS.text);
+	if (buckets.length > 1) {
+		raster.text(buckets[buckets.length - 1].label, plot.left + plot.width, xLabelY, COLORS.text, 'right');
+	}
+
+	return encodePng(raster);
+}
+
+/**
+ * Axis value with a sign and up to 4 decimals
+ */
+function formatAxisValue(value: number): string {
+	const decimals = Math.abs(value) >= 10 ? 1 : Math.abs(value) >= 1 ? 2 : 4;
+	return `${value > 0 ? '+' : ''}${value.toFixed(decimals)}`;
+}
+
+const CRC_TABLE = (() => {
+	const table = new Uint32Array(256);
+	for (let n = 0; n < 256; n++) {
+		let c = n;
+		for (let k = 0; k < 8; k++) {
+			c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+		}
+		table[n] = c >>> 0;
+	}
+	return table;
+})();
+
+/**
+ * CRC32 of a PNG chunk's type and data
+ */
+function crc32(data: Buffer): number {
+	let crc = 0xffffffff;
+	for (const byte of data) {
+		crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Build a PNG chunk (length, type, data, CRC)
+ */
+function pngChunk(type: string, data: Buffer): Buffer {
+	const length = Buffer.alloc(4);
+	length.writeUInt32BE(data.length);
+
+	const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+	const crc = Buffer.alloc(4);
+	crc.writeUInt32BE(crc32(body));
+
+	return Buffer.concat([length, body, crc]);
+}
+
+/**
+ * Encode a raster as an 8-bit RGB PNG
+ */
+function encodePng(raster: Raster): Buffer {
+	const header = Buffer.alloc(13);
+	header.writeUInt32BE(raster.width, 0);
+	header.writeUInt32BE(raster.height, 4);
+	header[8] = 8; // Bit depth
+	header[9] = 2; // Color type: RGB
+	header[10] = 0; // Compression
+	header[11] = 0; // Filter
+	header[12] = 0; // No interlace
+
+	// Every scanline starts with filter type 0 (none)
+	const stride = raster.width * 3;
+	const scanlines = Buffer.alloc((stride + 1) * raster.height);
+	for (let y = 0; y < raster.height; y++) {
+		raster.pixels.copy(scanlines, y * (stride + 1) + 1, y * stride, (y + 1) * stride);
+	}
+
+	return Buffer.concat([
+		Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+		pngChunk('IHDR', header),
+		pngChunk('IDAT', zlib.deflateSync(scanlines)),
+		pngChunk('IEND', Buffer.alloc(0)),
+	]);
+}
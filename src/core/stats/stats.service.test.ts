@@ -0,0 +1,267 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import { Order, Position, Transaction, Wallet } from '../../database/models';
+import { PositionStatus, TransactionStatus, TransactionType } from '../../config/constants';
+import {
+	buildActivityPipeline,
+	buildClosedTradesPipeline,
+	fillBuckets,
+	getBucketLabel,
+	getPeriodStart,
+	getPortfolioStats,
+	joinBreakdown,
+} from './stats.service';
+
+/**
+ * The pipeline builders and reducers always run. The seeded tests run the pipelines against a
+ * real MongoDB: set TEST_MONGODB_URI to run them; every seeded document belongs to a fresh user
+ * and is removed afterwards.
+ */
+const MONGODB_URI = process.env.TEST_MONGODB_URI;
+const skip = MONGODB_URI ? false : 'TEST_MONGODB_URI is not set';
+
+const DAY = 86400000;
+const now = Date.now();
+const at = (daysAgo: number) => new Date(now - daysAgo * DAY);
+
+const userId = new mongoose.Types.ObjectId();
+const walletId = new mongoose.Types.ObjectId();
+const sniperOrderId = new mongoose.Types.ObjectId();
+const copyOrderId = new mongoose.Types.ObjectId();
+const positions = {
+	pumped: new mongoose.Types.ObjectId(), // Closed: +0.5 BNB
+	dumped: new mongoose.Types.ObjectId(), // Closed in two sells: -0.6 BNB
+	open: new mongoose.Types.ObjectId(), // Still active after a +0.3 BNB partial sell
+	unpriced: new mongoose.Types.ObjectId(), // Sold before cost basis was recorded
+	old: new mongoose.Types.ObjectId(), // Closed outside the window
+};
+
+let txCount = 0;
+function tx(
+	type: TransactionType,
+	timestamp: Date,
+	fields: { positionId?: mongoose.Types.ObjectId; orderId?: mongoose.Types.ObjectId; tokenSymbol?: string; amountBnb?: number; costBasisBnb?: number | null; gasFee?: number; status?: TransactionStatus } = {}
+) {
+	return {
+		userId,
+		walletId,
+		type,
+		txHash: `0x${(++txCount).toString(16).padStart(64, '0')}`,
+		status: TransactionStatus.SUCCESS,
+		amountBnb: 0,
+		gasFee: 0.001,
+		positionId: null,
+		orderId: null,
+		costBasisBnb: null,
+		timestamp,
+		...fields,
+	};
+}
+
+const seeded = [
+	tx(TransactionType.BUY, at(3), { positionId: positions.pumped, orderId: sniperOrderId, tokenSymbol: 'PUMP', amountBnb: 1 }),
+	tx(TransactionType.SELL, at(2), { positionId: positions.pumped, orderId: sniperOrderId, tokenSymbol: 'PUMP', amountBnb: 1.5, costBasisBnb: 1 }),
+
+	tx(TransactionType.BUY, at(1.5), { positionId: positions.dumped, orderId: sniperOrderId, tokenSymbol: 'DUMP', amountBnb: 1 }),
+	tx(TransactionType.SELL, at(1), { positionId: positions.dumped, orderId: sniperOrderId, tokenSymbol: 'DUMP', amountBnb: 0.2, costBasisBnb: 0.5 }),
+	tx(TransactionType.SELL, at(0.5), { positionId: positions.dumped, orderId: sniperOrderId, tokenSymbol: 'DUMP', amountBnb: 0.2, costBasisBnb: 0.5 }),
+
+	tx(TransactionType.BUY, at(1), { positionId: positions.open, orderId: copyOrderId, tokenSymbol: 'OPEN', amountBnb: 0.4 }),
+	tx(TransactionType.SELL, at(0.5), { positionId: positions.open, orderId: copyOrderId, tokenSymbol: 'OPEN', amountBnb: 0.5, costBasisBnb: 0.2 }),
+
+	tx(TransactionType.SELL, at(0.5), { positionId: positions.unpriced, tokenSymbol: 'OLD', amountBnb: 5 }),
+	tx(TransactionType.SELL, at(0.5), { positionId: positions.dumped, amountBnb: 10, costBasisBnb: 1, gasFee: 0.5, status: TransactionStatus.FAILED }),
+	tx(TransactionType.TRANSFER, at(0.5), { amountBnb: 1, gasFee: 0.002 }),
+
+	tx(TransactionType.BUY, at(40), { positionId: positions.old, orderId: sniperOrderId, tokenSymbol: 'GONE', amountBnb: 1 }),
+	tx(TransactionType.SELL, at(39), { positionId: positions.old, orderId: sniperOrderId, tokenSymbol: 'GONE', amountBnb: 3, costBasisBnb: 1 }),
+];
+
+const close = (actual: number, expected: number) => assert.ok(Math.abs(actual - expected) < 1e-9, `${actual} != ${expected}`);
+
+test('bucket labels follow ISO weeks across year boundaries', () => {
+	assert.equal(getBucketLabel('week', new Date('2021-01-01T12:00:00Z')), '2020-W53');
+	assert.equal(getBucketLabel('week', new Date('2021-01-04T00:00:00Z')), '2021-W01');
+	assert.equal(getBucketLabel('week', new Date('2024-12-30T00:00:00Z')), '2025-W01');
+	assert.equal(getBucketLabel('day', new Date('2024-05-01T23:59:59Z')), '2024-05-01');
+	assert.equal(getBucketLabel('month', new Date('2024-05-31T23:59:59Z')), '2024-05');
+});
+
+test('fillBuckets lays out every bucket of the period and keeps aggregated ones', () => {
+	const reference = new Date('2025-01-15T10:00:00Z');
+
+	const days = fillBuckets('day', getPeriodStart('day', reference), [{ label: '2025-01-10', realizedBnb: 0.4, sells: 2 }]);
+	assert.equal(days.length, 14);
+	assert.equal(days[0].label, '2025-01-02');
+	assert.equal(days[13].label, '2025-01-15');
+	assert.deepEqual(days[8], { label: '2025-01-10', realizedBnb: 0.4, sells: 2 });
+	assert.equal(days.filter((bucket) => bucket.sells === 0).length, 13);
+
+	const weeks = fillBuckets('week', getPeriodStart('week', reference), []);
+	assert.equal(weeks.length, 12);
+	assert.equal(weeks[0].label, '2024-W44');
+	assert.equal(weeks[11].label, '2025-W03');
+
+	const months = fillBuckets('month', getPeriodStart('month', reference), [{ label: '2024-12', realizedBnb: -1, sells: 1 }]);
+	assert.deepEqual(months.map((bucket) => bucket.label).slice(-3), ['2024-11', '2024-12', '2025-01']);
+	assert.equal(months[10].realizedBnb, -1);
+});
+
+test('joinBreakdown merges realized and unrealized groups, names them and sorts by total PNL', () => {
+	const rows = joinBreakdown(
+		[
+			{ _id: sniperOrderId, realizedBnb: -0.1 },
+			{ _id: copyOrderId, realizedBnb: 0.3 },
+			{ _id: null, realizedBnb: 0.05 },
+		],
+		[{ _id: copyOrderId, unrealizedBnb: 0.3, openPositions: 1 }],
+		new Map([
+			[sniperOrderId.toString(), 'Sniper'],
+			[copyOrderId.toString(), 'Copy'],
+		])
+	);
+
+	assert.deepEqual(
+		rows.map((row) => [row.id, row.name, row.realizedBnb, row.unrealizedBnb, row.openPositions]),
+		[
+			[copyOrderId.toString(), 'Copy', 0.3, 0.3, 1],
+			['none', 'Unknown', 0.05, 0, 0],
+			[sniperOrderId.toString(), 'Sniper', -0.1, 0, 0],
+		]
+	);
+});
+
+test('activity pipeline prices realized PNL from priced sells and gas from every transaction', () => {
+	const since = new Date('2025-01-01T00:00:00Z');
+	const [match, facet] = buildActivityPipeline(userId, since, '%Y-%m-%d') as any[];
+
+	assert.deepEqual(match.$match, { userId, status: TransactionStatus.SUCCESS, timestamp: { $gte: since } });
+
+	const pricedSells = { $match: { type: TransactionType.SELL, costBasisBnb: { $ne: null } } };
+	const { buckets, byOrder, byWallet, gas } = facet.$facet;
+	for (const branch of [buckets, byOrder, byWallet]) {
+		assert.deepEqual(branch[0], pricedSells);
+		assert.deepEqual(branch[1].$group.realizedBnb, { $sum: { $subtract: ['$amountBnb', '$costBasisBnb'] } });
+	}
+	assert.deepEqual(buckets[1].$group._id, { $dateToString: { format: '%Y-%m-%d', date: '$timestamp' } });
+	assert.equal(byOrder[1].$group._id, '$orderId');
+	assert.equal(byWallet[1].$group._id, '$walletId');
+	assert.deepEqual(gas, [{ $group: { _id: null, gasBnb: { $sum: '$gasFee' } } }]);
+});
+
+test('closed trades pipeline keeps fully priced, deleted positions closed inside the window', () => {
+	const since = new Date('2025-01-01T00:00:00Z');
+	const stages = buildClosedTradesPipeline(userId, since) as any[];
+
+	assert.deepEqual(stages[0].$match.type, { $in: [TransactionType.BUY, TransactionType.SELL] });
+	assert.equal(stages[0].$match.status, TransactionStatus.SUCCESS);
+	assert.equal(stages[1].$group._id, '$positionId');
+	assert.deepEqual(stages[2].$match, { closedAt: { $gte: since }, unpricedSells: 0 });
+	assert.equal(stages[3].$lookup.from, Position.collection.name);
+	assert.deepEqual(stages[4].$match, { open: { $size: 0 } });
+
+	const { best, worst } = stages[stages.length - 1].$facet;
+	assert.deepEqual(best[0], { $sort: { realizedBnb: -1 } });
+	assert.deepEqual(worst[0], { $sort: { realizedBnb: 1 } });
+});
+
+before(async () => {
+	if (skip) return;
+
+	await mongoose.connect(MONGODB_URI as string);
+	await Transaction.collection.insertMany(seeded);
+	await Position.collection.insertOne({
+		_id: positions.open,
+		userId,
+		walletId,
+		orderId: copyOrderId,
+		status: PositionStatus.ACTIVE,
+		pnlBnb: 0.3,
+	});
+	await Order.collection.insertMany([
+		{ _id: sniperOrderId, userId, name: 'Sniper' },
+		{ _id: copyOrderId, userId, name: 'Copy' },
+	]);
+	await Wallet.collection.insertOne({ _id: walletId, userId, name: 'Main' });
+});
+
+after(async () => {
+	if (skip) return;
+
+	await Promise.all([
+		Transaction.collection.deleteMany({ userId }),
+		Position.collection.deleteMany({ userId }),
+		Order.collection.deleteMany({ userId }),
+		Wallet.collection.deleteMany({ userId }),
+	]);
+	await mongoose.disconnect();
+});
+
+test('realized PNL buckets count priced sells only', { skip }, async () => {
+	const stats = await getPortfolioStats(userId.toString(), 'day');
+
+	const expected = new Map<string, { realizedBnb: number; sells: number }>();
+	const add = (date: Date, realizedBnb: number) => {
+		const label = getBucketLabel('day', date);
+		const bucket = expected.get(label) || { realizedBnb: 0, sells: 0 };
+		bucket.realizedBnb += realizedBnb;
+		bucket.sells++;
+		expected.set(label, bucket);
+	};
+	add(at(2), 0.5);
+	add(at(1), -0.3);
+	add(at(0.5), -0.3);
+	add(at(0.5), 0.3);
+
+	assert.equal(stats.buckets.length, 14);
+	for (const bucket of stats.buckets) {
+		const wanted = expected.get(bucket.label) || { realizedBnb: 0, sells: 0 };
+		close(bucket.realizedBnb, wanted.realizedBnb);
+		assert.equal(bucket.sells, wanted.sells, bucket.label);
+	}
+	close(stats.realizedBnb, 0.2);
+	close(stats.unrealizedBnb, 0.3);
+	assert.equal(stats.openPositions, 1);
+});
+
+test('closed trades give the win rate, hold time and best/worst trade', { skip }, async () => {
+	const stats = await getPortfolioStats(userId.toString(), 'day');
+
+	assert.equal(stats.closedTrades, 2);
+	assert.equal(stats.wins, 1);
+	assert.equal(stats.winRate, 50);
+	assert.equal(stats.avgHoldMs, DAY);
+
+	assert.equal(stats.best?.tokenSymbol, 'PUMP');
+	close(stats.best?.realizedBnb || 0, 0.5);
+	close(stats.best?.pnlPercent || 0, 50);
+
+	assert.equal(stats.worst?.tokenSymbol, 'DUMP');
+	close(stats.worst?.realizedBnb || 0, -0.6);
+	close(stats.worst?.pnlPercent || 0, -60);
+});
+
+test('gas covers every successful transaction in the window', { skip }, async () => {
+	const stats = await getPortfolioStats(userId.toString(), 'day');
+
+	// 7 trades + the unpriced sell at 0.001, the transfer at 0.002; failed and old transactions excluded
+	close(stats.gasBnb, 0.01);
+});
+
+test('breakdowns join realized and unrealized PNL with order and wallet names', { skip }, async () => {
+	const stats = await getPortfolioStats(userId.toString(), 'day');
+
+	assert.deepEqual(
+		stats.byOrder.map((row) => [row.name, Number(row.realizedBnb.toFixed(9)), row.unrealizedBnb, row.openPositions]),
+		[
+			['Copy', 0.3, 0.3, 1],
+			['Sniper', -0.1, 0, 0],
+		]
+	);
+
+	assert.equal(stats.byWallet.length, 1);
+	assert.equal(stats.byWallet[0].name, 'Main');
+	close(stats.byWallet[0].realizedBnb, 0.2);
+	close(stats.byWallet[0].unrealizedBnb, 0.3);
+});
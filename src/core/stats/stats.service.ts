@@ -0,0 +1,388 @@
+import mongoose from 'mongoose';
+import { Order, Position, Transaction, Wallet } from '../../database/models';
+import { PositionStatus, TransactionStatus, TransactionType } from '../../config/constants';
+
+/**
+ * Portfolio Stats
+ * Realized PNL comes from SELL Transactions (proceeds minus the cost basis recorded by the
+ * trade recorder) because positions are deleted when they close. Unrealized PNL is the
+ * current pnlBnb of active positions.
+ */
+
+export type StatsPeriod = 'day' | 'week' | 'month';
+
+/**
+ * Bucket size, number of buckets and $dateToString format of each period
+ */
+const PERIODS: Record<StatsPeriod, { buckets: number; format: string }> = {
+	day: { buckets: 14, format: '%Y-%m-%d' },
+	week: { buckets: 12, format: '%G-W%V' },
+	month: { buckets: 12, format: '%Y-%m' },
+};
+
+export interface PnlBucket {
+	label: string; // Same format as the pipeline's $dateToString (e.g. 2024-05-01, 2024-W18, 2024-05)
+	realizedBnb: number;
+	sells: number;
+}
+
+export interface PnlBreakdown {
+	id: string;
+	name: string;
+	realizedBnb: number;
+	unrealizedBnb: number;
+	openPositions: number;
+}
+
+export interface ClosedTrade {
+	tokenSymbol: string;
+	realizedBnb: number;
+	pnlPercent: number;
+	holdMs: number | null;
+	closedAt: Date;
+}
+
+export interface PortfolioStats {
+	period: StatsPeriod;
+	since: Date;
+	realizedBnb: number;
+	unrealizedBnb: number;
+	openPositions: number;
+	gasBnb: number; // Every successful transaction (buys, sells, transfers, withdrawals) - not deducted from realized PNL
+	closedTrades: number;
+	wins: number;
+	winRate: number; // Percent of closed trades with a positive realized PNL
+	avgHoldMs: number | null;
+	best: ClosedTrade | null;
+	worst: ClosedTrade | null;
+	buckets: PnlBucket[]; // Oldest first, empty buckets included
+	byOrder: PnlBreakdown[];
+	byWallet: PnlBreakdown[];
+}
+
+/**
+ * Start of the first bucket of a period (UTC)
+ * @param period - Bucket size
+ * @param now - Reference time
+ * @returns Start of the reporting window
+ */
+export function getPeriodStart(period: StatsPeriod, now: Date = new Date()): Date {
+	const { buckets } = PERIODS[period];
+	const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+
+	if (period === 'month') {
+		return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - (buckets - 1), 1));
+	}
+
+	if (period === 'week') {
+		const monday = today - ((now.getUTCDay() + 6) % 7) * 86400000; // ISO weeks start on Monday
+		return new Date(monday - (buckets - 1) * 7 * 86400000);
+	}
+
+	return new Date(today - (buckets - 1) * 86400000);
+}
+
+/**
+ * Label of the bucket a date falls in (matches the pipeline's $dateToString format)
+ * @param period - Bucket size
+ * @param date - Date inside the bucket
+ * @returns Bucket label
+ */
+export function getBucketLabel(period: StatsPeriod, date: Date): string {
+	const iso = date.toISOString();
+	if (period === 'day') return iso.slice(0, 10);
+	if (period === 'month') return iso.slice(0, 7);
+
+	// ISO week: the week belongs to the year of its Thursday
+	const thursday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+	thursday.setUTCDate(thursday.getUTCDate() + 3 - ((thursday.getUTCDay() + 6) % 7));
+	const january4 = new Date(Date.UTC(thursday.getUTCFullYear(), 0, 4)); // Always in week 1
+	const week = 1 + Math.round(((thursday.getTime() - january4.getTime()) / 86400000 - 3 + ((january4.getUTCDay() + 6) % 7)) / 7);
+	return `${thursday.getUTCFullYear()}-W${String(week).padStart(2, '0')}`;
+}
+
+/**
+ * Lay out every bucket of a period, empty ones included, so charts have an evenly spaced time axis
+ * @param period - Bucket size
+ * @param since - Start of the first bucket
+ * @param realized - Aggregated buckets (only those with sells)
+ * @returns All buckets of the period, oldest first
+ */
+export function fillBuckets(period: StatsPeriod, since: Date, realized: PnlBucket[]): PnlBucket[] {
+	const realizedByLabel = new Map(realized.map((bucket) => [bucket.label, bucket]));
+	const buckets: PnlBucket[] = [];
+	const cursor = new Date(since);
+	for (let i = 0; i < PERIODS[period].buckets; i++) {
+		const label = getBucketLabel(period, cursor);
+		buckets.push(realizedByLabel.get(label) || { label, realizedBnb: 0, sells: 0 });
+
+		if (period === 'month') cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+		else cursor.setUTCDate(cursor.getUTCDate() + (period === 'week' ? 7 : 1));
+	}
+	return buckets;
+}
+
+/**
+ * Build the portfolio report of a user
+ * @param userId - User ID
+ * @param period - Bucket size (day: last 14 days, week: last 12 weeks, month: last 12 months)
+ * @returns Realized/unrealized PNL, trade stats, gas and per-order / per-wallet breakdowns
+ */
+export async function getPortfolioStats(userId: string, period: StatsPeriod): Promise<PortfolioStats> {
+	const uid = new mongoose.Types.ObjectId(userId);
+	const since = getPeriodStart(period);
+
+	const [activity, trades, open] = await Promise.all([
+		aggregateActivity(uid, since, PERIODS[period].format),
+		aggregateClosedTrades(uid, since),
+		aggregateOpenPositions(uid),
+	]);
+
+	const buckets = fillBuckets(period, since, activity.buckets);
+
+	const [byOrder, byWallet] = await Promise.all([
+		mergeBreakdown(activity.byOrder, open.byOrder, Order),
+		mergeBreakdown(activity.byWallet, open.byWallet, Wallet),
+	]);
+
+	return {
+		period,
+		since,
+		realizedBnb: buckets.reduce((sum, bucket) => sum + bucket.realizedBnb, 0),
+		unrealizedBnb: open.unrealizedBnb,
+		openPositions: open.openPositions,
+		gasBnb: activity.gasBnb,
+		closedTrades: trades.closedTrades,
+		wins: trades.wins,
+		winRate: trades.closedTrades > 0 ? (trades.wins / trades.closedTrades) * 100 : 0,
+		avgHoldMs: trades.avgHoldMs,
+		best: trades.best,
+		worst: trades.worst,
+		buckets,
+		byOrder,
+		byWallet,
+	};
+}
+
+export type GroupTotals = Array<{ _id: mongoose.Types.ObjectId | null; realizedBnb?: number; unrealizedBnb?: number; openPositions?: number }>;
+
+/**
+ * Transaction pipeline of realized PNL per bucket / order / wallet and gas paid since a date
+ * Realized PNL only counts priced sells; gas counts every transaction type
+ * @param userId - User ID
+ * @param since - Start of the window
+ * @param bucketFormat - $dateToString format of the buckets
+ * @returns Aggregation pipeline with a single result document
+ */
+export function buildActivityPipeline(userId: mongoose.Types.ObjectId, since: Date, bucketFormat: string): mongoose.PipelineStage[] {
+	// Sells recorded without a cost basis (before the trade recorder) cannot be priced
+	const pricedSells = { type: TransactionType.SELL, costBasisBnb: { $ne: null } };
+	const realized = { $sum: { $subtract: ['$amountBnb', '$costBasisBnb'] } };
+
+	return [
+		{ $match: { userId, status: TransactionStatus.SUCCESS, timestamp: { $gte: since } } },
+		{
+			$facet: {
+				buckets: [
+					{ $match: pricedSells },
+					{
+						$group: {
+							_id: { $dateToString: { format: bucketFormat, date: '$timestamp' } },
+							realizedBnb: realized,
+							sells: { $sum: 1 },
+						},
+					},
+					{ $project: { _id: 0, label: '$_id', realizedBnb: 1, sells: 1 } },
+				],
+				byOrder: [{ $match: pricedSells }, { $group: { _id: '$orderId', realizedBnb: realized } }],
+				byWallet: [{ $match: pricedSells }, { $group: { _id: '$walletId', realizedBnb: realized } }],
+				gas: [{ $group: { _id: null, gasBnb: { $sum: '$gasFee' } } }],
+			},
+		},
+	];
+}
+
+/**
+ * Realized PNL per bucket / order / wallet and gas paid, from the user's transactions since a date
+ */
+async function aggregateActivity(
+	userId: mongoose.Types.ObjectId,
+	since: Date,
+	bucketFormat: string
+): Promise<{ buckets: PnlBucket[]; byOrder: GroupTotals; byWallet: GroupTotals; gasBnb: number }> {
+	const [result] = await Transaction.aggregate(buildActivityPipeline(userId, since, bucketFormat));
+
+	return {
+		buckets: result.buckets,
+		byOrder: result.byOrder,
+		byWallet: result.byWallet,
+		gasBnb: result.gas[0]?.gasBnb || 0,
+	};
+}
+
+/**
+ * Transaction pipeline of the positions fully closed since a date, summarized with their best and worst trade
+ * A position counts as closed once its document is gone (closing deletes it) and it has sells
+ * @param userId - User ID
+ * @param since - Start of the window
+ * @returns Aggregation pipeline with a single result document
+ */
+export function buildClosedTradesPipeline(userId: mongoose.Types.ObjectId, since: Date): mongoose.PipelineStage[] {
+	const isBuy = { $eq: ['$type', TransactionType.BUY] };
+	const isSell = { $eq: ['$type', TransactionType.SELL] };
+
+	return [
+		{
+			$match: {
+				userId,
+				status: TransactionStatus.SUCCESS,
+				positionId: { $ne: null },
+				type: { $in: [TransactionType.BUY, TransactionType.SELL] },
+			},
+		},
+		{
+			$group: {
+				_id: '$positionId',
+				tokenSymbol: { $first: '$tokenSymbol' },
+				openedAt: { $min: { $cond: [isBuy, '$timestamp', null] } },
+				closedAt: { $max: { $cond: [isSell, '$timestamp', null] } },
+				proceedsBnb: { $sum: { $cond: [isSell, '$amountBnb', 0] } },
+				costBnb: { $sum: { $cond: [isSell, { $ifNull: ['$costBasisBnb', 0] }, 0] } },
+				unpricedSells: { $sum: { $cond: [{ $and: [isSell, { $eq: [{ $ifNull: ['$costBasisBnb', null] }, null] }] }, 1, 0] } },
+			},
+		},
+		{ $match: { closedAt: { $gte: since }, unpricedSells: 0 } },
+		{ $lookup: { from: Position.collection.name, localField: '_id', foreignField: '_id', as: 'open' } },
+		{ $match: { open: { $size: 0 } } },
+		{
+			$project: {
+				_id: 0,
+				tokenSymbol: 1,
+				closedAt: 1,
+				realizedBnb: { $subtract: ['$proceedsBnb', '$costBnb'] },
+				pnlPercent: {
+					$cond: [
+						{ $gt: ['$costBnb', 0] },
+						{ $multiply: [{ $divide: [{ $subtract: ['$proceedsBnb', '$costBnb'] }, '$costBnb'] }, 100] },
+						0,
+					],
+				},
+				holdMs: { $cond: [{ $ne: ['$openedAt', null] }, { $subtract: ['$closedAt', '$openedAt'] }, null] },
+			},
+		},
+		{
+			$facet: {
+				summary: [
+					{
+						$group: {
+							_id: null,
+							closedTrades: { $sum: 1 },
+							wins: { $sum: { $cond: [{ $gt: ['$realizedBnb', 0] }, 1, 0] } },
+							avgHoldMs: { $avg: '$holdMs' },
+						},
+					},
+				],
+				best: [{ $sort: { realizedBnb: -1 } }, { $limit: 1 }],
+				worst: [{ $sort: { realizedBnb: 1 } }, { $limit: 1 }],
+			},
+		},
+	];
+}
+
+/**
+ * Win rate, hold time and best/worst of positions fully closed since a date
+ */
+async function aggregateClosedTrades(
+	userId: mongoose.Types.ObjectId,
+	since: Date
+): Promise<{ closedTrades: number; wins: number; avgHoldMs: number | null; best: ClosedTrade | null; worst: ClosedTrade | null }> {
+	const [result] = await Transaction.aggregate(buildClosedTradesPipeline(userId, since));
+
+	const summary = result.summary[0];
+	return {
+		closedTrades: summary?.closedTrades || 0,
+		wins: summary?.wins || 0,
+		avgHoldMs: summary?.avgHoldMs ?? null,
+		best: result.best[0] || null,
+		worst: result.worst[0] || null,
+	};
+}
+
+/**
+ * Unrealized PNL of active positions in total and per order / wallet
+ */
+async function aggregateOpenPositions(
+	userId: mongoose.Types.ObjectId
+): Promise<{ unrealizedBnb: number; openPositions: number; byOrder: GroupTotals; byWallet: GroupTotals }> {
+	const totals = { unrealizedBnb: { $sum: '$pnlBnb' }, openPositions: { $sum: 1 } };
+
+	const [result] = await Position.aggregate([
+		{ $match: { userId, status: PositionStatus.ACTIVE } },
+		{
+			$facet: {
+				total: [{ $group: { _id: null, ...totals } }],
+				byOrder: [{ $group: { _id: '$orderId', ...totals } }],
+				byWallet: [{ $group: { _id: '$walletId', ...totals } }],
+			},
+		},
+	]);
+
+	return {
+		unrealizedBnb: result.total[0]?.unrealizedBnb || 0,
+		openPositions: result.total[0]?.openPositions || 0,
+		byOrder: result.byOrder,
+		byWallet: result.byWallet,
+	};
+}
+
+/**
+ * Join realized and unrealized totals by order or wallet and attach names (largest PNL first)
+ */
+async function mergeBreakdown<T extends { name: string }>(
+	realized: GroupTotals,
+	unrealized: GroupTotals,
+	model: mongoose.Model<T>
+): Promise<PnlBreakdown[]> {
+	const ids = [...new Set([...realized, ...unrealized].filter((group) => group._id).map((group) => group._id!.toString()))];
+	const docs = await model
+		.find({ _id: { $in: ids } })
+		.select('name')
+		.lean<Array<{ _id: mongoose.Types.ObjectId; name?: string }>>();
+	const names = new Map<string, string>();
+	for (const doc of docs) {
+		if (doc.name) names.set(doc._id.toString(), doc.name);
+	}
+
+	return joinBreakdown(realized, unrealized, names);
+}
+
+/**
+ * Join realized and unrealized totals by order or wallet (largest PNL first)
+ * @param realized - Realized PNL groups
+ * @param unrealized - Unrealized PNL and open position groups
+ * @param names - Order or wallet names by ID (missing ones show as Unknown)
+ * @returns One row per order or wallet; groups without one are collected under 'none'
+ */
+export function joinBreakdown(realized: GroupTotals, unrealized: GroupTotals, names: Map<string, string>): PnlBreakdown[] {
+	const rows = new Map<string, PnlBreakdown>();
+	const rowFor = (id: mongoose.Types.ObjectId | null): PnlBreakdown => {
+		const key = id ? id.toString() : 'none';
+		let row = rows.get(key);
+		if (!row) {
+			row = { id: key, name: names.get(key) || 'Unknown', realizedBnb: 0, unrealizedBnb: 0, openPositions: 0 };
+			rows.set(key, row);
+		}
+		return row;
+	};
+
+	for (const group of realized) {
+		rowFor(group._id).realizedBnb += group.realizedBnb || 0;
+	}
+	for (const group of unrealized) {
+		const row = rowFor(group._id);
+		row.unrealizedBnb += group.unrealizedBnb || 0;
+		row.openPositions += group.openPositions || 0;
+	}
+
+	return [...rows.values()].sort((a, b) => b.realizedBnb + b.unrealizedBnb - (a.realizedBnb + a.unrealizedBnb));
+}
@@ -3,7 +3,18 @@ import { getProvider } from '../wallet/wallet.service';
 import { isValidAddress } from '../../utils/validation';
 import { logger } from '../../utils/logger';
 import { ERC20_ABI } from '../../abi/erc20.abi';
+import { PANCAKESWAP_ROUTER_ABI } from '../../abi/pancakeswap-router.abi';
 import NodeCache from 'node-cache';
+import { Token } from '../../database/models';
+import {
+	FOUR_MEME_ADD_LIQUIDITY_METHOD_ID,
+	FOUR_MEME_CREATOR_LOOKBACK_BLOCKS,
+	FOUR_MEME_FACTORY_ADDRESS,
+	FOUR_MEME_TOKEN_CREATE_EVENT,
+	LOG_QUERY_CHUNK_BLOCKS,
+	PANCAKE_ROUTER_ADDRESS,
+	TRANSFER_EVENT_TOPIC,
+} from '../../config/constants';
 
 /**
  * Token Service
@@ -13,6 +24,12 @@ import NodeCache from 'node-cache';
 // Token metadata cache (TTL: 1 hour - metadata rarely changes)
 const metadataCache = new NodeCache({ stdTTL: 3600 });
 
+export interface TokenHolder {
+	address: string; // Lowercase
+	balance: string; // Raw units
+	percent: number; // Share of total supply
+}
+
 export interface TokenMetadata {
 	address: string;
 	name: string;
@@ -21,6 +38,12 @@ export interface TokenMetadata {
 	totalSupply: string;
 }
 
+// Ownable ABI (for renounced ownership checks)
+const OWNABLE_ABI = ['function owner() external view returns (address)'];
+
+// Addresses commonly used as the "renounced" owner
+const RENOUNCED_OWNERS = [ethers.constants.AddressZero, '0x000000000000000000000000000000000000dead'];
+
 /**
  * Get ERC20 token contract instance
  */
@@ -291,3 +314,244 @@ export async function isValidToken(tokenAddress: string): Promise<boolean> {
 		return false;
 	}
 }
+
+/**
+ * Check whether token ownership is renounced
+ * Tokens without an owner() function are treated as ownerless (renounced)
+ * @param tokenAddress - Token contract address
+ * @returns True if renounced, null if the check failed
+ */
+export async function isOwnershipRenounced(tokenAddress: string): Promise<boolean | null> {
+	try {
+		const contract = new ethers.Contract(tokenAddress, OWNABLE_ABI, getProvider());
+		const owner: string = await contract.owner();
+		return RENOUNCED_OWNERS.includes(owner.toLowerCase());
+	} catch (error: any) {
+		if (error.code === ethers.errors.CALL_EXCEPTION) {
+			return true;
+		}
+		logger.error(`Failed to check ownership for ${tokenAddress}:`, error.message);
+		return null;
+	}
+}
+
+/**
+ * Check whether the rug watchdog flagged a token (its liquidity was pulled)
+ * @param tokenAddress - Token contract address
+ * @returns True if buys of the token must be refused
+ */
+export async function isTokenRugged(tokenAddress: string): Promise<boolean> {
+	return !!(await Token.exists({ address: tokenAddress.toLowerCase(), isRugged: true }));
+}
+
+/**
+ * Find the creator of a Four.meme token from the factory's TokenCreate event
+ * Scans backwards from the given block in chunks, up to FOUR_MEME_CREATOR_LOOKBACK_BLOCKS
+ * @param tokenAddress - Token contract address
+ * @param fromBlock - Block to search back from (usually the migration block)
+ * @returns Creator address (lowercase), or null if not found
+ */
+export async function getFourMemeTokenCreator(tokenAddress: string, fromBlock: number): Promise<string | null> {
+	const creation = await findFourMemeTokenCreation(tokenAddress, fromBlock);
+	return creation ? creation.creator : null;
+}
+
+/**
+ * Find the TokenCreate event of a Four.meme token
+ * @param tokenAddress - Token contract address
+ * @param fromBlock - Block to search back from (usually the migration block)
+ * @returns Creator address (lowercase) and creation block, or null if not found
+ */
+export async function findFourMemeTokenCreation(
+	tokenAddress: string,
+	fromBlock: number
+): Promise<{ creator: string; blockNumber: number } | null> {
+	try {
+		const provider = getProvider();
+		const iface = new ethers.utils.Interface([FOUR_MEME_TOKEN_CREATE_EVENT]);
+		const topic = iface.getEventTopic('TokenCreate');
+		const target = tokenAddress.toLowerCase();
+		const lowestBlock = Math.max(0, fromBlock - FOUR_MEME_CREATOR_LOOKBACK_BLOCKS);
+
+		for (let end = fromBlock; end >= lowestBlock; end -= LOG_QUERY_CHUNK_BLOCKS) {
+			const start = Math.max(lowestBlock, end - LOG_QUERY_CHUNK_BLOCKS + 1);
+			const logs = await provider.getLogs({
+				address: FOUR_MEME_FACTORY_ADDRESS,
+				topics: [topic],
+				fromBlock: start,
+				toBlock: end,
+			});
+
+			for (const log of logs) {
+				const parsed = iface.parseLog(log);
+				if (parsed.args.token.toLowerCase() === target) {
+					return { creator: parsed.args.creator.toLowerCase(), blockNumber: log.blockNumber };
+				}
+			}
+		}
+
+		logger.debug(`Creator of ${tokenAddress} not found in last ${FOUR_MEME_CREATOR_LOOKBACK_BLOCKS} blocks`);
+		return null;
+	} catch (error: any) {
+		logger.error(`Failed to find creator for ${tokenAddress}:`, error.message);
+		return null;
+	}
+}
+
+/**
+ * Find the largest holders of a token from its Transfer events
+ * Balances are netted over the block range; contracts (factory, pair, token) and burn addresses are left out
+ * @param tokenAddress - Token contract address
+ * @param fromBlock - First block (the token's creation block)
+ * @param toBlock - Last block (usually the migration block)
+ * @param totalSupply - Total supply in raw units (for the share of supply)
+ * @param limit - Max holders returned
+ * @returns Holders, largest first
+ */
+export async function getTopTokenHolders(
+	tokenAddress: string,
+	fromBlock: number,
+	toBlock: number,
+	totalSupply: string,
+	limit: number
+): Promise<TokenHolder[]> {
+	try {
+		const provider = getProvider();
+		const balances = new Map<string, ethers.BigNumber>();
+
+		for (let start = fromBlock; start <= toBlock; start += LOG_QUERY_CHUNK_BLOCKS) {
+			const end = Math.min(toBlock, start + LOG_QUERY_CHUNK_BLOCKS - 1);
+			const logs = await provider.getLogs({
+				address: tokenAddress,
+				topics: [TRANSFER_EVENT_TOPIC],
+				fromBlock: start,
+				toBlock: end,
+			});
+
+			for (const log of logs) {
+				const from = ethers.utils.hexDataSlice(log.topics[1], 12).toLowerCase();
+				const to = ethers.utils.hexDataSlice(log.topics[2], 12).toLowerCase();
+				const amount = ethers.BigNumber.from(log.data);
+				balances.set(from, (balances.get(from) || ethers.constants.Zero).sub(amount));
+				balances.set(to, (balances.get(to) || ethers.constants.Zero).add(amount));
+			}
+		}
+
+		const excluded = new Set([...RENOUNCED_OWNERS, FOUR_MEME_FACTORY_ADDRESS.toLowerCase(), tokenAddress.toLowerCase()]);
+		const candidates = [...balances.entries()]
+			.filter(([address, balance]) => !excluded.has(address) && balance.gt(0))
+			.sort(([, a], [, b]) => (b.gt(a) ? 1 : b.lt(a) ? -1 : 0));
+
+		const supply = ethers.BigNumber.from(totalSupply || '0');
+		const holders: TokenHolder[] = [];
+		for (const [address, balance] of candidates) {
+			if (holders.length >= limit) break;
+			if ((await provider.getCode(address)) !== '0x') continue; // Pair, router, lockers...
+
+			holders.push({
+				address,
+				balance: balance.toString(),
+				percent: supply.isZero() ? 0 : balance.mul(1000000).div(supply).toNumber() / 10000,
+			});
+		}
+
+		return holders;
+	} catch (error: any) {
+		logger.error(`Failed to find top holders for ${tokenAddress}:`, error.message);
+		return [];
+	}
+}
+
+/**
+ * Extract the migrated token from a Four.meme addLiquidity transaction
+ * Shared by the live scanner and the backtester so both detect the same migrations
+ * @param tx - Transaction (only `to` and `data` are used)
+ * @returns Migrated token address (lowercase), or null if the transaction is not a migration
+ */
+export function parseFourMemeMigration(tx: { to?: string | null; data: string }): string | null {
+	if (!tx.to || tx.to.toLowerCase() !== FOUR_MEME_FACTORY_ADDRESS.toLowerCase()) {
+		return null;
+	}
+
+	if (tx.data.substring(0, 10) !== FOUR_MEME_ADD_LIQUIDITY_METHOD_ID) {
+		return null;
+	}
+
+	return ('0x' + tx.data.substring(34, 74)).toLowerCase();
+}
+
+/**
+ * Liquidity a pending migration will add - the reserves of the new pair once it is mined
+ */
+export interface PendingMigrationLiquidity {
+	reserveBnb: string; // Wei
+	reserveToken: string; // Token units
+}
+
+/**
+ * Call frame returned by debug_traceCall's callTracer
+ */
+interface TraceFrame {
+	to?: string;
+	input?: string;
+	value?: string;
+	calls?: TraceFrame[];
+}
+
+const routerInterface = new ethers.utils.Interface(PANCAKESWAP_ROUTER_ABI);
+
+/**
+ * Read the addLiquidityETH amounts of a pending Four.meme migration by tracing it
+ * The migration calldata only names the token; the amounts are chosen by the Four.meme contract,
+ * so the transaction is traced (debug_traceCall) to find its internal router call.
+ * @param tx - Pending migration transaction
+ * @param tokenAddress - Migrated token
+ * @returns Pair reserves after the migration, or null if the RPC cannot trace or no router call was found
+ */
+export async function getPendingMigrationLiquidity(
+	tx: ethers.providers.TransactionResponse,
+	tokenAddress: string
+): Promise<PendingMigrationLiquidity | null> {
+	try {
+		const trace: TraceFrame = await getProvider().send('debug_traceCall', [
+			{
+				from: tx.from,
+				to: tx.to,
+				data: tx.data,
+				value: ethers.utils.hexValue(tx.value),
+				gas: ethers.utils.hexValue(tx.gasLimit),
+			},
+			'latest',
+			{ tracer: 'callTracer' },
+		]);
+
+		const addLiquiditySighash = routerInterface.getSighash('addLiquidityETH');
+		const frames: TraceFrame[] = [trace];
+		while (frames.length > 0) {
+			const frame = frames.shift()!;
+			frames.push(...(frame.calls || []));
+
+			if (
+				frame.to?.toLowerCase() !== PANCAKE_ROUTER_ADDRESS.toLowerCase() ||
+				!frame.input?.startsWith(addLiquiditySighash)
+			) {
+				continue;
+			}
+
+			const args = routerInterface.decodeFunctionData('addLiquidityETH', frame.input);
+			if (args.token.toLowerCase() !== tokenAddress.toLowerCase()) continue;
+
+			const reserveBnb = ethers.BigNumber.from(frame.value || 0);
+			const reserveToken: ethers.BigNumber = args.amountTokenDesired;
+			if (reserveBnb.isZero() || reserveToken.isZero()) return null;
+
+			return { reserveBnb: reserveBnb.toString(), reserveToken: reserveToken.toString() };
+		}
+
+		logger.warning(`No addLiquidityETH call found in pending migration ${tx.hash}`);
+		return null;
+	} catch (error: any) {
+		logger.warning(`Failed to trace pending migration ${tx.hash}: ${error.message}`);
+		return null;
+	}
+}
@@ -1,8 +1,15 @@
 import { ethers } from 'ethers';
-import { Token } from '../../database/models';
+import { Token, IToken } from '../../database/models';
 import { B_Token } from '../classes/B_Token';
 import { logger } from '../../utils/logger';
-import { config } from '../../config/config';
+import { getProvider } from '../wallet/wallet.service';
+import {
+	PANCAKE_ROUTER_ADDRESS,
+	SIMULATION_ACCOUNT,
+	SIMULATION_BNB_AMOUNT,
+	SIMULATION_MAX_STORAGE_SLOT,
+	SIMULATION_TTL,
+} from '../../config/constants';
 
 // PancakeSwap Factory ABI (for getPair)
 const PANCAKE_FACTORY_ABI = [
@@ -16,25 +23,51 @@ const PANCAKE_PAIR_ABI = [
 	'function token1() external view returns (address)',
 ];
 
+// PancakeSwap Router ABI (for quotes and fee-on-transfer swaps)
+const PANCAKE_ROUTER_ABI = [
+	'function getAmountsOut(uint amountIn, address[] calldata path) external view returns (uint[] memory amounts)',
+	'function swapExactETHForTokensSupportingFeeOnTransferTokens(uint amountOutMin, address[] calldata path, address to, uint deadline) external payable',
+	'function swapExactTokensForETHSupportingFeeOnTransferTokens(uint amountIn, uint amountOutMin, address[] calldata path, address to, uint deadline) external',
+];
+
 // ERC20 ABI
 const ERC20_ABI = [
 	'function name() external view returns (string)',
 	'function symbol() external view returns (string)',
 	'function decimals() external view returns (uint8)',
 	'function totalSupply() external view returns (uint256)',
+	'function balanceOf(address account) external view returns (uint256)',
+	'function allowance(address owner, address spender) external view returns (uint256)',
 ];
 
+// Resolution of the tax search (basis points) and probes per search round
+const TAX_PRECISION_BPS = 10000;
+const TAX_SEARCH_PROBES = 8;
+const SIMULATION_GAS = 3000000;
+
 const PANCAKE_FACTORY_ADDRESS = '0xcA143Ce32Fe78f1f7019d7d551a6402fC5350c73'; // PancakeSwap V2 Factory
 const WBNB_ADDRESS = '0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c';
 
+export interface TokenSimulationResult {
+	buyTax: number | null;
+	sellTax: number | null;
+	buyReverts: boolean;
+	sellReverts: boolean;
+	simulatedAt: Date;
+	error?: string;
+}
+
 export interface TokenValidationResult {
 	isValid: boolean;
 	error?: string;
 	token?: B_Token;
 	pairAddress?: string;
 	liquidityBnb?: number;
+	simulation?: TokenSimulationResult;
 }
 
+type StateOverride = Record<string, { balance?: string; stateDiff?: Record<string, string> }>;
+
 /**
  * Token Validation Service
  * Validates tokens and checks if they're on PancakeSwap V2
@@ -42,14 +75,22 @@ export interface TokenValidationResult {
 export class TokenValidator {
 	private provider: ethers.providers.JsonRpcProvider;
 	private factoryContract: ethers.Contract;
+	private routerContract: ethers.Contract;
+	private routerInterface = new ethers.utils.Interface(PANCAKE_ROUTER_ABI);
+	private erc20Interface = new ethers.utils.Interface(ERC20_ABI);
 
 	constructor() {
-		this.provider = new ethers.providers.JsonRpcProvider(config.bsc.rpcHttpUrl);
+		this.provider = getProvider();
 		this.factoryContract = new ethers.Contract(
 			PANCAKE_FACTORY_ADDRESS,
 			PANCAKE_FACTORY_ABI,
 			this.provider
 		);
+		this.routerContract = new ethers.Contract(
+			PANCAKE_ROUTER_ADDRESS,
+			PANCAKE_ROUTER_ABI,
+			this.provider
+		);
 	}
 
 	/**
@@ -73,6 +114,7 @@ export class TokenValidator {
 			if (dbToken && dbToken.isPancakeswapV2) {
 				// Token already validated
 				logger.info(`Token ${normalizedAddress} found in database`);
+				const simulation = await this.getSimulation(dbToken);
 				return {
 					isValid: true,
 					token: new B_Token({
@@ -86,6 +128,7 @@ export class TokenValidator {
 					}),
 					pairAddress: dbToken.pairAddress || undefined,
 					liquidityBnb: dbToken.liquidityBnb || undefined,
+					simulation,
 				};
 			}
 
@@ -173,6 +216,9 @@ export class TokenValidator {
 				};
 			}
 
+			// Simulate a buy and a sell to detect honeypots and transfer taxes
+			const simulation = await this.simulateTrade(normalizedAddress);
+
 			// Save token to database
 			if (dbToken) {
 				// Update existing token
@@ -184,6 +230,7 @@ export class TokenValidator {
 				dbToken.liquidityBnb = liquidityBnb;
 				dbToken.isPancakeswapV2 = true;
 				dbToken.isVerified = true;
+				this.applySimulation(dbToken, simulation);
 				await dbToken.save();
 			} else {
 				// Create new token
@@ -197,6 +244,12 @@ export class TokenValidator {
 					liquidityBnb,
 					isPancakeswapV2: true,
 					isVerified: true,
+					buyTax: simulation.buyTax,
+					sellTax: simulation.sellTax,
+					buyReverts: simulation.buyReverts,
+					sellReverts: simulation.sellReverts,
+					simulatedAt: simulation.simulatedAt,
+					simulationError: simulation.error || null,
 				});
 			}
 
@@ -217,6 +270,7 @@ export class TokenValidator {
 				token: bToken,
 				pairAddress: pairAddress.toLowerCase(),
 				liquidityBnb,
+				simulation,
 			};
 		} catch (error: any) {
 			logger.error(`Token validation error: ${error.message}`);
@@ -227,6 +281,279 @@ export class TokenValidator {
 		}
 	}
 
+	/**
+	 * Return the stored simulation for a token, re-running it once it is older than SIMULATION_TTL
+	 */
+	private async getSimulation(dbToken: IToken): Promise<TokenSimulationResult> {
+		const simulatedAt = dbToken.simulatedAt ? new Date(dbToken.simulatedAt).getTime() : 0;
+
+		if (Date.now() - simulatedAt < SIMULATION_TTL * 1000) {
+			return {
+				buyTax: dbToken.buyTax ?? null,
+				sellTax: dbToken.sellTax ?? null,
+				buyReverts: dbToken.buyReverts,
+				sellReverts: dbToken.sellReverts,
+				simulatedAt: dbToken.simulatedAt!,
+				error: dbToken.simulationError || undefined,
+			};
+		}
+
+		const simulation = await this.simulateTrade(dbToken.address);
+		this.applySimulation(dbToken, simulation);
+		await dbToken.save();
+		return simulation;
+	}
+
+	/**
+	 * Copy a simulation result onto a Token document
+	 */
+	private applySimulation(dbToken: IToken, simulation: TokenSimulationResult): void {
+		dbToken.buyTax = simulation.buyTax;
+		dbToken.sellTax = simulation.sellTax;
+		dbToken.buyReverts = simulation.buyReverts;
+		dbToken.sellReverts = simulation.sellReverts;
+		dbToken.simulatedAt = simulation.simulatedAt;
+		dbToken.simulationError = simulation.error || null;
+	}
+
+	/**
+	 * Simulate a buy and a sell through the router's fee-on-transfer swaps using eth_call state overrides.
+	 * Nothing is broadcast: the simulation account gets a fake BNB balance for the buy, and a fake
+	 * token balance + router allowance (written into the token's storage) for the sell.
+	 * @param tokenAddress - Token contract address
+	 * @returns Buy/sell tax in percent (null if unknown) and whether either swap reverts
+	 */
+	async simulateTrade(tokenAddress: string): Promise<TokenSimulationResult> {
+		const result: TokenSimulationResult = {
+			buyTax: null,
+			sellTax: null,
+			buyReverts: false,
+			sellReverts: false,
+			simulatedAt: new Date(),
+		};
+
+		try {
+			const token = ethers.utils.getAddress(tokenAddress);
+			const wbnb = ethers.utils.getAddress(WBNB_ADDRESS);
+			const deadline = Math.floor(Date.now() / 1000) + 300;
+			const bnbIn = ethers.utils.parseEther(SIMULATION_BNB_AMOUNT.toString());
+
+			// ===== BUY =====
+			const buyPath = [wbnb, token];
+			const buyQuote: ethers.BigNumber = (await this.routerContract.getAmountsOut(bnbIn, buyPath))[1];
+			const buyOverride: StateOverride = {
+				[SIMULATION_ACCOUNT]: { balance: ethers.utils.hexValue(bnbIn.mul(2)) },
+			};
+			const buyPasses = (minOut: ethers.BigNumber) =>
+				this.callSucceeds(
+					PANCAKE_ROUTER_ADDRESS,
+					this.routerInterface.encodeFunctionData('swapExactETHForTokensSupportingFeeOnTransferTokens', [
+						minOut,
+						buyPath,
+						SIMULATION_ACCOUNT,
+						deadline,
+					]),
+					buyOverride,
+					bnbIn
+				);
+
+			if (!(await buyPasses(ethers.constants.Zero))) {
+				result.buyReverts = true;
+				result.buyTax = 100;
+			} else {
+				const receivedBps = await this.searchReceivedBps(buyQuote, buyPasses);
+				result.buyTax = (TAX_PRECISION_BPS - receivedBps) / 100;
+			}
+
+			// ===== SELL =====
+			// Sell the amount a tax-free buy would have returned
+			const sellAmount = buyQuote;
+			const sellPath = [token, wbnb];
+			const sellQuote: ethers.BigNumber = (await this.routerContract.getAmountsOut(sellAmount, sellPath))[1];
+
+			const balanceSlot = await this.findBalanceSlot(token, sellAmount);
+			if (balanceSlot === null) {
+				result.error = 'Token balance storage layout not recognised, sell not simulated';
+				return result;
+			}
+
+			const allowanceSlot = await this.findAllowanceSlot(token, sellAmount);
+			if (allowanceSlot === null) {
+				result.error = 'Token allowance storage layout not recognised, sell not simulated';
+				return result;
+			}
+
+			const sellOverride: StateOverride = {
+				[token]: {
+					stateDiff: {
+						[balanceSlot]: ethers.utils.hexZeroPad(sellAmount.toHexString(), 32),
+						[allowanceSlot]: ethers.utils.hexZeroPad(sellAmount.toHexString(), 32),
+					},
+				},
+			};
+			const sellPasses = (minOut: ethers.BigNumber) =>
+				this.callSucceeds(
+					PANCAKE_ROUTER_ADDRESS,
+					this.routerInterface.encodeFunctionData('swapExactTokensForETHSupportingFeeOnTransferTokens', [
+						sellAmount,
+						minOut,
+						sellPath,
+						SIMULATION_ACCOUNT,
+						deadline,
+					]),
+					sellOverride
+				);
+
+			if (!(await sellPasses(ethers.constants.Zero))) {
+				result.sellReverts = true;
+				result.sellTax = 100;
+			} else {
+				const receivedBps = await this.searchReceivedBps(sellQuote, sellPasses);
+				result.sellTax = (TAX_PRECISION_BPS - receivedBps) / 100;
+			}
+
+			logger.info(
+				`🧪 Simulation ${token}: buy tax ${result.buyTax}%${result.buyReverts ? ' (REVERTS)' : ''}, ` +
+				`sell tax ${result.sellTax}%${result.sellReverts ? ' (REVERTS)' : ''}`
+			);
+		} catch (error: any) {
+			logger.warning(`Trade simulation failed for ${tokenAddress}: ${error.message}`);
+			result.error = error.message;
+		}
+
+		return result;
+	}
+
+	/**
+	 * Find the largest share (in basis points) of a quote that a swap still delivers.
+	 * Relies on the router reverting when the received amount is below amountOutMin,
+	 * so every probe is one eth_call. Probes of a round run in parallel.
+	 */
+	private async searchReceivedBps(
+		quote: ethers.BigNumber,
+		passes: (minOut: ethers.BigNumber) => Promise<boolean>
+	): Promise<number> {
+		if (await passes(quote)) {
+			return TAX_PRECISION_BPS;
+		}
+
+		let low = 0; // Known to pass
+		let high = TAX_PRECISION_BPS; // Known to revert
+
+		while (high - low > 1) {
+			const step = Math.max(1, Math.ceil((high - low) / (TAX_SEARCH_PROBES + 1)));
+			const points: number[] = [];
+			for (let p = low + step; p < high; p += step) {
+				points.push(p);
+			}
+
+			const results = await Promise.all(points.map((p) => passes(quote.mul(p).div(TAX_PRECISION_BPS))));
+
+			let newHigh = high;
+			for (let i = 0; i < points.length; i++) {
+				if (results[i]) {
+					low = points[i];
+				} else {
+					newHigh = points[i];
+					break;
+				}
+			}
+			high = newHigh;
+		}
+
+		return low;
+	}
+
+	/**
+	 * Locate the storage slot of balances[SIMULATION_ACCOUNT] (Solidity mapping layout)
+	 */
+	private async findBalanceSlot(token: string, amount: ethers.BigNumber): Promise<string | null> {
+		const data = this.erc20Interface.encodeFunctionData('balanceOf', [SIMULATION_ACCOUNT]);
+
+		return this.probeSlots(token, data, amount, (slot) =>
+			ethers.utils.keccak256(ethers.utils.defaultAbiCoder.encode(['address', 'uint256'], [SIMULATION_ACCOUNT, slot]))
+		);
+	}
+
+	/**
+	 * Locate the storage slot of allowances[SIMULATION_ACCOUNT][router] (Solidity nested mapping layout)
+	 */
+	private async findAllowanceSlot(token: string, amount: ethers.BigNumber): Promise<string | null> {
+		const data = this.erc20Interface.encodeFunctionData('allowance', [SIMULATION_ACCOUNT, PANCAKE_ROUTER_ADDRESS]);
+
+		return this.probeSlots(token, data, amount, (slot) => {
+			const inner = ethers.utils.keccak256(
+				ethers.utils.defaultAbiCoder.encode(['address', 'uint256'], [SIMULATION_ACCOUNT, slot])
+			);
+			return ethers.utils.keccak256(
+				ethers.utils.defaultAbiCoder.encode(['address', 'bytes32'], [PANCAKE_ROUTER_ADDRESS, inner])
+			);
+		});
+	}
+
+	/**
+	 * Write a marker value into candidate storage keys and return the one the view call reads back
+	 */
+	private async probeSlots(
+		token: string,
+		viewData: string,
+		amount: ethers.BigNumber,
+		keyForSlot: (slot: number) => string
+	): Promise<string | null> {
+		const value = ethers.utils.hexZeroPad(amount.toHexString(), 32);
+		const slots = Array.from({ length: SIMULATION_MAX_STORAGE_SLOT + 1 }, (_, i) => i);
+
+		const results = await Promise.all(
+			slots.map(async (slot) => {
+				const key = keyForSlot(slot);
+				try {
+					const returned = await this.provider.send('eth_call', [
+						{ from: SIMULATION_ACCOUNT, to: token, data: viewData },
+						'latest',
+						{ [token]: { stateDiff: { [key]: value } } },
+					]);
+					return ethers.BigNumber.from(returned).eq(amount) ? key : null;
+				} catch {
+					return null;
+				}
+			})
+		);
+
+		return results.find((key) => key !== null) || null;
+	}
+
+	/**
+	 * Run an eth_call with state overrides
+	 * @returns false if the call reverts; other RPC errors are rethrown
+	 */
+	private async callSucceeds(
+		to: string,
+		data: string,
+		stateOverride: StateOverride,
+		value?: ethers.BigNumber
+	): Promise<boolean> {
+		try {
+			await this.provider.send('eth_call', [
+				{
+					from: SIMULATION_ACCOUNT,
+					to,
+					data,
+					gas: ethers.utils.hexValue(SIMULATION_GAS),
+					...(value ? { value: ethers.utils.hexValue(value) } : {}),
+				},
+				'latest',
+				stateOverride,
+			]);
+			return true;
+		} catch (error: any) {
+			const message = `${error.message || ''} ${error.body || ''}`.toLowerCase();
+			if (message.includes('revert')) {
+				return false;
+			}
+			throw error;
+		}
+	}
+
 	/**
 	 * Get token info from database or blockchain
 	 */
@@ -2,3 +2,4 @@
  * Trading Module Exports
  */
 export * from './pancakeswap.service';
+export * from './submission.service';
@@ -10,9 +10,12 @@ import {
 	APPROVAL_GAS_LIMIT,
 	MIN_SLIPPAGE,
 	MAX_SLIPPAGE,
+	SubmissionStrategy,
+	TRANSFER_EVENT_TOPIC,
 } from '../../config/constants';
 import { PANCAKESWAP_ROUTER_ABI } from '../../abi/pancakeswap-router.abi';
 import { ERC20_ABI } from '../../abi/erc20.abi';
+import { getSubmitter } from './submission.service';
 
 /**
  * PancakeSwap Service
@@ -35,6 +38,29 @@ export interface SwapEstimate {
 	gasCost: string;
 }
 
+/**
+ * BNB <-> token swap made through the PancakeSwap V2 router
+ * - BUY: bnbAmount is the BNB sent with the swap
+ * - SELL: tokenAmount is the exact (or maximum) amount of tokens sold
+ */
+export interface RouterSwap {
+	side: 'BUY' | 'SELL';
+	trader: string; // Transaction sender (lowercase)
+	tokenAddress: string; // Lowercase
+	bnbAmount?: BigNumber;
+	tokenAmount?: BigNumber; // Calldata amount - only an upper bound for swapTokensForExactETH (see getSoldTokenAmount)
+}
+
+// Router methods that swap BNB for a token or a token for BNB
+const ROUTER_SWAP_INTERFACE = new ethers.utils.Interface([
+	'function swapExactETHForTokens(uint256 amountOutMin, address[] path, address to, uint256 deadline)',
+	'function swapExactETHForTokensSupportingFeeOnTransferTokens(uint256 amountOutMin, address[] path, address to, uint256 deadline)',
+	'function swapETHForExactTokens(uint256 amountOut, address[] path, address to, uint256 deadline)',
+	'function swapExactTokensForETH(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)',
+	'function swapExactTokensForETHSupportingFeeOnTransferTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)',
+	'function swapTokensForExactETH(uint256 amountOut, uint256 amountInMax, address[] path, address to, uint256 deadline)',
+]);
+
 /**
  * Get PancakeSwap router contract instance
  */
@@ -435,6 +461,7 @@ export async function estimateSell(
  * @param bnbAmount - BNB amount in wei
  * @param slippagePercent - Slippage tolerance (0.1 - 99)
  * @param gasPrice - Custom gas price (optional, uses network price if not provided)
+ * @param submission - Public broadcast or private relay
  * @returns Swap result with transaction hash
  */
 export async function buyToken(
@@ -443,7 +470,8 @@ export async function buyToken(
 	tokenAddress: string,
 	bnbAmount: string,
 	slippagePercent: number,
-	gasPrice?: string
+	gasPrice?: string,
+	submission: SubmissionStrategy = SubmissionStrategy.PUBLIC
 ): Promise<SwapResult> {
 	try {
 		if (!isValidAddress(tokenAddress)) {
@@ -525,16 +553,19 @@ export async function buyToken(
 		);
 
 		// Execute swap
-		const tx = await router.swapExactETHForTokensSupportingFeeOnTransferTokens(
-			amountOutMin,
-			path,
-			wallet.address,
-			deadline,
-			{
-				value: bnbAmount,
-				gasLimit: gasLimit,
-				gasPrice: txGasPrice,
-			}
+		const tx = await getSubmitter(submission).submit(
+			signer,
+			await router.populateTransaction.swapExactETHForTokensSupportingFeeOnTransferTokens(
+				amountOutMin,
+				path,
+				wallet.address,
+				deadline,
+				{
+					value: bnbAmount,
+					gasLimit: gasLimit,
+					gasPrice: txGasPrice,
+				}
+			)
 		);
 
 		logger.success(`Buy transaction sent: ${tx.hash}`);
@@ -574,6 +605,7 @@ export async function buyToken(
  * @param tokenAmount - Token amount in wei
  * @param slippagePercent - Slippage tolerance (0.1 - 99)
  * @param gasPrice - Custom gas price (optional)
+ * @param submission - Public broadcast or private relay
  * @returns Swap result with transaction hash
  */
 export async function sellToken(
@@ -582,7 +614,8 @@ export async function sellToken(
 	tokenAddress: string,
 	tokenAmount: string,
 	slippagePercent: number,
-	gasPrice?: string
+	gasPrice?: string,
+	submission: SubmissionStrategy = SubmissionStrategy.PUBLIC
 ): Promise<SwapResult> {
 	try {
 		if (!isValidAddress(tokenAddress)) {
@@ -661,16 +694,19 @@ export async function sellToken(
 		);
 
 		// Execute swap
-		const tx = await router.swapExactTokensForETHSupportingFeeOnTransferTokens(
-			tokenAmount,
-			amountOutMin,
-			path,
-			wallet.address,
-			deadline,
-			{
-				gasLimit: gasLimit,
-				gasPrice: txGasPrice,
-			}
+		const tx = await getSubmitter(submission).submit(
+			signer,
+			await router.populateTransaction.swapExactTokensForETHSupportingFeeOnTransferTokens(
+				tokenAmount,
+				amountOutMin,
+				path,
+				wallet.address,
+				deadline,
+				{
+					gasLimit: gasLimit,
+					gasPrice: txGasPrice,
+				}
+			)
 		);
 
 		logger.success(`Sell transaction sent: ${tx.hash}`);
@@ -699,15 +735,84 @@ export async function sellToken(
 	}
 }
 
+/**
+ * Decode a PancakeSwap V2 router transaction into a BNB <-> token swap
+ * Token-to-token swaps and other router methods are ignored
+ * @param tx - Transaction (`to`, `from`, `data` and `value` are used)
+ * @returns Swap, or null if the transaction is not a BNB swap through the router
+ */
+export function parseRouterSwap(tx: {
+	to?: string | null;
+	from: string;
+	data: string;
+	value: BigNumber;
+}): RouterSwap | null {
+	if (!tx.to || tx.to.toLowerCase() !== PANCAKE_ROUTER_ADDRESS.toLowerCase()) {
+		return null;
+	}
+
+	let parsed: ethers.utils.TransactionDescription;
+	try {
+		parsed = ROUTER_SWAP_INTERFACE.parseTransaction({ data: tx.data, value: tx.value });
+	} catch {
+		return null; // Not a BNB swap (liquidity, token-to-token, ...)
+	}
+
+	const path: string[] = parsed.args.path.map((address: string) => address.toLowerCase());
+	if (path.length < 2) {
+		return null;
+	}
+
+	const trader = tx.from.toLowerCase();
+	const wbnb = WBNB_ADDRESS.toLowerCase();
+
+	if (parsed.name.startsWith('swapExactETH') || parsed.name === 'swapETHForExactTokens') {
+		if (path[0] !== wbnb) return null;
+		return { side: 'BUY', trader, tokenAddress: path[path.length - 1], bnbAmount: tx.value };
+	}
+
+	if (path[path.length - 1] !== wbnb) return null;
+	const tokenAmount = parsed.name === 'swapTokensForExactETH' ? parsed.args.amountInMax : parsed.args.amountIn;
+	return { side: 'SELL', trader, tokenAddress: path[0], tokenAmount };
+}
+
+/**
+ * Get the token amount a trader actually sent in a mined swap, from its Transfer logs
+ * @param receipt - Receipt of the swap
+ * @param tokenAddress - Token sold
+ * @param trader - Seller address
+ * @returns Total transferred out of the trader's wallet, or null if no Transfer was found
+ */
+export function getSoldTokenAmount(
+	receipt: ethers.providers.TransactionReceipt,
+	tokenAddress: string,
+	trader: string
+): BigNumber | null {
+	const token = tokenAddress.toLowerCase();
+	const fromTopic = ethers.utils.hexZeroPad(trader, 32).toLowerCase();
+
+	const transfers = receipt.logs.filter(
+		(log) =>
+			log.address.toLowerCase() === token &&
+			log.topics[0] === TRANSFER_EVENT_TOPIC &&
+			log.topics[1]?.toLowerCase() === fromTopic
+	);
+	if (transfers.length === 0) return null;
+
+	return transfers.reduce((sum, log) => sum.add(BigNumber.from(log.data)), BigNumber.from(0));
+}
+
 /**
  * Get token balance for an address
  * @param tokenAddress - Token contract address
  * @param walletAddress - Wallet address
+ * @param blockTag - Block to read the balance at (default: latest)
  * @returns Token balance in wei
  */
 export async function getTokenBalance(
 	tokenAddress: string,
-	walletAddress: string
+	walletAddress: string,
+	blockTag?: number
 ): Promise<string> {
 	try {
 		if (!isValidAddress(tokenAddress)) {
@@ -718,7 +823,7 @@ export async function getTokenBalance(
 		}
 
 		const tokenContract = getTokenContract(tokenAddress);
-		const balance = await tokenContract.balanceOf(walletAddress);
+		const balance = await tokenContract.balanceOf(walletAddress, blockTag !== undefined ? { blockTag } : {});
 
 		return balance.toString();
 	} catch (error: any) {
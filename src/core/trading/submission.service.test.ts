@@ -0,0 +1,196 @@
+import { test, before, after, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { ethers } from 'ethers';
+import { PrivateRelayOptions, PrivateRelaySubmitter } from './submission.service';
+
+/**
+ * Local JSON-RPC server playing both the private relay (/relay) and the public node (/rpc)
+ */
+interface RpcCall {
+	path: string;
+	method: string;
+	params: any[];
+	authorization?: string;
+}
+
+const BLOCK_NUMBER = 16;
+
+let server: http.Server;
+let baseUrl: string;
+let calls: RpcCall[];
+let relayError: { code: number; message: string } | null;
+let receiptStatus: number | null; // null = not mined yet
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function receiptFor(hash: string, from: string) {
+	return {
+		transactionHash: hash,
+		transactionIndex: '0x0',
+		blockHash: ethers.utils.hexZeroPad('0x10', 32),
+		blockNumber: ethers.utils.hexValue(BLOCK_NUMBER),
+		from,
+		to: ethers.constants.AddressZero,
+		cumulativeGasUsed: '0x5208',
+		gasUsed: '0x5208',
+		effectiveGasPrice: '0x3b9aca00',
+		contractAddress: null,
+		logs: [],
+		logsBloom: ethers.utils.hexZeroPad('0x', 256),
+		status: ethers.utils.hexValue(receiptStatus as number),
+		type: '0x0',
+	};
+}
+
+function handle(path: string, method: string, params: any[]): any {
+	if (path === '/relay') {
+		if (relayError) return { error: relayError };
+		return { result: method === 'eth_sendBundle' ? { bundleHash: '0x01' } : ethers.utils.keccak256(params[0]) };
+	}
+
+	switch (method) {
+		case 'eth_chainId':
+			return { result: '0x38' };
+		case 'net_version':
+			return { result: '56' };
+		case 'eth_blockNumber':
+			return { result: ethers.utils.hexValue(BLOCK_NUMBER) };
+		case 'eth_sendRawTransaction':
+			return { result: ethers.utils.keccak256(params[0]) };
+		case 'eth_getTransactionReceipt': {
+			const sent = calls.find((call) => call.method === 'eth_sendRawTransaction' || call.method === 'eth_sendBundle');
+			if (receiptStatus === null || !sent) return { result: null };
+			const rawTx = sent.method === 'eth_sendBundle' ? sent.params[0].txs[0] : sent.params[0];
+			return { result: receiptFor(params[0], ethers.utils.parseTransaction(rawTx).from as string) };
+		}
+		default:
+			return { error: { code: -32601, message: `Method ${method} not found` } };
+	}
+}
+
+before(async () => {
+	server = http.createServer((req, res) => {
+		let body = '';
+		req.on('data', (chunk) => (body += chunk));
+		req.on('end', () => {
+			const payload = JSON.parse(body);
+			calls.push({
+				path: req.url || '',
+				method: payload.method,
+				params: payload.params,
+				authorization: req.headers.authorization,
+			});
+			res.setHeader('Content-Type', 'application/json');
+			res.end(JSON.stringify({ jsonrpc: '2.0', id: payload.id, ...handle(req.url || '', payload.method, payload.params) }));
+		});
+	});
+	await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+	baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+	server.close();
+});
+
+beforeEach(() => {
+	calls = [];
+	relayError = null;
+	receiptStatus = null;
+});
+
+// Let each test's fallback timer fire before the next test resets the server state
+afterEach(() => sleep(100));
+
+function setup(options: Partial<PrivateRelayOptions> = {}) {
+	const provider = new ethers.providers.StaticJsonRpcProvider(`${baseUrl}/rpc`, { chainId: 56, name: 'bnb' });
+	const signer = ethers.Wallet.createRandom().connect(provider);
+	const submitter = new PrivateRelaySubmitter({
+		url: `${baseUrl}/relay`,
+		api: 'rpc',
+		authHeader: 'Bearer relay-key',
+		requestTimeout: 1000,
+		fallbackMs: 50,
+		bundleBlocks: 3,
+		...options,
+	});
+	const request: ethers.providers.TransactionRequest = {
+		to: ethers.constants.AddressZero,
+		value: 0,
+		nonce: 7,
+		gasLimit: 21000,
+		gasPrice: ethers.utils.parseUnits('1', 'gwei'),
+		type: 0,
+		chainId: 56,
+	};
+	return { signer, submitter, request };
+}
+
+const publicSends = () => calls.filter((call) => call.path === '/rpc' && call.method === 'eth_sendRawTransaction');
+
+test('relay accepts: the transaction stays off the public mempool once included', async () => {
+	const { signer, submitter, request } = setup();
+
+	const tx = await submitter.submit(signer, request);
+	const relayCall = calls.find((call) => call.path === '/relay');
+
+	assert.ok(relayCall);
+	assert.equal(relayCall.method, 'eth_sendRawTransaction');
+	assert.equal(relayCall.authorization, 'Bearer relay-key');
+	assert.equal(tx.hash, ethers.utils.keccak256(relayCall.params[0]));
+	assert.equal(tx.from, signer.address);
+	assert.equal(tx.nonce, 7);
+
+	receiptStatus = 1;
+	const receipt = await tx.wait();
+	assert.equal(receipt.transactionHash, tx.hash);
+
+	await sleep(100);
+	assert.equal(publicSends().length, 0);
+});
+
+test('relay accepts: wait() throws CALL_EXCEPTION on a revert', async () => {
+	const { signer, submitter, request } = setup();
+
+	const tx = await submitter.submit(signer, request);
+	receiptStatus = 0;
+
+	await assert.rejects(tx.wait(), (error: any) => error.code === ethers.errors.CALL_EXCEPTION);
+});
+
+test('relay accepts but does not include in time: falls back to public', async () => {
+	const { signer, submitter, request } = setup();
+
+	const tx = await submitter.submit(signer, request);
+	assert.equal(publicSends().length, 0);
+
+	await sleep(100);
+	const [fallback] = publicSends();
+	assert.ok(fallback);
+	assert.equal(ethers.utils.keccak256(fallback.params[0]), tx.hash);
+});
+
+test('relay rejects: broadcasts publicly right away', async () => {
+	const { signer, submitter, request } = setup();
+	relayError = { code: -32000, message: 'bundle rejected' };
+
+	const tx = await submitter.submit(signer, request);
+
+	const [publicSend] = publicSends();
+	assert.ok(publicSend);
+	assert.equal(ethers.utils.keccak256(publicSend.params[0]), tx.hash);
+});
+
+test('bundle api: sends eth_sendBundle bounded to bundleBlocks', async () => {
+	const { signer, submitter, request } = setup({ api: 'bundle' });
+	receiptStatus = 1;
+
+	await submitter.submit(signer, request);
+
+	const relayCall = calls.find((call) => call.path === '/relay');
+	assert.ok(relayCall);
+	assert.equal(relayCall.method, 'eth_sendBundle');
+	assert.equal(relayCall.params[0].maxBlockNumber, BLOCK_NUMBER + 3);
+	assert.equal(relayCall.params[0].txs.length, 1);
+});
@@ -0,0 +1,190 @@
+import { ethers } from 'ethers';
+import { config } from '../../config/config';
+import { SubmissionStrategy } from '../../config/constants';
+import { logger } from '../../utils/logger';
+
+/**
+ * Transaction Submission
+ * Decides how a signed swap reaches the chain. Public submission goes through the
+ * RPC pool; the private relay keeps swaps out of the public mempool (no sandwiches)
+ * and falls back to a public broadcast if the relay fails or is too slow to include it.
+ */
+
+export interface TransactionSubmitter {
+	readonly name: string;
+	/**
+	 * Sign and submit a transaction
+	 * @param signer - Wallet with the pooled provider attached
+	 * @param request - Unsigned transaction (nonce, gas and value already set)
+	 * @returns Transaction response that can be waited on
+	 */
+	submit(
+		signer: ethers.Wallet,
+		request: ethers.providers.TransactionRequest
+	): Promise<ethers.providers.TransactionResponse>;
+}
+
+export interface PrivateRelayOptions {
+	url: string;
+	api: 'rpc' | 'bundle';
+	authHeader?: string;
+	requestTimeout: number;
+	fallbackMs: number;
+	bundleBlocks: number;
+}
+
+/**
+ * Response for a transaction that public nodes may not see until it is mined
+ * (getTransaction returns null for relay-only transactions). wait() resolves on the
+ * receipt and throws CALL_EXCEPTION on a revert, like a provider-built response.
+ */
+function toTransactionResponse(
+	provider: ethers.providers.Provider,
+	rawTx: string
+): ethers.providers.TransactionResponse {
+	const tx = ethers.utils.parseTransaction(rawTx);
+	const hash = tx.hash as string;
+
+	return {
+		...tx,
+		hash,
+		from: tx.from as string,
+		raw: rawTx,
+		confirmations: 0,
+		wait: async (confirmations?: number) => {
+			const receipt = await provider.waitForTransaction(hash, confirmations);
+			if (receipt.status === 0) {
+				throw ethers.logger.makeError('transaction failed', ethers.errors.CALL_EXCEPTION, {
+					transactionHash: hash,
+					transaction: tx,
+					receipt,
+				});
+			}
+			return receipt;
+		},
+	};
+}
+
+/**
+ * Broadcast through the public RPC pool
+ */
+export class PublicSubmitter implements TransactionSubmitter {
+	readonly name = 'public';
+
+	submit(
+		signer: ethers.Wallet,
+		request: ethers.providers.TransactionRequest
+	): Promise<ethers.providers.TransactionResponse> {
+		return signer.sendTransaction(request);
+	}
+}
+
+/**
+ * Post signed transactions to a private relay (builder/relay style JSON-RPC)
+ */
+export class PrivateRelaySubmitter implements TransactionSubmitter {
+	readonly name = 'private relay';
+
+	constructor(private options: PrivateRelayOptions) {}
+
+	async submit(
+		signer: ethers.Wallet,
+		request: ethers.providers.TransactionRequest
+	): Promise<ethers.providers.TransactionResponse> {
+		const provider = signer.provider as ethers.providers.JsonRpcProvider;
+		const populated = await signer.populateTransaction(request);
+		const rawTx = await signer.signTransaction(populated);
+		const txHash = ethers.utils.keccak256(rawTx);
+
+		try {
+			await this.postToRelay(provider, rawTx);
+		} catch (error: any) {
+			logger.warning(`🕶 Private relay failed for ${txHash} (${error.reason || error.message}) - broadcasting publicly`);
+			return provider.sendTransaction(rawTx);
+		}
+
+		logger.info(`🕶 Sent ${txHash} to private relay`);
+		this.scheduleFallback(provider, rawTx, txHash);
+
+		return toTransactionResponse(provider, rawTx);
+	}
+
+	/**
+	 * Send the raw transaction to the relay
+	 * Throws on timeouts, HTTP errors and JSON-RPC errors
+	 */
+	private async postToRelay(provider: ethers.providers.JsonRpcProvider, rawTx: string): Promise<void> {
+		let method = 'eth_sendRawTransaction';
+		let params: any[] = [rawTx];
+
+		if (this.options.api === 'bundle') {
+			const blockNumber = await provider.getBlockNumber();
+			method = 'eth_sendBundle';
+			params = [{ txs: [rawTx], maxBlockNumber: blockNumber + this.options.bundleBlocks }];
+		}
+
+		const connection: ethers.utils.ConnectionInfo = {
+			url: this.options.url,
+			timeout: this.options.requestTimeout,
+			throttleLimit: 1,
+			headers: this.options.authHeader ? { Authorization: this.options.authHeader } : undefined,
+		};
+
+		await ethers.utils.fetchJson(
+			connection,
+			JSON.stringify({ jsonrpc: '2.0', id: 1, method, params }),
+			(payload: any) => {
+				if (payload?.error) {
+					const error: any = new Error(payload.error.message || 'Relay error');
+					error.code = payload.error.code;
+					throw error;
+				}
+				return payload?.result;
+			}
+		);
+	}
+
+	/**
+	 * Broadcast publicly if the relay has not landed the transaction in time
+	 * Re-sending the same signed transaction can never execute it twice
+	 */
+	private scheduleFallback(provider: ethers.providers.JsonRpcProvider, rawTx: string, txHash: string): void {
+		setTimeout(async () => {
+			try {
+				const receipt = await provider.getTransactionReceipt(txHash);
+				if (receipt) return;
+
+				logger.warning(`🕶 ${txHash} not included by private relay after ${this.options.fallbackMs}ms - broadcasting publicly`);
+				await provider.send('eth_sendRawTransaction', [rawTx]);
+			} catch (error: any) {
+				// "already known" / "nonce too low" mean it is pending or mined already
+				logger.debug(`Public fallback for ${txHash}: ${error.message}`);
+			}
+		}, this.options.fallbackMs);
+	}
+}
+
+const publicSubmitter = new PublicSubmitter();
+const privateRelaySubmitter = config.privateRelay.url
+	? new PrivateRelaySubmitter(config.privateRelay)
+	: null;
+
+/**
+ * Check whether a private relay is configured
+ */
+export function isPrivateRelayConfigured(): boolean {
+	return privateRelaySubmitter !== null;
+}
+
+/**
+ * Get the submitter for a strategy
+ * @param strategy - Submission strategy (orders default to public)
+ * @returns Submitter; public when no private relay is configured
+ */
+export function getSubmitter(strategy: SubmissionStrategy = SubmissionStrategy.PUBLIC): TransactionSubmitter {
+	if (strategy === SubmissionStrategy.PRIVATE_RELAY) {
+		if (privateRelaySubmitter) return privateRelaySubmitter;
+		logger.warning('Private relay requested but PRIVATE_RELAY_URL is not set - using public broadcast');
+	}
+	return publicSubmitter;
+}
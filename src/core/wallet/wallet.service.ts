@@ -4,7 +4,9 @@ import { decryptPrivateKey } from '../../utils/encryption';
 import { isValidAddress, validateBnbAmount } from '../../utils/validation';
 import { logger } from '../../utils/logger';
 import { config } from '../../config/config';
-import { ERROR_MESSAGES, BALANCE_CACHE_TTL } from '../../config/constants';
+import { providerPool } from '../rpc/provider.pool';
+import { multicall, multicallInterface } from '../rpc/multicall';
+import { ERROR_MESSAGES, BALANCE_CACHE_TTL, MULTICALL3_ADDRESS } from '../../config/constants';
 import NodeCache from 'node-cache';
 
 /**
@@ -15,7 +17,7 @@ import NodeCache from 'node-cache';
 // Balance cache (TTL: 60 seconds)
 const balanceCache = new NodeCache({ stdTTL: BALANCE_CACHE_TTL });
 
-// BSC Provider
+// BSC Provider (shared pool of RPC endpoints)
 let provider: ethers.providers.JsonRpcProvider;
 
 /**
@@ -23,8 +25,8 @@ let provider: ethers.providers.JsonRpcProvider;
  */
 export function initializeProvider(): void {
 	try {
-		provider = new ethers.providers.JsonRpcProvider(config.bsc.rpcHttpUrl);
-		logger.success('BSC provider initialized');
+		provider = providerPool.getProvider();
+		logger.success(`BSC provider initialized (${config.bsc.rpcHttpUrls.length} RPC endpoints)`);
 	} catch (error: any) {
 		logger.error('Failed to initialize BSC provider:', error.message);
 		throw error;
@@ -290,16 +292,34 @@ export async function getBatchBalances(
 	addresses: string[]
 ): Promise<Map<string, number>> {
 	const balances = new Map<string, number>();
+	const uncached: string[] = [];
 
-	// Fetch balances in parallel
-	const results = await Promise.allSettled(
-		addresses.map((addr) => getBnbBalance(addr, true))
+	for (const address of addresses) {
+		const addressLower = address.toLowerCase();
+		const cached = balanceCache.get<number>(addressLower);
+		if (cached !== undefined) {
+			balances.set(addressLower, cached);
+		} else if (isValidAddress(address)) {
+			uncached.push(addressLower);
+		}
+	}
+
+	// One Multicall3 getEthBalance per address, batched into as few eth_calls as possible
+	const results = await multicall(
+		uncached.map((address) => ({
+			target: MULTICALL3_ADDRESS,
+			iface: multicallInterface,
+			method: 'getEthBalance',
+			args: [address],
+		}))
 	);
 
 	results.forEach((result, index) => {
-		if (result.status === 'fulfilled' && result.value.success && result.value.balance !== undefined) {
-			balances.set(addresses[index].toLowerCase(), result.value.balance);
-		}
+		if (!result) return;
+
+		const balanceBnb = parseFloat(ethers.utils.formatEther(result[0]));
+		balanceCache.set(uncached[index], balanceBnb);
+		balances.set(uncached[index], balanceBnb);
 	});
 
 	return balances;
@@ -0,0 +1,181 @@
+import { Order, Position } from '../models';
+import { ITakeProfitLevel, IStopLossLevel } from '../models/order.model';
+import { logger } from '../../utils/logger';
+
+/**
+ * Legacy single-target TP/SL fields, removed from the schemas in favour of level arrays
+ */
+const LEGACY_ORDER_FIELDS = ['takeProfitPercent', 'takeProfitEnabled', 'stopLossPercent', 'stopLossEnabled'];
+const LEGACY_POSITION_FIELDS = ['takeProfitTarget', 'stopLossTarget'];
+
+export interface LegacyTpslChange {
+	collection: 'orders' | 'positions';
+	id: string;
+	label: string; // Order name or position token symbol
+	takeProfitLevels?: ITakeProfitLevel[]; // Set only when levels are created
+	stopLossLevels?: IStopLossLevel[];
+	dropped: string[]; // Legacy values removed without creating a level, with the reason
+}
+
+export interface LegacyTpslReport {
+	dryRun: boolean;
+	ordersScanned: number;
+	positionsScanned: number;
+	levelsCreated: number;
+	targetsNotMigrated: number; // Position targets reported instead of converted
+	changes: LegacyTpslChange[];
+}
+
+/**
+ * Convert one legacy target into a single 100% sell level, if it should become one
+ * @param percent - Legacy TP/SL percent
+ * @param enabled - Legacy enabled flag; the old engine only acted on `true`
+ * @param existingLevels - Level array already on the document
+ * @param name - Field name for the report
+ * @param dropped - Collects why a legacy value was not converted
+ */
+function toLevels(
+	percent: unknown,
+	enabled: unknown,
+	existingLevels: unknown,
+	name: string,
+	dropped: string[]
+): Array<{ pnlPercent: number; sellPercent: number }> | undefined {
+	const value = Number(percent);
+	if (percent === undefined || percent === null || !(value > 0)) return undefined;
+
+	if (Array.isArray(existingLevels) && existingLevels.length > 0) {
+		dropped.push(`${name} ${value}% (levels already set)`);
+		return undefined;
+	}
+	if (enabled !== true) {
+		dropped.push(`${name} ${value}% (disabled)`);
+		return undefined;
+	}
+
+	return [{ pnlPercent: value, sellPercent: 100 }];
+}
+
+/**
+ * Report a legacy position target as not migrated
+ * The sell engine only evaluates the order's levels, so a position-level copy would never fire
+ * @returns Whether there was a target to report
+ */
+function reportNotMigrated(percent: unknown, name: string, dropped: string[]): boolean {
+	const value = Number(percent);
+	if (percent === undefined || percent === null || !(value > 0)) return false;
+
+	dropped.push(`${name} ${value}% (not migrated - only the order's levels are evaluated)`);
+	return true;
+}
+
+/**
+ * Migrate legacy order TP/SL fields into takeProfitLevels/stopLossLevels
+ * A legacy target only becomes a level when the order has no levels of that kind (levels
+ * always took precedence in the sell engine) and when it was enabled. Position targets are
+ * reported as not migrated: the sell engine only reads order levels. The legacy fields are
+ * then unset, so running this again finds nothing to do.
+ * @param options.dryRun - Build the report without writing anything
+ * @returns Report of every document that was (or would be) changed
+ */
+export async function migrateLegacyTpsl(options: { dryRun?: boolean } = {}): Promise<LegacyTpslReport> {
+	const dryRun = options.dryRun ?? false;
+	const report: LegacyTpslReport = {
+		dryRun,
+		ordersScanned: 0,
+		positionsScanned: 0,
+		levelsCreated: 0,
+		targetsNotMigrated: 0,
+		changes: [],
+	};
+
+	// The legacy paths are no longer in the schemas, so go through the raw collections
+	const hasLegacy = (fields: string[]) => ({ $or: fields.map((field) => ({ [field]: { $exists: true } })) });
+	const unsetLegacy = (fields: string[]) => Object.fromEntries(fields.map((field) => [field, '']));
+
+	const orders = await Order.collection.find(hasLegacy(LEGACY_ORDER_FIELDS)).toArray();
+	report.ordersScanned = orders.length;
+
+	for (const order of orders) {
+		const dropped: string[] = [];
+		const change: LegacyTpslChange = { collection: 'orders', id: order._id.toString(), label: order.name || 'Unnamed', dropped };
+		change.takeProfitLevels = toLevels(order.takeProfitPercent, order.takeProfitEnabled, order.takeProfitLevels, 'takeProfitPercent', dropped);
+		change.stopLossLevels = toLevels(order.stopLossPercent, order.stopLossEnabled, order.stopLossLevels, 'stopLossPercent', dropped);
+		report.changes.push(change);
+
+		if (dryRun) continue;
+
+		const $set: Record<string, unknown> = {};
+		if (change.takeProfitLevels) $set.takeProfitLevels = change.takeProfitLevels;
+		if (change.stopLossLevels) $set.stopLossLevels = change.stopLossLevels;
+		await Order.collection.updateOne(
+			{ _id: order._id },
+			{ ...(Object.keys($set).length > 0 ? { $set } : {}), $unset: unsetLegacy(LEGACY_ORDER_FIELDS) }
+		);
+	}
+
+	const positions = await Position.collection.find(hasLegacy(LEGACY_POSITION_FIELDS)).toArray();
+	report.positionsScanned = positions.length;
+
+	for (const position of positions) {
+		const dropped: string[] = [];
+		const change: LegacyTpslChange = { collection: 'positions', id: position._id.toString(), label: position.tokenSymbol || 'Unknown', dropped };
+		if (reportNotMigrated(position.takeProfitTarget, 'takeProfitTarget', dropped)) report.targetsNotMigrated++;
+		if (reportNotMigrated(position.stopLossTarget, 'stopLossTarget', dropped)) report.targetsNotMigrated++;
+		report.changes.push(change);
+
+		if (dryRun) continue;
+
+		if (dropped.length > 0) {
+			logger.warning(`⚠️ Legacy TP/SL not migrated for position ${change.id} (${change.label}): ${dropped.join(', ')}`);
+		}
+		await Position.collection.updateOne({ _id: position._id }, { $unset: unsetLegacy(LEGACY_POSITION_FIELDS) });
+	}
+
+	report.levelsCreated = report.changes.reduce(
+		(sum, change) => sum + (change.takeProfitLevels ? 1 : 0) + (change.stopLossLevels ? 1 : 0),
+		0
+	);
+
+	if (!dryRun && report.changes.length > 0) {
+		logger.success(`✅ Legacy TP/SL migration: ${report.changes.length} document(s) cleaned, ${report.levelsCreated} level(s) created`);
+		if (report.targetsNotMigrated > 0) {
+			logger.warning(`⚠️ ${report.targetsNotMigrated} position TP/SL target(s) were not migrated - set levels on their orders instead`);
+		}
+	}
+
+	return report;
+}
+
+/**
+ * Format a migration report as plain text (one line per changed document)
+ */
+export function formatLegacyTpslReport(report: LegacyTpslReport): string {
+	const lines: string[] = [];
+	lines.push(`Legacy TP/SL migration${report.dryRun ? ' (DRY RUN - nothing written)' : ''}`);
+	lines.push(`Orders with legacy fields: ${report.ordersScanned}`);
+	lines.push(`Positions with legacy fields: ${report.positionsScanned}`);
+	lines.push(`Levels ${report.dryRun ? 'to create' : 'created'}: ${report.levelsCreated}`);
+	if (report.targetsNotMigrated > 0) {
+		lines.push(`Position targets NOT migrated: ${report.targetsNotMigrated} (the sell engine only evaluates order levels)`);
+	}
+
+	if (report.changes.length === 0) {
+		lines.push('Nothing to migrate.');
+		return lines.join('\n');
+	}
+
+	lines.push('');
+	for (const change of report.changes) {
+		const actions: string[] = [];
+		if (change.takeProfitLevels) actions.push(`TP level +${change.takeProfitLevels[0].pnlPercent}% -> sell 100%`);
+		if (change.stopLossLevels) actions.push(`SL level -${change.stopLossLevels[0].pnlPercent}% -> sell 100%`);
+		if (change.dropped.length > 0) actions.push(`drop ${change.dropped.join(', ')}`);
+		if (actions.length === 0) actions.push('unset empty legacy fields');
+
+		const kind = change.collection === 'orders' ? 'Order' : 'Position';
+		lines.push(`${kind} ${change.id} (${change.label}): ${actions.join('; ')}`);
+	}
+
+	return lines.join('\n');
+}
@@ -5,8 +5,13 @@
 
 export { User, IUser } from './user.model';
 export { Wallet, IWallet } from './wallet.model';
-export { Order, IOrder } from './order.model';
+export { Order, IOrder, LeanOrder } from './order.model';
 export { Position, IPosition } from './position.model';
 export { Transaction, ITransaction } from './transaction.model';
 export { Token, IToken } from './token.model';
-export { ScannedToken, IScannedToken } from './scanned-token.model';
+export { ScannedToken, IScannedToken, LeanScannedToken } from './scanned-token.model';
+export { QueuedTransaction, IQueuedTransaction } from './queued-transaction.model';
+export { ScannerState, IScannerState } from './scanner-state.model';
+export { LimitOrder, ILimitOrder } from './limit-order.model';
+export { TokenApproval, ITokenApproval } from './token-approval.model';
+export { WatchedWallet, IWatchedWallet } from './watched-wallet.model';
@@ -0,0 +1,135 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+import { LimitOrderStatus, LimitTriggerType } from '../../config/constants';
+
+/**
+ * Limit Order Interface
+ * Pending buy of a specific token, executed with the parent order's settings
+ * once the price or market cap falls to the target
+ */
+export interface ILimitOrder extends Document {
+	userId: mongoose.Types.ObjectId;
+	orderId: mongoose.Types.ObjectId; // Gas, slippage and TP/SL levels come from this order
+	walletId: mongoose.Types.ObjectId;
+
+	tokenAddress: string;
+	tokenSymbol: string;
+	tokenName: string;
+	tokenDecimals: number;
+	totalSupply: string; // Raw units, for market cap triggers
+
+	bnbAmount: number;
+	triggerType: LimitTriggerType;
+	triggerValue: number; // BNB per token (PRICE) or USD (MARKET_CAP)
+	expiresAt: Date;
+
+	status: LimitOrderStatus;
+	triggeredAt?: Date;
+	triggerPrice?: number; // Price in BNB when the trigger fired
+	txHash?: string;
+	positionId?: mongoose.Types.ObjectId;
+	errorMessage?: string;
+
+	createdAt: Date;
+	updatedAt: Date;
+}
+
+/**
+ * Limit Order Schema
+ */
+const LimitOrderSchema = new Schema<ILimitOrder>(
+	{
+		userId: {
+			type: Schema.Types.ObjectId,
+			ref: 'User',
+			required: true,
+			index: true,
+		},
+		orderId: {
+			type: Schema.Types.ObjectId,
+			ref: 'Order',
+			required: true,
+			index: true,
+		},
+		walletId: {
+			type: Schema.Types.ObjectId,
+			ref: 'Wallet',
+			required: true,
+		},
+		tokenAddress: {
+			type: String,
+			required: true,
+			lowercase: true,
+		},
+		tokenSymbol: {
+			type: String,
+			default: 'UNKNOWN',
+		},
+		tokenName: {
+			type: String,
+			default: 'Unknown Token',
+		},
+		tokenDecimals: {
+			type: Number,
+			default: 18,
+		},
+		totalSupply: {
+			type: String,
+			default: '0',
+		},
+		bnbAmount: {
+			type: Number,
+			required: true,
+			min: 0,
+		},
+		triggerType: {
+			type: String,
+			enum: Object.values(LimitTriggerType),
+			required: true,
+		},
+		triggerValue: {
+			type: Number,
+			required: true,
+			min: 0,
+		},
+		expiresAt: {
+			type: Date,
+			required: true,
+		},
+		status: {
+			type: String,
+			enum: Object.values(LimitOrderStatus),
+			default: LimitOrderStatus.PENDING,
+			index: true,
+		},
+		triggeredAt: {
+			type: Date,
+			default: null,
+		},
+		triggerPrice: {
+			type: Number,
+			default: null,
+		},
+		txHash: {
+			type: String,
+			default: null,
+		},
+		positionId: {
+			type: Schema.Types.ObjectId,
+			ref: 'Position',
+			default: null,
+		},
+		errorMessage: {
+			type: String,
+			default: null,
+		},
+	},
+	{
+		timestamps: true,
+		versionKey: false,
+	}
+);
+
+/**
+ * Limit Order Model
+ */
+export const LimitOrder: Model<ILimitOrder> = mongoose.model<ILimitOrder>('LimitOrder', LimitOrderSchema);
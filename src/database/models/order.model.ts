@@ -1,4 +1,16 @@
 import mongoose, { Document, Schema, Model } from 'mongoose';
+import { IWallet } from './wallet.model';
+import {
+	BREAK_EVEN_MAX_LOCK_PERCENT,
+	DEV_DUMP_DEFAULT_PERCENT,
+	EntryMode,
+	SubmissionStrategy,
+	PnlBasis,
+	ENTRY_MAX_TRANCHES,
+	SELL_RETRY_MAX_ATTEMPTS,
+	SELL_RETRY_STOP_LOSS_DEFAULTS,
+	SELL_RETRY_TAKE_PROFIT_DEFAULTS,
+} from '../../config/constants';
 
 /**
  * Take Profit Level Interface
@@ -10,10 +22,48 @@ export interface ITakeProfitLevel {
 
 /**
  * Stop Loss Level Interface
+ * Fixed levels trigger at pnlPercent loss from the buy price.
+ * Trailing levels trigger when price falls pnlPercent from the position's peak,
+ * optionally only once the peak reached activationPercent profit.
  */
 export interface IStopLossLevel {
 	pnlPercent: number;
 	sellPercent: number;
+	trailing?: boolean;
+	activationPercent?: number | null;
+}
+
+/**
+ * Sell Retry Ladder Interface
+ * Retry n of a failed auto-sell uses slippage + n * slippageStep and
+ * gasPrice * (1 + n * gasStepPercent / 100), capped at maxSlippage / maxGasPrice (gwei).
+ */
+export interface ISellRetryLadder {
+	maxAttempts: number; // First try included
+	slippageStep: number;
+	maxSlippage: number;
+	gasStepPercent: number;
+	maxGasPrice: number;
+}
+
+/**
+ * Break-Even Stop Interface
+ * Once any take-profit level has sold, the rest of the position is sold in full
+ * when PNL falls back to lockProfitPercent (0 = break-even).
+ */
+export interface IBreakEvenStop {
+	enabled: boolean;
+	lockProfitPercent: number;
+}
+
+/**
+ * Dev Dump Exit Interface
+ * Sells the whole position once the token's creator and largest initial holders
+ * have moved out more than supplyPercent of the supply.
+ */
+export interface IDevDumpExit {
+	enabled: boolean;
+	supplyPercent: number;
 }
 
 /**
@@ -27,28 +77,74 @@ export interface IOrder extends Document {
 	autoBuy: boolean;
 	tradingAmount: number;
 
-	// Legacy TP/SL (kept for backwards compatibility)
-	takeProfitPercent: number;
-	takeProfitEnabled: boolean;
-	stopLossPercent: number;
-	stopLossEnabled: boolean;
-
-	// NEW: Multiple TP/SL levels
+	// Multiple TP/SL levels
 	takeProfitLevels: ITakeProfitLevel[];
 	stopLossLevels: IStopLossLevel[];
 
 	timeLimitEnabled: boolean;
 	timeLimitSeconds: number;
+
+	// Entry mode: split tradingAmount into entryTranches buys (SINGLE = one swap)
+	entryMode: EntryMode;
+	entryTranches: number;
+	entryIntervalSeconds: number; // TIME: delay between tranches
+	entryStepPercent: number; // PRICE: tranche k buys at k * step % below the first fill
+
+	// How buys and sells reach the chain (public mempool or private relay)
+	submissionStrategy: SubmissionStrategy;
+
+	// Which PNL drives TP/SL: spot price or the realizable (sell quote) value
+	pnlBasis: PnlBasis;
+
+	// Escalating retries for failed auto-sells (stop-loss and time limit share one ladder)
+	sellRetry: {
+		enabled: boolean;
+		stopLoss: ISellRetryLadder;
+		takeProfit: ISellRetryLadder;
+	};
+
+	// Dynamic stop for the remainder after the first take-profit
+	breakEvenStop: IBreakEvenStop;
+
+	// Full exit when the dev wallets dump
+	devDumpExit: IDevDumpExit;
+
 	gasFee: {
 		gasPrice: string;
 		gasLimit: number;
 	};
 	slippage: number;
+
+	// Token safety filters (null = no limit)
+	maxBuyTax?: number | null;
+	maxSellTax?: number | null;
+	minLiquidityBnb?: number | null;
+	maxLiquidityBnb?: number | null;
+	minSupply?: number | null;
+	maxSupply?: number | null;
+	nameBlacklistRegex?: string | null;
+	creatorBlacklist: string[];
+	requireRenouncedOwnership: boolean;
+
+	// Buy on migrations still in the mempool (scanner mempool mode only)
+	actOnPending: boolean;
+
 	manualTokenAddress?: string;
 	createdAt: Date;
 	updatedAt: Date;
 }
 
+/**
+ * Sell Retry Ladder Schema
+ */
+const sellRetryLadder = (defaults: ISellRetryLadder) => ({
+	maxAttempts: { type: Number, min: 1, max: SELL_RETRY_MAX_ATTEMPTS, default: defaults.maxAttempts },
+	slippageStep: { type: Number, min: 0, max: 50, default: defaults.slippageStep },
+	maxSlippage: { type: Number, min: 0.1, max: 50, default: defaults.maxSlippage },
+	gasStepPercent: { type: Number, min: 0, max: 200, default: defaults.gasStepPercent },
+	maxGasPrice: { type: Number, min: 0.1, max: 1000, default: defaults.maxGasPrice },
+});
+
 /**
  * Order Schema
  */
@@ -85,24 +181,7 @@ const OrderSchema = new Schema<IOrder>(
 			min: 0.001,
 			default: 0.01,
 		},
-		// Legacy fields (kept for backward compatibility, NO defaults - don't save unless explicitly set)
-		takeProfitPercent: {
-			type: Number,
-			min: 0,
-			max: 10000,
-		},
-		takeProfitEnabled: {
-			type: Boolean,
-		},
-		stopLossPercent: {
-			type: Number,
-			min: 0,
-			max: 100,
-		},
-		stopLossEnabled: {
-			type: Boolean,
-		},
-		// NEW: Multiple TP/SL levels
+		// Multiple TP/SL levels
 		takeProfitLevels: [
 			{
 				pnlPercent: { type: Number, required: true, min: 0 },
@@ -113,6 +192,8 @@ const OrderSchema = new Schema<IOrder>(
 			{
 				pnlPercent: { type: Number, required: true, min: 0 },
 				sellPercent: { type: Number, required: true, min: 1, max: 100 },
+				trailing: { type: Boolean, default: false },
+				activationPercent: { type: Number, default: null, min: 0 },
 			},
 		],
 		timeLimitEnabled: {
@@ -125,6 +206,71 @@ const OrderSchema = new Schema<IOrder>(
 			max: 86400,
 			default: 300,
 		},
+		entryMode: {
+			type: String,
+			enum: Object.values(EntryMode),
+			default: EntryMode.SINGLE,
+		},
+		entryTranches: {
+			type: Number,
+			min: 1,
+			max: ENTRY_MAX_TRANCHES,
+			default: 3,
+		},
+		entryIntervalSeconds: {
+			type: Number,
+			min: 10,
+			max: 86400,
+			default: 60,
+		},
+		entryStepPercent: {
+			type: Number,
+			min: 1,
+			max: 90,
+			default: 10,
+		},
+		submissionStrategy: {
+			type: String,
+			enum: Object.values(SubmissionStrategy),
+			default: SubmissionStrategy.PUBLIC,
+		},
+		pnlBasis: {
+			type: String,
+			enum: Object.values(PnlBasis),
+			default: PnlBasis.SPOT,
+		},
+		sellRetry: {
+			enabled: {
+				type: Boolean,
+				default: true,
+			},
+			stopLoss: sellRetryLadder(SELL_RETRY_STOP_LOSS_DEFAULTS),
+			takeProfit: sellRetryLadder(SELL_RETRY_TAKE_PROFIT_DEFAULTS),
+		},
+		breakEvenStop: {
+			enabled: {
+				type: Boolean,
+				default: false,
+			},
+			lockProfitPercent: {
+				type: Number,
+				min: 0,
+				max: BREAK_EVEN_MAX_LOCK_PERCENT,
+				default: 0,
+			},
+		},
+		devDumpExit: {
+			enabled: {
+				type: Boolean,
+				default: false,
+			},
+			supplyPercent: {
+				type: Number,
+				min: 0.1,
+				max: 100,
+				default: DEV_DUMP_DEFAULT_PERCENT,
+			},
+		},
 		gasFee: {
 			gasPrice: {
 				type: String,
@@ -141,6 +287,54 @@ const OrderSchema = new Schema<IOrder>(
 			max: 50,
 			default: 10,
 		},
+		maxBuyTax: {
+			type: Number,
+			min: 0,
+			max: 100,
+			default: null,
+		},
+		maxSellTax: {
+			type: Number,
+			min: 0,
+			max: 100,
+			default: null,
+		},
+		minLiquidityBnb: {
+			type: Number,
+			min: 0,
+			default: null,
+		},
+		maxLiquidityBnb: {
+			type: Number,
+			min: 0,
+			default: null,
+		},
+		minSupply: {
+			type: Number,
+			min: 0,
+			default: null,
+		},
+		maxSupply: {
+			type: Number,
+			min: 0,
+			default: null,
+		},
+		nameBlacklistRegex: {
+			type: String,
+			default: null,
+		},
+		creatorBlacklist: {
+			type: [String],
+			default: [],
+		},
+		requireRenouncedOwnership: {
+			type: Boolean,
+			default: false,
+		},
+		actOnPending: {
+			type: Boolean,
+			default: false,
+		},
 		manualTokenAddress: {
 			type: String,
 			default: null,
@@ -159,8 +353,12 @@ OrderSchema.index({ walletId: 1, isActive: 1 });
 
 // Instance method to format order summary
 OrderSchema.methods.getSummary = function (this: IOrder): string {
-	const tpStatus = this.takeProfitEnabled ? `✅ ${this.takeProfitPercent}%` : '❌ OFF';
-	const slStatus = this.stopLossEnabled ? `✅ ${this.stopLossPercent}%` : '❌ OFF';
+	const tpStatus = this.takeProfitLevels.length > 0
+		? `✅ ${this.takeProfitLevels.map((level) => `${level.pnlPercent}%/${level.sellPercent}%`).join(', ')}`
+		: '❌ OFF';
+	const slStatus = this.stopLossLevels.length > 0
+		? `✅ ${this.stopLossLevels.map((level) => `${level.trailing ? 'trail ' : ''}${level.pnlPercent}%/${level.sellPercent}%`).join(', ')}`
+		: '❌ OFF';
 	const timeLimitStatus = this.timeLimitEnabled ? `✅ ${this.timeLimitSeconds}s` : '❌ OFF';
 	const status = this.isActive ? '🟢 ACTIVE' : '🔴 INACTIVE';
 
@@ -177,4 +375,13 @@ Gas Price: ${this.gasFee.gasPrice} Gwei
 /**
  * Order Model
  */
+/**
+ * Order data without document methods, as returned by lean queries
+ * walletId holds the wallet document when the query populated it (null if the wallet is gone)
+ */
+export type LeanOrder = Omit<IOrder, keyof Document | 'walletId'> & {
+	_id: mongoose.Types.ObjectId;
+	walletId: mongoose.Types.ObjectId | IWallet | null;
+};
+
 export const Order: Model<IOrder> = mongoose.model<IOrder>('Order', OrderSchema);
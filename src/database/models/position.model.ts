@@ -1,5 +1,5 @@
 import mongoose, { Document, Schema, Model } from 'mongoose';
-import { PositionStatus } from '../../config/constants';
+import { EntryMode, PositionStatus } from '../../config/constants';
 
 /**
  * Take Profit Level Interface
@@ -15,6 +15,41 @@ export interface ITakeProfitLevel {
 export interface IStopLossLevel {
 	pnlPercent: number;
 	sellPercent: number;
+	trailing?: boolean; // pnlPercent is the drop from the peak price
+	activationPercent?: number | null; // Trailing only: peak profit needed to arm the stop
+}
+
+/**
+ * Entry Ladder Interface
+ * Remaining tranches of a DCA/laddered entry (null for single-swap entries)
+ */
+export interface IEntryLadder {
+	mode: EntryMode;
+	tranches: number;
+	filled: number;
+	trancheAmount: number; // BNB per tranche
+	intervalSeconds: number;
+	stepPercent: number;
+	firstPrice: number; // Entry price of the first tranche (PRICE mode reference)
+	lastFillAt: Date;
+	failures: number;
+	complete: boolean;
+}
+
+/**
+ * Sell Attempt Interface
+ * One try of an automatic sell (retries escalate slippage and gas)
+ */
+export interface ISellAttempt {
+	reason: string; // TAKE_PROFIT, STOP_LOSS or TIME_LIMIT
+	label: string; // e.g. TP1, SL2, Time Limit
+	attempt: number; // 1-based
+	slippage: number;
+	gasPrice: string; // gwei
+	success: boolean;
+	error?: string | null;
+	txHash?: string | null;
+	at: Date;
 }
 
 /**
@@ -38,12 +73,18 @@ export interface IPosition extends Document {
 
 	currentPrice: number;
 	currentPriceUsd: number;
+	peakPrice: number; // Highest price seen since buy (trailing stop loss)
 	lastPriceUpdate: Date;
 
-	pnlPercent: number;
+	pnlPercent: number; // Spot PNL (reserve price)
 	pnlBnb: number;
 	pnlUsd: number;
 
+	// Realizable PNL: router quote for the whole bag, net of the simulated sell tax
+	realizableValueBnb?: number | null;
+	realizablePnlPercent?: number | null;
+	realizablePnlBnb?: number | null;
+
 	sellTxHash?: string;
 	sellPrice?: number;
 	sellAmount?: number;
@@ -51,10 +92,6 @@ export interface IPosition extends Document {
 
 	status: PositionStatus;
 
-	// Legacy TP/SL targets
-	takeProfitTarget: number;
-	stopLossTarget: number;
-
 	// NEW: Multiple TP/SL levels (copied from order)
 	takeProfitLevels: ITakeProfitLevel[];
 	stopLossLevels: IStopLossLevel[];
@@ -63,7 +100,14 @@ export interface IPosition extends Document {
 	triggeredTakeProfitLevels: number[]; // indices of triggered TP levels
 	triggeredStopLossLevels: number[]; // indices of triggered SL levels
 
+	// DCA / laddered entry - buyPrice is the volume-weighted average of all tranches
+	entryLadder?: IEntryLadder | null;
+
+	// Every automatic sell attempt, including escalated retries
+	sellAttempts: ISellAttempt[];
+
 	isManual: boolean;
+	copyWatchId?: mongoose.Types.ObjectId | null; // Watched wallet whose buy opened this position
 
 	createdAt: Date;
 	updatedAt: Date;
@@ -142,6 +186,10 @@ const PositionSchema = new Schema<IPosition>(
 			type: Number,
 			default: 0,
 		},
+		peakPrice: {
+			type: Number,
+			default: 0,
+		},
 		lastPriceUpdate: {
 			type: Date,
 			default: Date.now,
@@ -158,6 +206,18 @@ const PositionSchema = new Schema<IPosition>(
 			type: Number,
 			default: 0,
 		},
+		realizableValueBnb: {
+			type: Number,
+			default: null,
+		},
+		realizablePnlPercent: {
+			type: Number,
+			default: null,
+		},
+		realizablePnlBnb: {
+			type: Number,
+			default: null,
+		},
 		sellTxHash: {
 			type: String,
 			default: null,
@@ -180,13 +240,6 @@ const PositionSchema = new Schema<IPosition>(
 			default: PositionStatus.ACTIVE,
 			index: true,
 		},
-		takeProfitTarget: {
-			type: Number,
-			default: 0,
-		},
-		stopLossTarget: {
-			type: Number,
-			default: 0,
 		// NEW: Multiple TP/SL levels (copied from order)
 		takeProfitLevels: {
 			type: [
@@ -202,6 +255,8 @@ const PositionSchema = new Schema<IPosition>(
 				{
 					pnlPercent: { type: Number, required: true, min: 0 },
 					sellPercent: { type: Number, required: true, min: 1, max: 100 },
+					trailing: { type: Boolean, default: false },
+					activationPercent: { type: Number, default: null, min: 0 },
 				},
 			],
 			default: [],
@@ -215,13 +270,48 @@ const PositionSchema = new Schema<IPosition>(
 			type: [Number],
 			default: [],
 		},
-
+		entryLadder: {
+			type: {
+				mode: { type: String, enum: Object.values(EntryMode), required: true },
+				tranches: { type: Number, required: true },
+				filled: { type: Number, default: 1 },
+				trancheAmount: { type: Number, required: true },
+				intervalSeconds: { type: Number, default: 0 },
+				stepPercent: { type: Number, default: 0 },
+				firstPrice: { type: Number, default: 0 },
+				lastFillAt: { type: Date, default: Date.now },
+				failures: { type: Number, default: 0 },
+				complete: { type: Boolean, default: false },
+			},
+			default: null,
+		},
+		sellAttempts: {
+			type: [
+				{
+					reason: { type: String, required: true },
+					label: { type: String, required: true },
+					attempt: { type: Number, required: true },
+					slippage: { type: Number, required: true },
+					gasPrice: { type: String, required: true },
+					success: { type: Boolean, default: false },
+					error: { type: String, default: null },
+					txHash: { type: String, default: null },
+					at: { type: Date, default: Date.now },
+				},
+			],
+			default: [],
 		},
 		isManual: {
 			type: Boolean,
 			default: false,
 			index: true,
 		},
+		copyWatchId: {
+			type: Schema.Types.ObjectId,
+			ref: 'WatchedWallet',
+			default: null,
+			index: true,
+		},
 	},
 	{
 		timestamps: true,
@@ -246,11 +336,15 @@ PositionSchema.methods.calculatePnl = function (this: IPosition): void {
 
 // Instance method to check if TP/SL triggered
 PositionSchema.methods.shouldTriggerTakeProfit = function (this: IPosition): boolean {
-	return this.takeProfitTarget > 0 && this.pnlPercent >= this.takeProfitTarget;
+	return this.takeProfitLevels.some(
+		(level, index) => !this.triggeredTakeProfitLevels.includes(index) && this.pnlPercent >= level.pnlPercent
+	);
 };
 
 PositionSchema.methods.shouldTriggerStopLoss = function (this: IPosition): boolean {
-	return this.stopLossTarget > 0 && this.pnlPercent <= -this.stopLossTarget;
+	return this.stopLossLevels.some(
+		(level, index) => !level.trailing && !this.triggeredStopLossLevels.includes(index) && this.pnlPercent <= -level.pnlPercent
+	);
 };
 
 // Instance method to get formatted position info
@@ -269,8 +363,8 @@ PositionSchema.methods.getFormattedInfo = function (this: IPosition): string {
 ${pnlEmoji} PNL: ${pnlSign}${this.pnlPercent.toFixed(2)}% (${pnlSign}${this.pnlBnb.toFixed(4)} BNB)
 ${pnlEmoji} USD PNL: $${pnlSign}${this.pnlUsd.toFixed(2)}
 
-🎯 TP Target: ${this.takeProfitTarget}%
-🛑 SL Target: ${this.stopLossTarget}%
+🎯 TP Levels: ${this.takeProfitLevels.map((level) => `${level.pnlPercent}%`).join(', ') || 'None'}
+🛑 SL Levels: ${this.stopLossLevels.map((level) => `-${level.pnlPercent}%`).join(', ') || 'None'}
   `.trim();
 };
 
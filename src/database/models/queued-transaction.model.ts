@@ -0,0 +1,174 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+/**
+ * Queued Transaction Interface
+ * Persisted copy of a B_Transaction that is waiting in or running through the queue.
+ * Only a wallet reference is stored - the signer is reloaded from the Wallet on restore.
+ */
+export interface IQueuedTransaction extends Document {
+	txId: string;
+	type: 'BUY' | 'SELL' | 'APPROVE';
+	status: 'PENDING' | 'PROCESSING';
+
+	walletId: mongoose.Types.ObjectId;
+	walletAddress: string;
+
+	token?: {
+		address: string;
+		name: string;
+		symbol: string;
+		decimals: number;
+	};
+
+	gasPrice: string;
+	gasLimit?: number;
+	bnbAmount?: number;
+	slippage?: number;
+	pendingLiquidity?: boolean;
+	pendingReserves?: { reserveBnb: string; reserveToken: string } | null;
+	submission?: string;
+	tokenAmount?: string;
+	spenderAddress?: string;
+	approveAmount?: string;
+
+	orderId?: string;
+	positionId?: string;
+	userId?: string;
+	priority: number;
+
+	retryCount: number;
+	maxRetries: number;
+
+	// Broadcast state of the current attempt
+	nonce?: number | null;
+	txHash?: string | null;
+
+	queuedAt: Date;
+	createdAt: Date;
+	updatedAt: Date;
+}
+
+/**
+ * Queued Transaction Schema
+ */
+const QueuedTransactionSchema = new Schema<IQueuedTransaction>(
+	{
+		txId: {
+			type: String,
+			required: true,
+			unique: true,
+		},
+		type: {
+			type: String,
+			enum: ['BUY', 'SELL', 'APPROVE'],
+			required: true,
+		},
+		status: {
+			type: String,
+			enum: ['PENDING', 'PROCESSING'],
+			default: 'PENDING',
+			index: true,
+		},
+		walletId: {
+			type: Schema.Types.ObjectId,
+			ref: 'Wallet',
+			required: true,
+		},
+		walletAddress: {
+			type: String,
+			required: true,
+			lowercase: true,
+		},
+		token: {
+			address: { type: String, lowercase: true },
+			name: { type: String },
+			symbol: { type: String },
+			decimals: { type: Number },
+		},
+		gasPrice: {
+			type: String,
+			required: true,
+		},
+		gasLimit: {
+			type: Number,
+		},
+		bnbAmount: {
+			type: Number,
+		},
+		slippage: {
+			type: Number,
+		},
+		pendingLiquidity: {
+			type: Boolean,
+			default: false,
+		},
+		pendingReserves: {
+			type: {
+				reserveBnb: { type: String },
+				reserveToken: { type: String },
+			},
+			default: null,
+		},
+		submission: {
+			type: String,
+			default: 'PUBLIC',
+		},
+		tokenAmount: {
+			type: String,
+		},
+		spenderAddress: {
+			type: String,
+		},
+		approveAmount: {
+			type: String,
+		},
+		orderId: {
+			type: String,
+			default: null,
+		},
+		positionId: {
+			type: String,
+			default: null,
+		},
+		userId: {
+			type: String,
+			default: null,
+		},
+		priority: {
+			type: Number,
+			default: 0,
+		},
+		retryCount: {
+			type: Number,
+			default: 0,
+		},
+		maxRetries: {
+			type: Number,
+			default: 3,
+		},
+		nonce: {
+			type: Number,
+			default: null,
+		},
+		txHash: {
+			type: String,
+			default: null,
+		},
+		queuedAt: {
+			type: Date,
+			default: Date.now,
+		},
+	},
+	{
+		timestamps: true,
+		versionKey: false,
+	}
+);
+
+/**
+ * Queued Transaction Model
+ */
+export const QueuedTransaction: Model<IQueuedTransaction> = mongoose.model<IQueuedTransaction>(
+	'QueuedTransaction',
+	QueuedTransactionSchema
+);
@@ -1,5 +1,25 @@
 import mongoose, { Document, Schema, Model } from 'mongoose';
 
+/**
+ * Auto-buy skip entry (one per order that did not buy the token)
+ */
+export interface IScannedTokenSkip {
+	orderId: mongoose.Types.ObjectId;
+	userId: mongoose.Types.ObjectId;
+	orderName: string;
+	reason: string;
+	skippedAt: Date;
+}
+
+/**
+ * Largest holder at migration (watched for dev dumps with the creator)
+ */
+export interface IScannedTokenHolder {
+	address: string;
+	balance: string; // Raw units
+	percent: number; // Share of total supply
+}
+
 /**
  * Scanned Token Interface
  */
@@ -10,8 +30,16 @@ export interface IScannedToken extends Document {
 	decimals: number;
 	totalSupply?: string;
 	transactionHash: string;
-	blockNumber: number;
+	blockNumber: number; // Last seen block while status is PENDING
+	status: 'PENDING' | 'CONFIRMED' | 'CANCELLED'; // PENDING = migration seen in the mempool only
 	scannedAt: Date;
+	liquidityBnb?: number;
+	creator?: string;
+	ownershipRenounced?: boolean;
+	topHolders: IScannedTokenHolder[];
+	devWalletsResolvedAt?: Date;
+	devOutflowPercent: number; // Share of supply the creator and top holders moved out while positions were open
+	skippedOrders: IScannedTokenSkip[];
 	createdAt: Date;
 	updatedAt: Date;
 }
@@ -54,12 +82,54 @@ const ScannedTokenSchema = new Schema<IScannedToken>(
 			required: true,
 			index: true,
 		},
+		status: {
+			type: String,
+			enum: ['PENDING', 'CONFIRMED', 'CANCELLED'],
+			default: 'CONFIRMED',
+		},
 		scannedAt: {
 			type: Date,
 			required: true,
 			default: Date.now,
 			index: true,
 		},
+		liquidityBnb: {
+			type: Number,
+			default: null,
+		},
+		creator: {
+			type: String,
+			default: null,
+			lowercase: true,
+		},
+		ownershipRenounced: {
+			type: Boolean,
+			default: null,
+		},
+		topHolders: [
+			{
+				address: { type: String, required: true, lowercase: true },
+				balance: { type: String, required: true },
+				percent: { type: Number, default: 0 },
+			},
+		],
+		devWalletsResolvedAt: {
+			type: Date,
+			default: null,
+		},
+		devOutflowPercent: {
+			type: Number,
+			default: 0,
+		},
+		skippedOrders: [
+			{
+				orderId: { type: Schema.Types.ObjectId, ref: 'Order', required: true },
+				userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+				orderName: { type: String, required: true },
+				reason: { type: String, required: true },
+				skippedAt: { type: Date, default: Date.now },
+			},
+		],
 	},
 	{
 		timestamps: true,
@@ -74,4 +144,9 @@ ScannedTokenSchema.index({ symbol: 1 });
 /**
  * Scanned Token Model
  */
+/**
+ * Scanned token data without document methods, as returned by lean queries
+ */
+export type LeanScannedToken = Omit<IScannedToken, keyof Document> & { _id: mongoose.Types.ObjectId };
+
 export const ScannedToken: Model<IScannedToken> = mongoose.model<IScannedToken>('ScannedToken', ScannedTokenSchema);
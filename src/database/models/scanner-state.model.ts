@@ -0,0 +1,39 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+/**
+ * Scanner State Interface
+ * Persisted scan cursor so blocks missed while disconnected/offline can be backfilled
+ */
+export interface IScannerState extends Document {
+	key: string;
+	lastScannedBlock: number; // Every block up to and including this one has been scanned
+	createdAt: Date;
+	updatedAt: Date;
+}
+
+/**
+ * Scanner State Schema
+ */
+const ScannerStateSchema = new Schema<IScannerState>(
+	{
+		key: {
+			type: String,
+			required: true,
+			unique: true,
+		},
+		lastScannedBlock: {
+			type: Number,
+			required: true,
+			default: 0,
+		},
+	},
+	{
+		timestamps: true,
+		versionKey: false,
+	}
+);
+
+/**
+ * Scanner State Model
+ */
+export const ScannerState: Model<IScannerState> = mongoose.model<IScannerState>('ScannerState', ScannerStateSchema);
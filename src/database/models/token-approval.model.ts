@@ -0,0 +1,103 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+import { ApprovalStatus } from '../../config/constants';
+
+/**
+ * Token Approval Interface
+ * Last known router allowance of one wallet for one token, so buys can pre-approve
+ * once and the revoke screen can find allowances left on tokens no longer held
+ */
+export interface ITokenApproval extends Document {
+	userId: mongoose.Types.ObjectId;
+	walletId: mongoose.Types.ObjectId;
+	walletAddress: string;
+
+	tokenAddress: string;
+	tokenSymbol: string;
+	tokenDecimals: number;
+	spender: string;
+
+	allowance: string; // Raw units
+	status: ApprovalStatus;
+	txHash?: string; // Last approve/revoke transaction
+	errorMessage?: string;
+	checkedAt: Date;
+
+	createdAt: Date;
+	updatedAt: Date;
+}
+
+/**
+ * Token Approval Schema
+ */
+const TokenApprovalSchema = new Schema<ITokenApproval>(
+	{
+		userId: {
+			type: Schema.Types.ObjectId,
+			ref: 'User',
+			required: true,
+			index: true,
+		},
+		walletId: {
+			type: Schema.Types.ObjectId,
+			ref: 'Wallet',
+			required: true,
+			index: true,
+		},
+		walletAddress: {
+			type: String,
+			required: true,
+			lowercase: true,
+		},
+		tokenAddress: {
+			type: String,
+			required: true,
+			lowercase: true,
+		},
+		tokenSymbol: {
+			type: String,
+			default: 'UNKNOWN',
+		},
+		tokenDecimals: {
+			type: Number,
+			default: 18,
+		},
+		spender: {
+			type: String,
+			required: true,
+			lowercase: true,
+		},
+		allowance: {
+			type: String,
+			default: '0',
+		},
+		status: {
+			type: String,
+			enum: Object.values(ApprovalStatus),
+			default: ApprovalStatus.PENDING,
+		},
+		txHash: {
+			type: String,
+			default: null,
+		},
+		errorMessage: {
+			type: String,
+			default: null,
+		},
+		checkedAt: {
+			type: Date,
+			default: Date.now,
+		},
+	},
+	{
+		timestamps: true,
+		versionKey: false,
+	}
+);
+
+// One record per wallet, token and spender
+TokenApprovalSchema.index({ walletAddress: 1, tokenAddress: 1, spender: 1 }, { unique: true });
+
+/**
+ * Token Approval Model
+ */
+export const TokenApproval: Model<ITokenApproval> = mongoose.model<ITokenApproval>('TokenApproval', TokenApprovalSchema);
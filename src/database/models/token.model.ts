@@ -13,6 +13,18 @@ export interface IToken extends Document {
 	liquidityBnb?: number;
 	isPancakeswapV2: boolean;
 	isVerified: boolean;
+
+	// Buy/sell simulation (honeypot & tax check)
+	buyTax?: number | null;
+	sellTax?: number | null;
+	buyReverts: boolean;
+	sellReverts: boolean;
+	simulatedAt?: Date | null;
+	simulationError?: string | null;
+
+	// Liquidity pulled (set by the rug watchdog) - buys are refused
+	isRugged: boolean;
+	ruggedAt?: Date | null;
 	createdAt: Date;
 	updatedAt: Date;
 }
@@ -63,6 +75,39 @@ const TokenSchema = new Schema<IToken>(
 			type: Boolean,
 			default: false,
 		},
+		buyTax: {
+			type: Number,
+			default: null,
+		},
+		sellTax: {
+			type: Number,
+			default: null,
+		},
+		buyReverts: {
+			type: Boolean,
+			default: false,
+		},
+		sellReverts: {
+			type: Boolean,
+			default: false,
+		},
+		simulatedAt: {
+			type: Date,
+			default: null,
+		},
+		simulationError: {
+			type: String,
+			default: null,
+		},
+		isRugged: {
+			type: Boolean,
+			default: false,
+			index: true,
+		},
+		ruggedAt: {
+			type: Date,
+			default: null,
+		},
 	},
 	{
 		timestamps: true,
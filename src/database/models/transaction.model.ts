@@ -8,6 +8,7 @@ export interface ITransaction extends Document {
 	userId: mongoose.Types.ObjectId;
 	walletId: mongoose.Types.ObjectId;
 	positionId?: mongoose.Types.ObjectId;
+	orderId?: mongoose.Types.ObjectId | null;
 
 	type: TransactionType;
 	txHash: string;
@@ -18,6 +19,7 @@ export interface ITransaction extends Document {
 	amountBnb: number;
 	amountToken?: number;
 	gasFee: number;
+	costBasisBnb?: number | null; // Sells: BNB originally paid for the tokens sold (realized PNL = amountBnb - costBasisBnb)
 
 	status: TransactionStatus;
 	errorMessage?: string;
@@ -48,6 +50,12 @@ const TransactionSchema = new Schema<ITransaction>(
 			ref: 'Position',
 			default: null,
 		},
+		orderId: {
+			type: Schema.Types.ObjectId,
+			ref: 'Order',
+			default: null,
+			index: true,
+		},
 		type: {
 			type: String,
 			enum: Object.values(TransactionType),
@@ -82,6 +90,10 @@ const TransactionSchema = new Schema<ITransaction>(
 			required: true,
 			default: 0,
 		},
+		costBasisBnb: {
+			type: Number,
+			default: null,
+		},
 		status: {
 			type: String,
 			enum: Object.values(TransactionStatus),
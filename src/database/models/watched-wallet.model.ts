@@ -0,0 +1,113 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+import { CopySizingMode } from '../../config/constants';
+
+/**
+ * Watched Wallet Interface
+ * Address whose PancakeSwap V2 buys and sells are mirrored with the parent order's settings
+ */
+export interface IWatchedWallet extends Document {
+	userId: mongoose.Types.ObjectId;
+	orderId: mongoose.Types.ObjectId; // Wallet, gas, slippage and TP/SL levels come from this order
+
+	address: string;
+	label: string;
+	isActive: boolean;
+
+	sizingMode: CopySizingMode;
+	sizeValue: number; // BNB per buy (FIXED) or percent of the watched wallet's BNB (PROPORTIONAL)
+	maxPerToken: number; // BNB cap across all copied buys of one token (0 = no cap)
+	mirrorSells: boolean;
+	tokenSpend: Map<string, number>; // BNB spent copying each token (lowercase address)
+
+	buysCopied: number;
+	sellsCopied: number;
+	lastCopiedAt?: Date;
+
+	createdAt: Date;
+	updatedAt: Date;
+}
+
+/**
+ * Watched Wallet Schema
+ */
+const WatchedWalletSchema = new Schema<IWatchedWallet>(
+	{
+		userId: {
+			type: Schema.Types.ObjectId,
+			ref: 'User',
+			required: true,
+			index: true,
+		},
+		orderId: {
+			type: Schema.Types.ObjectId,
+			ref: 'Order',
+			required: true,
+			index: true,
+		},
+		address: {
+			type: String,
+			required: true,
+			lowercase: true,
+			index: true,
+		},
+		label: {
+			type: String,
+			required: true,
+			trim: true,
+			maxlength: 32,
+		},
+		isActive: {
+			type: Boolean,
+			default: true,
+			index: true,
+		},
+		sizingMode: {
+			type: String,
+			enum: Object.values(CopySizingMode),
+			default: CopySizingMode.FIXED,
+		},
+		sizeValue: {
+			type: Number,
+			required: true,
+			min: 0,
+		},
+		maxPerToken: {
+			type: Number,
+			default: 0,
+			min: 0,
+		},
+		mirrorSells: {
+			type: Boolean,
+			default: true,
+		},
+		tokenSpend: {
+			type: Map,
+			of: Number,
+			default: {},
+		},
+		buysCopied: {
+			type: Number,
+			default: 0,
+		},
+		sellsCopied: {
+			type: Number,
+			default: 0,
+		},
+		lastCopiedAt: {
+			type: Date,
+			default: null,
+		},
+	},
+	{
+		timestamps: true,
+		versionKey: false,
+	}
+);
+
+// An address can be watched once per order
+WatchedWalletSchema.index({ orderId: 1, address: 1 }, { unique: true });
+
+/**
+ * Watched Wallet Model
+ */
+export const WatchedWallet: Model<IWatchedWallet> = mongoose.model<IWatchedWallet>('WatchedWallet', WatchedWalletSchema);
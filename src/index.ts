@@ -3,13 +3,22 @@ import { database } from './database/connection';
 import { logger } from './utils/logger';
 import { initializeBot, stopBot, bot } from './bot';
 import { initializeProvider } from './core/wallet';
+import { providerPool } from './core/rpc';
 import { positionManager } from './core/position/position.manager';
-import { tpslMonitor } from './services/tpsl.monitor';
 import { pnlMonitorEngine } from './services/pnl.monitor';
+import { limitOrderWatcher } from './services/limit.watcher';
+import { entryLadderService } from './services/entry.ladder';
 import { transactionQueue } from './core/classes';
 import { scannerService } from './services/scanner.service';
+import { copyTradeService } from './services/copy.trader';
+import { devWalletWatcher } from './services/dev.watcher';
+import { rugWatchdog } from './services/rug.watchdog';
+import { queueRecovery } from './services/queue.recovery';
+import { approvalManager } from './services/approval.manager';
+import { tradeRecorder } from './services/trade.recorder';
 import { sendTokenAlert } from './bot/handlers/scanner.handler';
 import { User } from './database/models';
+import { migrateLegacyTpsl } from './database/migrations/legacy-tpsl.migration';
 
 /**
  * Main application entry point
@@ -48,15 +57,27 @@ async function main() {
 		logger.info('📦 Connecting to MongoDB...');
 		await database.connect(config.database.uri);
 
+		// Convert legacy single TP/SL fields into levels (no-op once migrated)
+		await migrateLegacyTpsl();
+
 		// Initialize BSC Provider
 		logger.info('🔗 Connecting to BSC network...');
 		initializeProvider();
+		await providerPool.start();
 
 		// Initialize Position Manager
 		logger.info('📊 Initializing Position Manager...');
 		await positionManager.initialize();
 		logger.success(`✅ Position Manager initialized (${positionManager.getOpenPositionCount()} open positions)`);
 
+		// Restore transactions queued before the last shutdown
+		logger.info('♻️  Restoring persisted transactions...');
+		queueRecovery.register();
+		approvalManager.register();
+		tradeRecorder.register();
+		const restoredCount = await transactionQueue.restore();
+		logger.success(`✅ Restored ${restoredCount} queued transactions`);
+
 		// Start Transaction Queue
 		logger.info('🔄 Starting Transaction Queue...');
 		transactionQueue.start();
@@ -67,11 +88,20 @@ async function main() {
 		pnlMonitorEngine.start();
 		logger.success('✅ PNL Monitor Engine started');
 
-		// Start TP/SL Monitor (Legacy, can be disabled if using PNL engine)
-		// Keeping it for backward compatibility
-		logger.info('🎯 Starting Legacy TP/SL Monitor...');
-		tpslMonitor.start();
-		logger.success('✅ Legacy TP/SL Monitor started');
+		// Start Limit Order Watcher (pending limit buys)
+		logger.info('🎯 Starting Limit Order Watcher...');
+		await limitOrderWatcher.start();
+		logger.success('✅ Limit Order Watcher started');
+
+		// Start Entry Ladder Service (DCA/laddered entry tranches)
+		logger.info('🪜 Starting Entry Ladder Service...');
+		entryLadderService.start();
+		logger.success('✅ Entry Ladder Service started');
+
+		// Start Rug Watchdog (liquidity pulls on open positions' pairs)
+		logger.info('🪤 Starting Rug Watchdog...');
+		rugWatchdog.start();
+		logger.success('✅ Rug Watchdog started');
 
 		// Initialize Telegram Bot
 		await initializeBot();
@@ -97,15 +127,22 @@ async function main() {
 			});
 
 			logger.success('✅ Scanner Service started');
+
+			// Start Copy Trade Service (mirrors watched wallets from the scanner's blocks)
+			logger.info('👀 Starting Copy Trade Service...');
+			await copyTradeService.start();
+			logger.success('✅ Copy Trade Service started');
+
+			// Start Dev Wallet Watcher (dev dump exits of open positions)
+			await devWalletWatcher.start();
 		} else {
-			logger.info('⏸️  Scanner Service disabled in config');
+			logger.info('⏸️  Scanner Service disabled in config (copy trading needs it)');
 		}
 
 		logger.success('🎉 Bot started successfully!');
 		logger.info('📱 Bot ready to receive commands');
-		logger.info('🔗 BSC RPC: ' + config.bsc.rpcHttpUrl);
+		logger.info('🔗 BSC RPC: ' + providerPool.getStatus().map((status) => `${status.url}${status.healthy ? '' : ' (down)'}`).join(', '));
 		logger.info('⚡ PNL Monitor: ' + (config.monitoring.pnlMonitorInterval / 1000) + 's interval (High-Performance)');
-		logger.info('📊 Position Monitor: ' + (config.monitoring.positionMonitorInterval / 1000) + 's interval (Legacy)');
 		logger.info('🔍 Scanner Status: ' + (config.monitoring.scannerEnabled ? 'Enabled' : 'Disabled'));
 		logger.info('✨ Try /start in Telegram to begin!');
 		logger.info('');
@@ -114,11 +151,16 @@ async function main() {
 		process.on('SIGINT', async () => {
 			logger.info('📦 Shutting down gracefully...');
 			if (config.monitoring.scannerEnabled) {
+				copyTradeService.stop();
+				devWalletWatcher.stop();
 				await scannerService.stop();
 			}
 			await transactionQueue.stop();
 			pnlMonitorEngine.stop();
-			tpslMonitor.stop();
+			limitOrderWatcher.stop();
+			entryLadderService.stop();
+			rugWatchdog.stop();
+			providerPool.stop();
 			await stopBot();
 			await database.disconnect();
 			process.exit(0);
@@ -0,0 +1,26 @@
+import { config } from '../config/config';
+import { database } from '../database/connection';
+import { migrateLegacyTpsl, formatLegacyTpslReport } from '../database/migrations/legacy-tpsl.migration';
+import { logger } from '../utils/logger';
+
+/**
+ * Legacy TP/SL migration CLI
+ * Usage: npm run migrate:legacy-tpsl -- [--dry-run]
+ * The bot also applies this migration on startup; use --dry-run to preview it first.
+ */
+async function run() {
+	const dryRun = process.argv.includes('--dry-run');
+
+	try {
+		await database.connect(config.database.uri);
+		const report = await migrateLegacyTpsl({ dryRun });
+		console.log(formatLegacyTpslReport(report));
+	} catch (error: any) {
+		logger.error('❌ Legacy TP/SL migration failed:', error.message);
+		process.exitCode = 1;
+	} finally {
+		await database.disconnect();
+	}
+}
+
+run();
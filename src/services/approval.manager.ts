@@ -0,0 +1,277 @@
+import { ethers } from 'ethers';
+import { TokenApproval, ITokenApproval, Position } from '../database/models';
+import { B_Transaction, TransactionType, transactionQueue } from '../core/classes';
+import { TransactionResult } from '../core/classes/B_Transaction';
+import { B_Trading } from '../core/classes/B_Trading';
+import { B_Wallet } from '../core/classes/B_Wallet';
+import { B_Token } from '../core/classes/B_Token';
+import { getTokenAllowance, getTokenBalance } from '../core/trading/pancakeswap.service';
+import { getProvider } from '../core/wallet/wallet.service';
+import { logger } from '../utils/logger';
+import { PANCAKE_ROUTER_ADDRESS, APPROVAL_PRIORITY, ApprovalStatus, PositionStatus } from '../config/constants';
+
+/**
+ * Tracked allowance plus whether the wallet still holds the token
+ */
+export interface ApprovalHolding {
+	approval: ITokenApproval;
+	held: boolean;
+}
+
+/**
+ * Approval Manager
+ * Pre-approves the router for a token right after a buy confirms, so a later sell
+ * (often a stop-loss racing a dump) does not need an extra approval transaction first.
+ * Allowances are tracked per wallet/token in Mongo to skip redundant approvals and to
+ * revoke the ones left on tokens that are no longer held.
+ */
+export class ApprovalManager {
+	private queued: Set<string> = new Set(); // wallet:token keys with an approval or revoke in the queue
+	private registered: boolean = false;
+
+	/**
+	 * Listen for settled transactions (call before transactionQueue.restore())
+	 */
+	register(): void {
+		if (this.registered) return;
+		this.registered = true;
+
+		transactionQueue.on('completed', (tx: B_Transaction, result: TransactionResult) => {
+			this.handleCompleted(tx, result).catch((error: any) => {
+				logger.error(`Approval tracking failed for ${tx.id}: ${error.message}`);
+			});
+		});
+		transactionQueue.on('failed', (tx: B_Transaction, error: string) => this.handleFailed(tx, error));
+		transactionQueue.on('cancelled', (tx: B_Transaction) => this.handleFailed(tx, tx.error || 'Cancelled'));
+	}
+
+	/**
+	 * Queue a router approval for a token unless one is already in place or queued
+	 * @param wallet - Wallet that holds the token
+	 * @param token - Token to approve
+	 * @param gasPrice - Gas price in gwei
+	 * @returns Whether an approval was queued
+	 */
+	async ensureApproval(wallet: B_Wallet, token: B_Token, gasPrice: string): Promise<boolean> {
+		const key = this.getKey(wallet.address, token.address);
+		if (this.queued.has(key)) {
+			return false;
+		}
+
+		// Claim the key before any await so concurrent buys of the same token queue one approval
+		this.queued.add(key);
+		try {
+			const tracked = await this.findApproval(wallet.address, token.address);
+			if (tracked?.status === ApprovalStatus.APPROVED && B_Trading.isUnlimitedAllowance(tracked.allowance)) {
+				this.queued.delete(key);
+				return false;
+			}
+
+			const allowance = await getTokenAllowance(token.address, wallet.address);
+			if (B_Trading.isUnlimitedAllowance(allowance)) {
+				await this.saveApproval(wallet, token, { allowance, status: ApprovalStatus.APPROVED });
+				this.queued.delete(key);
+				return false;
+			}
+
+			await this.saveApproval(wallet, token, { allowance, status: ApprovalStatus.PENDING, errorMessage: null });
+			const txId = transactionQueue.push(
+				new B_Transaction({
+					type: TransactionType.APPROVE,
+					wallet,
+					token,
+					spenderAddress: PANCAKE_ROUTER_ADDRESS,
+					approveAmount: ethers.constants.MaxUint256.toString(),
+					gasPrice,
+					userId: wallet.userId,
+					priority: APPROVAL_PRIORITY,
+				})
+			);
+
+			logger.info(`🔐 Pre-approval queued: ${txId} (${token.symbol})`);
+			return true;
+		} catch (error) {
+			this.queued.delete(key);
+			throw error;
+		}
+	}
+
+	/**
+	 * Queue a revoke (allowance 0) of a tracked approval
+	 * @param approvalId - Token approval ID
+	 * @param userId - User ID for verification
+	 * @returns Success flag or error
+	 */
+	async revoke(approvalId: string, userId: string): Promise<{ success: boolean; error?: string }> {
+		const approval = await TokenApproval.findOne({ _id: approvalId, userId });
+		if (!approval) {
+			return { success: false, error: 'Approval not found' };
+		}
+
+		const key = this.getKey(approval.walletAddress, approval.tokenAddress);
+		if (this.queued.has(key)) {
+			return { success: false, error: 'An approval for this token is already queued' };
+		}
+
+		const wallet = await B_Wallet.getById(approval.walletId.toString());
+		if (!wallet) {
+			return { success: false, error: 'Wallet not found' };
+		}
+
+		const gasPrice = ethers.utils.formatUnits(await getProvider().getGasPrice(), 'gwei');
+
+		this.queued.add(key);
+		approval.status = ApprovalStatus.PENDING;
+		approval.errorMessage = undefined;
+		await approval.save();
+
+		transactionQueue.push(
+			new B_Transaction({
+				type: TransactionType.APPROVE,
+				wallet,
+				token: new B_Token({
+					address: approval.tokenAddress,
+					symbol: approval.tokenSymbol,
+					decimals: approval.tokenDecimals,
+				}),
+				spenderAddress: approval.spender,
+				approveAmount: '0',
+				gasPrice,
+				userId,
+				priority: APPROVAL_PRIORITY,
+			})
+		);
+
+		logger.info(`🔓 Revoke queued: ${approval.tokenSymbol} for ${wallet.address}`);
+		return { success: true };
+	}
+
+	/**
+	 * Get a wallet's open allowances and whether each token is still held
+	 * A token counts as held while the wallet has a balance or an active position in it
+	 * @param walletId - Wallet ID
+	 * @param userId - User ID for verification
+	 * @returns Allowances that are approved or waiting in the queue
+	 */
+	async getWalletApprovals(walletId: string, userId: string): Promise<ApprovalHolding[]> {
+		const approvals = await TokenApproval.find({
+			walletId,
+			userId,
+			status: { $in: [ApprovalStatus.APPROVED, ApprovalStatus.PENDING] },
+		}).sort({ updatedAt: -1 });
+
+		const holdings: ApprovalHolding[] = [];
+		for (const approval of approvals) {
+			let held = true;
+			try {
+				const [balance, activePosition] = await Promise.all([
+					getTokenBalance(approval.tokenAddress, approval.walletAddress),
+					Position.exists({ walletId, tokenAddress: approval.tokenAddress, status: PositionStatus.ACTIVE }),
+				]);
+				held = !ethers.BigNumber.from(balance || '0').isZero() || !!activePosition;
+			} catch (error: any) {
+				logger.warning(`Could not check ${approval.tokenSymbol} balance: ${error.message}`);
+			}
+
+			holdings.push({ approval, held });
+		}
+
+		return holdings;
+	}
+
+	/**
+	 * Pre-approve after buys, record approvals made by sells and settle queued approvals
+	 */
+	private async handleCompleted(tx: B_Transaction, result: TransactionResult): Promise<void> {
+		const { wallet, token } = tx.params;
+		if (!token) return;
+
+		if (tx.type === TransactionType.BUY && result.success) {
+			await this.ensureApproval(wallet, token, tx.params.gasPrice);
+		} else if (tx.type === TransactionType.SELL) {
+			// Sells approve on their own when needed - pick up the allowance they left behind
+			const tracked = await this.findApproval(wallet.address, token.address);
+			if (!tracked || tracked.status !== ApprovalStatus.APPROVED) {
+				const allowance = await getTokenAllowance(token.address, wallet.address);
+				if (!ethers.BigNumber.from(allowance).isZero()) {
+					await this.saveApproval(wallet, token, { allowance, status: ApprovalStatus.APPROVED });
+				}
+			}
+		} else if (tx.type === TransactionType.APPROVE) {
+			this.queued.delete(this.getKey(wallet.address, token.address));
+			const revoked = tx.params.approveAmount === '0';
+			await this.saveApproval(wallet, token, {
+				allowance: revoked ? '0' : tx.params.approveAmount || ethers.constants.MaxUint256.toString(),
+				status: revoked ? ApprovalStatus.REVOKED : ApprovalStatus.APPROVED,
+				...(result.txHash ? { txHash: result.txHash } : {}),
+			});
+		}
+	}
+
+	/**
+	 * Record a failed approval or revoke
+	 * A failed pre-approval is harmless: the sell approves on its own
+	 */
+	private handleFailed(tx: B_Transaction, error: string): void {
+		const { wallet, token } = tx.params;
+		if (tx.type !== TransactionType.APPROVE || !token) return;
+
+		this.queued.delete(this.getKey(wallet.address, token.address));
+		const revoked = tx.params.approveAmount === '0';
+		this.saveApproval(wallet, token, {
+			status: revoked ? ApprovalStatus.APPROVED : ApprovalStatus.FAILED,
+			errorMessage: error,
+		}).catch((saveError: any) => {
+			logger.error(`Failed to record approval failure: ${saveError.message}`);
+		});
+	}
+
+	/**
+	 * Find the tracked router allowance of a wallet for a token
+	 */
+	private findApproval(walletAddress: string, tokenAddress: string): Promise<ITokenApproval | null> {
+		return TokenApproval.findOne({
+			walletAddress: walletAddress.toLowerCase(),
+			tokenAddress: tokenAddress.toLowerCase(),
+			spender: PANCAKE_ROUTER_ADDRESS.toLowerCase(),
+		});
+	}
+
+	/**
+	 * Upsert the tracked router allowance of a wallet for a token
+	 */
+	private async saveApproval(
+		wallet: B_Wallet,
+		token: B_Token,
+		update: { allowance?: string; status: ApprovalStatus; txHash?: string; errorMessage?: string | null }
+	): Promise<void> {
+		await TokenApproval.updateOne(
+			{
+				walletAddress: wallet.address.toLowerCase(),
+				tokenAddress: token.address.toLowerCase(),
+				spender: PANCAKE_ROUTER_ADDRESS.toLowerCase(),
+			},
+			{
+				$set: {
+					...update,
+					userId: wallet.userId,
+					walletId: wallet.id,
+					tokenSymbol: token.symbol || 'UNKNOWN',
+					tokenDecimals: token.decimals,
+					checkedAt: new Date(),
+				},
+			},
+			{ upsert: true }
+		);
+	}
+
+	/**
+	 * Key of a wallet/token pair
+	 */
+	private getKey(walletAddress: string, tokenAddress: string): string {
+		return `${walletAddress.toLowerCase()}:${tokenAddress.toLowerCase()}`;
+	}
+}
+
+// Singleton instance
+export const approvalManager = new ApprovalManager();
@@ -0,0 +1,301 @@
+import { ethers } from 'ethers';
+import { IWatchedWallet, Order, Position, User, WatchedWallet, Wallet } from '../database/models';
+import { executeBuyOrder } from '../core/order/order.executor';
+import { calculateCopyBuyAmount } from '../core/order/copy.manager';
+import { parseRouterSwap, getSoldTokenAmount, getTokenBalance, RouterSwap } from '../core/trading/pancakeswap.service';
+import { getProvider, updateWalletBalance } from '../core/wallet/wallet.service';
+import { COPY_SELL_FULL_PERCENT, COPY_WATCHLIST_REFRESH_MS, MIN_TRADE_AMOUNT, PositionStatus } from '../config/constants';
+import { logger } from '../utils/logger';
+import { escapeHtml, formatAddress } from '../utils/formatter';
+import { scannerService, ScannedBlock } from './scanner.service';
+import { pnlMonitorEngine } from './pnl.monitor';
+import { bot } from '../bot';
+
+/**
+ * Copy Trade Service
+ * Watches the scanner's block stream for PancakeSwap V2 swaps made by watched wallets.
+ * Their buys are copied with the parent order's settings; their sells are mirrored as
+ * partial sells of the positions those copies opened.
+ */
+export class CopyTradeService {
+	private isRunning: boolean = false;
+	private subscribed: boolean = false;
+	private watchlist: Map<string, IWatchedWallet[]> = new Map(); // Watched address => active watched wallets
+	private watchlistLoadedAt: number = 0;
+	private handledTxs: Set<string> = new Set();
+
+	/**
+	 * Start copying (the scanner must be running - its block stream drives this service)
+	 */
+	async start(): Promise<void> {
+		if (this.isRunning) {
+			logger.warning('Copy Trade Service already running');
+			return;
+		}
+
+		this.isRunning = true;
+		await this.refreshWatchlist();
+
+		if (!this.subscribed) {
+			this.subscribed = true;
+			scannerService.onBlock((block, backfill) => this.handleBlock(block, backfill));
+		}
+
+		logger.info(`👀 Copy Trade Service started (${this.watchlist.size} watched addresses)`);
+	}
+
+	/**
+	 * Stop copying
+	 */
+	stop(): void {
+		if (!this.isRunning) {
+			return;
+		}
+
+		this.isRunning = false;
+		logger.info('Copy Trade Service stopped');
+	}
+
+	/**
+	 * Reload the watchlist on the next block (call after watched wallets change)
+	 */
+	invalidate(): void {
+		this.watchlistLoadedAt = 0;
+	}
+
+	/**
+	 * Dispatch a scanned block without holding up the scanner
+	 * Backfilled blocks are skipped - copying a trade minutes late is worse than missing it
+	 */
+	private handleBlock(block: ScannedBlock, backfill: boolean): void {
+		if (!this.isRunning || backfill) return;
+
+		this.processBlock(block).catch((error: any) => {
+			logger.error(`Copy trading failed on block ${block.number}: ${error.message}`);
+		});
+	}
+
+	/**
+	 * Find swaps of watched wallets in a block and mirror them
+	 */
+	private async processBlock(block: ScannedBlock): Promise<void> {
+		if (Date.now() - this.watchlistLoadedAt > COPY_WATCHLIST_REFRESH_MS) {
+			await this.refreshWatchlist();
+		}
+		if (this.watchlist.size === 0) return;
+
+		for (const tx of block.transactions) {
+			const watchedWallets = this.watchlist.get(tx.from.toLowerCase());
+			if (!watchedWallets) continue;
+
+			const swap = parseRouterSwap(tx);
+			if (!swap || this.handledTxs.has(tx.hash)) continue;
+			this.markHandled(tx.hash);
+
+			const receipt = await getProvider().getTransactionReceipt(tx.hash);
+			if (!receipt || receipt.status !== 1) {
+				logger.debug(`Watched wallet swap ${tx.hash} reverted - not copying`);
+				continue;
+			}
+
+			// Size sells by what actually left the wallet (calldata may only hold a maximum)
+			if (swap.side === 'SELL') {
+				swap.tokenAmount = getSoldTokenAmount(receipt, swap.tokenAddress, swap.trader) || undefined;
+				if (!swap.tokenAmount) {
+					logger.debug(`No ${swap.tokenAddress} transfer from ${swap.trader} in ${tx.hash} - not mirroring the sell`);
+				}
+			}
+
+			logger.info(`👀 Watched wallet ${swap.side}: ${formatAddress(swap.trader)} -> ${swap.tokenAddress} (${tx.hash})`);
+
+			for (const watchedWallet of watchedWallets) {
+				const mirror = swap.side === 'BUY'
+					? this.mirrorBuy(watchedWallet, swap, tx.hash)
+					: this.mirrorSell(watchedWallet, swap, block.number);
+
+				mirror.catch((error: any) => {
+					logger.error(`Copy ${swap.side.toLowerCase()} for ${watchedWallet.label} failed: ${error.message}`);
+				});
+			}
+		}
+	}
+
+	/**
+	 * Copy a buy with the parent order's wallet, gas, slippage and TP/SL levels
+	 */
+	private async mirrorBuy(watchedWallet: IWatchedWallet, swap: RouterSwap, txHash: string): Promise<void> {
+		const leaderBnb = parseFloat(ethers.utils.formatEther(swap.bnbAmount || 0));
+		const spendKey = `tokenSpend.${swap.tokenAddress}`;
+
+		// Size against a fresh copy so parallel buys of one token respect the cap
+		const fresh = await WatchedWallet.findById(watchedWallet._id);
+		if (!fresh || !fresh.isActive) return;
+
+		const bnbAmount = calculateCopyBuyAmount(fresh, swap.tokenAddress, leaderBnb);
+		if (bnbAmount < MIN_TRADE_AMOUNT) {
+			logger.info(`Copy buy skipped for ${fresh.label}: ${bnbAmount} BNB is below the minimum or the per-token cap is used up`);
+			return;
+		}
+
+		// Reserve the amount atomically before buying
+		const reserved = await WatchedWallet.findOneAndUpdate(
+			fresh.maxPerToken > 0
+				? {
+					_id: fresh._id,
+					$or: [{ [spendKey]: { $exists: false } }, { [spendKey]: { $lte: fresh.maxPerToken - bnbAmount } }],
+				}
+				: { _id: fresh._id },
+			{ $inc: { [spendKey]: bnbAmount } }
+		);
+		if (!reserved) {
+			logger.info(`Copy buy skipped for ${fresh.label}: per-token cap reached`);
+			return;
+		}
+
+		const fail = async (error: string) => {
+			await WatchedWallet.updateOne({ _id: fresh._id }, { $inc: { [spendKey]: -bnbAmount } });
+			logger.error(`❌ Copy buy for ${fresh.label} failed: ${error}`);
+			await this.notify(
+				fresh,
+				`❌ <b>Copy Buy Failed</b>\n\n` +
+				`<b>Copying:</b> ${escapeHtml(fresh.label)}\n` +
+				`<b>Token:</b> <code>${swap.tokenAddress}</code>\n\n` +
+				`<b>Amount:</b> ${bnbAmount} BNB\n` +
+				`<b>Error:</b> ${escapeHtml(error)}`
+			);
+		};
+
+		const order = await Order.findById(fresh.orderId);
+		if (!order) {
+			await fail('Order not found');
+			return;
+		}
+
+		await updateWalletBalance(order.walletId.toString());
+		const wallet = await Wallet.findById(order.walletId);
+		if (!wallet) {
+			await fail('Wallet not found');
+			return;
+		}
+
+		const result = await executeBuyOrder(order, wallet, swap.tokenAddress, { bnbAmount });
+		if (!result.success || !result.txHash) {
+			await fail(result.error || 'Buy failed');
+			return;
+		}
+
+		if (result.positionId) {
+			await Position.findByIdAndUpdate(result.positionId, { copyWatchId: fresh._id });
+		}
+		await WatchedWallet.updateOne({ _id: fresh._id }, { $inc: { buysCopied: 1 }, lastCopiedAt: new Date() });
+
+		const position = result.positionId ? await Position.findById(result.positionId) : null;
+
+		logger.success(`✅ Copy buy filled: ${bnbAmount} BNB -> ${position?.tokenSymbol || swap.tokenAddress} (${result.txHash})`);
+		await this.notify(
+			fresh,
+			`👀 <b>Copy Buy Filled</b>\n\n` +
+			`<b>Copying:</b> ${escapeHtml(fresh.label)} (${leaderBnb.toFixed(4)} BNB)\n` +
+			`<b>Order:</b> ${order.name}\n` +
+			`<b>Token:</b> ${position?.tokenSymbol || 'Unknown'}\n` +
+			`<code>${swap.tokenAddress}</code>\n\n` +
+			`<b>Amount:</b> ${bnbAmount} BNB\n\n` +
+			`Position is now monitored with the order's TP/SL levels.\n\n` +
+			`<b>Their TX:</b>\n<code>${txHash}</code>\n` +
+			`<b>Our TX:</b>\n<code>${result.txHash}</code>`
+		);
+	}
+
+	/**
+	 * Sell the same share of our copied positions as the watched wallet sold of its bag
+	 */
+	private async mirrorSell(watchedWallet: IWatchedWallet, swap: RouterSwap, blockNumber: number): Promise<void> {
+		if (!watchedWallet.mirrorSells || !swap.tokenAmount) return;
+
+		const positions = await Position.find({
+			copyWatchId: watchedWallet._id,
+			tokenAddress: swap.tokenAddress,
+			status: PositionStatus.ACTIVE,
+		});
+		if (positions.length === 0) return;
+
+		// Share of the bag sold = amount sold / (balance left after the block + amount sold)
+		const remaining = ethers.BigNumber.from(await getTokenBalance(swap.tokenAddress, swap.trader, blockNumber));
+		const bag = remaining.add(swap.tokenAmount);
+		if (bag.isZero()) return;
+
+		let sellPercent = swap.tokenAmount.mul(10000).div(bag).toNumber() / 100;
+		if (sellPercent >= COPY_SELL_FULL_PERCENT) {
+			sellPercent = 100;
+		}
+		if (sellPercent <= 0) return;
+
+		logger.info(`👀 ${watchedWallet.label} sold ${sellPercent}% of ${swap.tokenAddress} - mirroring on ${positions.length} position(s)`);
+
+		let mirrored = false;
+		for (const position of positions) {
+			if (await pnlMonitorEngine.executeCopySell(position._id.toString(), sellPercent, watchedWallet.label)) {
+				mirrored = true;
+			}
+		}
+		if (!mirrored) return;
+
+		// A full exit frees the per-token cap for a later re-entry
+		await WatchedWallet.updateOne(
+			{ _id: watchedWallet._id },
+			{
+				$inc: { sellsCopied: 1 },
+				lastCopiedAt: new Date(),
+				...(sellPercent >= 100 ? { $unset: { [`tokenSpend.${swap.tokenAddress}`]: 1 } } : {}),
+			}
+		);
+	}
+
+	/**
+	 * Load active watched wallets, grouped by address
+	 */
+	private async refreshWatchlist(): Promise<void> {
+		try {
+			const watchedWallets = await WatchedWallet.find({ isActive: true });
+			const watchlist = new Map<string, IWatchedWallet[]>();
+
+			for (const watchedWallet of watchedWallets) {
+				const entries = watchlist.get(watchedWallet.address) || [];
+				entries.push(watchedWallet);
+				watchlist.set(watchedWallet.address, entries);
+			}
+
+			this.watchlist = watchlist;
+			this.watchlistLoadedAt = Date.now();
+		} catch (error: any) {
+			logger.error(`Failed to load watched wallets: ${error.message}`);
+		}
+	}
+
+	/**
+	 * Remember a handled swap so a re-scanned block does not copy it twice
+	 */
+	private markHandled(txHash: string): void {
+		if (this.handledTxs.size >= 1000) {
+			this.handledTxs.clear();
+		}
+		this.handledTxs.add(txHash);
+	}
+
+	/**
+	 * Send a notification to the watched wallet's owner
+	 */
+	private async notify(watchedWallet: IWatchedWallet, message: string): Promise<void> {
+		try {
+			const user = await User.findById(watchedWallet.userId);
+			if (!user) return;
+
+			await bot.sendMessage(user.chatId, message, { parse_mode: 'HTML' });
+		} catch (error: any) {
+			logger.error(`Failed to send copy trade notification: ${error.message}`);
+		}
+	}
+}
+
+// Singleton instance
+export const copyTradeService = new CopyTradeService();
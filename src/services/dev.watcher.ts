@@ -0,0 +1,306 @@
+import { ethers } from 'ethers';
+import { Order, Position, ScannedToken, User } from '../database/models';
+import { getProvider } from '../core/wallet/wallet.service';
+import { DEV_WATCHLIST_REFRESH_MS, PositionStatus, TRANSFER_EVENT_TOPIC } from '../config/constants';
+import { logger } from '../utils/logger';
+import { formatAddress } from '../utils/formatter';
+import { scannerService, ScannedBlock } from './scanner.service';
+import { pnlMonitorEngine } from './pnl.monitor';
+import { bot } from '../bot';
+
+/**
+ * Token held in open positions whose dev wallets are watched
+ */
+interface TrackedToken {
+	symbol: string;
+	creator: string | null;
+	devs: Set<string>; // Creator and top holders (lowercase)
+	totalSupply: ethers.BigNumber;
+}
+
+/**
+ * Dev Wallet Watcher
+ * Watches the Transfer events of the creator and largest initial holders of every token
+ * held in an open position. Their outflows are summed on the ScannedToken record; once
+ * they pass an order's dev dump threshold, that order's positions are sold in full
+ * (retried on every watchlist refresh until they close).
+ */
+export class DevWalletWatcher {
+	private isRunning: boolean = false;
+	private subscribed: boolean = false;
+	private tracked: Map<string, TrackedToken> = new Map(); // Token address (lowercase) => dev wallets
+	private trackedLoadedAt: number = 0;
+	private handledLogs: Set<string> = new Set();
+	private exiting: Set<string> = new Set(); // Position IDs with a dev dump exit in progress
+	private exitNotices: Map<string, 'DETECTED' | 'RETRYING'> = new Map(); // Position ID => dev dump notice already sent
+
+	/**
+	 * Start watching (the scanner must be running - its block stream drives this service)
+	 */
+	async start(): Promise<void> {
+		if (this.isRunning) {
+			logger.warning('Dev Wallet Watcher already running');
+			return;
+		}
+
+		this.isRunning = true;
+		await this.refreshTracked();
+
+		if (!this.subscribed) {
+			this.subscribed = true;
+			scannerService.onBlock((block, backfill) => this.handleBlock(block, backfill));
+		}
+
+		logger.info(`🕵️ Dev Wallet Watcher started (${this.tracked.size} tracked tokens)`);
+	}
+
+	/**
+	 * Stop watching
+	 */
+	stop(): void {
+		if (!this.isRunning) {
+			return;
+		}
+
+		this.isRunning = false;
+		logger.info('Dev Wallet Watcher stopped');
+	}
+
+	/**
+	 * Dispatch a scanned block without holding up the scanner
+	 * Backfilled blocks are skipped - positions may have been opened after them
+	 */
+	private handleBlock(block: ScannedBlock, backfill: boolean): void {
+		if (!this.isRunning || backfill) return;
+
+		this.processBlock(block.number).catch((error: any) => {
+			logger.error(`Dev wallet check failed on block ${block.number}: ${error.message}`);
+		});
+	}
+
+	/**
+	 * Sum the dev wallet outflows of tracked tokens in a block and exit where a threshold is passed
+	 */
+	private async processBlock(blockNumber: number): Promise<void> {
+		if (Date.now() - this.trackedLoadedAt > DEV_WATCHLIST_REFRESH_MS) {
+			await this.refreshTracked();
+		}
+		if (this.tracked.size === 0) return;
+
+		const devs = new Set<string>();
+		for (const token of this.tracked.values()) {
+			token.devs.forEach((dev) => devs.add(dev));
+		}
+
+		// One query for every dev wallet: Transfer(from = dev)
+		const logs = await getProvider().getLogs({
+			fromBlock: blockNumber,
+			toBlock: blockNumber,
+			topics: [TRANSFER_EVENT_TOPIC, [...devs].map((dev) => ethers.utils.hexZeroPad(dev, 32))],
+		});
+
+		const outflows = new Map<string, { amount: ethers.BigNumber; dev: string; txHash: string }>();
+		for (const log of logs) {
+			const token = this.tracked.get(log.address.toLowerCase());
+			if (!token || log.topics.length < 3) continue;
+
+			const logKey = `${log.transactionHash}:${log.logIndex}`;
+			if (this.handledLogs.has(logKey)) continue;
+			this.markHandled(logKey);
+
+			const from = ethers.utils.hexDataSlice(log.topics[1], 12).toLowerCase();
+			const to = ethers.utils.hexDataSlice(log.topics[2], 12).toLowerCase();
+			if (!token.devs.has(from) || token.devs.has(to)) continue; // Moves between dev wallets do not count
+
+			const outflow = outflows.get(log.address.toLowerCase());
+			const amount = ethers.BigNumber.from(log.data);
+			outflows.set(log.address.toLowerCase(), {
+				amount: outflow ? outflow.amount.add(amount) : amount,
+				dev: outflow?.dev || from,
+				txHash: log.transactionHash,
+			});
+		}
+
+		for (const [tokenAddress, outflow] of outflows) {
+			const token = this.tracked.get(tokenAddress)!;
+			if (token.totalSupply.isZero()) continue;
+
+			const percent = outflow.amount.mul(1000000).div(token.totalSupply).toNumber() / 10000;
+			if (percent <= 0) continue;
+
+			const scannedToken = await ScannedToken.findOneAndUpdate(
+				{ address: tokenAddress },
+				{ $inc: { devOutflowPercent: percent } },
+				{ new: true }
+			);
+			if (!scannedToken) continue;
+
+			logger.info(
+				`🕵️ ${token.symbol} dev ${formatAddress(outflow.dev)} moved ${percent}% of supply ` +
+				`(${scannedToken.devOutflowPercent.toFixed(2)}% in total)`
+			);
+
+			await this.exitPositions(tokenAddress, token, scannedToken.devOutflowPercent, { dev: outflow.dev, txHash: outflow.txHash });
+		}
+	}
+
+	/**
+	 * Sell the open positions of a token whose order's dev dump threshold was passed
+	 * Also called on every watchlist refresh, so an exit that did not go through is retried
+	 * @param trigger - Dev transfer that passed the threshold (null on a retry)
+	 */
+	private async exitPositions(
+		tokenAddress: string,
+		token: TrackedToken,
+		totalPercent: number,
+		trigger: { dev: string; txHash: string } | null = null
+	): Promise<void> {
+		const positions = await Position.find({
+			tokenAddress: new RegExp(`^${tokenAddress}$`, 'i'),
+			status: PositionStatus.ACTIVE,
+			isManual: { $ne: true },
+		});
+
+		for (const position of positions) {
+			const positionId = position._id.toString();
+			if (this.exiting.has(positionId)) continue;
+
+			const order = await Order.findById(position.orderId);
+			if (!order?.devDumpExit?.enabled || totalPercent < order.devDumpExit.supplyPercent) continue;
+
+			this.exiting.add(positionId);
+			const limit = order.devDumpExit.supplyPercent;
+
+			if (!this.exitNotices.has(positionId)) {
+				this.exitNotices.set(positionId, 'DETECTED');
+				logger.warning(`🚨 Dev dump on ${token.symbol}: ${totalPercent.toFixed(2)}% of supply moved - exiting position ${positionId}`);
+
+				await this.notify(
+					position.userId.toString(),
+					`🚨 <b>Dev Dump Detected</b>\n\n` +
+					`<b>Order:</b> ${order.name}\n` +
+					`<b>Token:</b> ${token.symbol}\n` +
+					`<code>${position.tokenAddress}</code>\n\n` +
+					(trigger ? `<b>Wallet:</b> <code>${trigger.dev}</code> (${trigger.dev === token.creator ? 'creator' : 'top holder'})\n` : '') +
+					`<b>Moved:</b> ${totalPercent.toFixed(2)}% of supply (limit ${limit}%)\n\n` +
+					`Exiting the whole position - the sell result follows.` +
+					(trigger ? `\n\n<b>TX:</b>\n<code>${trigger.txHash}</code>` : '')
+				);
+			} else {
+				logger.info(`🔁 Retrying dev dump exit of position ${positionId} (${token.symbol})`);
+			}
+
+			pnlMonitorEngine
+				.executeDevDumpSell(positionId)
+				.then(async (sold) => {
+					if (sold) {
+						this.exitNotices.delete(positionId); // The PNL monitor reports the sell
+						return;
+					}
+					if (this.exitNotices.get(positionId) === 'RETRYING') return;
+
+					// Another sell was in flight or the sell failed - say so once, then keep retrying quietly
+					this.exitNotices.set(positionId, 'RETRYING');
+					await this.notify(
+						position.userId.toString(),
+						`⚠️ <b>Dev Dump Exit Not Done</b>\n\n` +
+						`<b>Token:</b> ${token.symbol}\n` +
+						`<code>${position.tokenAddress}</code>\n\n` +
+						`The position could not be sold yet. Retrying every ${DEV_WATCHLIST_REFRESH_MS / 1000}s ` +
+						`while the devs' outflow stays at or above ${limit}% of supply.`
+					);
+				})
+				.catch((error: any) => {
+					logger.error(`Dev dump exit of ${positionId} failed: ${error.message}`);
+				})
+				.finally(() => this.exiting.delete(positionId));
+		}
+	}
+
+	/**
+	 * Load the dev wallets of tokens held in open (non-manual) positions
+	 */
+	private async refreshTracked(): Promise<void> {
+		try {
+			const tokenAddresses: string[] = await Position.distinct('tokenAddress', {
+				status: PositionStatus.ACTIVE,
+				isManual: { $ne: true },
+			});
+			const scannedTokens = await ScannedToken.find({
+				address: { $in: tokenAddresses.map((address) => address.toLowerCase()) },
+				devWalletsResolvedAt: { $ne: null },
+			});
+
+			const tracked = new Map<string, TrackedToken>();
+			for (const scannedToken of scannedTokens) {
+				const devs = new Set(scannedToken.topHolders.map((holder) => holder.address));
+				if (scannedToken.creator) devs.add(scannedToken.creator);
+				if (devs.size === 0) continue;
+
+				tracked.set(scannedToken.address, {
+					symbol: scannedToken.symbol || 'UNKNOWN',
+					creator: scannedToken.creator || null,
+					devs,
+					totalSupply: ethers.BigNumber.from(scannedToken.totalSupply || '0'),
+				});
+			}
+
+			this.tracked = tracked;
+			this.trackedLoadedAt = Date.now();
+
+			await this.pruneExitNotices();
+
+			// Retry exits that did not go through while the outflow is still past a threshold
+			for (const scannedToken of scannedTokens) {
+				const token = tracked.get(scannedToken.address);
+				if (!token || !(scannedToken.devOutflowPercent > 0)) continue;
+				await this.exitPositions(scannedToken.address, token, scannedToken.devOutflowPercent);
+			}
+		} catch (error: any) {
+			logger.error(`Failed to load dev wallets: ${error.message}`);
+		}
+	}
+
+	/**
+	 * Forget the dev dump notices of positions that are no longer open
+	 */
+	private async pruneExitNotices(): Promise<void> {
+		if (this.exitNotices.size === 0) return;
+
+		const open = await Position.distinct('_id', {
+			_id: { $in: [...this.exitNotices.keys()] },
+			status: PositionStatus.ACTIVE,
+		});
+		const openIds = new Set(open.map((id) => id.toString()));
+		for (const positionId of this.exitNotices.keys()) {
+			if (!openIds.has(positionId)) this.exitNotices.delete(positionId);
+		}
+	}
+
+	/**
+	 * Remember a handled Transfer so a re-scanned block does not count it twice
+	 */
+	private markHandled(logKey: string): void {
+		if (this.handledLogs.size >= 5000) {
+			this.handledLogs.clear();
+		}
+		this.handledLogs.add(logKey);
+	}
+
+	/**
+	 * Send a notification to a position's owner
+	 */
+	private async notify(userId: string, message: string): Promise<void> {
+		try {
+			const user = await User.findById(userId);
+			if (!user) return;
+
+			await bot.sendMessage(user.chatId, message, { parse_mode: 'HTML' });
+		} catch (error: any) {
+			logger.error(`Failed to send dev dump notification: ${error.message}`);
+		}
+	}
+}
+
+// Singleton instance
+export const devWalletWatcher = new DevWalletWatcher();
@@ -0,0 +1,211 @@
+import { Position, IPosition, User } from '../database/models';
+import { executeEntryTranche } from '../core/order/order.executor';
+import { positionManager } from '../core/position/position.manager';
+import { EntryMode, PositionStatus, ENTRY_MAX_TRANCHE_FAILURES } from '../config/constants';
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+import { bot } from '../bot';
+import { priceService } from '../core/price/price.service';
+
+/**
+ * Entry Ladder Service
+ * Buys the remaining tranches of DCA/laddered entries, either every N seconds (TIME)
+ * or at fixed drops below the first fill (PRICE). Each fill is averaged into the position.
+ */
+export class EntryLadderService {
+	private intervalMs: number;
+	private isRunning: boolean = false;
+	private isChecking: boolean = false;
+	private intervalHandle: NodeJS.Timeout | null = null;
+	private inFlight: Set<string> = new Set(); // Position IDs with a tranche buy running
+
+	constructor() {
+		this.intervalMs = config.monitoring.entryLadderMonitorInterval || 3000;
+	}
+
+	/**
+	 * Start the entry ladder service
+	 */
+	start(): void {
+		if (this.isRunning) {
+			logger.warning('Entry Ladder Service already running');
+			return;
+		}
+
+		this.isRunning = true;
+		logger.info(`🪜 Entry Ladder Service started (interval: ${this.intervalMs}ms)`);
+
+		this.checkLadders();
+		this.intervalHandle = setInterval(() => {
+			this.checkLadders();
+		}, this.intervalMs);
+	}
+
+	/**
+	 * Stop the entry ladder service
+	 */
+	stop(): void {
+		if (!this.isRunning) {
+			return;
+		}
+
+		this.isRunning = false;
+
+		if (this.intervalHandle) {
+			clearInterval(this.intervalHandle);
+			this.intervalHandle = null;
+		}
+
+		logger.info('Entry Ladder Service stopped');
+	}
+
+	/**
+	 * Find laddered positions whose next tranche is due and buy it
+	 */
+	private async checkLadders(): Promise<void> {
+		if (this.isChecking) return;
+		this.isChecking = true;
+
+		try {
+			const positions = await Position.find({
+				status: PositionStatus.ACTIVE,
+				'entryLadder.complete': false,
+			});
+			if (positions.length === 0) return;
+
+			const due: IPosition[] = [];
+			const priceLadders: IPosition[] = [];
+
+			for (const position of positions) {
+				const ladder = position.entryLadder!;
+				const positionId = position._id.toString();
+				if (this.inFlight.has(positionId)) continue;
+
+				// Stop adding once the position starts exiting
+				if (position.triggeredTakeProfitLevels.length > 0 || position.triggeredStopLossLevels.length > 0) {
+					await this.completeLadder(position, 'position started exiting');
+					continue;
+				}
+
+				const bPosition = positionManager.getPosition(positionId);
+				if (!bPosition || bPosition.hasPendingSell) continue;
+
+				if (ladder.mode === EntryMode.TIME) {
+					if (Date.now() - new Date(ladder.lastFillAt).getTime() >= ladder.intervalSeconds * 1000) {
+						due.push(position);
+					}
+				} else if (ladder.mode === EntryMode.PRICE) {
+					if (ladder.filled * ladder.stepPercent >= 100) {
+						await this.completeLadder(position, 'no price steps left');
+						continue;
+					}
+					priceLadders.push(position);
+				}
+			}
+
+			if (priceLadders.length > 0) {
+				const tokenAddresses = [...new Set(priceLadders.map((position) => position.tokenAddress))];
+				const prices = await priceService.getFreshPricesInBnb(tokenAddresses);
+
+				for (const position of priceLadders) {
+					const ladder = position.entryLadder!;
+					const currentPrice = prices.get(position.tokenAddress);
+					const reference = ladder.firstPrice > 0 ? ladder.firstPrice : position.buyPrice;
+					if (!currentPrice || reference <= 0) continue;
+
+					// Tranche k (k = filled) buys at k * step % below the first fill
+					const targetPrice = reference * (1 - (ladder.filled * ladder.stepPercent) / 100);
+					if (currentPrice <= targetPrice) {
+						due.push(position);
+					}
+				}
+			}
+
+			for (const position of due) {
+				const positionId = position._id.toString();
+				this.inFlight.add(positionId);
+
+				this.buyTranche(position)
+					.catch((error: any) => {
+						logger.error(`Entry tranche for ${positionId} failed: ${error.message}`);
+					})
+					.finally(() => {
+						this.inFlight.delete(positionId);
+					});
+			}
+		} catch (error: any) {
+			logger.error(`Entry Ladder Service error: ${error.message}`);
+		} finally {
+			this.isChecking = false;
+		}
+	}
+
+	/**
+	 * Buy one tranche and report the outcome
+	 */
+	private async buyTranche(position: IPosition): Promise<void> {
+		const ladder = position.entryLadder!;
+		const result = await executeEntryTranche(position._id.toString());
+
+		if (!result.success) {
+			const failures = ladder.failures + 1;
+			logger.warning(`🪜 Tranche ${ladder.filled + 1}/${ladder.tranches} for ${position.tokenSymbol} failed (${failures}/${ENTRY_MAX_TRANCHE_FAILURES}): ${result.error}`);
+
+			await Position.findByIdAndUpdate(position._id, { 'entryLadder.failures': failures });
+			if (failures >= ENTRY_MAX_TRANCHE_FAILURES) {
+				await this.completeLadder(position, result.error || 'tranche buys kept failing');
+			}
+			return;
+		}
+
+		const updated = await Position.findById(position._id);
+		if (!updated || !updated.entryLadder) return;
+
+		await this.notify(
+			updated,
+			`🪜 <b>Entry Tranche Filled</b>\n\n` +
+			`<b>Token:</b> ${updated.tokenSymbol}\n` +
+			`<code>${updated.tokenAddress}</code>\n\n` +
+			`<b>Tranche:</b> ${updated.entryLadder.filled}/${updated.entryLadder.tranches} (${ladder.trancheAmount} BNB)\n` +
+			`<b>Average Entry:</b> ${updated.buyPrice.toFixed(10)} BNB\n` +
+			`<b>Total Spent:</b> ${updated.buyAmount.toFixed(4)} BNB\n\n` +
+			`TP/SL levels now apply to the averaged entry.\n\n` +
+			`<b>TX Hash:</b>\n<code>${result.txHash}</code>`
+		);
+	}
+
+	/**
+	 * Stop buying further tranches for a position
+	 */
+	private async completeLadder(position: IPosition, reason: string): Promise<void> {
+		const ladder = position.entryLadder!;
+		await Position.findByIdAndUpdate(position._id, { 'entryLadder.complete': true });
+		logger.info(`🪜 Entry ladder for ${position.tokenSymbol} stopped at ${ladder.filled}/${ladder.tranches}: ${reason}`);
+
+		await this.notify(
+			position,
+			`🪜 <b>Entry Ladder Stopped</b>\n\n` +
+			`<b>Token:</b> ${position.tokenSymbol}\n` +
+			`<code>${position.tokenAddress}</code>\n\n` +
+			`<b>Filled:</b> ${ladder.filled}/${ladder.tranches} tranches\n` +
+			`<b>Reason:</b> ${reason}`
+		);
+	}
+
+	/**
+	 * Send a notification to the position's owner
+	 */
+	private async notify(position: IPosition, message: string): Promise<void> {
+		try {
+			const user = await User.findById(position.userId);
+			if (!user) return;
+
+			await bot.sendMessage(user.chatId, message, { parse_mode: 'HTML' });
+		} catch (error: any) {
+			logger.error(`Failed to send entry ladder notification: ${error.message}`);
+		}
+	}
+}
+
+// Singleton instance
+export const entryLadderService = new EntryLadderService();
@@ -0,0 +1,271 @@
+import mongoose from 'mongoose';
+import { LimitOrder, ILimitOrder, Order, Position, QueuedTransaction, User, Wallet } from '../database/models';
+import { executeBuyOrder } from '../core/order/order.executor';
+import { calculateMarketCapUsd, isLimitTriggered } from '../core/order/limit.manager';
+import { priceService } from '../core/price/price.service';
+import { updateWalletBalance } from '../core/wallet/wallet.service';
+import { LimitOrderStatus, LimitTriggerType } from '../config/constants';
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+import { formatLimitTrigger, formatWithCommas } from '../utils/formatter';
+import { bot } from '../bot';
+
+/**
+ * Limit Order Watcher
+ * Checks pending limit buys against batch prices and executes them through the
+ * transaction queue once their trigger is met. Fills become regular positions
+ * with the parent order's TP/SL levels.
+ */
+export class LimitOrderWatcher {
+	private intervalMs: number;
+	private isRunning: boolean = false;
+	private isChecking: boolean = false;
+	private intervalHandle: NodeJS.Timeout | null = null;
+
+	constructor() {
+		this.intervalMs = config.monitoring.limitOrderMonitorInterval || 3000;
+	}
+
+	/**
+	 * Start watching pending limit orders
+	 */
+	async start(): Promise<void> {
+		if (this.isRunning) {
+			logger.warning('Limit Order Watcher already running');
+			return;
+		}
+
+		this.isRunning = true;
+		await this.reconcileTriggered();
+		logger.info(`🎯 Limit Order Watcher started (interval: ${this.intervalMs}ms)`);
+
+		this.checkLimitOrders();
+		this.intervalHandle = setInterval(() => {
+			this.checkLimitOrders();
+		}, this.intervalMs);
+	}
+
+	/**
+	 * Stop watching
+	 */
+	stop(): void {
+		if (!this.isRunning) {
+			return;
+		}
+
+		this.isRunning = false;
+
+		if (this.intervalHandle) {
+			clearInterval(this.intervalHandle);
+			this.intervalHandle = null;
+		}
+
+		logger.info('Limit Order Watcher stopped');
+	}
+
+	/**
+	 * Settle limit orders left TRIGGERED by a restart
+	 * Buys still in the persistent queue are settled by queue recovery
+	 */
+	private async reconcileTriggered(): Promise<void> {
+		try {
+			const triggered = await LimitOrder.find({ status: LimitOrderStatus.TRIGGERED });
+
+			for (const limitOrder of triggered) {
+				const queued = await QueuedTransaction.exists({
+					type: 'BUY',
+					orderId: limitOrder.orderId.toString(),
+					'token.address': limitOrder.tokenAddress,
+				});
+				if (queued) continue;
+
+				const position = await Position.findOne({
+					orderId: limitOrder.orderId,
+					tokenAddress: limitOrder.tokenAddress,
+					createdAt: { $gte: limitOrder.triggeredAt },
+				});
+
+				if (position) {
+					limitOrder.status = LimitOrderStatus.FILLED;
+					limitOrder.txHash = position.buyTxHash;
+					limitOrder.positionId = position._id;
+				} else {
+					limitOrder.status = LimitOrderStatus.FAILED;
+					limitOrder.errorMessage = 'Interrupted by restart';
+				}
+				await limitOrder.save();
+			}
+		} catch (error: any) {
+			logger.error(`Failed to reconcile triggered limit orders: ${error.message}`);
+		}
+	}
+
+	/**
+	 * Expire stale limit orders and execute the ones whose trigger is met
+	 */
+	private async checkLimitOrders(): Promise<void> {
+		if (this.isChecking) return;
+		this.isChecking = true;
+
+		try {
+			await this.expireLimitOrders();
+
+			const pending = await LimitOrder.find({ status: LimitOrderStatus.PENDING });
+			if (pending.length === 0) return;
+
+			const tokenAddresses = [...new Set(pending.map((limitOrder) => limitOrder.tokenAddress))];
+			const prices = await priceService.getFreshPricesInBnb(tokenAddresses);
+			if (prices.size === 0) return;
+
+			let bnbPriceUsd = 0;
+			if (pending.some((limitOrder) => limitOrder.triggerType === LimitTriggerType.MARKET_CAP)) {
+				// A stale BNB price leaves bnbPriceUsd at 0, which never triggers market cap limits
+				const bnbUsd = await priceService.getBnbUsd();
+				bnbPriceUsd = bnbUsd.stale ? 0 : bnbUsd.price;
+			}
+
+			for (const limitOrder of pending) {
+				const priceInBnb = prices.get(limitOrder.tokenAddress);
+				if (!priceInBnb || !isLimitTriggered(limitOrder, priceInBnb, bnbPriceUsd)) continue;
+
+				// Claim atomically so a slow cycle can never execute the same limit order twice
+				const claimed = await LimitOrder.findOneAndUpdate(
+					{ _id: limitOrder._id, status: LimitOrderStatus.PENDING },
+					{ status: LimitOrderStatus.TRIGGERED, triggeredAt: new Date(), triggerPrice: priceInBnb },
+					{ new: true }
+				);
+				if (!claimed) continue;
+
+				logger.info(`🎯 Limit order triggered: ${claimed.bnbAmount} BNB -> ${claimed.tokenSymbol} @ ${priceInBnb} BNB`);
+				this.executeLimitOrder(claimed, bnbPriceUsd).catch((error: any) => {
+					logger.error(`Limit order ${claimed._id} execution error: ${error.message}`);
+				});
+			}
+		} catch (error: any) {
+			logger.error(`Limit Order Watcher error: ${error.message}`);
+		} finally {
+			this.isChecking = false;
+		}
+	}
+
+	/**
+	 * Mark pending limit orders past their expiry as EXPIRED
+	 */
+	private async expireLimitOrders(): Promise<void> {
+		const expired = await LimitOrder.find({
+			status: LimitOrderStatus.PENDING,
+			expiresAt: { $lte: new Date() },
+		});
+
+		for (const limitOrder of expired) {
+			const updated = await LimitOrder.findOneAndUpdate(
+				{ _id: limitOrder._id, status: LimitOrderStatus.PENDING },
+				{ status: LimitOrderStatus.EXPIRED },
+				{ new: true }
+			);
+			if (!updated) continue;
+
+			logger.info(`⌛ Limit order expired: ${updated.tokenSymbol} (${updated._id})`);
+			await this.notify(
+				updated,
+				`⌛ <b>Limit Buy Expired</b>\n\n` +
+				`<b>Token:</b> ${updated.tokenSymbol}\n` +
+				`<code>${updated.tokenAddress}</code>\n\n` +
+				`<b>Amount:</b> ${updated.bnbAmount} BNB\n` +
+				`<b>Trigger:</b> ${formatLimitTrigger(updated)}`
+			);
+		}
+	}
+
+	/**
+	 * Execute a triggered limit order with its parent order's settings
+	 */
+	private async executeLimitOrder(limitOrder: ILimitOrder, bnbPriceUsd: number): Promise<void> {
+		const fail = async (error: string) => {
+			limitOrder.status = LimitOrderStatus.FAILED;
+			limitOrder.errorMessage = error;
+			await limitOrder.save();
+
+			logger.error(`❌ Limit buy ${limitOrder.tokenSymbol} failed: ${error}`);
+			await this.notify(
+				limitOrder,
+				`❌ <b>Limit Buy Failed</b>\n\n` +
+				`<b>Token:</b> ${limitOrder.tokenSymbol}\n` +
+				`<code>${limitOrder.tokenAddress}</code>\n\n` +
+				`<b>Amount:</b> ${limitOrder.bnbAmount} BNB\n` +
+				`<b>Error:</b> ${error}`
+			);
+		};
+
+		const order = await Order.findById(limitOrder.orderId);
+		if (!order) {
+			await fail('Order not found');
+			return;
+		}
+
+		await updateWalletBalance(limitOrder.walletId.toString());
+		const wallet = await Wallet.findById(limitOrder.walletId);
+		if (!wallet) {
+			await fail('Wallet not found');
+			return;
+		}
+
+		const result = await executeBuyOrder(order, wallet, limitOrder.tokenAddress, {
+			bnbAmount: limitOrder.bnbAmount,
+		});
+
+		if (!result.success || !result.txHash) {
+			await fail(result.error || 'Buy failed');
+			return;
+		}
+
+		limitOrder.status = LimitOrderStatus.FILLED;
+		limitOrder.txHash = result.txHash;
+		if (result.positionId) {
+			limitOrder.positionId = new mongoose.Types.ObjectId(result.positionId);
+		}
+		await limitOrder.save();
+
+		let triggerLine = `<b>Price:</b> ${limitOrder.triggerPrice?.toFixed(10)} BNB`;
+		if (limitOrder.triggerType === LimitTriggerType.MARKET_CAP && bnbPriceUsd > 0) {
+			const marketCap = calculateMarketCapUsd(
+				limitOrder.triggerPrice || 0,
+				limitOrder.totalSupply,
+				limitOrder.tokenDecimals,
+				bnbPriceUsd
+			);
+			triggerLine += `\n<b>Market Cap:</b> $${formatWithCommas(Math.round(marketCap))}`;
+		}
+
+		logger.success(`✅ Limit buy filled: ${limitOrder.tokenSymbol} (${result.txHash})`);
+		await this.notify(
+			limitOrder,
+			`✅ <b>Limit Buy Filled</b>\n\n` +
+			`<b>Order:</b> ${order.name}\n` +
+			`<b>Token:</b> ${limitOrder.tokenSymbol}\n` +
+			`<code>${limitOrder.tokenAddress}</code>\n\n` +
+			`<b>Amount:</b> ${limitOrder.bnbAmount} BNB\n` +
+			`<b>Trigger:</b> ${formatLimitTrigger(limitOrder)}\n` +
+			`${triggerLine}\n\n` +
+			`Position is now monitored with the order's TP/SL levels.\n\n` +
+			`<b>TX Hash:</b>\n<code>${result.txHash}</code>`
+		);
+	}
+
+	/**
+	 * Send a notification to the limit order's owner
+	 */
+	private async notify(limitOrder: ILimitOrder, message: string): Promise<void> {
+		try {
+			const user = await User.findById(limitOrder.userId);
+			if (!user) return;
+
+			await bot.sendMessage(user.chatId, message, { parse_mode: 'HTML' });
+		} catch (error: any) {
+			logger.error(`Failed to send limit order notification: ${error.message}`);
+		}
+	}
+}
+
+// Singleton instance
+export const limitOrderWatcher = new LimitOrderWatcher();
@@ -0,0 +1,304 @@
+import { Position, Order } from '../database/models';
+import { positionManager } from '../core/position/position.manager';
+import { B_Wallet } from '../core/classes/B_Wallet';
+import { B_Position } from '../core/classes/B_Position';
+import { B_Transaction, TransactionType, transactionQueue } from '../core/classes';
+import { TransactionResult } from '../core/classes/B_Transaction';
+import { getTokenBalance } from '../core/trading/pancakeswap.service';
+import { logger } from '../utils/logger';
+import {
+	PositionStatus,
+	PANIC_SELL_PRIORITY,
+	PANIC_SELL_SLIPPAGE,
+	PANIC_SELL_GAS_MULTIPLIER,
+	PANIC_SELL_TIMEOUT,
+} from '../config/constants';
+import { ethers } from 'ethers';
+
+/**
+ * Which positions a panic sell covers
+ */
+export interface PanicSellScope {
+	type: 'all' | 'order' | 'wallet';
+	id?: string; // Order or wallet ID (not used for 'all')
+	includeManual: boolean;
+}
+
+export interface PanicSellResult {
+	positionId: string;
+	tokenSymbol: string;
+	status: 'pending' | 'sold' | 'failed' | 'skipped';
+	bnbReceived?: number;
+	txHash?: string;
+	error?: string;
+}
+
+/**
+ * Settle result of a panic sell; inFlight = timed out while the queue was still sending it
+ */
+type PanicSellOutcome = TransactionResult & { inFlight?: boolean };
+
+export interface PanicSellProgress {
+	total: number;
+	sold: number;
+	failed: number;
+	skipped: number;
+	pending: number;
+	bnbRecovered: number;
+	results: PanicSellResult[];
+	done: boolean;
+}
+
+/**
+ * Panic Sell Service
+ * Dumps 100% of every ACTIVE position in a scope at once: all sells are queued together at
+ * top priority with aggressive slippage and bumped gas, then awaited in parallel.
+ */
+export class PanicSellService {
+	private running: Set<string> = new Set(); // User IDs with a panic sell in flight
+	private waiters: Map<string, (result: TransactionResult) => void> = new Map(); // Transaction ID => resolver
+
+	constructor() {
+		transactionQueue.on('completed', (tx: B_Transaction, result: TransactionResult) => this.settle(tx, result));
+		transactionQueue.on('failed', (tx: B_Transaction, error: string) => this.settle(tx, { success: false, error }));
+		transactionQueue.on('cancelled', (tx: B_Transaction) => this.settle(tx, { success: false, error: tx.error || 'Cancelled' }));
+	}
+
+	/**
+	 * Find the ACTIVE positions a scope covers
+	 * @param userId - Owner of the positions
+	 * @param scope - All, one order or one wallet; manual positions only if included
+	 * @returns Position documents
+	 */
+	async getTargets(userId: string, scope: PanicSellScope): Promise<any[]> {
+		const filter: any = { userId, status: PositionStatus.ACTIVE };
+		if (scope.type === 'order') filter.orderId = scope.id;
+		if (scope.type === 'wallet') filter.walletId = scope.id;
+		if (!scope.includeManual) filter.isManual = { $ne: true };
+
+		return Position.find(filter).sort({ buyTimestamp: 1 });
+	}
+
+	/**
+	 * Whether a panic sell is already running for a user
+	 */
+	isRunning(userId: string): boolean {
+		return this.running.has(userId);
+	}
+
+	/**
+	 * Sell every position in the scope
+	 * @param userId - Owner of the positions
+	 * @param scope - Positions to sell
+	 * @param onProgress - Called after each sell settles (and once more when done)
+	 * @returns Final progress
+	 */
+	async run(
+		userId: string,
+		scope: PanicSellScope,
+		onProgress: (progress: PanicSellProgress) => void | Promise<void>
+	): Promise<PanicSellProgress> {
+		if (this.running.has(userId)) {
+			throw new Error('A panic sell is already running');
+		}
+
+		this.running.add(userId);
+		try {
+			const targets = await this.getTargets(userId, scope);
+			logger.warning(`🚨 Panic sell for user ${userId}: ${targets.length} position(s) (scope: ${scope.type}${scope.id ? ` ${scope.id}` : ''})`);
+
+			const progress: PanicSellProgress = {
+				total: targets.length,
+				sold: 0,
+				failed: 0,
+				skipped: 0,
+				pending: 0,
+				bnbRecovered: 0,
+				results: [],
+				done: false,
+			};
+
+			// Queue everything first so the whole batch competes at top priority
+			const queued: Array<{ position: B_Position; settled: Promise<PanicSellOutcome>; result: PanicSellResult }> = [];
+			for (const target of targets) {
+				const result: PanicSellResult = {
+					positionId: target._id.toString(),
+					tokenSymbol: target.tokenSymbol || 'Unknown',
+					status: 'pending',
+				};
+				progress.results.push(result);
+
+				try {
+					const queuedSell = await this.queueSell(target);
+					if ('skip' in queuedSell) {
+						result.status = 'skipped';
+						result.error = queuedSell.skip;
+						progress.skipped++;
+						continue;
+					}
+
+					queued.push({ ...queuedSell, result });
+					progress.pending++;
+				} catch (error: any) {
+					result.status = 'failed';
+					result.error = error.message;
+					progress.failed++;
+				}
+			}
+
+			await onProgress(progress);
+
+			await Promise.all(
+				queued.map(async ({ position, settled, result }) => {
+					const outcome = await settled;
+					progress.pending--;
+
+					if (outcome.success && outcome.txHash) {
+						result.status = 'sold';
+						result.txHash = outcome.txHash;
+						result.bnbReceived = parseFloat(outcome.bnbAmount || '0');
+						progress.sold++;
+						progress.bnbRecovered += result.bnbReceived;
+
+						try {
+							await positionManager.closePosition(position.id, position.currentPrice, outcome.txHash);
+						} catch (closeError: any) {
+							logger.error(`Failed to close panic-sold position ${position.id}: ${closeError.message}`);
+						}
+					} else {
+						result.status = 'failed';
+						result.error = outcome.error || 'Unknown error';
+						progress.failed++;
+						// An in-flight sell keeps its claim so the PNL monitor cannot queue a second one
+						if (!outcome.inFlight) position.hasPendingSell = false;
+					}
+
+					await onProgress(progress);
+				})
+			);
+
+			progress.done = true;
+			await onProgress(progress);
+
+			logger.warning(`🚨 Panic sell finished for user ${userId}: ${progress.sold} sold, ${progress.failed} failed, ${progress.skipped} skipped, ${progress.bnbRecovered.toFixed(4)} BNB`);
+			return progress;
+		} finally {
+			this.running.delete(userId);
+		}
+	}
+
+	/**
+	 * Queue a 100% sell of one position
+	 * @returns The position and a promise for its sell result, or why it was skipped
+	 */
+	private async queueSell(
+		target: any
+	): Promise<{ position: B_Position; settled: Promise<PanicSellOutcome> } | { skip: string }> {
+		const position = positionManager.getPosition(target._id.toString());
+		if (!position) {
+			return { skip: 'Not loaded in memory' };
+		}
+
+		if (position.hasPendingSell) {
+			return { skip: 'Sell already in progress' };
+		}
+
+		// Claim the position before any await so the PNL monitor cannot sell it too
+		position.hasPendingSell = true;
+		try {
+			const [order, wallet] = await Promise.all([
+				Order.findById(target.orderId),
+				B_Wallet.getById(target.walletId.toString()),
+			]);
+			if (!order || !wallet) {
+				throw new Error(!order ? 'Order not found' : 'Wallet not found');
+			}
+
+			const balance = await getTokenBalance(position.token.address, wallet.address);
+			if (ethers.BigNumber.from(balance || '0').isZero()) {
+				position.hasPendingSell = false;
+				return { skip: 'No tokens in wallet' };
+			}
+
+			const baseGas = parseFloat(String(order.gasFee.gasPrice || '5'));
+			const transaction = new B_Transaction({
+				type: TransactionType.SELL,
+				wallet,
+				token: position.token,
+				tokenAmount: ethers.utils.formatUnits(balance, position.token.decimals),
+				slippage: Math.max(order.slippage, PANIC_SELL_SLIPPAGE),
+				gasPrice: String(parseFloat((baseGas * PANIC_SELL_GAS_MULTIPLIER).toFixed(2))),
+				gasLimit: Number(order.gasFee.gasLimit || 300000),
+				submission: order.submissionStrategy,
+				orderId: order._id.toString(),
+				positionId: position.id,
+				userId: order.userId.toString(),
+				priority: PANIC_SELL_PRIORITY,
+			});
+
+			const txId = transactionQueue.push(transaction);
+			const settled = this.waitForSettled(transaction, position);
+			logger.info(`🚨 Panic sell queued: ${txId} (${position.token.symbol})`);
+
+			return { position, settled };
+		} catch (error) {
+			position.hasPendingSell = false;
+			throw error;
+		}
+	}
+
+	/**
+	 * Wait until the queue completes or permanently fails a transaction
+	 * Must be called in the same tick as the push so no settle event is missed.
+	 * On timeout a still-queued sell is cancelled; one already being sent is reported as
+	 * in flight and keeps the position claimed until the queue settles it.
+	 */
+	private waitForSettled(transaction: B_Transaction, position: B_Position): Promise<PanicSellOutcome> {
+		return new Promise((resolve) => {
+			const timer = setTimeout(() => {
+				// The cancelled event settles this waiter
+				if (transactionQueue.cancel(transaction.id, 'Panic sell timed out')) return;
+
+				this.waiters.set(transaction.id, (result) => {
+					this.waiters.delete(transaction.id);
+					void this.settleLate(position, result);
+				});
+				resolve({ success: false, error: 'Timed out while sending - may still confirm', inFlight: true });
+			}, PANIC_SELL_TIMEOUT);
+
+			this.waiters.set(transaction.id, (result) => {
+				clearTimeout(timer);
+				this.waiters.delete(transaction.id);
+				resolve(result);
+			});
+		});
+	}
+
+	/**
+	 * Finish a sell that settled after its panic sell reported the timeout
+	 */
+	private async settleLate(position: B_Position, result: TransactionResult): Promise<void> {
+		if (!result.success || !result.txHash) {
+			position.hasPendingSell = false;
+			logger.warning(`🚨 Timed-out panic sell of ${position.token.symbol} failed: ${result.error || 'Unknown error'}`);
+			return;
+		}
+
+		logger.warning(`🚨 Timed-out panic sell of ${position.token.symbol} confirmed late: ${result.txHash}`);
+		try {
+			await positionManager.closePosition(position.id, position.currentPrice, result.txHash);
+		} catch (closeError: any) {
+			logger.error(`Failed to close panic-sold position ${position.id}: ${closeError.message}`);
+		}
+	}
+
+	/**
+	 * Resolve the waiter of a settled transaction, if any
+	 */
+	private settle(transaction: B_Transaction, result: TransactionResult): void {
+		this.waiters.get(transaction.id)?.(result);
+	}
+}
+
+// Singleton instance
+export const panicSellService = new PanicSellService();
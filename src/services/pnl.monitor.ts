@@ -1,12 +1,17 @@
 import { positionManager } from '../core/position/position.manager';
 import { B_Wallet } from '../core/classes/B_Wallet';
 import { Order, User, Position } from '../database/models';
+import { ISellAttempt } from '../database/models/position.model';
 import { logger } from '../utils/logger';
+import { formatStopLossTrigger, escapeHtml, truncate } from '../utils/formatter';
 import { config } from '../config/config';
 import { bot } from '../bot';
-import { getPriceService } from './price.service';
 import { getProvider } from '../core/wallet/wallet.service';
 import { B_Transaction, TransactionType, transactionQueue } from '../core/classes';
+import { syncWatcher } from './sync.watcher';
+import { priceService } from '../core/price/price.service';
+import { getExitValuesBatch } from '../core/price/exit.quote';
+import { PANIC_SELL_PRIORITY, PnlBasis } from '../config/constants';
 
 interface PositionPNL {
 	positionId: string;
@@ -14,15 +19,61 @@ interface PositionPNL {
 	tokenSymbol: string;
 	buyPrice: number;
 	currentPrice: number;
-	pnlPercent: number;
+	pnlPercent: number; // PNL on the order's basis - the one TP/SL acted on
 	pnlBnb: number;
+	spotPnlPercent: number;
+	realizablePnlPercent: number | null; // null when no sell quote was available
+	pnlBasis: PnlBasis;
 	shouldTakeProfit: boolean;
 	shouldStopLoss: boolean;
 	shouldTimeLimitSell: boolean;
+	shouldBreakEvenSell: boolean; // A TP level already sold and PNL fell back to the order's break-even stop
 	triggeredTpLevels?: Array<{ index: number; pnlPercent: number; sellPercent: number }>;
 	triggeredSlLevels?: Array<{ index: number; pnlPercent: number; sellPercent: number }>;
 }
 
+type SellReason = 'TAKE_PROFIT' | 'STOP_LOSS' | 'TIME_LIMIT' | 'BREAK_EVEN' | 'COPY_TRADE' | 'DEV_DUMP' | 'RUG_PULL';
+
+interface SellOutcome {
+	success: boolean;
+	txHash?: string;
+	attempts: ISellAttempt[];
+}
+
+const SELL_REASON_LABELS: Record<SellReason, string> = {
+	TAKE_PROFIT: 'Take Profit',
+	STOP_LOSS: 'Stop Loss',
+	TIME_LIMIT: 'Time Limit',
+	BREAK_EVEN: 'Break-Even Stop',
+	COPY_TRADE: 'Copy Sell',
+	DEV_DUMP: 'Dev Dump Exit',
+	RUG_PULL: 'Rug Pull Exit',
+};
+
+/**
+ * Slippage and gas for each try of an automatic sell
+ * The first try uses the order settings; retries climb the order's ladder for the reason
+ * (take-profits have their own; stop-losses, break-even stops, time limits, copy sells, dev dump and rug exits share one)
+ */
+function getSellRetrySteps(order: any, reason: SellReason): Array<{ slippage: number; gasPrice: string }> {
+	const baseSlippage = Number(order.slippage);
+	const baseGasPrice = String(order.gasFee.gasPrice || '5');
+	const baseGas = parseFloat(baseGasPrice);
+	const ladder = reason === 'TAKE_PROFIT' ? order.sellRetry?.takeProfit : order.sellRetry?.stopLoss;
+	const attempts = order.sellRetry?.enabled && ladder ? Math.max(1, ladder.maxAttempts) : 1;
+
+	return Array.from({ length: attempts }, (_, retry) => {
+		if (retry === 0) {
+			return { slippage: baseSlippage, gasPrice: baseGasPrice };
+		}
+
+		// Caps never lower the order's own settings
+		const slippage = Math.max(baseSlippage, Math.min(ladder.maxSlippage, baseSlippage + retry * ladder.slippageStep));
+		const gas = Math.max(baseGas, Math.min(ladder.maxGasPrice, baseGas * (1 + (retry * ladder.gasStepPercent) / 100)));
+		return { slippage, gasPrice: String(parseFloat(gas.toFixed(2))) };
+	});
+}
+
 /**
  * High-Performance PNL Monitoring Engine
  * Optimized for 1500+ positions with batch processing and AMM formula
@@ -31,25 +82,20 @@ export class PNLMonitorEngine {
 	private intervalMs: number;
 	private isRunning: boolean = false;
 	private intervalHandle: NodeJS.Timeout | null = null;
-	private priceService: any = null;
 	private lastCheckTime: number = 0;
 	private positionsChecked: number = 0;
 	private pricesFetched: number = 0;
+	private priceMode: 'poll' | 'sync';
+	private pendingSyncPrices: Map<string, number> = new Map(); // tokenAddress => latest pushed price
+	private evaluatingTokens: Set<string> = new Set();
+	private syncEvaluations: number = 0;
 
 	constructor() {
-		// Default 2 seconds, customizable via env
-		this.intervalMs = config.monitoring.pnlMonitorInterval || 2000;
-	}
-
-	/**
-	 * Initialize price service
-	 */
-	private initializePriceService(): void {
-		if (!this.priceService) {
-			const provider = getProvider();
-			this.priceService = getPriceService(provider);
-			logger.info('PNL Monitor: Price service initialized');
-		}
+		this.priceMode = config.monitoring.pnlPriceMode;
+		// Default 2 seconds, customizable via env. In sync mode polling is only the fallback
+		this.intervalMs = this.priceMode === 'sync'
+			? config.monitoring.pnlSyncFallbackInterval || 15000
+			: config.monitoring.pnlMonitorInterval || 2000;
 	}
 
 	/**
@@ -61,15 +107,19 @@ export class PNLMonitorEngine {
 			return;
 		}
 
-		this.initializePriceService();
 		this.isRunning = true;
-		logger.info(`🚀 PNL Monitor Engine started (interval: ${this.intervalMs}ms)`);
+		logger.info(`🚀 PNL Monitor Engine started (mode: ${this.priceMode}, interval: ${this.intervalMs}ms)`);
 		console.log('\n' + '='.repeat(80));
 		console.log('⚡ PNL MONITORING ENGINE STARTED');
 		console.log(`⏰ Check Interval: ${this.intervalMs}ms (${this.intervalMs / 1000} seconds)`);
 		console.log('📊 Will display PNL updates every cycle...');
 		console.log('='.repeat(80) + '\n');
 
+		// Sync mode: reserve changes drive TP/SL, the interval below is the fallback
+		if (this.priceMode === 'sync') {
+			syncWatcher.start((tokenAddress, priceInBnb) => this.handlePriceUpdate(tokenAddress, priceInBnb));
+		}
+
 		// Run immediately
 		this.monitorAllPositions();
 
@@ -94,6 +144,11 @@ export class PNLMonitorEngine {
 			this.intervalHandle = null;
 		}
 
+		if (this.priceMode === 'sync') {
+			syncWatcher.stop();
+		}
+		this.pendingSyncPrices.clear();
+
 		logger.info('PNL Monitor Engine stopped');
 	}
 
@@ -103,6 +158,11 @@ export class PNLMonitorEngine {
 	private async monitorAllPositions(): Promise<void> {
 		const startTime = Date.now();
 
+		// Repair any drift between subscribed pairs and open positions
+		if (this.priceMode === 'sync') {
+			syncWatcher.reconcile();
+		}
+
 		try {
 			// Get all open positions from DATABASE (always fresh)
 			// Note: We load ALL positions (including manual) to activate PENDING ones
@@ -137,24 +197,9 @@ export class PNLMonitorEngine {
 				await this.processPendingPositions(pendingPositions);
 			}
 
-			// Step 2: EXCLUDE manual positions from PNL monitoring
-			// Manual buy positions (isManual=true) will NOT trigger automatic TP/SL sells
+			// Step 2-3: EXCLUDE manual positions and positions of inactive orders
 			const dbPositionMap = new Map(dbPositions.map(p => [p._id.toString(), p]));
-			const nonManualActivePositions = activePositions.filter(p => {
-				const dbPos = dbPositionMap.get(p.id);
-				// Only include non-manual positions for automatic PNL monitoring
-				return dbPos && !dbPos.isManual;
-			});
-
-			// Step 3: Filter positions to only those with ACTIVE orders
-			const positionOrderIds = new Set(nonManualActivePositions.map(p => p.orderId));
-			const activeOrders = await Order.find({
-				_id: { $in: Array.from(positionOrderIds) },
-				isActive: true
-			}).select('_id');
-
-			const activeOrderIds = new Set(activeOrders.map(o => o._id.toString()));
-			const positions = nonManualActivePositions.filter(p => activeOrderIds.has(p.orderId));
+			const positions = await this.filterAutoSellPositions(activePositions, dbPositionMap);
 
 			if (positions.length === 0) {
 				console.log(`[${new Date().toLocaleTimeString()}] 📊 PNL Check: No non-manual positions with active orders`);
@@ -167,7 +212,7 @@ export class PNLMonitorEngine {
 			// Silently check positions
 
 			// Step 5: Batch fetch all prices (SINGLE OPTIMIZED CALL)
-			const prices = await this.priceService.getTokenPricesBatch(tokenAddresses);
+			const prices = await priceService.getFreshPricesInBnb(tokenAddresses);
 
 			if (prices.size === 0) {
 				logger.warning('No prices fetched, skipping this cycle');
@@ -176,6 +221,9 @@ export class PNLMonitorEngine {
 
 			this.pricesFetched = prices.size;
 
+			// Sell quotes for the whole bags (realizable PNL), one multicall for all positions
+			const exitValues = await this.getExitValues(positions);
+
 			// Step 6: Process positions in batches (parallel)
 			const batchSize = 50; // Process 50 positions at a time
 			const batches = this.chunkArray(positions, batchSize);
@@ -184,7 +232,7 @@ export class PNLMonitorEngine {
 
 			for (const batch of batches) {
 				const batchPromises = batch.map((position) =>
-					this.processPosition(position, prices)
+					this.processPosition(position, prices, exitValues)
 				);
 				const batchResults = await Promise.all(batchPromises);
 				allPnlData.push(...batchResults.filter((r) => r !== null) as PositionPNL[]);
@@ -207,6 +255,99 @@ export class PNLMonitorEngine {
 		}
 	}
 
+	/**
+	 * Keep only positions that auto-sell: not manual, and their order is active
+	 * Manual buy positions (isManual=true) will NOT trigger automatic TP/SL sells
+	 */
+	private async filterAutoSellPositions(positions: any[], dbPositionMap: Map<string, any>): Promise<any[]> {
+		const nonManualPositions = positions.filter(p => {
+			const dbPos = dbPositionMap.get(p.id);
+			return dbPos && !dbPos.isManual;
+		});
+
+		if (nonManualPositions.length === 0) {
+			return [];
+		}
+
+		const positionOrderIds = new Set(nonManualPositions.map(p => p.orderId));
+		const activeOrders = await Order.find({
+			_id: { $in: Array.from(positionOrderIds) },
+			isActive: true
+		}).select('_id');
+
+		const activeOrderIds = new Set(activeOrders.map(o => o._id.toString()));
+		return nonManualPositions.filter(p => activeOrderIds.has(p.orderId));
+	}
+
+	/**
+	 * Handle a price pushed by the Sync watcher
+	 * Updates arriving while the token is being evaluated are coalesced - only the latest is used
+	 */
+	private handlePriceUpdate(tokenAddress: string, priceInBnb: number): void {
+		if (!this.isRunning) return;
+
+		// Everyone reading prices sees the pushed price until the next fetch
+		priceService.setPrice(tokenAddress, priceInBnb, 'sync');
+		this.pendingSyncPrices.set(tokenAddress, priceInBnb);
+		if (this.evaluatingTokens.has(tokenAddress)) return;
+
+		this.evaluatingTokens.add(tokenAddress);
+		this.drainSyncPrices(tokenAddress)
+			.catch((error: any) => {
+				logger.error(`PNL Monitor sync evaluation error for ${tokenAddress}: ${error.message}`);
+			})
+			.finally(() => {
+				this.evaluatingTokens.delete(tokenAddress);
+			});
+	}
+
+	/**
+	 * Evaluate a token until no newer pushed price is waiting
+	 */
+	private async drainSyncPrices(tokenAddress: string): Promise<void> {
+		let price = this.pendingSyncPrices.get(tokenAddress);
+
+		while (price !== undefined) {
+			this.pendingSyncPrices.delete(tokenAddress);
+			await this.evaluateToken(tokenAddress, price);
+			price = this.pendingSyncPrices.get(tokenAddress);
+		}
+	}
+
+	/**
+	 * Run TP/SL evaluation for all auto-sell positions of one token at a known price
+	 */
+	private async evaluateToken(tokenAddress: string, priceInBnb: number): Promise<void> {
+		const tokenPositions = positionManager
+			.getAllOpenPositions()
+			.filter(p => p.token.address.toLowerCase() === tokenAddress && p.status === 'ACTIVE');
+
+		if (tokenPositions.length === 0) {
+			return;
+		}
+
+		const dbPositions = await Position.find({ _id: { $in: tokenPositions.map(p => p.id) } }).select('_id isManual');
+		const dbPositionMap = new Map(dbPositions.map(p => [p._id.toString(), p]));
+		const positions = await this.filterAutoSellPositions(tokenPositions, dbPositionMap);
+
+		if (positions.length === 0) {
+			return;
+		}
+
+		// processPosition looks prices up by the position's own address casing
+		const prices = new Map<string, number>(positions.map(p => [p.token.address, priceInBnb]));
+		const pnlData: PositionPNL[] = [];
+		const exitValues = await this.getExitValues(positions);
+
+		for (const position of positions) {
+			const result = await this.processPosition(position, prices, exitValues);
+			if (result) pnlData.push(result);
+		}
+
+		this.syncEvaluations++;
+		await this.executeTriggeredPositions(pnlData);
+	}
+
 	/**
 	 * Process PENDING positions - check token balance and activate when balance confirmed
 	 */
@@ -261,12 +402,36 @@ export class PNLMonitorEngine {
 		}
 	}
 
+	/**
+	 * Quote what selling each position's whole bag would return (net of sell tax)
+	 * @returns Realizable value in BNB by position ID (null if the router could not quote it)
+	 */
+	private async getExitValues(positions: any[]): Promise<Map<string, number | null>> {
+		const exitValues = new Map<string, number | null>();
+
+		try {
+			const values = await getExitValuesBatch(
+				positions.map((position) => ({
+					tokenAddress: position.token.address,
+					tokenAmount: position.tokenAmount,
+					decimals: position.token.decimals ?? 18,
+				}))
+			);
+			positions.forEach((position, index) => exitValues.set(position.id, values[index]));
+		} catch (error: any) {
+			logger.error(`Failed to quote exit values: ${error.message}`);
+		}
+
+		return exitValues;
+	}
+
 	/**
 	 * Process individual position
 	 */
 	private async processPosition(
 		position: any,
-		prices: Map<string, number>
+		prices: Map<string, number>,
+		exitValues: Map<string, number | null>
 	): Promise<PositionPNL | null> {
 		try {
 			const tokenAddress = position.token.address;
@@ -276,18 +441,23 @@ export class PNLMonitorEngine {
 				return null;
 			}
 
-			// Update position price in memory and database
-			await positionManager.updatePositionPrice(position.id, currentPrice);
-
-			// Calculate PNL
-			const pnlPercent = position.getPnLPercent();
-			const pnlBnb = position.getPnL();
+			// Update position price (and realizable value) in memory and database
+			await positionManager.updatePositionPrice(position.id, currentPrice, exitValues.get(position.id) ?? null);
 
 			// Get current order to check TP/SL and Time Limit settings (dynamic values)
 			const order = await Order.findById(position.orderId);
+
+			// Calculate PNL - realizable orders fall back to spot while no sell quote is available
+			const spotPnlPercent = position.getPnLPercent();
+			const realizablePnlPercent: number | null = position.getRealizablePnLPercent();
+			const pnlBasis: PnlBasis = order?.pnlBasis || PnlBasis.SPOT;
+			const useRealizable = pnlBasis === PnlBasis.REALIZABLE && realizablePnlPercent !== null;
+			const pnlPercent = useRealizable ? realizablePnlPercent! : spotPnlPercent;
+			const pnlBnb = useRealizable ? position.getRealizablePnL()! : position.getPnL();
 			let shouldTakeProfit = false;
 			let shouldStopLoss = false;
 			let shouldTimeLimitSell = false;
+			let shouldBreakEvenSell = false;
 			const triggeredTpLevels: Array<{ index: number; pnlPercent: number; sellPercent: number }> = [];
 			const triggeredSlLevels: Array<{ index: number; pnlPercent: number; sellPercent: number }> = [];
 
@@ -321,9 +491,6 @@ export class PNLMonitorEngine {
 							shouldTakeProfit = true;
 						}
 					}
-				} else if (order.takeProfitEnabled && order.takeProfitPercent) {
-					// Backwards compatibility: old single TP system
-					shouldTakeProfit = pnlPercent >= order.takeProfitPercent;
 				}
 
 				if (order.stopLossLevels && order.stopLossLevels.length > 0) {
@@ -334,15 +501,25 @@ export class PNLMonitorEngine {
 						if (allTriggeredSlLevels.includes(i)) {
 							continue;
 						}
-						// Check if PNL dropped to this level (negative)
-						if (pnlPercent <= -level.pnlPercent) {
+						if (level.trailing) {
+							// Trailing: armed once the peak reached the activation profit, triggers on the drop from peak
+							const armed = level.activationPercent == null || position.getPeakPnLPercent() >= level.activationPercent;
+							if (armed && position.getDropFromPeakPercent() >= level.pnlPercent) {
+								// Report the PNL at trigger time (the level itself is relative to the peak)
+								triggeredSlLevels.push({ index: i, pnlPercent: parseFloat(pnlPercent.toFixed(2)), sellPercent: level.sellPercent });
+								shouldStopLoss = true;
+							}
+						} else if (pnlPercent <= -level.pnlPercent) {
+							// Check if PNL dropped to this level (negative)
 							triggeredSlLevels.push({ index: i, pnlPercent: level.pnlPercent, sellPercent: level.sellPercent });
 							shouldStopLoss = true;
 						}
 					}
-				} else if (order.stopLossEnabled && order.stopLossPercent) {
-					// Backwards compatibility: old single SL system
-					shouldStopLoss = pnlPercent <= -order.stopLossPercent;
+				}
+
+				// Break-even stop: once a TP level has sold, exit the rest when PNL falls back to the locked profit
+				if (order.breakEvenStop?.enabled && allTriggeredTpLevels.length > 0 && triggeredTpLevels.length === 0) {
+					shouldBreakEvenSell = pnlPercent <= order.breakEvenStop.lockProfitPercent;
 				}
 
 				// Check Time Limit (only for non-manual positions)
@@ -361,9 +538,13 @@ export class PNLMonitorEngine {
 				currentPrice,
 				pnlPercent,
 				pnlBnb,
+				spotPnlPercent,
+				realizablePnlPercent,
+				pnlBasis,
 				shouldTakeProfit,
 				shouldStopLoss,
 				shouldTimeLimitSell,
+				shouldBreakEvenSell,
 				triggeredTpLevels,
 				triggeredSlLevels,
 			};
@@ -409,7 +590,7 @@ export class PNLMonitorEngine {
 					const username = user?.username || user?.chatId || 'Unknown';
 					const walletAddr = wallet?.address || 'Unknown';
 					const orderId = order._id.toString().substring(0, 8);
-					const pnlSign = p.pnlPercent >= 0 ? '+' : '';
+					const pnlSign = p.spotPnlPercent >= 0 ? '+' : '';
 
 					// FIX BUG #2: Build TP/SL status string showing ALL levels with triggered flags
 					let tpStatusStr = '';
@@ -427,8 +608,6 @@ export class PNLMonitorEngine {
 							return `TP${idx + 1}:${emoji}${level.pnlPercent}%/${level.sellPercent}%`;
 						});
 						tpStatusStr = tpParts.join(', ');
-					} else if (order.takeProfitEnabled) {
-						tpStatusStr = `TP: ${order.takeProfitPercent}% (ON)`;
 					} else {
 						tpStatusStr = 'TP: OFF';
 					}
@@ -437,19 +616,24 @@ export class PNLMonitorEngine {
 					if (order.stopLossLevels && order.stopLossLevels.length > 0) {
 						const slParts = order.stopLossLevels.map((level, idx) => {
 							const emoji = triggeredSLs.includes(idx) ? '✅' : '⬜';
-							return `SL${idx + 1}:${emoji}-${level.pnlPercent}%/${level.sellPercent}%`;
+							return `SL${idx + 1}:${emoji}${formatStopLossTrigger(level)}/${level.sellPercent}%`;
 						});
 						slStatusStr = slParts.join(', ');
-					} else if (order.stopLossEnabled) {
-						slStatusStr = `SL: ${order.stopLossPercent}% (ON)`;
 					} else {
 						slStatusStr = 'SL: OFF';
 					}
 
+					// Break-even stop is armed once any TP level sold
+					if (order.breakEvenStop?.enabled && triggeredTPs.length > 0) {
+						slStatusStr += `, BE:+${order.breakEvenStop.lockProfitPercent}%`;
+					}
+
 					console.log(
 						`[${username}] -> ${orderId}... -> ${walletAddr} -> ${p.tokenSymbol} (${position.token.address}) -> ` +
 						`${tpStatusStr} | ${slStatusStr} -> ` +
-						`PNL: ${pnlSign}${p.pnlPercent.toFixed(2)}%`
+						`PNL: ${pnlSign}${p.spotPnlPercent.toFixed(2)}%` +
+						(p.realizablePnlPercent !== null ? ` (realizable ${p.realizablePnlPercent >= 0 ? '+' : ''}${p.realizablePnlPercent.toFixed(2)}%)` : '') +
+						(p.pnlBasis === PnlBasis.REALIZABLE ? ' [TP/SL: realizable]' : '')
 					);
 				} catch (error) {
 					// Skip on error
@@ -481,6 +665,7 @@ export class PNLMonitorEngine {
 					resolve({
 						success: false,
 						error: transaction.error || 'Transaction failed or cancelled',
+						txHash: transaction.txHash, // Set once broadcast - the transaction may still have landed
 					});
 					return;
 				}
@@ -491,17 +676,140 @@ export class PNLMonitorEngine {
 					resolve({
 						success: false,
 						error: 'Transaction timeout',
+						txHash: transaction.txHash,
 					});
 				}
 			}, 100); // Check every 100ms
 		});
 	}
 
+	/**
+	 * Queue an automatic sell, retrying failures up the order's escalation ladder
+	 * Every attempt is recorded on the position; the caller sends one notification for all of them
+	 * @param tokenAmount - Human-readable amount to sell
+	 * @param label - Level or reason shown to the user (e.g. TP1, Stop Loss)
+	 * @returns Outcome with the confirmed tx hash and all attempts
+	 */
+	private async sellWithRetry(
+		order: any,
+		position: any,
+		wallet: B_Wallet,
+		tokenAmount: string,
+		reason: SellReason,
+		label: string
+	): Promise<SellOutcome> {
+		const steps = getSellRetrySteps(order, reason);
+		const attempts: ISellAttempt[] = [];
+
+		for (let index = 0; index < steps.length; index++) {
+			const { slippage, gasPrice } = steps[index];
+			if (index > 0) {
+				logger.warning(`🔁 Retrying ${label} sell (${index + 1}/${steps.length}): ${slippage}% slippage, ${gasPrice} gwei`);
+			}
+
+			const transaction = new B_Transaction({
+				type: TransactionType.SELL,
+				wallet,
+				token: position.token,
+				tokenAmount,
+				slippage,
+				gasPrice,
+				gasLimit: Number(order.gasFee.gasLimit || 300000),
+				submission: order.submissionStrategy,
+				orderId: order._id.toString(),
+				positionId: position.id,
+				userId: order.userId.toString(),
+				// Stop loss and time limit have higher priority; a rug exit jumps every lane
+				priority: reason === 'RUG_PULL' ? PANIC_SELL_PRIORITY : reason === 'TAKE_PROFIT' ? 50 : 100,
+			}, 0); // Retries are ladder steps, each one recorded - the queue must not repeat an attempt on its own
+
+			const txId = transactionQueue.push(transaction);
+			logger.info(`🎯 ${label} sell queued: ${txId}`);
+
+			const result = await this.waitForTransaction(transaction, 120000);
+			const failure = await this.checkSellResult(result);
+
+			const attempt: ISellAttempt = {
+				reason,
+				label,
+				attempt: index + 1,
+				slippage,
+				gasPrice,
+				success: !failure,
+				error: failure ? truncate(failure.error, 300) : null,
+				txHash: result.txHash || null,
+				at: new Date(),
+			};
+			attempts.push(attempt);
+
+			try {
+				await Position.findByIdAndUpdate(position.id, { $push: { sellAttempts: attempt } });
+			} catch (dbError: any) {
+				logger.error(`Failed to record sell attempt: ${dbError.message}`);
+			}
+
+			if (!failure) {
+				return { success: true, txHash: result.txHash, attempts };
+			}
+
+			logger.error(`❌ ${label} sell attempt ${index + 1}/${steps.length} failed: ${failure.error}`);
+
+			if (!failure.retryable) {
+				break;
+			}
+		}
+
+		return { success: false, attempts };
+	}
+
+	/**
+	 * Check a queued sell's result and its receipt
+	 * A broadcast sell is only retried once its receipt shows a revert - anything that may still land
+	 * (timeout, missing receipt) is not retryable, a retry could sell twice
+	 * @returns Failure, or null if the sell confirmed
+	 */
+	private async checkSellResult(result: any): Promise<{ error: string; retryable: boolean } | null> {
+		const error = result.success ? null : result.error || 'Unknown error';
+
+		if (!result.txHash) {
+			if (!error) {
+				return { error: 'No transaction hash returned', retryable: false };
+			}
+			// Never broadcast: safe to retry, unless it timed out and may still be sent from the queue
+			return { error, retryable: error !== 'Transaction timeout' };
+		}
+
+		let receipt;
+		try {
+			receipt = await getProvider().getTransactionReceipt(result.txHash);
+		} catch (receiptError: any) {
+			logger.error(`Failed to verify transaction receipt: ${receiptError.message}`);
+			// Continue anyway if the transaction queue reported success
+			return error ? { error, retryable: false } : null;
+		}
+
+		if (!receipt) {
+			return { error: error || 'Transaction receipt not found', retryable: false };
+		}
+
+		if (receipt.status === 0) {
+			return { error: error || 'Transaction reverted', retryable: true };
+		}
+
+		if (error) {
+			logger.warning(`Sell ${result.txHash} reported "${error}" but was mined`);
+		}
+		logger.success(`✅ TX confirmed: Block #${receipt.blockNumber}`);
+		return null;
+	}
+
 	/**
 	 * Execute TP/SL/Time Limit for triggered positions (supports multiple levels)
 	 */
 	private async executeTriggeredPositions(pnlData: PositionPNL[]): Promise<void> {
-		const triggered = pnlData.filter((p) => p.shouldTakeProfit || p.shouldStopLoss || p.shouldTimeLimitSell);
+		const triggered = pnlData.filter(
+			(p) => p.shouldTakeProfit || p.shouldStopLoss || p.shouldTimeLimitSell || p.shouldBreakEvenSell
+		);
 
 		if (triggered.length === 0) {
 			return;
@@ -518,6 +826,12 @@ export class PNLMonitorEngine {
 					continue;
 				}
 
+				// Handle Break-Even Stop (100% of the remainder, ahead of the original SL levels)
+				if (pnl.shouldBreakEvenSell) {
+					await this.executeSell(pnl.positionId, 'BREAK_EVEN');
+					continue;
+				}
+
 				// Handle Multiple TP levels (partial sells)
 				if (pnl.triggeredTpLevels && pnl.triggeredTpLevels.length > 0) {
 					for (const level of pnl.triggeredTpLevels) {
@@ -533,24 +847,14 @@ export class PNLMonitorEngine {
 				}
 
 				// Handle Multiple SL levels (partial sells)
-				if (pnl.triggeredSlLevels && pnl.triggeredSlLevels.length > 0) {
-					for (const level of pnl.triggeredSlLevels) {
-						await this.executePartialSell(
-							pnl.positionId,
-							'STOP_LOSS',
-							level.index,
-							level.sellPercent,
-							level.pnlPercent
-						);
-					}
-					continue;
-				}
-
-				// Backwards compatibility: single TP/SL (100% sell)
-				if (pnl.shouldTakeProfit) {
-					await this.executeSell(pnl.positionId, 'TAKE_PROFIT');
-				} else if (pnl.shouldStopLoss) {
-					await this.executeSell(pnl.positionId, 'STOP_LOSS');
+				for (const level of pnl.triggeredSlLevels || []) {
+					await this.executePartialSell(
+						pnl.positionId,
+						'STOP_LOSS',
+						level.index,
+						level.sellPercent,
+						level.pnlPercent
+					);
 				}
 			} catch (error: any) {
 				logger.error(`Failed to execute triggered position ${pnl.positionId}: ${error.message}`);
@@ -559,14 +863,50 @@ export class PNLMonitorEngine {
 	}
 
 	/**
-	 * Execute partial sell for specific TP/SL level
+	 * Mirror a watched wallet's sell as a partial sell of a copied position
+	 * @param positionId - Position opened by copying the watched wallet's buy
+	 * @param sellPercent - Share of the position to sell (the share of its bag the watched wallet sold)
+	 * @param label - Watched wallet label shown in notifications
+	 * @returns Whether the sell confirmed
+	 */
+	async executeCopySell(positionId: string, sellPercent: number, label: string): Promise<boolean> {
+		const position = positionManager.getPosition(positionId);
+		if (!position) {
+			logger.warning(`Copy sell skipped - position ${positionId} is not tracked`);
+			return false;
+		}
+
+		return this.executePartialSell(positionId, 'COPY_TRADE', -1, sellPercent, parseFloat(position.getPnLPercent().toFixed(2)), label);
+	}
+
+	/**
+	 * Sell a whole position because the token's dev wallets dumped
+	 * @param positionId - Position to exit
+	 * @returns Whether the sell confirmed
+	 */
+	async executeDevDumpSell(positionId: string): Promise<boolean> {
+		return this.executeSell(positionId, 'DEV_DUMP');
+	}
+
+	/**
+	 * Sell a whole position at top priority because its pair's liquidity was pulled
+	 * @param positionId - Position to exit
+	 * @returns Whether the sell confirmed
+	 */
+	async executeRugSell(positionId: string): Promise<boolean> {
+		return this.executeSell(positionId, 'RUG_PULL');
+	}
+
+	/**
+	 * Execute partial sell for specific TP/SL level (or a mirrored copy-trade sell, which has no level)
 	 */
 	private async executePartialSell(
 		positionId: string,
-		reason: 'TAKE_PROFIT' | 'STOP_LOSS',
+		reason: 'TAKE_PROFIT' | 'STOP_LOSS' | 'COPY_TRADE',
 		levelIndex: number,
 		sellPercent: number,
-		pnlPercent: number
+		pnlPercent: number,
+		label?: string
 	): Promise<boolean> {
 		try {
 			const position = positionManager.getPosition(positionId);
@@ -584,57 +924,59 @@ export class PNLMonitorEngine {
 			// Mark as having pending sell
 			position.hasPendingSell = true;
 
-			// CRITICAL: Mark level as triggered IMMEDIATELY in database (atomic operation)
-			// This prevents race conditions where multiple cycles detect the same level
-			const updateField = reason === 'TAKE_PROFIT'
-				? 'triggeredTakeProfitLevels'
-				: 'triggeredStopLossLevels';
-
-			try {
-				const updateResult = await Position.findByIdAndUpdate(
-					positionId,
-					{
-						$addToSet: { [updateField]: levelIndex }
-					},
-					{ new: true }
-				);
+			if (reason !== 'COPY_TRADE') {
+				// CRITICAL: Mark level as triggered IMMEDIATELY in database (atomic operation)
+				// This prevents race conditions where multiple cycles detect the same level
+				const updateField = reason === 'TAKE_PROFIT'
+					? 'triggeredTakeProfitLevels'
+					: 'triggeredStopLossLevels';
 
-				if (!updateResult) {
-					logger.error(`Database position not found: ${positionId}`);
-					position.hasPendingSell = false;
-					return false;
-				}
+				try {
+					const updateResult = await Position.findByIdAndUpdate(
+						positionId,
+						{
+							$addToSet: { [updateField]: levelIndex }
+						},
+						{ new: true }
+					);
 
-				// Check if level was already in the array (means another process beat us to it)
-				const triggeredArray = reason === 'TAKE_PROFIT'
-					? updateResult.triggeredTakeProfitLevels || []
-					: updateResult.triggeredStopLossLevels || [];
+					if (!updateResult) {
+						logger.error(`Database position not found: ${positionId}`);
+						position.hasPendingSell = false;
+						return false;
+					}
 
-				// Count how many times this level appears (should be 1 after $addToSet)
-				const occurrences = triggeredArray.filter(idx => idx === levelIndex).length;
-				if (occurrences > 1) {
-					// This shouldn't happen with $addToSet, but just in case
-					logger.warning(`Level ${levelIndex} found ${occurrences} times, possible race condition detected`);
-				}
+					// Check if level was already in the array (means another process beat us to it)
+					const triggeredArray = reason === 'TAKE_PROFIT'
+						? updateResult.triggeredTakeProfitLevels || []
+						: updateResult.triggeredStopLossLevels || [];
 
-				// Update in-memory position immediately
-				if (reason === 'TAKE_PROFIT') {
-					if (!position.triggeredTakeProfitLevels) position.triggeredTakeProfitLevels = [];
-					if (!position.triggeredTakeProfitLevels.includes(levelIndex)) {
-						position.triggeredTakeProfitLevels.push(levelIndex);
+					// Count how many times this level appears (should be 1 after $addToSet)
+					const occurrences = triggeredArray.filter(idx => idx === levelIndex).length;
+					if (occurrences > 1) {
+						// This shouldn't happen with $addToSet, but just in case
+						logger.warning(`Level ${levelIndex} found ${occurrences} times, possible race condition detected`);
 					}
-				} else {
-					if (!position.triggeredStopLossLevels) position.triggeredStopLossLevels = [];
-					if (!position.triggeredStopLossLevels.includes(levelIndex)) {
-						position.triggeredStopLossLevels.push(levelIndex);
+
+					// Update in-memory position immediately
+					if (reason === 'TAKE_PROFIT') {
+						if (!position.triggeredTakeProfitLevels) position.triggeredTakeProfitLevels = [];
+						if (!position.triggeredTakeProfitLevels.includes(levelIndex)) {
+							position.triggeredTakeProfitLevels.push(levelIndex);
+						}
+					} else {
+						if (!position.triggeredStopLossLevels) position.triggeredStopLossLevels = [];
+						if (!position.triggeredStopLossLevels.includes(levelIndex)) {
+							position.triggeredStopLossLevels.push(levelIndex);
+						}
 					}
-				}
 
-				logger.info(`✅ Level ${levelIndex} marked as triggered in database`);
-			} catch (dbError: any) {
-				logger.error(`Failed to mark level as triggered: ${dbError.message}`);
-				position.hasPendingSell = false;
-				return false;
+					logger.info(`✅ Level ${levelIndex} marked as triggered in database`);
+				} catch (dbError: any) {
+					logger.error(`Failed to mark level as triggered: ${dbError.message}`);
+					position.hasPendingSell = false;
+					return false;
+				}
 			}
 
 			// Get order
@@ -653,7 +995,9 @@ export class PNLMonitorEngine {
 				return false;
 			}
 
-			const levelName = reason === 'TAKE_PROFIT' ? `TP${levelIndex + 1}` : `SL${levelIndex + 1}`;
+			const levelName = reason === 'COPY_TRADE'
+				? label || SELL_REASON_LABELS.COPY_TRADE
+				: reason === 'TAKE_PROFIT' ? `TP${levelIndex + 1}` : `SL${levelIndex + 1}`;
 			logger.info(`Executing ${levelName} (${sellPercent}% at ${pnlPercent >= 0 ? '+' : ''}${pnlPercent}%) for position ${positionId}...`);
 
 			// Get ethers wallet
@@ -722,8 +1066,8 @@ export class PNLMonitorEngine {
 				return false;
 			}
 
-			// Calculate partial sell amount
-			const sellAmount = actualBalance.mul(sellPercent).div(100);
+			// Calculate partial sell amount (basis points - copy sells can be fractional percentages)
+			const sellAmount = actualBalance.mul(Math.round(sellPercent * 100)).div(10000);
 			const sellAmountStr = ethers.utils.formatUnits(sellAmount, position.token.decimals);
 			logger.info(`Selling ${sellPercent}% = ${sellAmountStr} ${position.token.symbol}`);
 
@@ -750,67 +1094,15 @@ export class PNLMonitorEngine {
 				logger.warning(`Pre-approval check failed: ${preCheckError.message}, will check again during execution`);
 			}
 
-			// Create transaction for queue
-			const transaction = new B_Transaction({
-				type: TransactionType.SELL,
-				wallet,
-				token: position.token,
-				tokenAmount: sellAmountStr,
-				slippage: order.slippage,
-				gasPrice: order.gasFee.gasPrice,
-				gasLimit: order.gasFee.gasLimit,
-				orderId: order._id.toString(),
-				positionId: position.id,
-				userId: order.userId.toString(),
-				priority: reason === 'STOP_LOSS' ? 100 : 50,
-			});
-
-			// Queue the transaction
-			const txId = transactionQueue.push(transaction);
-			logger.info(`🎯 Partial sell transaction queued: ${txId}`);
-
-			// Wait for transaction to complete
-			const sellResult = await this.waitForTransaction(transaction, 120000);
+			// Queue the sell, escalating slippage and gas on failure
+			const sellResult = await this.sellWithRetry(order, position, wallet, sellAmountStr, reason, levelName);
 
 			if (!sellResult.success) {
-				const errorMsg = sellResult.error || 'Unknown error';
-				logger.error(`❌ Partial sell failed: ${errorMsg}`);
 				position.hasPendingSell = false;
-				await this.notifyError(order, position, `${levelName} sell failed: ${errorMsg}`);
+				await this.notifySellFailed(order, position, reason === 'COPY_TRADE' ? SELL_REASON_LABELS.COPY_TRADE : levelName, sellResult.attempts);
 				return false;
 			}
 
-			if (!sellResult.txHash) {
-				logger.error('❌ No transaction hash returned');
-				position.hasPendingSell = false;
-				await this.notifyError(order, position, 'No transaction hash returned');
-				return false;
-			}
-
-			// Verify transaction receipt
-			try {
-				const provider = getProvider();
-				const receipt = await provider.getTransactionReceipt(sellResult.txHash);
-
-				if (!receipt) {
-					logger.error('❌ Transaction receipt not found');
-					position.hasPendingSell = false;
-					await this.notifyError(order, position, 'Transaction receipt not found');
-					return false;
-				}
-
-				if (receipt.status !== 1) {
-					logger.error('❌ Transaction reverted (status = 0)');
-					position.hasPendingSell = false;
-					await this.notifyError(order, position, 'Transaction reverted');
-					return false;
-				}
-
-				logger.success(`✅ TX confirmed: Block #${receipt.blockNumber}`);
-			} catch (receiptError: any) {
-				logger.error(`Failed to verify transaction receipt: ${receiptError.message}`);
-			}
-
 			// Update database: update token amount only (level already marked as triggered earlier)
 			const newBalance = await tokenContract.balanceOf(wallet.address);
 			const newBalanceFormatted = parseFloat(ethers.utils.formatUnits(newBalance, position.token.decimals));
@@ -847,7 +1139,7 @@ export class PNLMonitorEngine {
 			}
 
 			// Send notification
-			await this.notifyPartialSell(order, position, reason, levelName, sellPercent, pnlPercent, sellResult.txHash!);
+			await this.notifyPartialSell(order, position, reason, levelName, sellPercent, pnlPercent, sellResult.txHash!, sellResult.attempts);
 
 			return true;
 		} catch (error: any) {
@@ -863,10 +1155,7 @@ export class PNLMonitorEngine {
 	/**
 	 * Execute sell for TP/SL/Time Limit
 	 */
-	private async executeSell(
-		positionId: string,
-		reason: 'TAKE_PROFIT' | 'STOP_LOSS' | 'TIME_LIMIT'
-	): Promise<boolean> {
+	private async executeSell(positionId: string, reason: SellReason): Promise<boolean> {
 		try {
 			const position = positionManager.getPosition(positionId);
 			if (!position) {
@@ -966,71 +1255,16 @@ export class PNLMonitorEngine {
 				logger.warning(`Pre-approval check failed: ${preCheckError.message}, will check again during execution`);
 			}
 
-			// Ensure gas parameters are properly formatted
-			const gasPriceStr = String(order.gasFee.gasPrice || '5');
-			const gasLimitNum = Number(order.gasFee.gasLimit || 300000);
-
-			// Create transaction for queue
-			const transaction = new B_Transaction({
-				type: TransactionType.SELL,
-				wallet,
-				token: position.token,
-				tokenAmount: tokenAmountStr,
-				slippage: order.slippage,
-				gasPrice: gasPriceStr,
-				gasLimit: gasLimitNum,
-				userId: order.userId.toString(),
-				priority: reason === 'STOP_LOSS' ? 100 : 50, // Stop loss has higher priority
-			});
-
-			// Queue the transaction
-			const txId = transactionQueue.push(transaction);
-			logger.info(`🎯 Sell transaction queued: ${txId}`);
-
-			// Wait for transaction to complete (with timeout)
-			const sellResult = await this.waitForTransaction(transaction, 120000); // 120 second timeout
+			// Queue the sell, escalating slippage and gas on failure
+			const label = SELL_REASON_LABELS[reason];
+			const sellResult = await this.sellWithRetry(order, position, wallet, tokenAmountStr, reason, label);
 
 			if (!sellResult.success) {
-				const errorMsg = sellResult.error || 'Unknown error';
-				logger.error(`❌ Sell failed: ${errorMsg}`);
-				position.hasPendingSell = false; // Clear flag on failure
-				await this.notifyError(order, position, `Sell failed: ${errorMsg}`);
-				return false;
-			}
-
-			// Verify transaction was actually executed
-			if (!sellResult.txHash) {
-				logger.error('❌ No transaction hash returned');
 				position.hasPendingSell = false; // Clear flag on failure
-				await this.notifyError(order, position, 'No transaction hash returned');
+				await this.notifySellFailed(order, position, label, sellResult.attempts);
 				return false;
 			}
 
-			// Double-check transaction receipt
-			try {
-				const provider = getProvider();
-				const receipt = await provider.getTransactionReceipt(sellResult.txHash);
-
-				if (!receipt) {
-					logger.error('❌ Transaction receipt not found');
-					position.hasPendingSell = false; // Clear flag on failure
-					await this.notifyError(order, position, 'Transaction receipt not found');
-					return false;
-				}
-
-				if (receipt.status !== 1) {
-					logger.error('❌ Transaction reverted (status = 0)');
-					position.hasPendingSell = false; // Clear flag on failure
-					await this.notifyError(order, position, 'Transaction reverted');
-					return false;
-				}
-
-				logger.success(`✅ TX confirmed: Block #${receipt.blockNumber}`);
-			} catch (receiptError: any) {
-				logger.error(`Failed to verify transaction receipt: ${receiptError.message}`);
-				// Continue anyway since transaction queue reported success
-			}
-
 			// Close position and remove from memory
 			logger.info(`Closing position ${positionId}...`);
 			await positionManager.closePosition(
@@ -1048,7 +1282,7 @@ export class PNLMonitorEngine {
 			}
 
 			// Send notification
-			await this.notifySell(order, position, reason, sellResult.txHash!);
+			await this.notifySell(order, position, reason, sellResult.txHash!, sellResult.attempts);
 
 			logger.success(`✅ ${reason} executed: ${positionId}`);
 			// Note: hasPendingSell flag is cleared when position is removed from memory
@@ -1071,7 +1305,8 @@ export class PNLMonitorEngine {
 		order: any,
 		position: any,
 		reason: string,
-		txHash: string
+		txHash: string,
+		attempts: ISellAttempt[] = []
 	): Promise<void> {
 		try {
 			const user = await User.findById(order.userId);
@@ -1087,7 +1322,13 @@ export class PNLMonitorEngine {
 						? '🛑 Stop Loss'
 						: reason === 'TIME_LIMIT'
 							? '⏱ Time Limit'
-							: '👤 Manual Sell';
+							: reason === 'BREAK_EVEN'
+								? '🛡 Break-Even Stop'
+								: reason === 'DEV_DUMP'
+									? '🚨 Dev Dump Exit'
+									: reason === 'RUG_PULL'
+										? '🪤 Rug Pull Exit'
+										: '👤 Manual Sell';
 
 			const message =
 				`${emoji} <b>${action} Executed!</b>\n\n` +
@@ -1098,6 +1339,7 @@ export class PNLMonitorEngine {
 				`<b>Exit Price:</b> ${position.currentPrice.toFixed(10)} BNB\n` +
 				`<b>Amount:</b> ${position.tokenAmount.toLocaleString()} tokens\n\n` +
 				`<b>P&L:</b> ${pnl >= 0 ? '+' : ''}${pnl.toFixed(6)} BNB (${pnlPercent >= 0 ? '+' : ''}${pnlPercent.toFixed(2)}%)\n\n` +
+				this.formatRetryNote(attempts) +
 				`<b>TX Hash:</b>\n<code>${txHash}</code>`;
 
 			await bot.sendMessage(user.chatId, message, {
@@ -1114,11 +1356,12 @@ export class PNLMonitorEngine {
 	private async notifyPartialSell(
 		order: any,
 		position: any,
-		reason: 'TAKE_PROFIT' | 'STOP_LOSS',
+		reason: 'TAKE_PROFIT' | 'STOP_LOSS' | 'COPY_TRADE',
 		levelName: string,
 		sellPercent: number,
 		pnlPercent: number,
-		txHash: string
+		txHash: string,
+		attempts: ISellAttempt[] = []
 	): Promise<void> {
 		try {
 			const user = await User.findById(order.userId);
@@ -1126,10 +1369,16 @@ export class PNLMonitorEngine {
 
 			const emoji = reason === 'TAKE_PROFIT' ? '🎯' : '🛑';
 			const action = reason === 'TAKE_PROFIT' ? 'Take Profit' : 'Stop Loss';
+			const breakEvenNote = reason === 'TAKE_PROFIT' && sellPercent < 100 && order.breakEvenStop?.enabled
+				? `🛡 <b>Break-Even Stop armed:</b> the rest sells if PNL falls to +${order.breakEvenStop.lockProfitPercent}%\n\n`
+				: '';
+
+			const header = reason === 'COPY_TRADE'
+				? `👀 <b>Copy Sell Executed!</b>\n\n<b>Copied:</b> ${escapeHtml(levelName)} sold ${sellPercent}% of their bag\n`
+				: `${emoji} <b>${action} Level Triggered!</b>\n\n<b>Level:</b> ${levelName} (${pnlPercent >= 0 ? '+' : ''}${pnlPercent}%)\n`;
 
 			const message =
-				`${emoji} <b>${action} Level Triggered!</b>\n\n` +
-				`<b>Level:</b> ${levelName} (${pnlPercent >= 0 ? '+' : ''}${pnlPercent}%)\n` +
+				header +
 				`<b>Sold:</b> ${sellPercent}% of position\n` +
 				`<b>Remaining:</b> ${position.tokenAmount.toLocaleString()} tokens\n\n` +
 				`<b>Order:</b> ${order.name}\n` +
@@ -1137,6 +1386,8 @@ export class PNLMonitorEngine {
 				`<code>${position.token.address}</code>\n\n` +
 				`<b>Current Price:</b> ${position.currentPrice.toFixed(10)} BNB\n` +
 				`<b>Current P&L:</b> ${position.getPnL() >= 0 ? '+' : ''}${position.getPnL().toFixed(6)} BNB (${position.getPnLPercent() >= 0 ? '+' : ''}${position.getPnLPercent().toFixed(2)}%)\n\n` +
+				breakEvenNote +
+				this.formatRetryNote(attempts) +
 				`<b>TX Hash:</b>\n<code>${txHash}</code>`;
 
 			await bot.sendMessage(user.chatId, message, {
@@ -1147,6 +1398,45 @@ export class PNLMonitorEngine {
 		}
 	}
 
+	/**
+	 * Send one notification for a sell that failed on every attempt
+	 */
+	private async notifySellFailed(order: any, position: any, label: string, attempts: ISellAttempt[]): Promise<void> {
+		try {
+			const user = await User.findById(order.userId);
+			if (!user) return;
+
+			const lines = attempts.map(
+				(attempt) =>
+					`${attempt.attempt}. ${attempt.slippage}% slip, ${attempt.gasPrice} gwei - ${escapeHtml(truncate(attempt.error || 'Unknown error', 80))}`
+			);
+
+			const message =
+				`⚠️ <b>${label} Sell Failed</b>\n\n` +
+				`<b>Order:</b> ${order.name}\n` +
+				`<b>Token:</b> ${position.token.symbol || 'Unknown'}\n` +
+				`<code>${position.token.address}</code>\n\n` +
+				`<b>Attempts (${attempts.length}):</b>\n${lines.join('\n')}\n\n` +
+				`<i>The position is still open. Sell it manually or raise the order's retry caps.</i>`;
+
+			await bot.sendMessage(user.chatId, message, {
+				parse_mode: 'HTML',
+			});
+		} catch (error: any) {
+			logger.error(`Failed to send sell failure notification: ${error.message}`);
+		}
+	}
+
+	/**
+	 * Note for sell notifications that needed retries (empty for first-try fills)
+	 */
+	private formatRetryNote(attempts: ISellAttempt[]): string {
+		if (attempts.length <= 1) return '';
+
+		const filled = attempts[attempts.length - 1];
+		return `<b>Filled on attempt ${filled.attempt}</b> (${filled.slippage}% slippage, ${filled.gasPrice} gwei)\n\n`;
+	}
+
 	/**
 	 * Send error notification
 	 */
@@ -1191,6 +1481,9 @@ export class PNLMonitorEngine {
 		lastCheckTime: number;
 		positionsChecked: number;
 		pricesFetched: number;
+		priceMode: 'poll' | 'sync';
+		subscribedPairs: number;
+		syncEvaluations: number;
 	} {
 		return {
 			isRunning: this.isRunning,
@@ -1199,6 +1492,9 @@ export class PNLMonitorEngine {
 			lastCheckTime: this.lastCheckTime,
 			positionsChecked: this.positionsChecked,
 			pricesFetched: this.pricesFetched,
+			priceMode: this.priceMode,
+			subscribedPairs: syncWatcher.getSubscriptionCount(),
+			syncEvaluations: this.syncEvaluations,
 		};
 	}
 
@@ -0,0 +1,266 @@
+import { ethers } from 'ethers';
+import { positionManager } from '../core/position/position.manager';
+import { recordBuyPosition, recordEntryTranche } from '../core/order/order.executor';
+import { priceService } from '../core/price/price.service';
+import { getProvider } from '../core/wallet/wallet.service';
+import { B_Transaction, TransactionStatus, TransactionType, transactionQueue } from '../core/classes';
+import { LimitOrder, Order, Position, User } from '../database/models';
+import { LimitOrderStatus } from '../config/constants';
+import { logger } from '../utils/logger';
+import { bot } from '../bot';
+
+/**
+ * Queue Recovery
+ * Finishes transactions restored from the persistent queue after a restart.
+ * Their original callers (order executor, PNL monitor, position handler) are gone,
+ * so the position bookkeeping those callers would have done happens here instead.
+ */
+export class QueueRecovery {
+	private registered: boolean = false;
+
+	/**
+	 * Listen for restored transactions (call before transactionQueue.restore())
+	 */
+	register(): void {
+		if (this.registered) return;
+		this.registered = true;
+
+		transactionQueue.on('restored', (transaction: B_Transaction) => this.handleRestored(transaction));
+		transactionQueue.on('recovered', (transaction: B_Transaction) => {
+			this.handleRecovered(transaction).catch((error: any) => {
+				logger.error(`Failed to recover ${transaction.id}: ${error.message}`);
+			});
+		});
+	}
+
+	/**
+	 * Block new sells for a position while its restored sell is still in the queue
+	 */
+	private handleRestored(transaction: B_Transaction): void {
+		if (transaction.type !== TransactionType.SELL || !transaction.params.positionId) return;
+
+		const position = positionManager.getPosition(transaction.params.positionId);
+		if (position) {
+			position.hasPendingSell = true;
+		}
+	}
+
+	/**
+	 * Apply the outcome of a restored transaction
+	 */
+	private async handleRecovered(transaction: B_Transaction): Promise<void> {
+		if (transaction.type === TransactionType.BUY) {
+			if (transaction.status === TransactionStatus.COMPLETED) {
+				await this.recoverBuy(transaction);
+			} else {
+				await this.settleLimitOrder(transaction, {
+					status: LimitOrderStatus.FAILED,
+					errorMessage: transaction.error || 'Unknown error',
+				});
+				await this.notify(
+					transaction,
+					`⚠️ <b>Buy Not Completed</b>\n\n` +
+					`A buy of <b>${transaction.params.token?.symbol || 'Unknown'}</b> queued before the restart did not go through.\n\n` +
+					`<b>Reason:</b> ${transaction.error || 'Unknown error'}`
+				);
+			}
+		} else if (transaction.type === TransactionType.SELL) {
+			await this.recoverSell(transaction);
+		}
+	}
+
+	/**
+	 * Create the position for a buy that confirmed after a restart
+	 */
+	private async recoverBuy(transaction: B_Transaction): Promise<void> {
+		const { params, result } = transaction;
+		if (!result?.txHash || !params.orderId || !params.token) {
+			logger.warning(`Recovered buy ${transaction.id} has no order/token - position not created`);
+			return;
+		}
+
+		// Entry ladder tranche - average it into its position instead of opening a new one
+		if (params.positionId) {
+			await this.recoverEntryTranche(transaction, result.txHash, parseFloat(result.tokenAmount || '0'));
+			return;
+		}
+
+		// Already recorded (e.g. the caller was still alive)
+		const existing = await Position.findOne({ buyTxHash: result.txHash });
+		if (existing) return;
+
+		const order = await Order.findById(params.orderId);
+		if (!order) {
+			logger.warning(`Order ${params.orderId} not found for recovered buy ${result.txHash}`);
+			return;
+		}
+
+		// Entry price from the actual fill
+		const tokenAmount = parseFloat(result.tokenAmount || '0');
+		const buyPriceInBnb = tokenAmount > 0 ? (params.bnbAmount || 0) / tokenAmount : 0;
+		let buyPriceInUsd = 0;
+		try {
+			buyPriceInUsd = buyPriceInBnb * (await priceService.getBnbUsd()).price;
+		} catch (error: any) {
+			logger.warning(`Failed to fetch BNB price for recovered buy: ${error.message}`);
+		}
+
+		const positionId = await recordBuyPosition(
+			order,
+			params.wallet.id,
+			params.token,
+			result.txHash,
+			tokenAmount,
+			buyPriceInBnb,
+			buyPriceInUsd,
+			0,
+			params.bnbAmount
+		);
+
+		await this.settleLimitOrder(transaction, {
+			status: LimitOrderStatus.FILLED,
+			txHash: result.txHash,
+			positionId,
+		});
+
+		logger.success(`♻️  Recovered buy ${result.txHash} -> position ${positionId}`);
+		await this.notify(
+			transaction,
+			`♻️ <b>Buy Recovered</b>\n\n` +
+			`<b>Order:</b> ${order.name}\n` +
+			`<b>Token:</b> ${params.token.symbol || 'Unknown'}\n` +
+			`<b>Amount:</b> ${params.bnbAmount} BNB\n\n` +
+			`Confirmed after a restart, position is now being monitored.\n` +
+			`<code>${result.txHash}</code>`
+		);
+	}
+
+	/**
+	 * Average a laddered entry tranche that confirmed after a restart into its position
+	 */
+	private async recoverEntryTranche(transaction: B_Transaction, txHash: string, tokenAmount: number): Promise<void> {
+		const { params } = transaction;
+		const priceInBnb = tokenAmount > 0 ? (params.bnbAmount || 0) / tokenAmount : 0;
+		let priceInUsd = 0;
+		try {
+			priceInUsd = priceInBnb * (await priceService.getBnbUsd()).price;
+		} catch (error: any) {
+			logger.warning(`Failed to fetch BNB price for recovered tranche: ${error.message}`);
+		}
+
+		await recordEntryTranche(
+			params.positionId!,
+			txHash,
+			tokenAmount,
+			params.bnbAmount || 0,
+			priceInBnb,
+			priceInUsd
+		);
+
+		logger.success(`♻️  Recovered entry tranche ${txHash} -> position ${params.positionId}`);
+		await this.notify(
+			transaction,
+			`♻️ <b>Entry Tranche Recovered</b>\n\n` +
+			`<b>Token:</b> ${params.token?.symbol || 'Unknown'}\n` +
+			`<b>Amount:</b> ${params.bnbAmount} BNB\n\n` +
+			`Confirmed after a restart and averaged into the position.\n` +
+			`<code>${txHash}</code>`
+		);
+	}
+
+	/**
+	 * Settle the triggered limit order (if any) whose buy was restored
+	 */
+	private async settleLimitOrder(transaction: B_Transaction, update: Record<string, any>): Promise<void> {
+		const { params } = transaction;
+		if (!params.orderId || !params.token || params.positionId) return;
+
+		await LimitOrder.findOneAndUpdate(
+			{
+				orderId: params.orderId,
+				tokenAddress: params.token.address.toLowerCase(),
+				status: LimitOrderStatus.TRIGGERED,
+			},
+			update
+		);
+	}
+
+	/**
+	 * Update or close the position of a sell that finished after a restart
+	 */
+	private async recoverSell(transaction: B_Transaction): Promise<void> {
+		const { params, result } = transaction;
+		if (!params.positionId) return;
+
+		const position = positionManager.getPosition(params.positionId);
+		if (!position) return;
+
+		if (transaction.status !== TransactionStatus.COMPLETED || !result?.txHash) {
+			position.hasPendingSell = false;
+			await this.notify(
+				transaction,
+				`⚠️ <b>Sell Not Completed</b>\n\n` +
+				`A sell of <b>${position.token.symbol || 'Unknown'}</b> queued before the restart did not go through.\n\n` +
+				`<b>Reason:</b> ${transaction.error || 'Unknown error'}`
+			);
+			return;
+		}
+
+		const tokenContract = new ethers.Contract(
+			position.token.address,
+			['function balanceOf(address owner) view returns (uint256)'],
+			getProvider()
+		);
+		const balance = await tokenContract.balanceOf(params.wallet.address);
+		const remaining = parseFloat(ethers.utils.formatUnits(balance, position.token.decimals));
+
+		if (remaining < 0.0001) {
+			await positionManager.closePosition(position.id, position.currentPrice, result.txHash);
+		} else {
+			// Keep the cost basis proportional to the tokens left
+			const newBuyAmount = position.tokenAmount > 0
+				? position.buyAmount * Math.min(remaining / position.tokenAmount, 1)
+				: position.buyAmount;
+
+			await Position.findByIdAndUpdate(position.id, {
+				tokenAmount: remaining,
+				buyAmount: newBuyAmount,
+				lastPriceUpdate: new Date(),
+			});
+
+			position.tokenAmount = remaining;
+			position.buyAmount = newBuyAmount;
+			position.bnbSpent = newBuyAmount;
+			position.hasPendingSell = false;
+		}
+
+		logger.success(`♻️  Recovered sell ${result.txHash} for position ${position.id}`);
+		await this.notify(
+			transaction,
+			`♻️ <b>Sell Recovered</b>\n\n` +
+			`<b>Token:</b> ${position.token.symbol || 'Unknown'}\n` +
+			(result.bnbAmount ? `<b>Received:</b> ${parseFloat(result.bnbAmount).toFixed(6)} BNB\n` : '') +
+			`<b>Remaining:</b> ${remaining < 0.0001 ? 'position closed' : `${remaining} tokens`}\n\n` +
+			`Confirmed after a restart.\n` +
+			`<code>${result.txHash}</code>`
+		);
+	}
+
+	/**
+	 * Send a message to the transaction's owner
+	 */
+	private async notify(transaction: B_Transaction, message: string): Promise<void> {
+		try {
+			const userId = transaction.params.userId || transaction.params.wallet.userId;
+			const user = await User.findById(userId);
+			if (!user) return;
+
+			await bot.sendMessage(user.chatId, message, { parse_mode: 'HTML' });
+		} catch (error: any) {
+			logger.error(`Failed to send recovery notification: ${error.message}`);
+		}
+	}
+}
+
+// Export singleton instance
+export const queueRecovery = new QueueRecovery();
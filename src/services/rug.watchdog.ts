@@ -0,0 +1,325 @@
+import { ethers } from 'ethers';
+import { Position, Token, User } from '../database/models';
+import { positionManager } from '../core/position/position.manager';
+import { getPairAddress, getPairReservesBatch } from '../core/price/pair.service';
+import { getProvider } from '../core/wallet/wallet.service';
+import { RUG_BURN_MAX_BLOCKS, WBNB_ADDRESS } from '../config/constants';
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+import { PANCAKESWAP_PAIR_ABI } from '../abi/pancakeswap-pair.abi';
+import { pnlMonitorEngine } from './pnl.monitor';
+import { bot } from '../bot';
+
+/**
+ * WBNB liquidity history of one watched pair
+ */
+interface PairWatch {
+	tokenAddress: string;
+	pairAddress: string;
+	isToken0: boolean;
+	samples: Array<{ at: number; wbnb: ethers.BigNumber }>; // WBNB reserve readings inside the window
+	burns: Array<{ at: number; wbnb: ethers.BigNumber }>; // WBNB removed by Burn events inside the window
+}
+
+/**
+ * Rug Watchdog
+ * Tracks the WBNB reserve and Burn events of the PancakeSwap pair of every open position.
+ * When liquidity drops by more than RUG_LIQUIDITY_DROP_PERCENT within RUG_WINDOW_MS, the
+ * token is flagged as rugged (buys refuse it from then on) and its positions are sold at
+ * top priority through the transaction queue, retried on every check until they close.
+ */
+export class RugWatchdog {
+	private intervalMs: number;
+	private isRunning: boolean = false;
+	private isChecking: boolean = false;
+	private intervalHandle: NodeJS.Timeout | null = null;
+	private pairs: Map<string, PairWatch> = new Map(); // Token address (lowercase) => pair watch
+	private pairInterface = new ethers.utils.Interface(PANCAKESWAP_PAIR_ABI);
+	private burnTopic = this.pairInterface.getEventTopic('Burn');
+	private lastBlock: number = 0;
+	private rugged: Set<string> = new Set(); // Tokens already handled
+	private openExits: Map<string, { userId: string; symbol: string; tokenAddress: string }> = new Map(); // Position ID => rugged position still open
+	private exiting: Set<string> = new Set(); // Position IDs with a rug exit in flight
+	private retryNotified: Set<string> = new Set(); // Position IDs already told their exit is being retried
+
+	constructor() {
+		this.intervalMs = config.monitoring.rugWatchdogInterval || 3000;
+	}
+
+	/**
+	 * Start watching open positions' pairs
+	 */
+	start(): void {
+		if (this.isRunning) {
+			logger.warning('Rug Watchdog already running');
+			return;
+		}
+
+		this.isRunning = true;
+		logger.info(
+			`🪤 Rug Watchdog started (interval: ${this.intervalMs}ms, ` +
+			`drop: ${config.monitoring.rugLiquidityDropPercent}% in ${config.monitoring.rugWindowMs / 1000}s)`
+		);
+
+		this.checkPairs();
+		this.intervalHandle = setInterval(() => {
+			this.checkPairs();
+		}, this.intervalMs);
+	}
+
+	/**
+	 * Stop watching
+	 */
+	stop(): void {
+		if (!this.isRunning) {
+			return;
+		}
+
+		this.isRunning = false;
+
+		if (this.intervalHandle) {
+			clearInterval(this.intervalHandle);
+			this.intervalHandle = null;
+		}
+
+		logger.info('Rug Watchdog stopped');
+	}
+
+	/**
+	 * Read reserves and Burn events of all watched pairs and act on liquidity pulls
+	 */
+	private async checkPairs(): Promise<void> {
+		if (!this.isRunning || this.isChecking) return;
+		this.isChecking = true;
+
+		try {
+			this.retryExits();
+
+			await this.syncPairs();
+			if (this.pairs.size === 0) return;
+
+			const now = Date.now();
+			const windowStart = now - config.monitoring.rugWindowMs;
+
+			await this.collectBurns(now);
+
+			// One multicall for every watched pair's reserves
+			const reservesByToken = await getPairReservesBatch([...this.pairs.keys()]);
+
+			for (const watch of this.pairs.values()) {
+				const reserves = reservesByToken.get(watch.tokenAddress);
+				if (!reserves) continue;
+
+				const wbnb = ethers.BigNumber.from(watch.isToken0 ? reserves.reserve1 : reserves.reserve0);
+				watch.samples = watch.samples.filter((sample) => sample.at >= windowStart);
+				watch.burns = watch.burns.filter((burn) => burn.at >= windowStart);
+				watch.samples.push({ at: now, wbnb });
+
+				// Drop from the window's peak, or WBNB burned in the window if reads missed the peak
+				const peak = watch.samples.reduce((max, sample) => (sample.wbnb.gt(max) ? sample.wbnb : max), wbnb);
+				if (peak.isZero()) continue;
+
+				const burned = watch.burns.reduce((sum, burn) => sum.add(burn.wbnb), ethers.constants.Zero);
+				const lost = peak.sub(wbnb).gt(burned) ? peak.sub(wbnb) : burned;
+				const dropPercent = Math.min(100, lost.mul(10000).div(peak).toNumber() / 100);
+
+				if (dropPercent > config.monitoring.rugLiquidityDropPercent) {
+					await this.handleRug(watch, dropPercent, peak, wbnb);
+				}
+			}
+		} catch (error: any) {
+			logger.error(`Rug Watchdog check failed: ${error.message}`);
+		} finally {
+			this.isChecking = false;
+		}
+	}
+
+	/**
+	 * Follow the set of open positions: watch new tokens' pairs, drop closed ones
+	 */
+	private async syncPairs(): Promise<void> {
+		const wanted = new Set(
+			positionManager.getAllOpenPositions().map((position) => position.token.address.toLowerCase())
+		);
+
+		for (const tokenAddress of this.pairs.keys()) {
+			if (!wanted.has(tokenAddress)) {
+				this.pairs.delete(tokenAddress);
+			}
+		}
+
+		for (const tokenAddress of wanted) {
+			if (this.pairs.has(tokenAddress) || this.rugged.has(tokenAddress)) continue;
+
+			const pairAddress = await getPairAddress(tokenAddress, WBNB_ADDRESS);
+			if (!pairAddress) continue; // No pair yet - retried on the next check
+
+			this.pairs.set(tokenAddress, {
+				tokenAddress,
+				pairAddress,
+				isToken0: tokenAddress < WBNB_ADDRESS.toLowerCase(), // PancakeSwap sorts pair tokens by address
+				samples: [],
+				burns: [],
+			});
+		}
+	}
+
+	/**
+	 * Add the WBNB side of Burn events on watched pairs since the last check
+	 * At most RUG_BURN_MAX_BLOCKS are queried; errors are logged so the reserve checks still run
+	 */
+	private async collectBurns(now: number): Promise<void> {
+		let logs: ethers.providers.Log[];
+		try {
+			const latestBlock = await getProvider().getBlockNumber();
+			const fromBlock = Math.max(
+				this.lastBlock > 0 ? this.lastBlock + 1 : latestBlock,
+				latestBlock - RUG_BURN_MAX_BLOCKS + 1
+			);
+			if (fromBlock > latestBlock) return;
+
+			// Advance first: a failing range is skipped rather than retried ever larger
+			this.lastBlock = latestBlock;
+
+			// Raw eth_getLogs: ethers' getLogs filter takes a single address
+			const provider = getProvider();
+			const rawLogs = await provider.send('eth_getLogs', [
+				{
+					address: [...this.pairs.values()].map((watch) => watch.pairAddress),
+					fromBlock: ethers.utils.hexValue(fromBlock),
+					toBlock: ethers.utils.hexValue(latestBlock),
+					topics: [this.burnTopic],
+				},
+			]);
+			logs = ethers.providers.Formatter.arrayOf(provider.formatter.filterLog.bind(provider.formatter))(rawLogs);
+		} catch (error: any) {
+			logger.warning(`Rug Watchdog could not read Burn events: ${error.message}`);
+			return;
+		}
+
+		const byPair = new Map([...this.pairs.values()].map((watch) => [watch.pairAddress, watch]));
+		for (const log of logs) {
+			const watch = byPair.get(log.address.toLowerCase());
+			if (!watch) continue;
+
+			const { args } = this.pairInterface.parseLog(log);
+			const wbnb: ethers.BigNumber = watch.isToken0 ? args.amount1 : args.amount0;
+			watch.burns.push({ at: now, wbnb });
+			logger.warning(`🔥 Liquidity removed from ${watch.pairAddress}: ${ethers.utils.formatEther(wbnb)} WBNB (${log.transactionHash})`);
+		}
+	}
+
+	/**
+	 * Flag the token as rugged and sell its positions at top priority
+	 */
+	private async handleRug(watch: PairWatch, dropPercent: number, peak: ethers.BigNumber, wbnb: ethers.BigNumber): Promise<void> {
+		this.rugged.add(watch.tokenAddress);
+		this.pairs.delete(watch.tokenAddress);
+
+		logger.error(`🪤 Rug detected on ${watch.tokenAddress}: WBNB liquidity down ${dropPercent}%`);
+
+		await Token.updateOne(
+			{ address: watch.tokenAddress },
+			{ $set: { isRugged: true, ruggedAt: new Date() } },
+			{ upsert: true }
+		);
+
+		const positions = positionManager
+			.getAllOpenPositions()
+			.filter((position) => position.token.address.toLowerCase() === watch.tokenAddress);
+		const manualIds = new Set(
+			(await Position.find({ _id: { $in: positions.map((position) => position.id) }, isManual: true }).select('_id'))
+				.map((position) => position._id.toString())
+		);
+
+		for (const position of positions) {
+			const isManual = manualIds.has(position.id);
+
+			await this.notify(
+				position.userId,
+				`🪤 <b>Liquidity Pulled</b>\n\n` +
+				`<b>Token:</b> ${position.token.symbol || 'Unknown'}\n` +
+				`<code>${position.token.address}</code>\n\n` +
+				`<b>WBNB Liquidity:</b> ${parseFloat(ethers.utils.formatEther(peak)).toFixed(4)} → ` +
+				`${parseFloat(ethers.utils.formatEther(wbnb)).toFixed(4)} BNB (-${dropPercent}%)\n\n` +
+				(isManual
+					? `This is a manual position - it is not sold automatically. The token is now blocked for buys.`
+					: `Exiting the whole position at top priority - the sell result follows. The token is now blocked for buys.`)
+			);
+
+			if (isManual) continue;
+
+			this.openExits.set(position.id, {
+				userId: position.userId,
+				symbol: position.token.symbol || 'Unknown',
+				tokenAddress: position.token.address,
+			});
+			this.exitPosition(position.id);
+		}
+	}
+
+	/**
+	 * Retry the exits of rugged positions that are still open; forget the ones that closed
+	 */
+	private retryExits(): void {
+		for (const positionId of [...this.openExits.keys()]) {
+			if (!positionManager.getPosition(positionId)) {
+				this.openExits.delete(positionId);
+				this.retryNotified.delete(positionId);
+				continue;
+			}
+			this.exitPosition(positionId);
+		}
+	}
+
+	/**
+	 * Sell a rugged position unless its exit is already in flight
+	 * The PNL monitor reports a confirmed or failed sell; a skipped one (another sell pending) is retried on the next check
+	 */
+	private exitPosition(positionId: string): void {
+		const exit = this.openExits.get(positionId);
+		if (!exit || this.exiting.has(positionId)) return;
+		this.exiting.add(positionId);
+
+		pnlMonitorEngine
+			.executeRugSell(positionId)
+			.then(async (sold) => {
+				if (sold) {
+					this.openExits.delete(positionId);
+					this.retryNotified.delete(positionId);
+					return;
+				}
+				if (this.retryNotified.has(positionId)) return;
+
+				this.retryNotified.add(positionId);
+				await this.notify(
+					exit.userId,
+					`⚠️ <b>Rug Exit Not Done</b>\n\n` +
+					`<b>Token:</b> ${exit.symbol}\n` +
+					`<code>${exit.tokenAddress}</code>\n\n` +
+					`The position could not be sold yet. Retrying every ${this.intervalMs / 1000}s until it closes.`
+				);
+			})
+			.catch((error: any) => {
+				logger.error(`Rug exit of ${positionId} failed: ${error.message}`);
+			})
+			.finally(() => this.exiting.delete(positionId));
+	}
+
+	/**
+	 * Send a notification to a position's owner
+	 */
+	private async notify(userId: string, message: string): Promise<void> {
+		try {
+			const user = await User.findById(userId);
+			if (!user) return;
+
+			await bot.sendMessage(user.chatId, message, { parse_mode: 'HTML' });
+		} catch (error: any) {
+			logger.error(`Failed to send rug notification: ${error.message}`);
+		}
+	}
+}
+
+// Singleton instance
+export const rugWatchdog = new RugWatchdog();
@@ -1,11 +1,78 @@
 import { ethers } from 'ethers';
+import mongoose from 'mongoose';
 import { config } from '../config/config';
 import { logger } from '../utils/logger';
-import { ScannedToken, IScannedToken } from '../database/models/scanned-token.model';
-import { Order } from '../database/models/order.model';
-import { IWallet } from '../database/models/wallet.model';
+import { ScannedToken, IScannedTokenSkip, LeanScannedToken } from '../database/models/scanned-token.model';
+import { ScannerState } from '../database/models/scanner-state.model';
+import { Order, LeanOrder } from '../database/models/order.model';
 import { getProvider } from '../core/wallet';
+import { providerPool } from '../core/rpc';
 import { executeBuyOrder } from '../core/order/order.executor';
+import {
+	checkOrderFilters,
+	checkPendingEligibility,
+	orderNeedsCreator,
+	orderNeedsOwnership,
+	TokenSafetyInfo,
+} from '../core/order/order.filter';
+import { tokenValidator } from '../core/token/token.validator';
+import {
+	findFourMemeTokenCreation,
+	getFourMemeTokenCreator,
+	getTopTokenHolders,
+	isOwnershipRenounced,
+	isTokenRugged,
+	parseFourMemeMigration,
+	getPendingMigrationLiquidity,
+	PendingMigrationLiquidity,
+} from '../core/token/token.service';
+import { TransactionType, transactionQueue } from '../core/classes';
+import { DEV_TOP_HOLDERS } from '../config/constants';
+
+/**
+ * Migration seen in the mempool, waiting for its block
+ */
+interface PendingDetection {
+	tokenAddress: string;
+	detectedAtBlock: number;
+	actedOrderIds: Set<string>; // Orders that already tried to buy the pending migration
+	liquidity: PendingMigrationLiquidity | null; // Pair reserves the migration creates (null if it could not be traced)
+	processing: Promise<void>; // Trace, token record and opted-in buys; the block confirmation waits for it
+}
+
+/**
+ * Detection options
+ * - pending: migration seen in the mempool, not mined yet
+ * - skipAutoBuy: record the token only (backfilled migration that is too old to buy)
+ */
+interface DetectionOptions {
+	pending?: boolean;
+	skipAutoBuy?: boolean;
+}
+
+/**
+ * Auto-buy options
+ * - pendingDetection: buy a mempool migration (only orders that opted in)
+ * - excludeOrderIds: orders to leave out (already acted on the pending detection)
+ */
+interface AutoBuyOptions {
+	pendingDetection?: PendingDetection;
+	excludeOrderIds?: Set<string>;
+}
+
+/**
+ * Block handed to block listeners, with its full transactions
+ */
+export interface ScannedBlock {
+	number: number;
+	timestamp: number;
+	transactions: ethers.providers.TransactionResponse[];
+}
+
+/**
+ * Block listener - backfill is true for blocks re-read after a reconnect gap
+ */
+export type BlockListener = (block: ScannedBlock, backfill: boolean) => void;
 
 /**
  * Scanner Service
@@ -16,10 +83,23 @@ class ScannerService {
 	private wsProvider: ethers.providers.WebSocketProvider | null = null;
 	private httpProvider: ethers.providers.JsonRpcProvider | null = null;
 	private onTokenDetectedCallback: ((tokenData: TokenDetectionData) => void) | null = null;
+	private blockListeners: BlockListener[] = [];
+
+	// Mempool mode: pending migrations by transaction hash
+	private pendingDetections: Map<string, PendingDetection> = new Map();
+	private lastBlockNumber = 0;
+
+	// Reconnect / backfill state
+	private readonly CURSOR_KEY = 'four-meme-scanner';
+	private cursor = 0; // Every block up to here has been scanned
+	private scanningBlocks: Set<number> = new Set(); // Live blocks still being scanned
+	private completedBlocks: Set<number> = new Set(); // Blocks above the cursor that finished scanning
+	private backfilling = false;
+	private reconnectAttempts = 0;
+	private reconnectTimer: NodeJS.Timeout | null = null;
 
 	// Four.Meme Contract on BSC
 	private readonly FOUR_MEME_FACTORY_ADDRESS = '0x5c952063c7fc8610FFDB798152D69F0B9550762b';
-	private readonly ADD_LIQ_METHOD_ID = '0xe3412e3d'; // addLiquidity(address)
 
 	// ERC20 ABI for token details
 	private readonly ERC20_ABI = [
@@ -41,32 +121,19 @@ class ScannerService {
 		try {
 			logger.info('🔍 Starting Four.meme Scanner...');
 
-			// Create WebSocket provider for REAL-TIME block events
-			const wsUrl = config.bsc.rpcWssUrl;
-			logger.info(`Connecting to WebSocket: ${wsUrl}`);
-
-			this.wsProvider = new ethers.providers.WebSocketProvider(wsUrl);
-
-			// Create HTTP provider as backup for token data fetching
-			this.httpProvider = new ethers.providers.JsonRpcProvider(config.bsc.rpcHttpUrl);
-
-			// Setup WebSocket error handlers
-			this.wsProvider._websocket.on('error', (error: any) => {
-				logger.error('🔴 WebSocket error:', error.message);
-			});
-
-			this.wsProvider._websocket.on('close', () => {
-				logger.warning('⚠️ WebSocket connection closed');
-			});
+			// Pooled HTTP provider for token data fetching and backfills
+			this.httpProvider = getProvider();
 
-			// Listen for new blocks in REAL-TIME (like Alert Engine)
-			this.wsProvider.on('block', async (blockNumber) => {
-				logger.info(`🔍 NEW BLOCK: ${blockNumber} - Scanning...`);
-				await this.scanBlock(blockNumber);
-			});
+			// Resume from the persisted cursor - blocks missed while offline are backfilled on the first block
+			this.cursor = await this.loadCursor();
+			if (this.cursor > 0) {
+				logger.info(`📍 Last scanned block: ${this.cursor}`);
+			}
 
 			this.isRunning = true;
-			logger.success('✅ Scanner started successfully (WebSocket real-time mode)');
+			this.connect();
+
+			logger.success(`✅ Scanner started successfully (WebSocket real-time mode, ${config.monitoring.scannerMode} detection)`);
 			logger.success('⚡ Real-time block detection active!');
 		} catch (error: any) {
 			logger.error('❌ Failed to start scanner:', error.message);
@@ -84,6 +151,12 @@ class ScannerService {
 
 		try {
 			logger.info('🛑 Stopping scanner...');
+			this.isRunning = false;
+
+			if (this.reconnectTimer) {
+				clearTimeout(this.reconnectTimer);
+				this.reconnectTimer = null;
+			}
 
 			if (this.wsProvider) {
 				this.wsProvider.removeAllListeners();
@@ -91,14 +164,233 @@ class ScannerService {
 				this.wsProvider = null;
 			}
 
+			await this.saveCursor();
+
 			this.httpProvider = null;
-			this.isRunning = false;
+			this.pendingDetections.clear();
+			this.scanningBlocks.clear();
+			this.completedBlocks.clear();
 			logger.success('✅ Scanner stopped');
 		} catch (error: any) {
 			logger.error('❌ Error stopping scanner:', error.message);
 		}
 	}
 
+	/**
+	 * Open the WebSocket and subscribe to blocks (and pending transactions in mempool mode)
+	 */
+	private connect(): void {
+		// Create WebSocket provider for REAL-TIME block events
+		const wsUrl = providerPool.getWssUrl();
+		logger.info(`Connecting to WebSocket: ${wsUrl}`);
+
+		const wsProvider = new ethers.providers.WebSocketProvider(wsUrl);
+		this.wsProvider = wsProvider;
+
+		// Setup WebSocket handlers
+		wsProvider._websocket.on('open', () => {
+			this.reconnectAttempts = 0;
+			logger.success('🟢 WebSocket connected');
+		});
+
+		wsProvider._websocket.on('error', (error: any) => {
+			logger.error('🔴 WebSocket error:', error.message);
+		});
+
+		wsProvider._websocket.on('close', (code: number) => {
+			logger.warning(`⚠️ WebSocket connection closed (code ${code})`);
+
+			// Ignore close events of sockets that were already replaced
+			if (this.wsProvider === wsProvider) {
+				this.scheduleReconnect();
+			}
+		});
+
+		// Listen for new blocks in REAL-TIME (like Alert Engine)
+		wsProvider.on('block', async (blockNumber: number) => {
+			logger.info(`🔍 NEW BLOCK: ${blockNumber} - Scanning...`);
+			this.scanningBlocks.add(blockNumber);
+			this.checkForGap(blockNumber);
+
+			// A block that failed to scan leaves a gap, so it gets backfilled with the next one
+			const scanned = await this.scanBlock(blockNumber);
+			this.scanningBlocks.delete(blockNumber);
+			if (scanned) {
+				await this.markScanned(blockNumber);
+			}
+		});
+
+		// Mempool mode: catch migrations before they are mined (newPendingTransactions)
+		if (config.monitoring.scannerMode === 'mempool') {
+			wsProvider.on('pending', async (txHash: string) => {
+				await this.handlePendingTransaction(txHash);
+			});
+		}
+	}
+
+	/**
+	 * Reconnect the WebSocket with exponential backoff
+	 */
+	private scheduleReconnect(): void {
+		if (!this.isRunning || this.reconnectTimer) {
+			return;
+		}
+
+		const { scannerReconnectBaseMs, scannerReconnectMaxMs } = config.monitoring;
+		const delay = Math.min(scannerReconnectBaseMs * Math.pow(2, this.reconnectAttempts), scannerReconnectMaxMs);
+		this.reconnectAttempts++;
+
+		// Try the next WebSocket endpoint, if more than one is configured
+		providerPool.rotateWssUrl();
+
+		logger.warning(`🔄 Reconnecting WebSocket in ${(delay / 1000).toFixed(1)}s (attempt ${this.reconnectAttempts})`);
+
+		this.reconnectTimer = setTimeout(() => {
+			this.reconnectTimer = null;
+			if (!this.isRunning) return;
+
+			// Drop the dead socket without waiting for it (destroy() can hang on a socket that never opened)
+			const previous = this.wsProvider;
+			this.wsProvider = null;
+			if (previous) {
+				previous.removeAllListeners();
+				previous.destroy().catch(() => undefined);
+			}
+
+			try {
+				this.connect();
+			} catch (error: any) {
+				logger.error('❌ WebSocket reconnect failed:', error.message);
+				this.scheduleReconnect();
+			}
+		}, delay);
+	}
+
+	/**
+	 * Whether a block above the cursor is scanned or still being scanned live
+	 */
+	private isBlockCovered(blockNumber: number): boolean {
+		return this.completedBlocks.has(blockNumber) || this.scanningBlocks.has(blockNumber);
+	}
+
+	/**
+	 * Start a backfill when a live block arrives after a gap (outage, restart, skipped head or failed scan)
+	 * Blocks that are still being scanned live are not a gap - they complete out of order
+	 */
+	private checkForGap(blockNumber: number): void {
+		if (this.backfilling || this.cursor === 0) {
+			return;
+		}
+
+		let fromBlock = this.cursor + 1;
+		const toBlock = blockNumber - 1;
+		while (fromBlock <= toBlock && this.isBlockCovered(fromBlock)) {
+			fromBlock++;
+		}
+		if (fromBlock > toBlock) {
+			return;
+		}
+
+		const maxBlocks = config.monitoring.scannerMaxBackfillBlocks;
+		if (toBlock - fromBlock + 1 > maxBlocks) {
+			logger.warning(`⚠️ Gap of ${toBlock - fromBlock + 1} blocks exceeds backfill limit - skipping blocks ${fromBlock}-${toBlock - maxBlocks}`);
+			fromBlock = toBlock - maxBlocks + 1;
+			this.cursor = fromBlock - 1;
+		}
+
+		this.backfill(fromBlock, toBlock);
+	}
+
+	/**
+	 * Scan missed blocks over HTTP, oldest first
+	 * Blocks scanned or being scanned live are skipped; the cursor follows the completed blocks
+	 */
+	private async backfill(fromBlock: number, toBlock: number): Promise<void> {
+		this.backfilling = true;
+		logger.info(`⏪ Backfilling blocks ${fromBlock}-${toBlock} (${toBlock - fromBlock + 1} blocks)...`);
+
+		try {
+			for (let blockNumber = fromBlock; blockNumber <= toBlock; blockNumber++) {
+				if (!this.isRunning) return;
+				if (blockNumber <= this.cursor || this.isBlockCovered(blockNumber)) continue;
+
+				if (!(await this.scanBlock(blockNumber, true))) {
+					// Resumed from the first missing block with the next live block
+					throw new Error(`failed to scan block ${blockNumber}`);
+				}
+				await this.markScanned(blockNumber, (blockNumber - fromBlock) % 50 === 49);
+			}
+
+			logger.success(`✅ Backfill complete: blocks ${fromBlock}-${toBlock}`);
+		} catch (error: any) {
+			logger.error(`❌ Backfill stopped at block ${this.cursor}:`, error.message);
+		} finally {
+			this.backfilling = false;
+			await this.saveCursor();
+		}
+	}
+
+	/**
+	 * Record a scanned block and move the cursor over the contiguous run of completed blocks
+	 * @param blockNumber - Block that finished scanning
+	 * @param persist - Save the cursor if it moved (backfills only save every few blocks)
+	 */
+	private async markScanned(blockNumber: number, persist: boolean = true): Promise<void> {
+		if (blockNumber <= this.cursor) {
+			return;
+		}
+
+		const previous = this.cursor;
+
+		// First block without a persisted cursor starts the sequence
+		if (this.cursor === 0) {
+			this.cursor = blockNumber;
+		} else {
+			this.completedBlocks.add(blockNumber);
+		}
+
+		while (this.completedBlocks.has(this.cursor + 1)) {
+			this.cursor++;
+		}
+		for (const completed of this.completedBlocks) {
+			if (completed <= this.cursor) this.completedBlocks.delete(completed);
+		}
+
+		if (persist && this.cursor !== previous) {
+			await this.saveCursor();
+		}
+	}
+
+	/**
+	 * Load the persisted cursor (0 if none)
+	 */
+	private async loadCursor(): Promise<number> {
+		try {
+			const state = await ScannerState.findOne({ key: this.CURSOR_KEY });
+			return state?.lastScannedBlock || 0;
+		} catch (error: any) {
+			logger.error('Failed to load scanner cursor:', error.message);
+			return 0;
+		}
+	}
+
+	/**
+	 * Persist the cursor
+	 */
+	private async saveCursor(): Promise<void> {
+		if (this.cursor === 0) return;
+
+		try {
+			await ScannerState.updateOne(
+				{ key: this.CURSOR_KEY },
+				{ $max: { lastScannedBlock: this.cursor } },
+				{ upsert: true }
+			);
+		} catch (error: any) {
+			logger.error('Failed to save scanner cursor:', error.message);
+		}
+	}
+
 	/**
 	 * Set callback for token detection
 	 */
@@ -106,18 +398,45 @@ class ScannerService {
 		this.onTokenDetectedCallback = callback;
 	}
 
+	/**
+	 * Subscribe to every scanned block, so other services reuse the scanner's block stream
+	 * Listeners run synchronously inside the scan - do slow work without awaiting it
+	 */
+	onBlock(listener: BlockListener): void {
+		this.blockListeners.push(listener);
+	}
+
 	/**
 	 * Scan a specific block for migrations
+	 * Backfilled blocks are read over HTTP; migrations older than the backfill age limit are recorded without auto-buy
+	 * @returns Whether the block was scanned
 	 */
-	private async scanBlock(blockNumber: number): Promise<void> {
+	private async scanBlock(blockNumber: number, backfill: boolean = false): Promise<boolean> {
 		try {
-			if (!this.wsProvider) {
-				return;
+			const provider = backfill ? this.httpProvider : this.wsProvider;
+			if (!provider) {
+				return false;
+			}
+
+			if (!backfill) {
+				this.lastBlockNumber = Math.max(this.lastBlockNumber, blockNumber);
 			}
 
-			const block = await this.wsProvider.getBlockWithTransactions(blockNumber);
+			const block = await provider.getBlockWithTransactions(blockNumber);
 			let fourMemeDetections = 0;
 
+			for (const listener of this.blockListeners) {
+				try {
+					listener(block, backfill);
+				} catch (error: any) {
+					logger.error(`Block listener failed on block ${blockNumber}:`, error.message);
+				}
+			}
+
+			const maxAge = config.monitoring.scannerBackfillAutoBuyMaxAge;
+			const blockAge = Math.floor(Date.now() / 1000) - block.timestamp;
+			const skipAutoBuy = backfill && (maxAge <= 0 || blockAge > maxAge);
+
 			for (const tx of block.transactions) {
 				if (!tx.to) continue;
 
@@ -128,12 +447,21 @@ class ScannerService {
 					logger.info(`🔵 Four.Meme TX detected in block ${blockNumber}: ${tx.hash} | Method: ${methodId}`);
 
 					// Check if it's addLiquidity method
-					if (methodId === this.ADD_LIQ_METHOD_ID) {
-						const tokenAddress = '0x' + tx.data.substring(34, 74);
+					const tokenAddress = parseFourMemeMigration(tx);
+					if (tokenAddress) {
 						logger.info(`🚨 MIGRATION DETECTED: ${tokenAddress} in tx ${tx.hash}`);
 
-						// Process the detected token
-						await this.processDetectedToken(tokenAddress, tx.hash, blockNumber);
+						if (this.pendingDetections.has(tx.hash)) {
+							// Already acted on from the mempool
+							await this.confirmPendingDetection(tx.hash, blockNumber);
+						} else {
+							if (skipAutoBuy) {
+								logger.info(`⏪ Backfilled migration is ${blockAge}s old - recording without auto-buy`);
+							}
+
+							// Process the detected token
+							await this.processDetectedToken(tokenAddress, tx.hash, blockNumber, { skipAutoBuy });
+						}
 					}
 				}
 			}
@@ -141,8 +469,151 @@ class ScannerService {
 			if (fourMemeDetections > 0) {
 				logger.info(`🔍 Block ${blockNumber}: Found ${fourMemeDetections} Four.Meme transactions`);
 			}
+
+			if (!backfill) {
+				await this.expirePendingDetections(blockNumber);
+			}
+
+			return true;
 		} catch (error: any) {
 			logger.error(`Error scanning block ${blockNumber}:`, error.message);
+			return false;
+		}
+	}
+
+	/**
+	 * Check a pending transaction for a Four.meme migration (mempool mode)
+	 */
+	private async handlePendingTransaction(txHash: string): Promise<void> {
+		try {
+			if (!this.wsProvider || this.pendingDetections.has(txHash)) {
+				return;
+			}
+
+			const tx = await this.wsProvider.getTransaction(txHash);
+
+			// Already mined transactions are handled by the block scan
+			if (!tx || tx.blockNumber) return;
+
+			const tokenAddress = parseFourMemeMigration(tx);
+			if (!tokenAddress) return;
+
+			logger.info(`⏳ PENDING MIGRATION DETECTED: ${tokenAddress} in tx ${txHash}`);
+
+			// Claim the hash before tracing so a repeated notification is ignored
+			const detection: PendingDetection = {
+				tokenAddress,
+				detectedAtBlock: this.lastBlockNumber,
+				actedOrderIds: new Set(),
+				liquidity: null,
+				processing: Promise.resolve(),
+			};
+			this.pendingDetections.set(txHash, detection);
+			detection.processing = (async () => {
+				detection.liquidity = await getPendingMigrationLiquidity(tx, tokenAddress);
+				await this.processDetectedToken(tokenAddress, txHash, this.lastBlockNumber, { pending: true });
+			})();
+
+			await detection.processing;
+		} catch (error: any) {
+			logger.debug(`Error checking pending tx ${txHash}: ${error.message}`);
+		}
+	}
+
+	/**
+	 * A pending migration was mined: confirm it, or cancel it if it reverted
+	 * Orders that did not act on the pending detection get their normal auto-buy now
+	 */
+	private async confirmPendingDetection(txHash: string, blockNumber: number): Promise<void> {
+		const detection = this.pendingDetections.get(txHash);
+		if (!detection) return;
+
+		// The block can arrive while the pending detection is still being processed
+		await detection.processing.catch(() => undefined);
+		if (this.pendingDetections.get(txHash) !== detection) return; // Confirmed or cancelled meanwhile
+		this.pendingDetections.delete(txHash);
+
+		try {
+			const provider = this.httpProvider || getProvider();
+			const receipt = await provider.getTransactionReceipt(txHash);
+			if (receipt && receipt.status !== 1) {
+				await this.cancelPendingDetection(txHash, detection, 'migration transaction reverted');
+				return;
+			}
+
+			const token = await ScannedToken.findOneAndUpdate(
+				{ address: detection.tokenAddress.toLowerCase() },
+				{ $set: { status: 'CONFIRMED', blockNumber } },
+				{ new: true }
+			);
+			if (!token) {
+				// The pending detection never got as far as recording the token - process it as a mined migration
+				await this.processDetectedToken(detection.tokenAddress, txHash, blockNumber);
+				return;
+			}
+
+			logger.success(`✅ Pending migration confirmed: ${token.symbol} in block ${blockNumber}`);
+
+			await this.executeAutoBuys(
+				ethers.utils.getAddress(detection.tokenAddress),
+				token.name || 'Unknown',
+				token.symbol || 'UNKNOWN',
+				token.decimals,
+				token.totalSupply || '0',
+				blockNumber,
+				{ excludeOrderIds: detection.actedOrderIds }
+			);
+
+			this.recordDevWallets(detection.tokenAddress, token.totalSupply || '0', blockNumber);
+		} catch (error: any) {
+			logger.error(`Error confirming pending migration ${txHash}:`, error.message);
+		}
+	}
+
+	/**
+	 * Cancel pending detections that were not mined in time
+	 */
+	private async expirePendingDetections(blockNumber: number): Promise<void> {
+		const timeoutBlocks = config.monitoring.pendingDetectionTimeoutBlocks;
+
+		for (const [txHash, detection] of this.pendingDetections) {
+			// Detected before the first block event
+			if (detection.detectedAtBlock === 0) {
+				detection.detectedAtBlock = blockNumber;
+				continue;
+			}
+
+			if (blockNumber - detection.detectedAtBlock >= timeoutBlocks) {
+				this.pendingDetections.delete(txHash);
+				await this.cancelPendingDetection(txHash, detection, `not mined within ${timeoutBlocks} blocks`);
+			}
+		}
+	}
+
+	/**
+	 * Cancel a pending detection: mark the token and drop pending buys that have not been sent yet
+	 */
+	private async cancelPendingDetection(txHash: string, detection: PendingDetection, reason: string): Promise<void> {
+		logger.warning(`🚫 Pending migration ${txHash} cancelled: ${reason}`);
+
+		const tokenAddress = detection.tokenAddress.toLowerCase();
+		const queued = transactionQueue
+			.getPendingTransactions()
+			.filter(
+				(tx) =>
+					tx.type === TransactionType.BUY &&
+					tx.params.pendingLiquidity &&
+					tx.params.token?.address.toLowerCase() === tokenAddress
+			);
+
+		for (const tx of queued) {
+			transactionQueue.cancel(tx.id, `Pending migration cancelled: ${reason}`);
+		}
+
+		try {
+			await ScannedToken.updateOne({ address: tokenAddress }, { $set: { status: 'CANCELLED' } });
+		} catch (error: any) {
+			logger.error(`Failed to mark ${tokenAddress} as cancelled:`, error.message);
 		}
 	}
 
@@ -152,8 +623,11 @@ class ScannerService {
 	private async processDetectedToken(
 		tokenAddress: string,
 		transactionHash: string,
-		blockNumber: number
+		blockNumber: number,
+		options: DetectionOptions = {}
 	): Promise<void> {
+		const { pending = false, skipAutoBuy = false } = options;
+
 		try {
 			// Check if token already exists
 			const existingToken = await ScannedToken.findOne({
@@ -161,8 +635,13 @@ class ScannerService {
 			});
 
 			if (existingToken) {
-				logger.debug(`Token ${tokenAddress} already scanned`);
-				return;
+				if (existingToken.status !== 'CANCELLED') {
+					logger.debug(`Token ${tokenAddress} already scanned`);
+					return;
+				}
+
+				// An earlier pending migration was dropped - this one replaces it
+				await ScannedToken.deleteOne({ _id: existingToken._id });
 			}
 
 			// Use HTTP provider for token data (more reliable than WebSocket for contract calls)
@@ -189,13 +668,30 @@ class ScannerService {
 				totalSupply: totalSupply.toString(),
 				transactionHash,
 				blockNumber,
+				status: pending ? 'PENDING' : 'CONFIRMED',
 				scannedAt: new Date(),
 			});
 
-			logger.success(`✅ Saved token ${symbol} to database`);
+			logger.success(`✅ Saved token ${symbol} to database${pending ? ' (pending)' : ''}`);
 
-			// Execute auto-buys for this token
-			await this.executeAutoBuys(checksumAddress, symbol);
+			// Execute auto-buys for this token (only opted-in orders while pending)
+			if (!skipAutoBuy) {
+				const pendingDetection = pending ? this.pendingDetections.get(transactionHash) : undefined;
+				await this.executeAutoBuys(
+					checksumAddress,
+					name,
+					symbol,
+					decimals,
+					totalSupply.toString(),
+					blockNumber,
+					pendingDetection ? { pendingDetection } : {}
+				);
+			}
+
+			// Pending migrations are resolved once their block is known (confirmPendingDetection)
+			if (!pending && !skipAutoBuy) {
+				this.recordDevWallets(checksumAddress, totalSupply.toString(), blockNumber);
+			}
 
 			// Trigger callback if set
 			if (this.onTokenDetectedCallback) {
@@ -208,6 +704,7 @@ class ScannerService {
 					transactionHash,
 					blockNumber,
 					scannedAt: new Date(),
+					pending,
 				};
 
 				this.onTokenDetectedCallback(tokenData);
@@ -217,17 +714,45 @@ class ScannerService {
 		}
 	}
 
+	/**
+	 * Resolve and save the creator and largest initial holders of a migrated token (watched by the dev wallet watcher)
+	 * Runs in the background: the log scan back to the token's creation can take a while
+	 */
+	private recordDevWallets(tokenAddress: string, totalSupply: string, blockNumber: number): void {
+		const resolve = async () => {
+			const token = await ScannedToken.findOne({ address: tokenAddress.toLowerCase() });
+			if (!token || token.devWalletsResolvedAt) return;
+
+			const creation = await findFourMemeTokenCreation(tokenAddress, blockNumber);
+			if (!creation) {
+				logger.warning(`Dev wallets of ${token.symbol} not recorded: creation event not found`);
+				return;
+			}
+
+			const topHolders = await getTopTokenHolders(tokenAddress, creation.blockNumber, blockNumber, totalSupply, DEV_TOP_HOLDERS);
+
+			await ScannedToken.updateOne(
+				{ _id: token._id },
+				{ $set: { creator: creation.creator, topHolders, devWalletsResolvedAt: new Date() } }
+			);
+
+			logger.info(`🕵️ Dev wallets of ${token.symbol}: creator ${creation.creator} + ${topHolders.length} top holder(s)`);
+		};
+
+		resolve().catch((error: any) => {
+			logger.error(`Failed to record dev wallets of ${tokenAddress}:`, error.message);
+		});
+	}
+
 	/**
 	 * Get latest scanned tokens
 	 */
-	async getLatestTokens(limit: number = 10): Promise<IScannedToken[]> {
+	async getLatestTokens(limit: number = 10): Promise<LeanScannedToken[]> {
 		try {
-			const tokens = await ScannedToken.find()
+			return await ScannedToken.find({ status: { $ne: 'CANCELLED' } })
 				.sort({ scannedAt: -1 })
 				.limit(limit)
-				.lean();
-
-			return tokens as any;
+				.lean<LeanScannedToken[]>();
 		} catch (error: any) {
 			logger.error('Error fetching latest tokens:', error.message);
 			return [];
@@ -255,23 +780,57 @@ class ScannerService {
 
 	/**
 	 * Execute auto-buys for detected token
-	 * Finds active orders with autoBuy ON, sorts by gas and amount, executes with delays
+	 * Finds active orders with autoBuy ON, applies each order's safety filters, sorts by gas and amount, executes with delays
 	 */
-	private async executeAutoBuys(tokenAddress: string, tokenSymbol: string): Promise<void> {
+	private async executeAutoBuys(
+		tokenAddress: string,
+		tokenName: string,
+		tokenSymbol: string,
+		decimals: number,
+		totalSupply: string,
+		blockNumber: number,
+		options: AutoBuyOptions = {}
+	): Promise<void> {
 		try {
-			logger.info(`🤖 Checking for auto-buy orders...`);
+			const { pendingDetection, excludeOrderIds } = options;
+			logger.info(`🤖 Checking for ${pendingDetection ? 'pending-migration ' : ''}auto-buy orders...`);
 
 			// Find active orders with autoBuy enabled
-			const activeOrders = await Order.find({
+			const orders = await Order.find({
 				isActive: true,
 				autoBuy: true,
+				...(pendingDetection ? { actOnPending: true } : {}),
 			})
 				.populate('walletId')
 				.sort({
 					'gasFee.gasPrice': -1, // Highest gas first (fastest)
 					tradingAmount: -1, // Largest amounts first
 				})
-				.lean();
+				.lean<LeanOrder[]>();
+
+			let activeOrders = excludeOrderIds
+				? orders.filter((order) => !excludeOrderIds.has(order._id.toString()))
+				: orders;
+
+			// Without the migration's amounts there is no minimum output: every order waits for the mined pair
+			if (pendingDetection && !pendingDetection.liquidity) {
+				logger.warning(`⏳ Liquidity of the pending ${tokenSymbol} migration is unknown - orders wait for the confirmed migration`);
+				return;
+			}
+
+			// Claim pending-eligible orders up front so the confirmation pass never buys for them again
+			// Ineligible orders are evaluated once the migration is mined
+			if (pendingDetection) {
+				activeOrders = activeOrders.filter((order) => {
+					const eligibility = checkPendingEligibility(order);
+					if (!eligibility.valid) {
+						logger.info(`⏳ Order ${order.name} waits for the confirmed migration: ${eligibility.error}`);
+						return false;
+					}
+					pendingDetection.actedOrderIds.add(order._id.toString());
+					return true;
+				});
+			}
 
 			if (activeOrders.length === 0) {
 				logger.info('No active auto-buy orders found');
@@ -280,24 +839,66 @@ class ScannerService {
 
 			logger.success(`✅ Found ${activeOrders.length} auto-buy order(s)`);
 
+			const skippedOrders: IScannedTokenSkip[] = [];
+			const skipOrder = (order: LeanOrder, reason: string) => {
+				logger.warning(`⛔ Skipping order ${order.name} for ${tokenSymbol}: ${reason}`);
+				skippedOrders.push({
+					orderId: order._id,
+					userId: order.userId,
+					orderName: order.name,
+					reason,
+					skippedAt: new Date(),
+				});
+			};
+
+			// Gather token safety data once; executeBuyOrder reuses the stored validation
+			const safetyInfo = await this.getTokenSafetyInfo(
+				tokenAddress,
+				tokenName,
+				tokenSymbol,
+				decimals,
+				totalSupply,
+				blockNumber,
+				activeOrders,
+				!!pendingDetection
+			);
+
+			if (!safetyInfo.info) {
+				for (const order of activeOrders) {
+					skipOrder(order, safetyInfo.error || 'Token validation failed');
+				}
+				await this.saveSafetyResult(tokenAddress, null, skippedOrders);
+				return;
+			}
+
 			// Execute each order with 250ms delay between them
 			for (let i = 0; i < activeOrders.length; i++) {
-				const order = activeOrders[i] as any;
-				const wallet = order.walletId as IWallet;
+				const order = activeOrders[i];
+				const wallet = order.walletId;
 
-				if (!wallet) {
+				if (!wallet || wallet instanceof mongoose.Types.ObjectId) {
 					logger.error(`❌ Order ${order._id} has invalid wallet`);
 					continue;
 				}
 
 				const orderNumber = i + 1;
+
+				const filterCheck = checkOrderFilters(order, safetyInfo.info);
+				if (!filterCheck.valid) {
+					skipOrder(order, filterCheck.error || 'Filtered out');
+					continue;
+				}
+
 				logger.info(
 					`🚀 [${orderNumber}/${activeOrders.length}] Executing auto-buy for Order: ${order.name} | Wallet: ${wallet.address.substring(0, 10)}... | Amount: ${order.tradingAmount} BNB | Gas: ${order.gasFee.gasPrice} Gwei`
 				);
 
 				try {
 					// Execute the buy order
-					const result = await executeBuyOrder(order, wallet, tokenAddress);
+					const result = await executeBuyOrder(order, wallet, tokenAddress, {
+						pendingLiquidity: !!pendingDetection,
+						pendingReserves: pendingDetection?.liquidity || undefined,
+					});
 
 					if (result.success) {
 						logger.success(
@@ -322,11 +923,87 @@ class ScannerService {
 				}
 			}
 
+			await this.saveSafetyResult(tokenAddress, safetyInfo.info, skippedOrders);
+
 			logger.success(`✅ Completed ${activeOrders.length} auto-buy order(s) for ${tokenSymbol}`);
 		} catch (error: any) {
 			logger.error('Error executing auto-buys:', error.message);
 		}
 	}
+
+	/**
+	 * Gather the data needed by order filters for a detected token
+	 * Creator and ownership are only looked up when at least one order filters on them
+	 * Pending migrations have no pair yet, so validation (liquidity, simulation) is skipped
+	 */
+	private async getTokenSafetyInfo(
+		tokenAddress: string,
+		tokenName: string,
+		tokenSymbol: string,
+		decimals: number,
+		totalSupply: string,
+		blockNumber: number,
+		orders: LeanOrder[],
+		pending: boolean = false
+	): Promise<{ info?: TokenSafetyInfo; error?: string }> {
+		if (await isTokenRugged(tokenAddress)) {
+			return { error: 'Token was rugged (liquidity pulled)' };
+		}
+
+		const validation = pending
+			? { isValid: true, liquidityBnb: 0, simulation: undefined, error: undefined }
+			: await tokenValidator.validateToken(tokenAddress);
+		if (!validation.isValid) {
+			return { error: validation.error || 'Token validation failed' };
+		}
+
+		const [creator, ownershipRenounced] = await Promise.all([
+			orders.some(orderNeedsCreator) ? getFourMemeTokenCreator(tokenAddress, blockNumber) : Promise.resolve(null),
+			orders.some(orderNeedsOwnership) ? isOwnershipRenounced(tokenAddress) : Promise.resolve(null),
+		]);
+
+		return {
+			info: {
+				address: tokenAddress,
+				name: tokenName,
+				symbol: tokenSymbol,
+				totalSupply: parseFloat(ethers.utils.formatUnits(totalSupply, decimals)),
+				liquidityBnb: validation.liquidityBnb || 0,
+				creator,
+				ownershipRenounced,
+				simulation: validation.simulation,
+			},
+		};
+	}
+
+	/**
+	 * Store filter inputs and per-order skip reasons on the ScannedToken record
+	 */
+	private async saveSafetyResult(
+		tokenAddress: string,
+		info: TokenSafetyInfo | null,
+		skippedOrders: IScannedTokenSkip[]
+	): Promise<void> {
+		try {
+			await ScannedToken.updateOne(
+				{ address: tokenAddress.toLowerCase() },
+				{
+					...(info
+						? {
+							$set: {
+								liquidityBnb: info.liquidityBnb,
+								ownershipRenounced: info.ownershipRenounced,
+								...(info.creator ? { creator: info.creator } : {}), // Never clear a creator found by recordDevWallets
+							},
+						}
+						: {}),
+					$push: { skippedOrders: { $each: skippedOrders } },
+				}
+			);
+		} catch (error: any) {
+			logger.error(`Failed to save auto-buy filter log for ${tokenAddress}:`, error.message);
+		}
+	}
 }
 
 /**
@@ -341,6 +1018,7 @@ export interface TokenDetectionData {
 	transactionHash: string;
 	blockNumber: number;
 	scannedAt: Date;
+	pending: boolean; // Seen in the mempool, not mined yet
 }
 
 /**
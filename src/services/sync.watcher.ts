@@ -0,0 +1,252 @@
+import { ethers } from 'ethers';
+import { positionManager } from '../core/position/position.manager';
+import { getPairReservesBatch } from '../core/price/pair.service';
+import { providerPool } from '../core/rpc';
+import { logger } from '../utils/logger';
+import { PANCAKESWAP_PAIR_ABI } from '../abi/pancakeswap-pair.abi';
+
+/**
+ * Called with a token's new price in BNB whenever its WBNB pair emits Sync
+ */
+export type PriceUpdateHandler = (tokenAddress: string, priceInBnb: number) => void;
+
+interface PairSubscription {
+	pairAddress: string;
+	isToken0: boolean;
+	filter: ethers.EventFilter;
+	listener: (log: ethers.providers.Log) => void;
+}
+
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 60000;
+const RECONCILE_DEBOUNCE_MS = 500;
+
+/**
+ * Pair Sync Watcher
+ * Subscribes to Sync(uint112,uint112) on the WBNB pairs of all open positions and
+ * turns every reserve change into a price update. The subscribed set follows
+ * positionManager: pairs are added when a position opens and dropped when the
+ * last position on the token closes.
+ */
+export class SyncWatcher {
+	private wsProvider: ethers.providers.WebSocketProvider | null = null;
+	private subscriptions: Map<string, PairSubscription> = new Map(); // tokenAddress => subscription
+	private pairInterface = new ethers.utils.Interface(PANCAKESWAP_PAIR_ABI);
+	private syncTopic = this.pairInterface.getEventTopic('Sync');
+	private onPrice: PriceUpdateHandler | null = null;
+	private isRunning: boolean = false;
+	private reconnectAttempts: number = 0;
+	private reconnectTimer: NodeJS.Timeout | null = null;
+	private reconcileTimer: NodeJS.Timeout | null = null;
+	private isReconciling: boolean = false;
+	private scheduleReconcile = () => this.requestReconcile();
+
+	/**
+	 * Start watching
+	 * @param onPrice - Receives token prices as reserves change
+	 */
+	start(onPrice: PriceUpdateHandler): void {
+		if (this.isRunning) {
+			logger.warning('Sync Watcher already running');
+			return;
+		}
+
+		this.isRunning = true;
+		this.onPrice = onPrice;
+
+		positionManager.on('added', this.scheduleReconcile);
+		positionManager.on('removed', this.scheduleReconcile);
+
+		this.connect();
+		logger.info('📡 Sync Watcher started (event-driven price updates)');
+	}
+
+	/**
+	 * Stop watching and drop all subscriptions
+	 */
+	async stop(): Promise<void> {
+		if (!this.isRunning) {
+			return;
+		}
+
+		this.isRunning = false;
+		positionManager.off('added', this.scheduleReconcile);
+		positionManager.off('removed', this.scheduleReconcile);
+
+		if (this.reconnectTimer) {
+			clearTimeout(this.reconnectTimer);
+			this.reconnectTimer = null;
+		}
+		if (this.reconcileTimer) {
+			clearTimeout(this.reconcileTimer);
+			this.reconcileTimer = null;
+		}
+
+		this.subscriptions.clear();
+		if (this.wsProvider) {
+			this.wsProvider.removeAllListeners();
+			await this.wsProvider.destroy().catch(() => undefined);
+			this.wsProvider = null;
+		}
+
+		logger.info('Sync Watcher stopped');
+	}
+
+	/**
+	 * Number of pairs currently subscribed
+	 */
+	getSubscriptionCount(): number {
+		return this.subscriptions.size;
+	}
+
+	/**
+	 * Bring the subscribed pair set in line with open positions
+	 * Also called by the PNL engine's fallback poll to repair any drift
+	 */
+	async reconcile(): Promise<void> {
+		const wsProvider = this.wsProvider;
+		if (!this.isRunning || !wsProvider || this.isReconciling) return;
+		this.isReconciling = true;
+
+		try {
+			const wanted = new Set(
+				positionManager.getAllOpenPositions().map((position) => position.token.address.toLowerCase())
+			);
+
+			for (const [tokenAddress, subscription] of this.subscriptions) {
+				if (!wanted.has(tokenAddress)) {
+					wsProvider.off(subscription.filter, subscription.listener);
+					this.subscriptions.delete(tokenAddress);
+					logger.debug(`📡 Unsubscribed from ${subscription.pairAddress} (${tokenAddress})`);
+				}
+			}
+
+			const missing = [...wanted].filter((tokenAddress) => !this.subscriptions.has(tokenAddress));
+			if (missing.length === 0) return;
+
+			const reservesByToken = await getPairReservesBatch(missing);
+			if (this.wsProvider !== wsProvider) return; // Reconnected meanwhile - the new socket reconciles itself
+
+			for (const tokenAddress of missing) {
+				const reserves = reservesByToken.get(tokenAddress);
+				if (!reserves) continue; // No pair yet - retried on the next reconcile
+
+				this.subscribe(wsProvider, tokenAddress, reserves.pairAddress, reserves.token0 === tokenAddress);
+			}
+
+			logger.info(`📡 Watching Sync on ${this.subscriptions.size} pair(s)`);
+		} catch (error: any) {
+			logger.error(`Sync Watcher reconcile failed: ${error.message}`);
+		} finally {
+			this.isReconciling = false;
+		}
+	}
+
+	/**
+	 * Subscribe to Sync events of one pair
+	 */
+	private subscribe(
+		wsProvider: ethers.providers.WebSocketProvider,
+		tokenAddress: string,
+		pairAddress: string,
+		isToken0: boolean
+	): void {
+		const filter = { address: pairAddress, topics: [this.syncTopic] };
+		const listener = (log: ethers.providers.Log) => {
+			try {
+				const { args } = this.pairInterface.parseLog(log);
+				const reserveToken: ethers.BigNumber = isToken0 ? args.reserve0 : args.reserve1;
+				const reserveWbnb: ethers.BigNumber = isToken0 ? args.reserve1 : args.reserve0;
+				if (reserveToken.isZero()) return;
+
+				// Same formula as the batch price service (both sides scaled by 1e18)
+				const priceInBnb =
+					parseFloat(ethers.utils.formatEther(reserveWbnb)) / parseFloat(ethers.utils.formatEther(reserveToken));
+				this.onPrice?.(tokenAddress, priceInBnb);
+			} catch (error: any) {
+				logger.debug(`Failed to decode Sync from ${pairAddress}: ${error.message}`);
+			}
+		};
+
+		wsProvider.on(filter, listener);
+		this.subscriptions.set(tokenAddress, { pairAddress, isToken0, filter, listener });
+	}
+
+	/**
+	 * Debounce reconciles triggered by bursts of position changes
+	 */
+	private requestReconcile(): void {
+		if (!this.isRunning || this.reconcileTimer) return;
+
+		this.reconcileTimer = setTimeout(() => {
+			this.reconcileTimer = null;
+			this.reconcile();
+		}, RECONCILE_DEBOUNCE_MS);
+	}
+
+	/**
+	 * Open the WebSocket and subscribe all pairs
+	 */
+	private connect(): void {
+		const wsUrl = providerPool.getWssUrl();
+		const wsProvider = new ethers.providers.WebSocketProvider(wsUrl);
+		this.wsProvider = wsProvider;
+		this.subscriptions.clear();
+
+		wsProvider._websocket.on('open', () => {
+			this.reconnectAttempts = 0;
+			logger.success('🟢 Sync Watcher WebSocket connected');
+			this.reconcile();
+		});
+
+		wsProvider._websocket.on('error', (error: any) => {
+			logger.error('🔴 Sync Watcher WebSocket error:', error.message);
+		});
+
+		wsProvider._websocket.on('close', (code: number) => {
+			logger.warning(`⚠️ Sync Watcher WebSocket closed (code ${code})`);
+
+			// Ignore close events of sockets that were already replaced
+			if (this.wsProvider === wsProvider) {
+				this.scheduleReconnect();
+			}
+		});
+	}
+
+	/**
+	 * Reconnect with exponential backoff; the fallback poll keeps prices moving meanwhile
+	 */
+	private scheduleReconnect(): void {
+		if (!this.isRunning || this.reconnectTimer) {
+			return;
+		}
+
+		const delay = Math.min(RECONNECT_BASE_MS * Math.pow(2, this.reconnectAttempts), RECONNECT_MAX_MS);
+		this.reconnectAttempts++;
+		providerPool.rotateWssUrl();
+
+		logger.warning(`🔄 Reconnecting Sync Watcher in ${(delay / 1000).toFixed(1)}s (attempt ${this.reconnectAttempts})`);
+
+		this.reconnectTimer = setTimeout(() => {
+			this.reconnectTimer = null;
+			if (!this.isRunning) return;
+
+			const previous = this.wsProvider;
+			this.wsProvider = null;
+			if (previous) {
+				previous.removeAllListeners();
+				previous.destroy().catch(() => undefined);
+			}
+
+			try {
+				this.connect();
+			} catch (error: any) {
+				logger.error('❌ Sync Watcher reconnect failed:', error.message);
+				this.scheduleReconnect();
+			}
+		}, delay);
+	}
+}
+
+// Singleton instance
+export const syncWatcher = new SyncWatcher();
@@ -0,0 +1,80 @@
+import { Position, Transaction } from '../database/models';
+import { B_Trading, B_Transaction, TransactionType as TxType, transactionQueue } from '../core/classes';
+import { TransactionResult } from '../core/classes/B_Transaction';
+import { positionManager } from '../core/position/position.manager';
+import { TransactionStatus, TransactionType } from '../config/constants';
+import { logger } from '../utils/logger';
+
+// A sell of at least this share of the tracked tokens closes the position and carries its whole cost basis
+const FULL_SELL_RATIO = 0.98;
+
+/**
+ * Trade Recorder
+ * Writes a SELL Transaction for every sell the queue completes - TP/SL, break-even, time limit,
+ * copy, dev dump, rug, panic and manual sells alike - with the cost basis of the tokens sold,
+ * so realized PNL survives the position document being deleted on close.
+ */
+export class TradeRecorder {
+	private registered: boolean = false;
+
+	/**
+	 * Listen for completed sells (call before transactionQueue.restore())
+	 */
+	register(): void {
+		if (this.registered) return;
+		this.registered = true;
+
+		transactionQueue.on('completed', (tx: B_Transaction, result: TransactionResult) => {
+			if (tx.type !== TxType.SELL || !tx.params.positionId || !result.txHash) return;
+
+			this.recordSell(tx, result).catch((error: any) => {
+				logger.error(`Failed to record sell ${result.txHash}: ${error.message}`);
+			});
+		});
+	}
+
+	/**
+	 * Record a completed sell with the cost basis of the tokens it sold
+	 * The in-memory position is read before any await: the seller closes it right after completion
+	 */
+	private async recordSell(tx: B_Transaction, result: TransactionResult): Promise<void> {
+		const positionId = tx.params.positionId!;
+		const soldTokens = parseFloat(tx.params.tokenAmount || '0');
+
+		const tracked = positionManager.getPosition(positionId);
+		const position = tracked
+			? { buyAmount: tracked.buyAmount, tokenAmount: tracked.tokenAmount, orderId: tracked.orderId }
+			: await Position.findById(positionId).select('buyAmount tokenAmount orderId').lean();
+
+		let costBasisBnb: number | null = null;
+		if (position && position.tokenAmount > 0) {
+			const ratio = soldTokens / position.tokenAmount;
+			costBasisBnb = position.buyAmount * (ratio >= FULL_SELL_RATIO ? 1 : ratio);
+		}
+
+		await Transaction.updateOne(
+			{ txHash: result.txHash },
+			{
+				$setOnInsert: {
+					userId: tx.params.userId || tx.params.wallet.userId,
+					walletId: tx.params.wallet.id,
+					positionId,
+					orderId: tx.params.orderId || position?.orderId || null,
+					type: TransactionType.SELL,
+					status: TransactionStatus.SUCCESS,
+					tokenAddress: tx.params.token?.address,
+					tokenSymbol: tx.params.token?.symbol || 'UNKNOWN',
+					amountBnb: parseFloat(result.bnbAmount || '0'),
+					amountToken: soldTokens,
+					gasFee: B_Trading.getGasFeeBnb(result),
+					costBasisBnb,
+					timestamp: new Date(),
+				},
+			},
+			{ upsert: true }
+		);
+	}
+}
+
+// Singleton instance
+export const tradeRecorder = new TradeRecorder();
@@ -139,6 +139,21 @@ export function formatTimeAgo(timestamp: Date | number): string {
 	return formatDate(date, false);
 }
 
+/**
+ * Format a duration (e.g., "3h 12m")
+ * @param ms - Duration in milliseconds
+ * @returns Duration string with the two largest units
+ */
+export function formatDuration(ms: number): string {
+	const seconds = Math.max(0, Math.floor(ms / 1000));
+
+	if (seconds < 60) return `${seconds}s`;
+	if (seconds < 3600) return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+	if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
+
+	return `${Math.floor(seconds / 86400)}d ${Math.floor((seconds % 86400) / 3600)}h`;
+}
+
 /**
  * Format transaction hash with BSCScan link
  * @param txHash - Transaction hash
@@ -231,3 +246,120 @@ export function formatStatus(status: string): string {
 
 	return statusMap[status.toUpperCase()] || status;
 }
+
+/**
+ * Format a stop loss level trigger, e.g. "-30%" or "Trail 20% (after +50%)"
+ * @param level - Fixed or trailing stop loss level
+ * @returns Trigger description (without the sell percentage)
+ */
+export function formatStopLossTrigger(level: {
+	pnlPercent: number;
+	trailing?: boolean;
+	activationPercent?: number | null;
+}): string {
+	if (!level.trailing) {
+		return `-${level.pnlPercent}%`;
+	}
+
+	return level.activationPercent != null
+		? `Trail ${level.pnlPercent}% (after +${level.activationPercent}%)`
+		: `Trail ${level.pnlPercent}%`;
+}
+
+/**
+ * Format a limit buy trigger, e.g. "Price ≤ 0.0000012000 BNB" or "MCap ≤ $50,000"
+ * @param limitOrder - Trigger type (PRICE | MARKET_CAP) and target value
+ * @returns Trigger description
+ */
+export function formatLimitTrigger(limitOrder: { triggerType: string; triggerValue: number }): string {
+	if (limitOrder.triggerType === 'MARKET_CAP') {
+		return `MCap ≤ $${formatWithCommas(limitOrder.triggerValue)}`;
+	}
+
+	return `Price ≤ ${limitOrder.triggerValue.toFixed(10)} BNB`;
+}
+
+/**
+ * Format an order's entry mode, e.g. "Single", "3× every 60s" or "3× at -10% steps"
+ * @param order - Entry mode settings
+ * @returns Entry mode description
+ */
+export function formatEntryMode(order: {
+	entryMode?: string;
+	entryTranches: number;
+	entryIntervalSeconds: number;
+	entryStepPercent: number;
+}): string {
+	if (order.entryMode === 'TIME') {
+		return `${order.entryTranches}× every ${order.entryIntervalSeconds}s`;
+	}
+
+	if (order.entryMode === 'PRICE') {
+		return `${order.entryTranches}× at -${order.entryStepPercent}% steps`;
+	}
+
+	return 'Single';
+}
+
+/**
+ * Format a sell retry ladder, e.g. "4 tries, +10% slip (max 49%), +25% gas (max 20 gwei)"
+ * @param ladder - Escalation settings
+ * @returns Ladder description
+ */
+export function formatSellRetryLadder(ladder: {
+	maxAttempts: number;
+	slippageStep: number;
+	maxSlippage: number;
+	gasStepPercent: number;
+	maxGasPrice: number;
+}): string {
+	if (ladder.maxAttempts <= 1) {
+		return 'No retries';
+	}
+
+	return `${ladder.maxAttempts} tries, +${ladder.slippageStep}% slip (max ${ladder.maxSlippage}%), +${ladder.gasStepPercent}% gas (max ${ladder.maxGasPrice} gwei)`;
+}
+
+/**
+ * Format a break-even stop setting, e.g. "✅ ON (lock +10%)"
+ * @param stop - Break-even stop settings (missing on orders created before the option)
+ * @returns Setting description
+ */
+export function formatBreakEvenStop(stop?: { enabled: boolean; lockProfitPercent: number }): string {
+	if (!stop?.enabled) {
+		return '❌ OFF';
+	}
+
+	return stop.lockProfitPercent > 0 ? `✅ ON (lock +${stop.lockProfitPercent}%)` : '✅ ON (break-even)';
+}
+
+/**
+ * Format a dev dump exit setting, e.g. "✅ ON (> 5% of supply)"
+ * @param exit - Dev dump exit settings (missing on orders created before the option)
+ * @returns Setting description
+ */
+export function formatDevDumpExit(exit?: { enabled: boolean; supplyPercent: number }): string {
+	return exit?.enabled ? `✅ ON (> ${exit.supplyPercent}% of supply)` : '❌ OFF';
+}
+
+/**
+ * Format copy-trade sizing, e.g. "0.05 BNB per buy (max 0.2 BNB/token)" or "25% of their BNB"
+ * @param watchedWallet - Sizing mode (FIXED | PROPORTIONAL), size and per-token cap
+ * @returns Sizing description
+ */
+export function formatCopySizing(watchedWallet: { sizingMode: string; sizeValue: number; maxPerToken: number }): string {
+	const size = watchedWallet.sizingMode === 'PROPORTIONAL'
+		? `${watchedWallet.sizeValue}% of their BNB`
+		: `${watchedWallet.sizeValue} BNB per buy`;
+
+	return watchedWallet.maxPerToken > 0 ? `${size} (max ${watchedWallet.maxPerToken} BNB/token)` : size;
+}
+
+/**
+ * Escape text for HTML parse mode
+ * @param text - Raw text
+ * @returns Escaped text
+ */
+export function escapeHtml(text: string): string {
+	return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}